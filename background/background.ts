@@ -1,9 +1,13 @@
 /// <reference types="chrome"/>
 
-// Minimal background service worker for Chrome extension
-// Currently no background functionality is needed
+// Background service worker for Chrome extension
+// Owns the database; content scripts reach it through the storage service
+
+import { registerStorageService } from "./storage-service";
 
 (() => {
+  registerStorageService();
+
   // Extension initialized
   console.log('Excali Organizer background script loaded');
-})();
\ No newline at end of file
+})();
@@ -0,0 +1,100 @@
+/// <reference types="chrome"/>
+
+/**
+ * Storage service - owns the database in the extension's origin and answers
+ * the content script's operation calls (shared/storage-client.ts)
+ */
+
+import {
+  canvasOperations,
+  tagOperations,
+  searchOperations,
+  fileOperations,
+  versionOperations,
+  templateOperations,
+  projectOperations,
+  trashOperations,
+  settingsOperations,
+  bulkOperations,
+  backupOperations,
+  dbUtils,
+  pageOriginMigrationOperations,
+  migrationOperations,
+  integrityOperations,
+  favoriteOperations,
+  recentCanvasOperations,
+  initializeDatabase,
+} from "../shared/unified-db";
+import {
+  StorageApi,
+  StorageRequest,
+  StorageResponse,
+  decodeStorageValue,
+  encodeStorageValue,
+  isStorageRequest,
+} from "../shared/storage-protocol";
+
+const storageApi: StorageApi = {
+  canvasOperations,
+  tagOperations,
+  searchOperations,
+  fileOperations,
+  versionOperations,
+  templateOperations,
+  projectOperations,
+  trashOperations,
+  settingsOperations,
+  bulkOperations,
+  backupOperations,
+  dbUtils,
+  pageOriginMigrationOperations,
+  migrationOperations,
+  integrityOperations,
+  favoriteOperations,
+  recentCanvasOperations,
+};
+
+// Settles once initializeDatabase is done (or failed), so no request runs during an upgrade
+let databaseReady: Promise<void> = Promise.resolve();
+
+async function handleStorageRequest(request: StorageRequest): Promise<StorageResponse> {
+  await databaseReady;
+
+  const { namespace, method } = request;
+  const operations = Object.prototype.hasOwnProperty.call(storageApi, namespace)
+    ? (storageApi[namespace] as unknown as Record<string, unknown>)
+    : undefined;
+  const operation = operations && Object.prototype.hasOwnProperty.call(operations, method)
+    ? operations[method]
+    : undefined;
+
+  if (typeof operation !== "function") {
+    return { ok: false, error: `Unknown storage operation ${namespace}.${method}` };
+  }
+
+  try {
+    const result = await operation.apply(operations, request.args.map(decodeStorageValue));
+    return { ok: true, result: encodeStorageValue(result) };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Open the database and start answering storage requests.
+ * Must run synchronously at worker startup so requests that woke the worker are heard.
+ */
+export function registerStorageService(): void {
+  chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
+    if (!isStorageRequest(message) || sender.id !== chrome.runtime.id) {
+      return false;
+    }
+
+    void handleStorageRequest(message).then(sendResponse);
+    return true; // Responds asynchronously
+  });
+
+  databaseReady = initializeDatabase().catch((error) => {
+    console.error("Storage service failed to open the database:", error);
+  });
+}
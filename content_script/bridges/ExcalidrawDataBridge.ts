@@ -4,6 +4,8 @@
  */
 
 import { UnifiedCanvas } from "../../shared/types";
+import { fileOperations } from "../../shared/storage-client";
+import { getReferencedFileIds } from "../../shared/utils";
 import {
   globalEventBus,
   InternalEventTypes,
@@ -15,6 +17,7 @@ import {
   BinaryFiles,
 } from "../../shared/excalidraw-types";
 import { v4 as uuidv4 } from "uuid";
+import { injectSceneIntoPage, onPageSceneStored } from "./PageSceneBridge";
 
 export interface ExcalidrawData {
   elements: readonly ExcalidrawElement[];
@@ -22,6 +25,14 @@ export interface ExcalidrawData {
   files?: BinaryFiles;
 }
 
+/**
+ * How a loaded canvas reaches the editor:
+ * - "none": storage only; Excalidraw reads it on its next start
+ * - "reload": storage, then a page reload
+ * - "live": storage, then straight into the running editor; reloads only if that fails
+ */
+export type CanvasLoadMode = "none" | "reload" | "live";
+
 export interface ExcalidrawSyncOptions {
   autoSave: boolean;
   syncInterval: number; // milliseconds
@@ -30,6 +41,10 @@ export interface ExcalidrawSyncOptions {
   retryDelay: number; // milliseconds
 }
 
+// Excalidraw keeps binary files (images) in its own IndexedDB, created via idb-keyval
+const EXCALIDRAW_FILES_DB = "files-db";
+const EXCALIDRAW_FILES_STORE = "files-store";
+
 interface PendingOperation {
   operationId: string;
   canvasId: string;
@@ -55,12 +70,18 @@ export class ExcalidrawDataBridge {
   private processingQueue: boolean = false;
   private syncInProgress: boolean = false;
   private autoSyncSuspended: boolean = false;
+  // Another excalidraw.com tab wrote the shared scene keys after this tab's editor last did
+  private foreignSceneInStorage: boolean = false;
+  private sceneStoredUnsubscribe: (() => void) | null = null;
 
   // Canvas operation coordination
   private pendingOperations: Map<string, PendingOperation> = new Map();
   private operationIdMap: Map<string, string> = new Map(); // operationId -> canvasKey for O(1) lookup
   private currentCanvasContext: string | null = null;
+  // Stored copy the editor's scene is based on; auto-saves use it to spot saves from other tabs
+  private canvasBase: { updatedAt: number; elements: readonly ExcalidrawElement[] } | null = null;
   private themeUnsubscribe: (() => void) | null = null;
+  private autoSavedUnsubscribe: (() => void) | null = null;
 
   constructor(options: Partial<ExcalidrawSyncOptions> = {}) {
     this.options = {
@@ -133,7 +154,15 @@ export class ExcalidrawDataBridge {
     this.resetSyncState();
 
     // Remove event listeners
-    window.removeEventListener("storage", this.handleStorageChange);
+    window.removeEventListener("storage", this.handleForeignStorageChange);
+    if (this.sceneStoredUnsubscribe) {
+      this.sceneStoredUnsubscribe();
+      this.sceneStoredUnsubscribe = null;
+    }
+    if (this.autoSavedUnsubscribe) {
+      this.autoSavedUnsubscribe();
+      this.autoSavedUnsubscribe = null;
+    }
 
     // Unsubscribe from theme changes
     if (this.themeUnsubscribe) {
@@ -249,17 +278,19 @@ export class ExcalidrawDataBridge {
   }
 
   /**
-   * Load a canvas into Excalidraw with atomic operation coordination
+   * Load a canvas into Excalidraw with atomic operation coordination.
+   * Resolves with the mode actually used, which is "reload" when a live load fell back.
    */
   async loadCanvasToExcalidraw(
     canvas: UnifiedCanvas,
-    forceReload: boolean = false,
-  ): Promise<void> {
+    mode: CanvasLoadMode = "none",
+  ): Promise<CanvasLoadMode> {
     const operationId = `load_${canvas.id}_${uuidv4()}`;
+    let usedMode = mode;
 
     try {
       console.log(
-        `[ExcalidrawDataBridge] Starting atomic canvas load: ${canvas.name} (forceReload: ${forceReload}) [${operationId}]`,
+        `[ExcalidrawDataBridge] Starting atomic canvas load: ${canvas.name} (mode: ${mode}) [${operationId}]`,
       );
 
       // STEP 1: Cancel ALL pending operations for ALL canvases to prevent race conditions
@@ -355,12 +386,41 @@ export class ExcalidrawDataBridge {
           editingGroupId: null,
           viewModeEnabled: false,
         },
-        files: {}, // Files are handled separately in Excalidraw
+        files: {}, // Binary files are restored into Excalidraw's IndexedDB below
       };
 
-      // STEP 4: Perform atomic localStorage update
+      // Later auto-saves of this scene conflict if another tab saves past this version
+      this.canvasBase = {
+        updatedAt: new Date(canvas.updatedAt).getTime(),
+        elements: canvas.elements || [],
+      };
+
+      // STEP 4: Restore embedded image files before Excalidraw reads the scene
+      const files = await fileOperations.getFilesForCanvas(canvas.id);
+      await this.setExcalidrawFiles(files);
+
+      // STEP 4b: Perform atomic localStorage update
       console.log(`[ExcalidrawDataBridge] Writing canvas data to localStorage [${operationId}]`);
       this.setExcalidrawData(excalidrawData);
+      this.foreignSceneInStorage = false;
+
+      // STEP 4c: Hand the scene to the running editor; storage alone only takes effect on reload
+      if (mode === "live") {
+        try {
+          await injectSceneIntoPage({
+            elements: excalidrawData.elements,
+            appState: excalidrawData.appState,
+            files,
+          });
+          console.log(`[ExcalidrawDataBridge] Scene injected into running editor [${operationId}]`);
+        } catch (injectError) {
+          console.warn(
+            `[ExcalidrawDataBridge] Live load failed, falling back to reload [${operationId}]:`,
+            injectError,
+          );
+          usedMode = "reload";
+        }
+      }
 
       // STEP 5: Update bridge state to reflect the new canvas
       this.lastSyncData = JSON.stringify(excalidrawData);
@@ -377,8 +437,8 @@ export class ExcalidrawDataBridge {
       this.operationIdMap.delete(operationId);
       console.log(`[ExcalidrawDataBridge] Canvas load operation completed [${operationId}]`);
 
-      // Reload if forced
-      if (forceReload) {
+      // Reload if requested, or if the live load fell back
+      if (usedMode === "reload") {
         console.log(
           "[ExcalidrawDataBridge] Canvas data prepared, reloading page to load canvas:",
           canvas.name,
@@ -388,6 +448,8 @@ export class ExcalidrawDataBridge {
           window.location.reload();
         }, 100);
       }
+
+      return usedMode;
     } catch (error) {
       console.error(`[ExcalidrawDataBridge] Failed to load canvas [${operationId}]:`, error);
 
@@ -512,7 +574,7 @@ export class ExcalidrawDataBridge {
         return {
           elements: elements,
           appState: appState,
-          files: {}, // Files are typically stored elsewhere
+          files: {}, // Binary files live in IndexedDB, see getExcalidrawFiles
         };
       }
 
@@ -589,6 +651,101 @@ export class ExcalidrawDataBridge {
     }
   }
 
+  /**
+   * Open Excalidraw's binary file store, creating it the way idb-keyval would if missing
+   */
+  private openExcalidrawFilesDb(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(EXCALIDRAW_FILES_DB);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(EXCALIDRAW_FILES_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  /**
+   * Read the binary files referenced by image elements from Excalidraw's IndexedDB
+   */
+  async getExcalidrawFiles(
+    elements: readonly ExcalidrawElement[],
+  ): Promise<BinaryFiles> {
+    const fileIds = getReferencedFileIds(elements);
+    if (fileIds.length === 0) {
+      return {};
+    }
+
+    try {
+      const db = await this.openExcalidrawFilesDb();
+      try {
+        return await new Promise<BinaryFiles>((resolve, reject) => {
+          const files: BinaryFiles = {};
+          const transaction = db.transaction(EXCALIDRAW_FILES_STORE, "readonly");
+          const store = transaction.objectStore(EXCALIDRAW_FILES_STORE);
+
+          for (const fileId of fileIds) {
+            const request = store.get(fileId);
+            request.onsuccess = () => {
+              if (request.result) {
+                files[fileId] = request.result;
+              }
+            };
+          }
+
+          transaction.oncomplete = () => resolve(files);
+          transaction.onerror = () => reject(transaction.error);
+        });
+      } finally {
+        db.close();
+      }
+    } catch (error) {
+      console.warn(
+        "[ExcalidrawDataBridge] Failed to read files from Excalidraw storage:",
+        error,
+      );
+      return {};
+    }
+  }
+
+  /**
+   * Write binary files into Excalidraw's IndexedDB so image elements resolve after reload
+   */
+  private async setExcalidrawFiles(files: BinaryFiles): Promise<void> {
+    const fileList = Object.values(files);
+    if (fileList.length === 0) {
+      return;
+    }
+
+    try {
+      const db = await this.openExcalidrawFilesDb();
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const transaction = db.transaction(EXCALIDRAW_FILES_STORE, "readwrite");
+          const store = transaction.objectStore(EXCALIDRAW_FILES_STORE);
+
+          for (const file of fileList) {
+            // Fresh lastRetrieved keeps Excalidraw from clearing the file as obsolete
+            store.put({ ...file, lastRetrieved: Date.now() }, file.id);
+          }
+
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+        });
+      } finally {
+        db.close();
+      }
+      console.log(
+        `[ExcalidrawDataBridge] Restored ${fileList.length} files into Excalidraw storage`,
+      );
+    } catch (error) {
+      console.warn(
+        "[ExcalidrawDataBridge] Failed to restore files into Excalidraw storage:",
+        error,
+      );
+    }
+  }
+
   /**
    * Update the file name display on the Excalidraw page
    */
@@ -803,7 +960,12 @@ export class ExcalidrawDataBridge {
     }
 
     this.syncInterval = setInterval(() => {
-      if (!this.isLoading && !this.autoSyncSuspended && this.hasDataChanged()) {
+      if (
+        !this.isLoading &&
+        !this.autoSyncSuspended &&
+        !this.foreignSceneInStorage &&
+        this.hasDataChanged()
+      ) {
         this.debouncedSync();
       }
     }, this.options.syncInterval);
@@ -819,8 +981,13 @@ export class ExcalidrawDataBridge {
    */
   private debouncedSync(): void {
     // Only sync if we have a valid canvas context and not loading
-    if (!this.currentCanvasContext || this.isLoading || this.autoSyncSuspended) {
-      console.log("[ExcalidrawDataBridge] Skipping sync - no canvas context or loading in progress");
+    if (
+      !this.currentCanvasContext ||
+      this.isLoading ||
+      this.autoSyncSuspended ||
+      this.foreignSceneInStorage
+    ) {
+      console.log("[ExcalidrawDataBridge] Skipping sync - no canvas context, loading in progress or scene from another tab");
       return;
     }
 
@@ -873,6 +1040,12 @@ export class ExcalidrawDataBridge {
       return;
     }
 
+    // Storage holds another tab's scene; saving it would copy that canvas into this one
+    if (this.foreignSceneInStorage) {
+      console.log(`[ExcalidrawDataBridge] Storage holds another tab's scene, skipping sync for ${canvasId}`);
+      return;
+    }
+
     // Immediately set sync in progress to prevent concurrent execution
     this.syncInProgress = true;
 
@@ -897,6 +1070,8 @@ export class ExcalidrawDataBridge {
         return;
       }
 
+      const files = await this.getExcalidrawFiles(currentData.elements);
+
       // Final validation: re-check operation validity just before execution
       if (!this.isOperationValid(currentOperationId, canvasId)) {
         console.log(`[Operation ${currentOperationId}] Final operation validation failed, aborting sync`);
@@ -910,7 +1085,9 @@ export class ExcalidrawDataBridge {
       await globalEventBus.emit(InternalEventTypes.SYNC_EXCALIDRAW_DATA, {
         elements: currentData.elements,
         appState: currentData.appState,
+        files,
         canvasId: canvasId, // Include canvas context for validation
+        base: this.canvasBase ?? undefined,
       });
 
       // Update last sync data and timestamp
@@ -1024,25 +1201,41 @@ export class ExcalidrawDataBridge {
   }
 
   /**
-   * Setup localStorage change listener with enhanced handling
+   * Setup localStorage change listeners.
+   * Every excalidraw.com tab shares the scene keys: storage events only ever come from
+   * other tabs, while this tab's editor reports its own writes through the page bridge.
    */
   private setupStorageListener(): void {
-    window.addEventListener("storage", this.handleStorageChange);
-
-    // Also listen for direct storage mutations (for same-tab changes)
-    const originalSetItem = localStorage.setItem;
-    localStorage.setItem = (key: string, value: string) => {
-      const result = originalSetItem.call(localStorage, key, value);
-      if (key === "excalidraw" || key === "excalidraw-state") {
-        // Small delay to ensure storage is written
-        setTimeout(() => {
-          this.handleStorageChange({ key, newValue: value, oldValue: null } as StorageEvent);
-        }, 10);
+    window.addEventListener("storage", this.handleForeignStorageChange);
+
+    this.sceneStoredUnsubscribe = onPageSceneStored(() => {
+      this.foreignSceneInStorage = false;
+      this.handleStorageChange({ key: "excalidraw", newValue: null, oldValue: null } as StorageEvent);
+    });
+
+    // Own saves move the version later saves are checked against
+    this.autoSavedUnsubscribe = globalEventBus.on(InternalEventTypes.CANVAS_AUTO_SAVED, (canvas) => {
+      if (canvas.id === this.currentCanvasContext) {
+        this.canvasBase = {
+          updatedAt: new Date(canvas.updatedAt).getTime(),
+          elements: canvas.elements,
+        };
       }
-      return result;
-    };
+    });
   }
 
+  /**
+   * Another tab wrote the shared scene keys; hold off syncing until this tab's editor writes again
+   */
+  private handleForeignStorageChange = (event: StorageEvent): void => {
+    if (event.key === "excalidraw" || event.key === "excalidraw-state") {
+      if (!this.foreignSceneInStorage) {
+        console.log("[ExcalidrawDataBridge] Scene storage overwritten by another tab");
+      }
+      this.foreignSceneInStorage = true;
+    }
+  };
+
   /**
    * Setup theme change listener for filename display updates
    */
@@ -1119,6 +1312,39 @@ export class ExcalidrawDataBridge {
     // CanvasSwitchOrchestrator to ensure save-before-switch and prevent races.
   }
 
+  /**
+   * Id of the canvas this tab's editor is showing.
+   * Unlike the "currentWorkingCanvasId" setting, this is not shared with other tabs.
+   */
+  getCanvasContext(): string | null {
+    return this.currentCanvasContext;
+  }
+
+  /**
+   * Stored copy the editor's scene was loaded from or last saved as, if a canvas is loaded
+   */
+  getCanvasBase(): { updatedAt: number; elements: readonly ExcalidrawElement[] } | null {
+    return this.canvasBase;
+  }
+
+  /**
+   * Whether localStorage holds another tab's scene instead of this editor's
+   */
+  hasForeignScene(): boolean {
+    return this.foreignSceneInStorage;
+  }
+
+  /**
+   * Whether the editor has edits that are not saved yet
+   */
+  hasPendingChanges(): boolean {
+    return (
+      this.syncInProgress ||
+      this.pendingOperations.size > 0 ||
+      (!this.foreignSceneInStorage && this.hasDataChanged())
+    );
+  }
+
   /**
    * Get enhanced bridge statistics
    */
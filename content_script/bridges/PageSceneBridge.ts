@@ -0,0 +1,82 @@
+/**
+ * PageSceneBridge - Content-script side of the page-context bridge
+ * Asks page_script/excalidraw-page-bridge.ts to load a scene into the running editor
+ * and relays its reports of the editor saving to localStorage
+ */
+
+import { v4 as uuidv4 } from "uuid";
+import {
+  PAGE_BRIDGE_SOURCES,
+  PageBridgeRequest,
+  PageBridgeScene,
+  isPageBridgeNotification,
+  isPageBridgeResponse,
+} from "../../shared/page-bridge-protocol";
+
+// The page bridge answers synchronously; no answer this fast means it isn't there
+const DEFAULT_TIMEOUT_MS = 1500;
+
+/**
+ * Load a scene into the live Excalidraw editor without reloading the page.
+ * Rejects when the page bridge is missing, times out or cannot find the editor.
+ */
+export function injectSceneIntoPage(
+  scene: PageBridgeScene,
+  timeoutMs: number = DEFAULT_TIMEOUT_MS,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const requestId = uuidv4();
+
+    const cleanup = () => {
+      window.clearTimeout(timeout);
+      window.removeEventListener("message", handleMessage);
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (
+        event.source !== window ||
+        !isPageBridgeResponse(event.data) ||
+        event.data.requestId !== requestId
+      ) {
+        return;
+      }
+
+      cleanup();
+      if (event.data.ok) {
+        resolve();
+      } else {
+        reject(new Error(event.data.error || "Page bridge failed to load the scene"));
+      }
+    };
+
+    const timeout = window.setTimeout(() => {
+      cleanup();
+      reject(new Error(`Page bridge did not respond within ${timeoutMs}ms`));
+    }, timeoutMs);
+
+    window.addEventListener("message", handleMessage);
+
+    const request: PageBridgeRequest = {
+      source: PAGE_BRIDGE_SOURCES.CONTENT,
+      type: "LOAD_SCENE",
+      requestId,
+      scene,
+    };
+    window.postMessage(request, window.location.origin);
+  });
+}
+
+/**
+ * Call back whenever this tab's editor writes its scene to localStorage.
+ * Returns an unsubscribe function.
+ */
+export function onPageSceneStored(callback: () => void): () => void {
+  const handleMessage = (event: MessageEvent) => {
+    if (event.source === window && isPageBridgeNotification(event.data)) {
+      callback();
+    }
+  };
+
+  window.addEventListener("message", handleMessage);
+  return () => window.removeEventListener("message", handleMessage);
+}
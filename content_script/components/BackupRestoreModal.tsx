@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useRef } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { Archive, Download, Upload } from "lucide-react";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import {
+  createBackupArchive,
+  readBackupArchive,
+  restoreBackup,
+  RestoreMode,
+} from "../services/BackupService";
+import { MergeSummary } from "../../shared/storage-client";
+
+interface Props {
+  onClose: () => void;
+  onRestored: (mode: RestoreMode) => Promise<void>;
+}
+
+export function BackupRestoreModal({ onClose, onRestored }: Props) {
+  const [restoreMode, setRestoreMode] = useState<RestoreMode>("merge");
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [summary, setSummary] = useState<MergeSummary | null>(null);
+  const [restoredMode, setRestoredMode] = useState<RestoreMode | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+    return unsubscribe;
+  }, [onClose]);
+
+  const handleBackup = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { blob, fileName } = await createBackupArchive();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to create backup:", err);
+      setError("Failed to create backup. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestoreFile = async (file: File) => {
+    if (
+      restoreMode === "replace" &&
+      !confirm(
+        "Replace mode deletes all current canvases and projects before restoring. Continue?",
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const data = await readBackupArchive(file);
+      const result = await restoreBackup(data, restoreMode);
+      setSummary(result);
+      setRestoredMode(restoreMode);
+      await onRestored(restoreMode);
+    } catch (err) {
+      console.error("Failed to restore backup:", err);
+      setError(err instanceof Error ? err.message : "Failed to restore backup.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    color: "var(--theme-text-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "440px",
+    minWidth: "300px",
+    margin: "0 16px",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    fontSize: "14px",
+  };
+
+  const sectionTitleStyles: React.CSSProperties = {
+    fontSize: "12px",
+    fontWeight: "600",
+    textTransform: "uppercase",
+    color: "var(--theme-text-secondary)",
+    letterSpacing: "0.5px",
+    marginBottom: "8px",
+  };
+
+  const actionButtonStyles: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: "6px",
+    width: "100%",
+    padding: "8px 12px",
+    background: "var(--theme-bg-active)",
+    color: "var(--theme-text-primary)",
+    border: "1px solid var(--theme-border-primary)",
+    borderRadius: "6px",
+    fontSize: "14px",
+    cursor: isBusy ? "wait" : "pointer",
+    opacity: isBusy ? 0.6 : 1,
+  };
+
+  const renderModeOption = (mode: RestoreMode, title: string, description: string) => (
+    <label
+      style={{
+        display: "flex",
+        alignItems: "flex-start",
+        gap: "10px",
+        padding: "10px",
+        borderRadius: "6px",
+        cursor: "pointer",
+        border: `1px solid ${
+          restoreMode === mode
+            ? "var(--theme-accent-primary, #6366f1)"
+            : "var(--theme-border-primary)"
+        }`,
+      }}
+    >
+      <input
+        type="radio"
+        name="restoreMode"
+        value={mode}
+        checked={restoreMode === mode}
+        onChange={() => setRestoreMode(mode)}
+        style={{
+          margin: "2px 0 0 0",
+          accentColor: "var(--theme-accent-primary, #6366f1)",
+        }}
+      />
+      <div>
+        <div style={{ fontWeight: "500", marginBottom: "2px" }}>{title}</div>
+        <div style={{ fontSize: "12px", color: "var(--theme-text-secondary)" }}>
+          {description}
+        </div>
+      </div>
+    </label>
+  );
+
+  const renderSummary = (result: MergeSummary) => (
+    <div style={{ fontSize: "13px", lineHeight: "1.6" }}>
+      <div>
+        Added {result.added.canvases} canvases, {result.added.projects} projects
+        {result.added.files > 0 && `, ${result.added.files} images`}
+        {result.added.templates > 0 && `, ${result.added.templates} templates`}
+      </div>
+      {(result.skipped.canvases > 0 || result.skipped.projects > 0) && (
+        <div>
+          Skipped {result.skipped.canvases} canvases and {result.skipped.projects} projects
+          already in this workspace
+        </div>
+      )}
+      {result.skipped.settings > 0 && (
+        <div>Kept {result.skipped.settings} local settings</div>
+      )}
+      {result.renamed.length > 0 && (
+        <div style={{ marginTop: "8px" }}>
+          <div style={{ fontWeight: "500" }}>Renamed to avoid conflicts:</div>
+          <div style={{ maxHeight: "120px", overflowY: "auto" }}>
+            {result.renamed.map(({ type, from, to }, index) => (
+              <div key={index} style={{ color: "var(--theme-text-secondary)" }}>
+                {type === "project" ? "Project" : "Canvas"} "{from}" → "{to}"
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !isBusy && onClose()}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <Archive size={18} />
+          Backup & Restore
+        </h2>
+
+        {summary && restoredMode ? (
+          <>
+            <div style={sectionTitleStyles}>
+              {restoredMode === "merge" ? "Merge complete" : "Restore complete"}
+            </div>
+            {renderSummary(summary)}
+            {restoredMode === "replace" && (
+              <div
+                style={{
+                  marginTop: "12px",
+                  fontSize: "12px",
+                  color: "var(--theme-text-secondary)",
+                }}
+              >
+                Reload the page to start from the restored workspace.
+              </div>
+            )}
+            <div style={{ display: "flex", justifyContent: "flex-end", gap: "12px", marginTop: "20px" }}>
+              {restoredMode === "replace" && (
+                <button
+                  onClick={() => window.location.reload()}
+                  style={{ ...actionButtonStyles, width: "auto" }}
+                >
+                  Reload now
+                </button>
+              )}
+              <button
+                onClick={onClose}
+                style={{
+                  padding: "8px 16px",
+                  background: "var(--theme-accent-primary, #6366f1)",
+                  border: "none",
+                  borderRadius: "6px",
+                  color: "var(--theme-text-on-accent, #ffffff)",
+                  fontSize: "14px",
+                  cursor: "pointer",
+                }}
+              >
+                Done
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <div style={{ marginBottom: "20px" }}>
+              <div style={sectionTitleStyles}>Backup</div>
+              <button style={actionButtonStyles} onClick={handleBackup} disabled={isBusy}>
+                <Download size={16} />
+                Backup everything
+              </button>
+            </div>
+
+            <div>
+              <div style={sectionTitleStyles}>Restore</div>
+              <div style={{ display: "flex", flexDirection: "column", gap: "8px", marginBottom: "12px" }}>
+                {renderModeOption(
+                  "merge",
+                  "Merge",
+                  "Add missing canvases and projects; keep everything you have",
+                )}
+                {renderModeOption(
+                  "replace",
+                  "Replace",
+                  "Delete the current workspace and restore the backup exactly",
+                )}
+              </div>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".zip"
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = "";
+                  if (file) handleRestoreFile(file);
+                }}
+              />
+              <button
+                style={actionButtonStyles}
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+              >
+                <Upload size={16} />
+                Restore from backup
+              </button>
+            </div>
+
+            {error && (
+              <div
+                style={{
+                  marginTop: "12px",
+                  fontSize: "13px",
+                  color: "var(--theme-error, #ef4444)",
+                }}
+              >
+                {error}
+              </div>
+            )}
+          </>
+        )}
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -0,0 +1,356 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { motion, AnimatePresence } from "framer-motion";
+import { FolderInput, Tag, Copy, Download, Trash2, CheckSquare, X, Folder, Inbox } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import {
+  canvasOperations,
+  projectOperations,
+  tagOperations,
+} from "../../shared/storage-client";
+import { TagEditorModal } from "./TagEditorModal";
+import { createProjectArchive, downloadBlob } from "../services/ExportService";
+
+/**
+ * Actions for the canvases selected with shift/ctrl-click in the panel
+ */
+export function BulkActionBar() {
+  const { state, dispatch, duplicateCanvas } = useUnifiedState();
+  const [showMoveMenu, setShowMoveMenu] = useState(false);
+  const [showTagEditor, setShowTagEditor] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const selectedCanvases = useMemo(
+    () => state.canvases.filter((canvas) => state.selectedCanvasIds.has(canvas.id)),
+    [state.canvases, state.selectedCanvasIds],
+  );
+
+  const moveTargets = useMemo(
+    () => [...state.projects].sort((a, b) => a.name.localeCompare(b.name)),
+    [state.projects],
+  );
+
+  const clearSelection = useCallback(() => {
+    dispatch({ type: "CLEAR_CANVAS_SELECTION" });
+  }, [dispatch]);
+
+  // Escape closes the bar's own menus first, then clears the selection.
+  // Other overlays handle their own Escape, so the selection is kept while one is open.
+  const hasOpenOverlay =
+    !!state.contextMenu ||
+    !!state.projectContextMenu ||
+    state.isCanvasDeleteModalOpen ||
+    state.isRenameModalOpen ||
+    state.isHelpModalOpen ||
+    state.isSearchModalOpen ||
+    !!state.canvasToTag ||
+    !!state.canvasHistoryTarget ||
+    !!state.canvasToTemplate ||
+    !!state.templatePicker ||
+    !!state.imageExportTarget ||
+    !!state.canvasConflict;
+
+  useEffect(() => {
+    const handleEscape = () => {
+      if (showTagEditor || hasOpenOverlay) return;
+      if (showMoveMenu) {
+        setShowMoveMenu(false);
+        return;
+      }
+      clearSelection();
+    };
+
+    return eventBus.on(InternalEventTypes.ESCAPE_PRESSED, handleEscape);
+  }, [showTagEditor, showMoveMenu, hasOpenOverlay, clearSelection]);
+
+  // Runs one bulk action at a time and reports failures the same way for all of them
+  const runAction = async (label: string, action: () => Promise<void>) => {
+    if (isWorking) return;
+    setIsWorking(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error(`Failed to ${label}:`, error);
+      dispatch({
+        type: "SET_ERROR",
+        payload: `Failed to ${label}. Please try again.`,
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleMove = (projectId?: string) => {
+    setShowMoveMenu(false);
+    runAction("move canvases", async () => {
+      const { canvases, projects } = await projectOperations.moveCanvasesToProject(
+        selectedCanvases.map((canvas) => canvas.id),
+        projectId,
+      );
+      canvases.forEach((canvas) => {
+        dispatch({ type: "UPDATE_CANVAS", payload: canvas });
+        eventBus.emit(InternalEventTypes.CANVAS_UPDATED, canvas);
+      });
+      projects.forEach((project) => {
+        dispatch({ type: "UPDATE_PROJECT", payload: project });
+        eventBus.emit(InternalEventTypes.PROJECT_UPDATED, project);
+      });
+    });
+  };
+
+  const handleSaveTags = (tags: string[], removedTags: string[]) => {
+    runAction("save tags", async () => {
+      const updatedCanvases = await tagOperations.bulkUpdateCanvasTags(
+        selectedCanvases.map((canvas) => canvas.id),
+        { add: tags, remove: removedTags },
+      );
+      updatedCanvases.forEach((canvas) => {
+        dispatch({ type: "UPDATE_CANVAS", payload: canvas });
+        eventBus.emit(InternalEventTypes.CANVAS_UPDATED, canvas);
+      });
+    });
+  };
+
+  const handleDuplicate = () => {
+    runAction("duplicate canvases", async () => {
+      for (const canvas of selectedCanvases) {
+        await duplicateCanvas(canvas);
+      }
+    });
+  };
+
+  const handleExport = () => {
+    runAction("export canvases", async () => {
+      const blob = await createProjectArchive({ name: "Selected canvases" }, selectedCanvases);
+      const date = new Date().toISOString().split("T")[0];
+      downloadBlob(blob, `excalidraw_canvases_${selectedCanvases.length}_${date}.zip`);
+    });
+  };
+
+  const handleDelete = () => {
+    const count = selectedCanvases.length;
+    if (!confirm(`Move ${count} canvas${count === 1 ? "" : "es"} to the trash?`)) {
+      return;
+    }
+
+    runAction("delete canvases", async () => {
+      const canvasIds = selectedCanvases.map((canvas) => canvas.id);
+      // Switch away first so the editor never shows a deleted canvas
+      if (state.currentWorkingCanvasId && canvasIds.includes(state.currentWorkingCanvasId)) {
+        await eventBus.emit(InternalEventTypes.REQUEST_NEW_CANVAS, null);
+      }
+
+      await canvasOperations.bulkDeleteCanvases(canvasIds);
+      selectedCanvases.forEach((canvas) => {
+        dispatch({ type: "DELETE_CANVAS", payload: canvas.id });
+        eventBus.emit(InternalEventTypes.CANVAS_DELETED, canvas);
+      });
+      clearSelection();
+    });
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    background: "transparent",
+    border: "none",
+    color: "var(--theme-text-secondary)",
+    cursor: isWorking ? "wait" : "pointer",
+    padding: "4px",
+    borderRadius: "4px",
+    display: "flex",
+    alignItems: "center",
+    transition: "all 0.2s ease",
+  };
+
+  const hoverHandlers = {
+    onMouseEnter: (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.currentTarget.style.background = "var(--theme-bg-hover)";
+      e.currentTarget.style.color = "var(--theme-text-primary)";
+    },
+    onMouseLeave: (e: React.MouseEvent<HTMLButtonElement>) => {
+      e.currentTarget.style.background = "transparent";
+      e.currentTarget.style.color = "var(--theme-text-secondary)";
+    },
+  };
+
+  const menuItemStyle: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    width: "100%",
+    padding: "6px 10px",
+    background: "none",
+    border: "none",
+    textAlign: "left",
+    fontSize: "13px",
+    color: "var(--theme-text-primary)",
+    cursor: "pointer",
+  };
+
+  if (selectedCanvases.length === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <div
+        style={{
+          position: "relative",
+          display: "flex",
+          alignItems: "center",
+          gap: "4px",
+          margin: "0 16px 12px",
+          padding: "6px 8px",
+          borderRadius: "6px",
+          background: "var(--theme-bg-active)",
+          fontSize: "12px",
+          flexShrink: 0,
+        }}
+      >
+        <span style={{ flex: 1, fontWeight: "500", whiteSpace: "nowrap" }}>
+          {selectedCanvases.length} selected
+        </span>
+
+        <button
+          style={buttonStyle}
+          onClick={() => setShowMoveMenu(!showMoveMenu)}
+          disabled={isWorking}
+          title="Move to project"
+          aria-haspopup="menu"
+          aria-expanded={showMoveMenu}
+          {...hoverHandlers}
+        >
+          <FolderInput size={16} />
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() => setShowTagEditor(true)}
+          disabled={isWorking}
+          title="Edit tags"
+          {...hoverHandlers}
+        >
+          <Tag size={16} />
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={handleDuplicate}
+          disabled={isWorking}
+          title="Duplicate"
+          {...hoverHandlers}
+        >
+          <Copy size={16} />
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={handleExport}
+          disabled={isWorking}
+          title="Export as ZIP"
+          {...hoverHandlers}
+        >
+          <Download size={16} />
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={handleDelete}
+          disabled={isWorking}
+          title="Move to trash"
+          {...hoverHandlers}
+        >
+          <Trash2 size={16} />
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={() => eventBus.emit(InternalEventTypes.SELECT_ALL_REQUEST, null)}
+          title="Select all visible canvases"
+          {...hoverHandlers}
+        >
+          <CheckSquare size={16} />
+        </button>
+        <button
+          style={buttonStyle}
+          onClick={clearSelection}
+          title="Clear selection (Esc)"
+          {...hoverHandlers}
+        >
+          <X size={16} />
+        </button>
+
+        <AnimatePresence>
+          {showMoveMenu && (
+            <motion.div
+              role="menu"
+              initial={{ opacity: 0, y: -4 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -4 }}
+              transition={{ duration: 0.15 }}
+              style={{
+                position: "absolute",
+                top: "100%",
+                left: 0,
+                right: 0,
+                marginTop: "4px",
+                maxHeight: "240px",
+                overflowY: "auto",
+                background: "var(--theme-bg-primary)",
+                border: "1px solid var(--theme-border-primary)",
+                borderRadius: "6px",
+                boxShadow: "var(--theme-shadow-md)",
+                padding: "4px 0",
+                zIndex: 30,
+              }}
+            >
+              <button
+                role="menuitem"
+                style={menuItemStyle}
+                onClick={() => handleMove(undefined)}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.background = "var(--theme-bg-hover)";
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.background = "none";
+                }}
+              >
+                <Inbox size={14} />
+                Unorganized
+              </button>
+              {moveTargets.map((project) => (
+                <button
+                  key={project.id}
+                  role="menuitem"
+                  style={menuItemStyle}
+                  onClick={() => handleMove(project.id)}
+                  onMouseEnter={(e) => {
+                    e.currentTarget.style.background = "var(--theme-bg-hover)";
+                  }}
+                  onMouseLeave={(e) => {
+                    e.currentTarget.style.background = "none";
+                  }}
+                >
+                  <Folder size={14} color={project.color} fill={project.color} />
+                  <span
+                    style={{
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {project.name}
+                  </span>
+                </button>
+              ))}
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+
+      <AnimatePresence>
+        {showTagEditor && (
+          <TagEditorModal
+            canvases={selectedCanvases}
+            onSave={handleSaveTags}
+            onClose={() => setShowTagEditor(false)}
+          />
+        )}
+      </AnimatePresence>
+    </>
+  );
+}
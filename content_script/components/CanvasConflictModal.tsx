@@ -0,0 +1,286 @@
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { GitMerge } from "lucide-react";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { fileOperations } from "../../shared/storage-client";
+import { CanvasConflict } from "../../shared/types";
+import { BinaryFiles, ExcalidrawElement } from "../../shared/excalidraw-types";
+import { renderSceneToSvg } from "../services/SceneRenderer";
+import { useCanvasConflictResolution } from "../hooks/useCanvasConflictResolution";
+
+interface Props {
+  conflict: CanvasConflict;
+  onClose: () => void;
+}
+
+const formatSaveTime = (date: Date): string =>
+  new Date(date).toLocaleTimeString(undefined, {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const toPreviewUrl = (
+  elements: readonly ExcalidrawElement[],
+  backgroundColor: string | undefined,
+  files: BinaryFiles,
+): string | null => {
+  const svg = renderSceneToSvg(elements, {
+    padding: 20,
+    backgroundColor: backgroundColor || "#ffffff",
+    files,
+  });
+  return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : null;
+};
+
+export function CanvasConflictModal({ conflict, onClose }: Props) {
+  const { keepLocal, keepRemote, keepBoth } = useCanvasConflictResolution();
+  const [remoteFiles, setRemoteFiles] = useState<BinaryFiles>({});
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const keepBothButtonRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const focusTimeout = setTimeout(() => {
+      keepBothButtonRef.current?.focus();
+    }, 100);
+
+    // Escape postpones the decision; the next auto-save of this canvas asks again
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+
+    return () => {
+      clearTimeout(focusTimeout);
+      unsubscribe();
+    };
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fileOperations
+      .getFilesForCanvas(conflict.canvasId)
+      .then((files) => {
+        if (!cancelled) setRemoteFiles(files);
+      })
+      .catch((err) => console.error("Failed to load canvas files:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conflict.canvasId]);
+
+  const localPreviewUrl = useMemo(
+    () =>
+      toPreviewUrl(
+        conflict.local.elements,
+        conflict.local.appState?.viewBackgroundColor,
+        { ...remoteFiles, ...conflict.local.files },
+      ),
+    [conflict.local, remoteFiles],
+  );
+
+  const remotePreviewUrl = useMemo(
+    () =>
+      toPreviewUrl(
+        conflict.remote.elements,
+        conflict.remote.appState?.viewBackgroundColor,
+        remoteFiles,
+      ),
+    [conflict.remote, remoteFiles],
+  );
+
+  const resolve = async (
+    action: (conflict: CanvasConflict) => Promise<void>,
+  ) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action(conflict);
+      onClose();
+    } catch (err) {
+      console.error("Failed to resolve canvas conflict:", err);
+      setError("Failed to save your choice. Please try again.");
+      setIsBusy(false);
+    }
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "560px",
+    minWidth: "300px",
+    margin: "0 16px",
+  };
+
+  const previewStyles: React.CSSProperties = {
+    height: "140px",
+    borderRadius: "6px",
+    border: "1px solid var(--theme-border-primary)",
+    background: "var(--theme-bg-tertiary)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    overflow: "hidden",
+  };
+
+  const secondaryButtonStyles: React.CSSProperties = {
+    padding: "8px 16px",
+    background: "var(--theme-bg-tertiary)",
+    border: "1px solid var(--theme-border-primary)",
+    color: "var(--theme-text-secondary)",
+    borderRadius: "4px",
+    cursor: isBusy ? "wait" : "pointer",
+  };
+
+  const renderPreview = (label: string, caption: string, url: string | null) => (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div
+        style={{
+          marginBottom: "6px",
+          fontSize: "13px",
+          fontWeight: "600",
+          color: "var(--theme-text-primary)",
+        }}
+      >
+        {label}
+      </div>
+      <div style={previewStyles}>
+        {url ? (
+          <img
+            src={url}
+            alt={label}
+            style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
+          />
+        ) : (
+          <span style={{ fontSize: "13px", color: "var(--theme-text-secondary)" }}>
+            Empty canvas
+          </span>
+        )}
+      </div>
+      <div style={{ marginTop: "4px", fontSize: "12px", color: "var(--theme-text-secondary)" }}>
+        {caption}
+      </div>
+    </div>
+  );
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        role="alertdialog"
+        aria-labelledby="excali-org-conflict-title"
+      >
+        <h2
+          id="excali-org-conflict-title"
+          style={{
+            margin: "0 0 8px",
+            fontSize: "18px",
+            color: "var(--theme-text-primary)",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+          }}
+        >
+          <GitMerge size={18} style={{ flexShrink: 0 }} />
+          "{conflict.remote.name}" changed in another tab
+        </h2>
+        <p style={{ margin: "0 0 16px", fontSize: "14px", color: "var(--theme-text-secondary)" }}>
+          This canvas was saved in another excalidraw.com tab while you were editing it here.
+          Choose which version to keep.
+        </p>
+
+        <div style={{ display: "flex", gap: "12px", marginBottom: "16px" }}>
+          {renderPreview(
+            "This tab",
+            `${conflict.local.elements.filter((el) => !el.isDeleted).length} elements, unsaved`,
+            localPreviewUrl,
+          )}
+          {renderPreview(
+            "Other tab",
+            `${conflict.remote.elements.filter((el) => !el.isDeleted).length} elements, saved ${formatSaveTime(conflict.remote.updatedAt)}`,
+            remotePreviewUrl,
+          )}
+        </div>
+
+        {error && (
+          <div
+            style={{
+              marginBottom: "12px",
+              fontSize: "13px",
+              color: "var(--theme-error, #ef4444)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", flexWrap: "wrap", gap: "12px" }}>
+          <button
+            type="button"
+            onClick={() => resolve(keepRemote)}
+            disabled={isBusy}
+            style={secondaryButtonStyles}
+            title="Discard this tab's changes; they stay in version history"
+          >
+            Keep theirs
+          </button>
+          <button
+            type="button"
+            onClick={() => resolve(keepLocal)}
+            disabled={isBusy}
+            style={secondaryButtonStyles}
+            title="Overwrite the other tab's save; it stays in version history"
+          >
+            Keep mine
+          </button>
+          <button
+            ref={keepBothButtonRef}
+            type="button"
+            onClick={() => resolve(keepBoth)}
+            disabled={isBusy}
+            style={{
+              padding: "8px 16px",
+              background: "var(--theme-accent-primary, #6366f1)",
+              border: "none",
+              borderRadius: "6px",
+              color: "var(--theme-text-on-accent, #ffffff)",
+              fontSize: "14px",
+              cursor: isBusy ? "wait" : "pointer",
+            }}
+            title="Keep the other tab's save and store this tab's changes as a copy"
+          >
+            Save both
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -154,7 +154,7 @@ const CanvasDeleteModal: React.FC<CanvasDeleteModalProps> = ({
                 lineHeight: "1.4",
               }}
             >
-              This action cannot be undone
+              You can restore it from the trash
             </p>
           </div>
         </div>
@@ -183,8 +183,8 @@ const CanvasDeleteModal: React.FC<CanvasDeleteModalProps> = ({
               lineHeight: "1.4",
             }}
           >
-            This will permanently remove the canvas and all its content. You
-            won't be able to recover it.
+            The canvas moves to the trash, where it can be restored or
+            permanently deleted.
           </p>
         </div>
 
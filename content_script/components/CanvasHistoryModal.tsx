@@ -0,0 +1,362 @@
+import React, { useState, useEffect, useMemo, useCallback } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { History, RotateCcw, Copy } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { fileOperations, versionOperations } from "../../shared/storage-client";
+import { CanvasVersion, UnifiedCanvas } from "../../shared/types";
+import { BinaryFiles } from "../../shared/excalidraw-types";
+import { createThumbnail, renderSceneToSvg } from "../services/SceneRenderer";
+
+interface Props {
+  canvas: UnifiedCanvas;
+  onClose: () => void;
+}
+
+const formatVersionTime = (date: Date): string =>
+  new Date(date).toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export function CanvasHistoryModal({ canvas, onClose }: Props) {
+  const { state, saveCanvas, createCanvas } = useUnifiedState();
+  const [versions, setVersions] = useState<CanvasVersion[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [files, setFiles] = useState<BinaryFiles>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Prefer the live copy from state; the menu target may predate the latest auto-save
+  const currentCanvas = useMemo(
+    () => state.canvases.find((c) => c.id === canvas.id) || canvas,
+    [state.canvases, canvas],
+  );
+
+  useEffect(() => {
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+    return unsubscribe;
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all([
+      versionOperations.getVersionsForCanvas(canvas.id),
+      fileOperations.getFilesForCanvas(canvas.id),
+    ])
+      .then(([loadedVersions, loadedFiles]) => {
+        if (cancelled) return;
+        setVersions(loadedVersions);
+        setFiles(loadedFiles);
+        setSelectedId(loadedVersions[0]?.id ?? null);
+      })
+      .catch((err) => {
+        console.error("Failed to load canvas history:", err);
+        if (!cancelled) setError("Failed to load version history.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvas.id]);
+
+  const selectedVersion = versions.find((v) => v.id === selectedId) || null;
+
+  const previewUrl = useMemo(() => {
+    if (!selectedVersion) return null;
+    const svg = renderSceneToSvg(selectedVersion.elements, {
+      padding: 20,
+      backgroundColor: selectedVersion.appState?.viewBackgroundColor || "#ffffff",
+      files,
+    });
+    return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : null;
+  }, [selectedVersion, files]);
+
+  const handleRestoreInto = useCallback(async () => {
+    if (!selectedVersion) return;
+    if (
+      !confirm(
+        `Replace the content of "${currentCanvas.name}" with this version? The current content is kept in history.`,
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      // Keep what is being replaced so the restore itself can be undone
+      await versionOperations.snapshotCanvas(currentCanvas, { force: true });
+
+      const now = new Date();
+      const restoredCanvas: UnifiedCanvas = {
+        ...currentCanvas,
+        elements: selectedVersion.elements,
+        appState: selectedVersion.appState || currentCanvas.appState,
+        updatedAt: now,
+        lastEditedAt: now,
+        thumbnail: createThumbnail(selectedVersion.elements, selectedVersion.appState),
+      };
+      // Based on the copy being replaced, so the restored elements win unless edited elsewhere since
+      await saveCanvas(restoredCanvas, currentCanvas.elements);
+      eventBus.emit(InternalEventTypes.CANVAS_UPDATED, restoredCanvas);
+
+      // The open editor still shows the old scene; reload it from storage
+      if (state.currentWorkingCanvasId === restoredCanvas.id) {
+        await eventBus.emit(InternalEventTypes.RELOAD_CANVAS_REQUEST, restoredCanvas);
+      }
+      onClose();
+    } catch (err) {
+      console.error("Failed to restore canvas version:", err);
+      setError("Failed to restore this version. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [selectedVersion, currentCanvas, saveCanvas, state.currentWorkingCanvasId, onClose]);
+
+  const handleRestoreAsCopy = useCallback(async () => {
+    if (!selectedVersion) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const createdCanvas = await createCanvas({
+        name: `${currentCanvas.name} (restored)`,
+        elements: selectedVersion.elements,
+        appState: selectedVersion.appState,
+        thumbnail: createThumbnail(selectedVersion.elements, selectedVersion.appState),
+      });
+      // Images still referenced by the original are shared with the copy
+      await fileOperations.shareCanvasFiles(currentCanvas.id, createdCanvas.id);
+      eventBus.emit(InternalEventTypes.CANVAS_CREATED, createdCanvas);
+      onClose();
+    } catch (err) {
+      console.error("Failed to restore canvas version as copy:", err);
+      setError("Failed to create a copy from this version. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  }, [selectedVersion, currentCanvas, createCanvas, onClose]);
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    color: "var(--theme-text-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "720px",
+    minWidth: "300px",
+    margin: "0 16px",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    fontSize: "14px",
+  };
+
+  const actionButtonStyles: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "8px 12px",
+    background: "var(--theme-bg-active)",
+    color: "var(--theme-text-primary)",
+    border: "1px solid var(--theme-border-primary)",
+    borderRadius: "6px",
+    fontSize: "14px",
+    cursor: isBusy ? "wait" : "pointer",
+    opacity: isBusy || !selectedVersion ? 0.6 : 1,
+  };
+
+  const renderBody = () => {
+    if (isLoading) {
+      return (
+        <div style={{ padding: "24px 0", color: "var(--theme-text-secondary)" }}>
+          Loading history...
+        </div>
+      );
+    }
+
+    if (versions.length === 0) {
+      return (
+        <div style={{ padding: "24px 0", color: "var(--theme-text-secondary)" }}>
+          No earlier versions yet. Snapshots are taken automatically while you edit.
+        </div>
+      );
+    }
+
+    return (
+      <div style={{ display: "flex", gap: "16px", height: "320px" }}>
+        <div
+          style={{
+            width: "200px",
+            flexShrink: 0,
+            overflowY: "auto",
+            borderRight: "1px solid var(--theme-border-secondary)",
+            paddingRight: "8px",
+          }}
+        >
+          {versions.map((version) => {
+            const isSelected = version.id === selectedId;
+            return (
+              <button
+                key={version.id}
+                onClick={() => setSelectedId(version.id)}
+                style={{
+                  display: "block",
+                  width: "100%",
+                  textAlign: "left",
+                  padding: "8px 10px",
+                  marginBottom: "4px",
+                  border: "none",
+                  borderRadius: "6px",
+                  cursor: "pointer",
+                  background: isSelected ? "var(--theme-bg-active)" : "none",
+                  color: "var(--theme-text-primary)",
+                  fontSize: "13px",
+                }}
+              >
+                <div style={{ fontWeight: isSelected ? "600" : "500" }}>
+                  {formatVersionTime(version.createdAt)}
+                </div>
+                <div style={{ fontSize: "12px", color: "var(--theme-text-secondary)" }}>
+                  {version.elementCount} element{version.elementCount === 1 ? "" : "s"}
+                </div>
+              </button>
+            );
+          })}
+        </div>
+
+        <div
+          style={{
+            flex: 1,
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "center",
+            borderRadius: "6px",
+            overflow: "hidden",
+            background: "var(--theme-bg-secondary, #f5f5f5)",
+            border: "1px solid var(--theme-border-secondary, rgba(0, 0, 0, 0.08))",
+          }}
+        >
+          {previewUrl ? (
+            <img
+              src={previewUrl}
+              alt="Version preview"
+              draggable={false}
+              style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
+            />
+          ) : (
+            <span style={{ color: "var(--theme-text-secondary)" }}>No preview</span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !isBusy && onClose()}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <History size={18} />
+          Version history: {currentCanvas.name}
+        </h2>
+
+        {renderBody()}
+
+        {error && (
+          <div
+            style={{
+              marginTop: "12px",
+              fontSize: "13px",
+              color: "var(--theme-error, #ef4444)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "flex-end",
+            gap: "12px",
+            marginTop: "20px",
+          }}
+        >
+          <button
+            style={actionButtonStyles}
+            onClick={handleRestoreAsCopy}
+            disabled={isBusy || !selectedVersion}
+          >
+            <Copy size={16} />
+            Restore as copy
+          </button>
+          <button
+            style={actionButtonStyles}
+            onClick={handleRestoreInto}
+            disabled={isBusy || !selectedVersion}
+          >
+            <RotateCcw size={16} />
+            Restore into canvas
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 16px",
+              background: "var(--theme-accent-primary, #6366f1)",
+              border: "none",
+              borderRadius: "6px",
+              color: "var(--theme-text-on-accent, #ffffff)",
+              fontSize: "14px",
+              cursor: "pointer",
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -1,23 +1,60 @@
-import { FileText } from "lucide-react";
-import { UnifiedCanvas } from "../../shared/types";
+import { FileText, AppWindow } from "lucide-react";
+import { UnifiedCanvas, PanelViewMode } from "../../shared/types";
+import { CanvasThumbnail } from "./CanvasThumbnail";
+import { TagChips } from "./TagChips";
+import { PanelDragAndDrop } from "../hooks/usePanelDragAndDrop";
 
 interface CanvasSectionProps {
   unorganizedCanvases: UnifiedCanvas[];
   selectedCanvasId: string | null;
+  selectedCanvasIds: Set<string>;
+  canvasesOpenElsewhere: Set<string>; // Canvases other excalidraw.com tabs have open
   onCanvasSelect: (canvas: UnifiedCanvas) => void;
+  onCanvasMultiSelect: (canvas: UnifiedCanvas, range: boolean, listCanvasIds: string[]) => void;
   onCanvasRightClick: (e: React.MouseEvent, canvas: UnifiedCanvas) => void;
   formatDate: (date: Date) => string;
+  viewMode: PanelViewMode;
+  activeTag: string | null;
+  onTagClick: (tag: string) => void;
+  dragAndDrop: PanelDragAndDrop;
 }
 
 export function CanvasSection({
   unorganizedCanvases,
   selectedCanvasId,
+  selectedCanvasIds,
+  canvasesOpenElsewhere,
   onCanvasSelect,
+  onCanvasMultiSelect,
   onCanvasRightClick,
   formatDate,
+  viewMode,
+  activeTag,
+  onTagClick,
+  dragAndDrop,
 }: CanvasSectionProps) {
+  const isGrid = viewMode === "grid";
+
+  const sortedCanvases = [...unorganizedCanvases].sort(
+    (a, b) =>
+      // Sort by creation time (newest first) for stable, predictable order
+      new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+      // TODO LATERCOMMENTED: Sort by last edit time (canvases move when edited)
+      // new Date(b.lastEditedAt || b.createdAt).getTime() -
+      // new Date(a.lastEditedAt || a.createdAt).getTime(),
+  );
+  const sortedCanvasIds = sortedCanvases.map((canvas) => canvas.id);
+
   return (
-    <div style={{ marginBottom: "24px" }}>
+    // Dropping a canvas anywhere here takes it out of its project
+    <div
+      style={{
+        marginBottom: "24px",
+        borderRadius: "6px",
+        ...dragAndDrop.getDropIndicatorStyle({ type: "unorganized" }),
+      }}
+      {...dragAndDrop.getDropZoneProps({ type: "unorganized" })}
+    >
       <div
         style={{
           fontSize: "12px",
@@ -32,49 +69,89 @@ export function CanvasSection({
       </div>
 
       {unorganizedCanvases.length > 0 ? (
-        unorganizedCanvases
-          .sort(
-            (a, b) =>
-              // Sort by creation time (newest first) for stable, predictable order
-              new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
-              // TODO LATERCOMMENTED: Sort by last edit time (canvases move when edited)
-              // new Date(b.lastEditedAt || b.createdAt).getTime() -
-              // new Date(a.lastEditedAt || a.createdAt).getTime(),
-          )
-          .map((canvas) => (
+        <div
+          style={
+            isGrid
+              ? {
+                  display: "grid",
+                  gridTemplateColumns: "repeat(auto-fill, minmax(120px, 1fr))",
+                  gap: "8px",
+                }
+              : undefined
+          }
+        >
+        {sortedCanvases.map((canvas) => {
+          const isHighlighted =
+            selectedCanvasId === canvas.id || selectedCanvasIds.has(canvas.id);
+          return (
             <div
               key={canvas.id}
               style={{
                 display: "flex",
-                alignItems: "center",
-                gap: "8px",
-                padding: "8px",
+                flexDirection: isGrid ? "column" : "row",
+                alignItems: isGrid ? "stretch" : "center",
+                gap: isGrid ? "6px" : "8px",
+                padding: isGrid ? "6px" : "8px",
                 borderRadius: "6px",
+                minWidth: 0,
                 cursor: "pointer",
                 transition: "background-color 0.2s ease",
-                backgroundColor:
-                  selectedCanvasId === canvas.id
-                    ? "var(--theme-bg-active)"
-                    : "transparent",
+                backgroundColor: isHighlighted
+                  ? "var(--theme-bg-active)"
+                  : "transparent",
+                boxShadow: selectedCanvasIds.has(canvas.id)
+                  ? "inset 0 0 0 1px var(--theme-accent-primary, #6366f1)"
+                  : undefined,
+                opacity: dragAndDrop.isDragging({ type: "canvas", canvas }) ? 0.5 : 1,
+                ...dragAndDrop.getDropIndicatorStyle({ type: "canvas", canvas }),
+              }}
+              tabIndex={0}
+              aria-selected={selectedCanvasIds.has(canvas.id)}
+              {...dragAndDrop.getDragSourceProps({ type: "canvas", canvas })}
+              {...dragAndDrop.getDropZoneProps({ type: "canvas", canvas })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.altKey) {
+                  onCanvasSelect(canvas);
+                  return;
+                }
+                if (e.key === " " && !e.altKey) {
+                  e.preventDefault();
+                  onCanvasMultiSelect(canvas, e.shiftKey, sortedCanvasIds);
+                  return;
+                }
+                dragAndDrop.handleMoveKey(e, { type: "canvas", canvas });
+              }}
+              onClick={(e) => {
+                // Shift extends the selection, Ctrl/Cmd toggles one canvas
+                if (e.shiftKey || e.ctrlKey || e.metaKey) {
+                  onCanvasMultiSelect(canvas, e.shiftKey, sortedCanvasIds);
+                  return;
+                }
+                onCanvasSelect(canvas);
               }}
-              onClick={() => onCanvasSelect(canvas)}
               onContextMenu={(e) => onCanvasRightClick(e, canvas)}
               onMouseEnter={(e) => {
-                if (selectedCanvasId !== canvas.id) {
+                if (!isHighlighted) {
                   e.currentTarget.style.background = "var(--theme-bg-hover)";
                 }
               }}
               onMouseLeave={(e) => {
-                if (selectedCanvasId !== canvas.id) {
+                if (!isHighlighted) {
                   e.currentTarget.style.background = "transparent";
                 }
               }}
             >
-              <FileText size={16} />
+              <CanvasThumbnail
+                canvas={canvas}
+                width={isGrid ? "100%" : 40}
+                height={isGrid ? 80 : 28}
+                iconSize={isGrid ? 24 : 16}
+              />
               <span
                 style={{
                   flex: 1,
                   fontWeight: "500",
+                  fontSize: isGrid ? "12px" : undefined,
                   overflow: "hidden",
                   textOverflow: "ellipsis",
                   whiteSpace: "nowrap",
@@ -82,9 +159,22 @@ export function CanvasSection({
               >
                 {canvas.name}
               </span>
+              {canvasesOpenElsewhere.has(canvas.id) && (
+                <span
+                  title="Open in another tab"
+                  style={{
+                    display: "flex",
+                    color: "var(--theme-text-secondary)",
+                    flexShrink: 0,
+                  }}
+                >
+                  <AppWindow size={12} aria-label="Open in another tab" />
+                </span>
+              )}
+              <TagChips tags={canvas.tags} activeTag={activeTag} onTagClick={onTagClick} />
               <span
                 style={{
-                  fontSize: "12px",
+                  fontSize: isGrid ? "11px" : "12px",
                   color: "var(--theme-text-secondary)",
                   flexShrink: 0,
                 }}
@@ -94,7 +184,9 @@ export function CanvasSection({
                 {/* {formatDate(canvas.lastEditedAt || canvas.createdAt)} */}
               </span>
             </div>
-          ))
+          );
+        })}
+        </div>
       ) : (
         <div
           style={{
@@ -108,10 +200,12 @@ export function CanvasSection({
             style={{ opacity: 0.5, marginBottom: "12px" }}
           />
           <div style={{ fontWeight: "500", marginBottom: "4px" }}>
-            No canvases yet
+            {activeTag ? `No canvases tagged #${activeTag}` : "No canvases yet"}
           </div>
           <div style={{ fontSize: "12px" }}>
-            Create your first canvas to get started
+            {activeTag
+              ? "Clear the tag filter to see all canvases"
+              : "Create your first canvas to get started"}
           </div>
         </div>
       )}
@@ -0,0 +1,301 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { History } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { useRecentCanvases } from "../hooks/useRecentCanvases";
+import { useShortcutBindings } from "../hooks/useKeyboardShortcuts";
+import { CanvasThumbnail } from "./CanvasThumbnail";
+import { eventToStroke, formatBinding, isMacPlatform, parseBinding } from "../../shared/shortcuts";
+import { RECENT_CANVAS_CONSTANTS } from "../../shared/utils";
+import { UnifiedCanvas } from "../../shared/types";
+
+interface Props {
+  onClose: () => void;
+}
+
+const withoutShift = (stroke: string) =>
+  stroke
+    .split("+")
+    .filter((part) => part !== "Shift")
+    .join("+");
+
+/**
+ * Alt+Tab-style list of recently opened canvases. Pressing the shortcut again (or Tab, ↑/↓)
+ * moves through the list, Shift goes back, and releasing the shortcut's modifier opens the
+ * highlighted canvas, so a quick press returns to the previous canvas.
+ */
+export function CanvasSwitcher({ onClose }: Props) {
+  const { state, dispatch } = useUnifiedState();
+  const recentCanvases = useRecentCanvases();
+  const bindings = useShortcutBindings();
+  const [selectedIndex, setSelectedIndex] = useState(1);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const currentCanvasId = state.currentWorkingCanvasId || state.selectedCanvasId;
+
+  // The open canvas first, like the active window in Alt+Tab
+  const canvases = useMemo(() => {
+    const current = state.canvases.find((canvas) => canvas.id === currentCanvasId);
+    return [
+      ...(current ? [current] : []),
+      ...recentCanvases.filter((canvas) => canvas.id !== currentCanvasId),
+    ].slice(0, RECENT_CANVAS_CONSTANTS.SWITCHER_SIZE);
+  }, [recentCanvases, state.canvases, currentCanvasId]);
+  const currentIndex = Math.min(selectedIndex, canvases.length - 1);
+
+  const openCanvas = useCallback(
+    (canvas: UnifiedCanvas | undefined) => {
+      if (canvas && canvas.id !== currentCanvasId) {
+        dispatch({ type: "SET_SELECTED_CANVAS", payload: canvas.id });
+        eventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
+      }
+      onClose();
+    },
+    [currentCanvasId, dispatch, onClose],
+  );
+
+  const binding = bindings.recentCanvases;
+
+  useEffect(() => {
+    const cycleStroke = parseBinding(binding)?.[0];
+    const isMac = isMacPlatform();
+    // Modifier keys of the shortcut; letting go of them opens the highlighted canvas
+    const holdKeys = new Set(
+      (cycleStroke ?? "").split("+").flatMap((part) => {
+        if (part === "Mod") return [isMac ? "Meta" : "Control"];
+        if (part === "Alt") return ["Alt"];
+        return [];
+      }),
+    );
+
+    const move = (step: number) => {
+      if (canvases.length === 0) return;
+      setSelectedIndex((previous) => {
+        const from = Math.min(previous, canvases.length - 1);
+        return (from + step + canvases.length) % canvases.length;
+      });
+    };
+
+    // Window capture runs before the document listener of useKeyboardShortcuts
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const stroke = eventToStroke(e);
+      let handled = true;
+
+      if (e.key === "Escape") {
+        onClose();
+      } else if (e.key === "Enter") {
+        openCanvas(canvases[currentIndex]);
+      } else if (e.key === "Tab") {
+        move(e.shiftKey ? -1 : 1);
+      } else if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        move(e.key === "ArrowUp" ? -1 : 1);
+      } else if (stroke && cycleStroke && withoutShift(stroke) === withoutShift(cycleStroke)) {
+        move(e.shiftKey && !cycleStroke.includes("Shift") ? -1 : 1);
+      } else {
+        handled = false;
+      }
+
+      if (handled) {
+        e.preventDefault();
+        e.stopPropagation();
+        e.stopImmediatePropagation();
+      }
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      if (holdKeys.has(e.key)) {
+        e.preventDefault();
+        e.stopPropagation();
+        openCanvas(canvases[currentIndex]);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    window.addEventListener("keyup", handleKeyUp, true);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown, true);
+      window.removeEventListener("keyup", handleKeyUp, true);
+    };
+  }, [binding, canvases, currentIndex, openCanvas, onClose]);
+
+  useEffect(() => {
+    const row = listRef.current?.children[currentIndex];
+    if (row instanceof HTMLElement) {
+      row.scrollIntoView({ block: "nearest" });
+    }
+  }, [currentIndex]);
+
+  const getProject = (canvas: UnifiedCanvas) =>
+    canvas.projectId ? state.projects.find((project) => project.id === canvas.projectId) : undefined;
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.3)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    borderRadius: "12px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "420px",
+    maxHeight: "70vh",
+    display: "flex",
+    flexDirection: "column",
+    overflow: "hidden",
+  };
+
+  const shortcutText = formatBinding(binding);
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.95 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.95 }}
+        transition={{ duration: 0.12 }}
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Recent canvases"
+      >
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "12px 16px",
+            fontSize: "12px",
+            fontWeight: "600",
+            textTransform: "uppercase",
+            letterSpacing: "0.5px",
+            color: "var(--theme-text-secondary)",
+            borderBottom: "1px solid var(--theme-border-secondary)",
+          }}
+        >
+          <History size={14} />
+          Recent Canvases
+        </div>
+
+        {canvases.length > 0 ? (
+          <div ref={listRef} style={{ overflowY: "auto", padding: "6px" }} role="listbox">
+            {canvases.map((canvas, index) => {
+              const project = getProject(canvas);
+              const isSelected = index === currentIndex;
+              return (
+                <div
+                  key={canvas.id}
+                  role="option"
+                  aria-selected={isSelected}
+                  style={{
+                    display: "flex",
+                    alignItems: "center",
+                    gap: "10px",
+                    padding: "8px 10px",
+                    borderRadius: "6px",
+                    cursor: "pointer",
+                    background: isSelected ? "var(--theme-bg-active)" : "transparent",
+                  }}
+                  onMouseEnter={() => setSelectedIndex(index)}
+                  onClick={() => openCanvas(canvas)}
+                >
+                  <CanvasThumbnail canvas={canvas} width={40} height={28} iconSize={16} />
+                  <div style={{ flex: 1, minWidth: 0 }}>
+                    <div
+                      style={{
+                        fontWeight: "500",
+                        color: "var(--theme-text-primary)",
+                        overflow: "hidden",
+                        textOverflow: "ellipsis",
+                        whiteSpace: "nowrap",
+                      }}
+                    >
+                      {canvas.name}
+                    </div>
+                    <div
+                      style={{
+                        display: "flex",
+                        alignItems: "center",
+                        gap: "6px",
+                        fontSize: "12px",
+                        color: "var(--theme-text-secondary)",
+                      }}
+                    >
+                      {project && (
+                        <span
+                          style={{
+                            width: "8px",
+                            height: "8px",
+                            borderRadius: "2px",
+                            backgroundColor: project.color,
+                            flexShrink: 0,
+                          }}
+                        />
+                      )}
+                      <span
+                        style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+                      >
+                        {project ? project.name : "Unorganized"}
+                      </span>
+                    </div>
+                  </div>
+                  {canvas.id === currentCanvasId && (
+                    <span
+                      style={{
+                        fontSize: "11px",
+                        color: "var(--theme-text-secondary)",
+                        flexShrink: 0,
+                      }}
+                    >
+                      Open now
+                    </span>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div
+            style={{
+              padding: "24px 16px",
+              textAlign: "center",
+              fontSize: "14px",
+              color: "var(--theme-text-secondary)",
+            }}
+          >
+            No recently opened canvases yet
+          </div>
+        )}
+
+        <div
+          style={{
+            padding: "8px 16px",
+            fontSize: "11px",
+            color: "var(--theme-text-secondary)",
+            borderTop: "1px solid var(--theme-border-secondary)",
+          }}
+        >
+          {shortcutText ? `${shortcutText} or ↑/↓ to move` : "↑/↓ to move"} • Enter or release to open •
+          Esc to close
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -0,0 +1,54 @@
+import { FileText } from "lucide-react";
+import { UnifiedCanvas } from "../../shared/types";
+
+interface CanvasThumbnailProps {
+  canvas: UnifiedCanvas;
+  width: number | string;
+  height: number | string;
+  iconSize?: number;
+}
+
+export function CanvasThumbnail({
+  canvas,
+  width,
+  height,
+  iconSize = 16,
+}: CanvasThumbnailProps) {
+  return (
+    <div
+      style={{
+        width,
+        height,
+        flexShrink: 0,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        borderRadius: "4px",
+        overflow: "hidden",
+        background: canvas.thumbnail
+          ? "var(--theme-bg-secondary, #f5f5f5)"
+          : "transparent",
+        border: canvas.thumbnail
+          ? "1px solid var(--theme-border-secondary, rgba(0, 0, 0, 0.08))"
+          : "none",
+        boxSizing: "border-box",
+      }}
+    >
+      {canvas.thumbnail ? (
+        <img
+          src={canvas.thumbnail}
+          alt=""
+          draggable={false}
+          style={{
+            width: "100%",
+            height: "100%",
+            objectFit: "contain",
+            display: "block",
+          }}
+        />
+      ) : (
+        <FileText size={iconSize} />
+      )}
+    </div>
+  );
+}
@@ -8,12 +8,20 @@ import {
   FolderPlus,
   Download,
   ChevronRight,
+  History,
+  Tag,
+  LayoutTemplate,
+  ImageDown,
+  Star,
+  StarOff,
 } from "lucide-react";
 import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { useFavorites } from "../hooks/useFavorites";
 import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
 import { sortProjectsByActivity, SUBMENU_CONSTANTS } from "../../shared/utils";
 // import { getExtensionShortcuts } from "../hooks/useKeyboardShortcuts";
 import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
+import { fileOperations } from "../../shared/storage-client";
 
 interface Props {
   x: number;
@@ -23,8 +31,9 @@ interface Props {
 }
 
 export function ContextMenu({ x, y, canvas, onClose }: Props) {
-  const { state, dispatch, saveCanvas, saveProject, createCanvas } =
+  const { state, dispatch, saveCanvas, saveProject, duplicateCanvas } =
     useUnifiedState();
+  const { setFavorite } = useFavorites();
   const [showAddToProject, setShowAddToProject] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -89,18 +98,8 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
   }, [onClose]);
 
   const handleDuplicate = async () => {
-    const newCanvas: UnifiedCanvas = {
-      ...canvas,
-      id: `canvas-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`,
-      name: `${canvas.name} (Copy)`,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-      projectId: undefined, // Remove from project on duplicate
-    };
-
     try {
-      await createCanvas(newCanvas);
-      eventBus.emit(InternalEventTypes.CANVAS_CREATED, newCanvas);
+      await duplicateCanvas(canvas);
     } catch (error) {
       console.error("Failed to duplicate canvas:", error);
       alert("Failed to duplicate canvas. Please try again.");
@@ -143,7 +142,7 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
       // Save to database first
       await Promise.all([
         saveProject(updatedProject),
-        saveCanvas(updatedCanvas),
+        saveCanvas(updatedCanvas, canvas.elements),
       ]);
 
       eventBus.emit(InternalEventTypes.PROJECT_UPDATED, updatedProject);
@@ -183,7 +182,7 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
       // Save to database first
       await Promise.all([
         saveProject(updatedProject),
-        saveCanvas(updatedCanvas),
+        saveCanvas(updatedCanvas, canvas.elements),
       ]);
 
       eventBus.emit(InternalEventTypes.PROJECT_UPDATED, updatedProject);
@@ -201,12 +200,13 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
     onClose();
   };
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     try {
       const exportData = {
         name: canvas.name,
         elements: canvas.elements || [],
         appState: canvas.appState || {},
+        files: await fileOperations.getFilesForCanvas(canvas.id),
         metadata: {
           id: canvas.id,
           createdAt: canvas.createdAt,
@@ -234,6 +234,18 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
     onClose();
   };
 
+  const isFavorite = canvas.favoriteRank !== undefined;
+
+  const handleToggleFavorite = async () => {
+    try {
+      await setFavorite({ type: "canvas", id: canvas.id }, !isFavorite);
+    } catch (error) {
+      console.error("Failed to update favorites:", error);
+      alert("Failed to update favorites. Please try again.");
+    }
+    onClose();
+  };
+
   const handleLoadCanvas = () => {
     eventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
     dispatch({ type: "SET_SELECTED_CANVAS", payload: canvas.id });
@@ -458,6 +470,71 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
           {/* </span> */}
         </button>
 
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            dispatch({ type: "SET_CANVAS_HISTORY_TARGET", payload: canvas });
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <History size={16} />
+          Version history
+        </button>
+
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            dispatch({ type: "SET_CANVAS_TO_TAG", payload: canvas });
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <Tag size={16} />
+          Edit tags
+        </button>
+
+        <button
+          style={menuItemStyles}
+          onClick={handleToggleFavorite}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          {isFavorite ? <StarOff size={16} /> : <Star size={16} />}
+          {isFavorite ? "Remove from Favorites" : "Add to Favorites"}
+        </button>
+
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            dispatch({ type: "SET_CANVAS_TO_TEMPLATE", payload: canvas });
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <LayoutTemplate size={16} />
+          Save as template
+        </button>
+
         <div
           style={{
             height: "1px",
@@ -586,6 +663,23 @@ export function ContextMenu({ x, y, canvas, onClose }: Props) {
           Download
         </button>
 
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            dispatch({ type: "SET_IMAGE_EXPORT_TARGET", payload: { type: "canvas", canvas } });
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <ImageDown size={16} />
+          Export as Image...
+        </button>
+
         <div
           style={{
             height: "1px",
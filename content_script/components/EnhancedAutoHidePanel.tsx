@@ -3,39 +3,61 @@ import { motion, AnimatePresence } from "framer-motion";
 // Pin and PinOff imports moved to PanelHeader component
 import { useUnifiedState } from "../context/UnifiedStateProvider";
 import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
-import { sortProjectsByActivity, PROJECT_SORT_CONSTANTS } from "../../shared/utils";
+import {
+  sortProjectsForDisplay,
+  getChildProjects,
+  getDescendantProjectIds,
+  PROJECT_SORT_CONSTANTS,
+  PANEL_CONSTANTS,
+  FAVORITES_CONSTANTS,
+} from "../../shared/utils";
 import {
   useKeyboardShortcuts,
-  getExtensionShortcuts,
 } from "../hooks/useKeyboardShortcuts";
+import { usePanelDragAndDrop } from "../hooks/usePanelDragAndDrop";
+import { useFavorites } from "../hooks/useFavorites";
+import { useCommandPalette } from "../hooks/useCommandPalette";
 import { SearchModal } from "./SearchModal";
 import { HelpOverlay } from "./HelpOverlay";
+import { CanvasSwitcher } from "./CanvasSwitcher";
 import CanvasDeleteModal from "./CanvasDeleteModal";
 import { RenameModal } from "./RenameModal";
 import { ProjectFormModal } from "./ProjectFormModal";
+import { BackupRestoreModal } from "./BackupRestoreModal";
+import { CanvasHistoryModal } from "./CanvasHistoryModal";
+import { TrashModal } from "./TrashModal";
+import { TagEditorModal } from "./TagEditorModal";
+import { SaveTemplateModal } from "./SaveTemplateModal";
+import { TemplatePickerModal } from "./TemplatePickerModal";
+import { ImageExportModal } from "./ImageExportModal";
+import { CanvasConflictModal } from "./CanvasConflictModal";
 import { ContextMenu } from "./ContextMenu";
 import { ProjectContextMenu } from "./ProjectContextMenu";
 import { PanelHeader } from "./PanelHeader";
 import { PanelFooter } from "./PanelFooter";
+import { FavoritesSection } from "./FavoritesSection";
 import { ProjectSection } from "./ProjectSection";
 import { CanvasSection } from "./CanvasSection";
+import { BulkActionBar } from "./BulkActionBar";
 import { 
   ComponentErrorBoundary, 
   PanelErrorFallback, 
+  FavoritesSectionErrorFallback,
   ProjectSectionErrorFallback, 
   CanvasSectionErrorFallback 
 } from "./ErrorBoundary";
 import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
-import { canvasOperations, settingsOperations } from "../../shared/unified-db";
+import { canvasOperations, settingsOperations, tagOperations } from "../../shared/storage-client";
 import { v4 as uuidv4 } from "uuid";
+import { importFiles } from "../services/ImportService";
 
 interface Props {
   onNewCanvas: () => void;
   onCanvasSelect: (canvas: UnifiedCanvas) => void;
 }
 
-const MIN_WIDTH = 200;
-const MAX_WIDTH = 600;
+const MIN_WIDTH = PANEL_CONSTANTS.MIN_WIDTH;
+const MAX_WIDTH = PANEL_CONSTANTS.MAX_WIDTH;
 
 export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
   const {
@@ -46,6 +68,7 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     getUnorganizedCanvases,
     removeCanvas,
     saveCanvas,
+    loadInitialData,
   } = useUnifiedState();
   const [isResizing, setIsResizing] = useState(false);
   const [showWidthIndicator, setShowWidthIndicator] = useState(false);
@@ -54,21 +77,73 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
   const [hoveredProject, setHoveredProject] = useState<UnifiedProject | null>(null);
   const [tooltipPosition, setTooltipPosition] = useState({ x: 0, y: 0 });
   const [showAllProjects, setShowAllProjects] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [showBackupModal, setShowBackupModal] = useState(false);
+  const [showTrashModal, setShowTrashModal] = useState(false);
+  const [isFavoritesCollapsed, setIsFavoritesCollapsed] = useState(false);
 
   const panelRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const timeoutRef = useRef<number>();
   const resizeStartX = useRef<number>(0);
   const resizeStartWidth = useRef<number>(0);
 
+  // Narrow canvas lists to the active tag filter, if any
+  const filterByActiveTag = useCallback(
+    (canvases: UnifiedCanvas[]) => {
+      const tag = state.activeTagFilter;
+      return tag ? canvases.filter((canvas) => canvas.tags?.includes(tag)) : canvases;
+    },
+    [state.activeTagFilter]
+  );
+
+  const getVisibleCanvasesForProject = useCallback(
+    (projectId: string) => filterByActiveTag(getCanvasesForProject(projectId)),
+    [filterByActiveTag, getCanvasesForProject]
+  );
+
+  // Projects count the canvases of their subprojects too
+  const getSubtreeProjectIds = useCallback(
+    (projectId: string) => [projectId, ...getDescendantProjectIds(state.projects, projectId)],
+    [state.projects]
+  );
+
   // Stabilize the canvas count function for memoization
   const getCanvasCount = useCallback(
-    (projectId: string) => getCanvasesForProject(projectId).length,
-    [getCanvasesForProject]
+    (projectId: string) =>
+      getSubtreeProjectIds(projectId).reduce(
+        (count, id) => count + getCanvasesForProject(id).length,
+        0,
+      ),
+    [getSubtreeProjectIds, getCanvasesForProject]
+  );
+
+  // While filtering by tag, only projects with matching canvases in their subtree are relevant
+  const isProjectVisible = useCallback(
+    (projectId: string) =>
+      !state.activeTagFilter ||
+      getSubtreeProjectIds(projectId).some((id) => getVisibleCanvasesForProject(id).length > 0),
+    [state.activeTagFilter, getSubtreeProjectIds, getVisibleCanvasesForProject]
   );
 
-  // Memoized project sorting for performance
+  const dragAndDrop = usePanelDragAndDrop({ getCanvasCount });
+  const { favorites, getFavoriteCanvas } = useFavorites();
+
+  // Subprojects of a project, sorted the same way as the top level
+  const getSortedChildProjects = useCallback(
+    (projectId: string) =>
+      sortProjectsForDisplay(getChildProjects(state.projects, projectId), getCanvasCount).filter(
+        (project) => isProjectVisible(project.id),
+      ),
+    [state.projects, getCanvasCount, isProjectVisible]
+  );
+
+  // Memoized project sorting for performance; pagination applies to top-level projects
   const { sortedProjects, projectsToShow, hasMoreProjects } = useMemo(() => {
-    const sorted = sortProjectsByActivity(state.projects, getCanvasCount);
+    const sorted = sortProjectsForDisplay(getChildProjects(state.projects), getCanvasCount).filter(
+      (project) => isProjectVisible(project.id),
+    );
 
     const toShow = showAllProjects
       ? sorted
@@ -80,7 +155,17 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
       projectsToShow: toShow,
       hasMoreProjects: hasMore,
     };
-  }, [state.projects, showAllProjects, getCanvasCount]);
+  }, [state.projects, showAllProjects, getCanvasCount, isProjectVisible]);
+
+  const handleTagClick = useCallback(
+    (tag: string) => {
+      dispatch({
+        type: "SET_ACTIVE_TAG_FILTER",
+        payload: state.activeTagFilter === tag ? null : tag,
+      });
+    },
+    [state.activeTagFilter, dispatch]
+  );
 
   // Handle new project creation
   const handleNewProject = useCallback(() => {
@@ -138,8 +223,6 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     }
   }, [state.isPanelVisible, state.isPanelPinned, isMouseOverPanel, dispatch, updatePanelSettings]);
 
-  const shortcuts = getExtensionShortcuts().shortcuts;
-
   // Enhanced canvas creation with better naming
   const handleNewCanvasEnhanced = useCallback(async () => {
     try {
@@ -249,7 +332,7 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
   }, [state.canvases, dispatch, onNewCanvas]);
 
   // Initialize keyboard shortcuts
-  useKeyboardShortcuts({
+  const { shortcuts } = useKeyboardShortcuts({
     onNewCanvas,
     onNewProject: handleNewProject,
     onTogglePanel: handleTogglePanel,
@@ -312,7 +395,7 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
         updatedAt: new Date(),
       };
 
-      await saveCanvas(updatedCanvas);
+      await saveCanvas(updatedCanvas, updatedCanvas.elements);
       eventBus.emit(InternalEventTypes.CANVAS_UPDATED, updatedCanvas);
 
       // Close the modal
@@ -332,6 +415,51 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     dispatch({ type: "SET_CANVAS_TO_RENAME", payload: null });
   }, [dispatch]);
 
+  const handleCloseCanvasSwitcher = useCallback(() => {
+    dispatch({ type: "SET_CANVAS_SWITCHER_OPEN", payload: false });
+  }, [dispatch]);
+
+  const handleCloseCanvasHistory = useCallback(() => {
+    dispatch({ type: "SET_CANVAS_HISTORY_TARGET", payload: null });
+  }, [dispatch]);
+
+  // Canvas tag handlers
+  const handleSaveCanvasTags = useCallback(async (tags: string[]) => {
+    if (!state.canvasToTag) return;
+
+    try {
+      const updatedCanvas = await tagOperations.setCanvasTags(state.canvasToTag.id, tags);
+      dispatch({ type: "UPDATE_CANVAS", payload: updatedCanvas });
+      eventBus.emit(InternalEventTypes.CANVAS_UPDATED, updatedCanvas);
+    } catch (error) {
+      console.error("Failed to save canvas tags:", error);
+      dispatch({
+        type: "SET_ERROR",
+        payload: "Failed to save tags. Please try again.",
+      });
+    }
+  }, [state.canvasToTag, dispatch]);
+
+  const handleCloseTagEditor = useCallback(() => {
+    dispatch({ type: "SET_CANVAS_TO_TAG", payload: null });
+  }, [dispatch]);
+
+  const handleCloseSaveTemplate = useCallback(() => {
+    dispatch({ type: "SET_CANVAS_TO_TEMPLATE", payload: null });
+  }, [dispatch]);
+
+  const handleCloseTemplatePicker = useCallback(() => {
+    dispatch({ type: "SET_TEMPLATE_PICKER", payload: null });
+  }, [dispatch]);
+
+  const handleCloseImageExport = useCallback(() => {
+    dispatch({ type: "SET_IMAGE_EXPORT_TARGET", payload: null });
+  }, [dispatch]);
+
+  const handleCloseCanvasConflict = useCallback(() => {
+    dispatch({ type: "SET_CANVAS_CONFLICT", payload: null });
+  }, [dispatch]);
+
   // Handle window resize and escape key for modals
   useEffect(() => {
     const handleWindowResize = () => {
@@ -439,7 +567,7 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     }
   };
 
-  const togglePin = () => {
+  const togglePin = useCallback(() => {
     const newPinned = !state.isPanelPinned;
     dispatch({ type: "SET_PANEL_PINNED", payload: newPinned });
     updatePanelSettings({ isPinned: newPinned });
@@ -454,7 +582,19 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     eventBus.emit(InternalEventTypes.PANEL_PINNED_CHANGED, {
       isPinned: newPinned,
     });
-  };
+  }, [state.isPanelPinned, dispatch, updatePanelSettings]);
+
+  const openBackupModal = useCallback(() => setShowBackupModal(true), []);
+  const openTrashModal = useCallback(() => setShowTrashModal(true), []);
+
+  // Commands for the palette in the search modal
+  const commandPalette = useCommandPalette({
+    onNewProject: handleNewProject,
+    onTogglePanel: handleTogglePanel,
+    onTogglePin: togglePin,
+    onBackupOpen: openBackupModal,
+    onTrashOpen: openTrashModal,
+  });
 
   // Mouse resize handlers
   const handleResizeStart = useCallback(
@@ -582,6 +722,25 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     }
   }, [state.collapsedProjects, dispatch]);
 
+  useEffect(() => {
+    settingsOperations
+      .getSetting<boolean>(FAVORITES_CONSTANTS.COLLAPSED_SETTING, false)
+      .then((collapsed) => setIsFavoritesCollapsed(collapsed === true))
+      .catch((error) => {
+        console.error("Failed to load favorites section state:", error);
+      });
+  }, []);
+
+  const toggleFavorites = useCallback(async () => {
+    const collapsed = !isFavoritesCollapsed;
+    setIsFavoritesCollapsed(collapsed);
+    try {
+      await settingsOperations.setSetting(FAVORITES_CONSTANTS.COLLAPSED_SETTING, collapsed);
+    } catch (error) {
+      console.error("Failed to save favorites section state:", error);
+    }
+  }, [isFavoritesCollapsed]);
+
   const handleCanvasRightClick = (
     e: React.MouseEvent,
     canvas: UnifiedCanvas,
@@ -604,10 +763,77 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     });
   };
 
+  // Shift-click selects from the anchor to the clicked canvas within the same list
+  const handleCanvasMultiSelect = (
+    canvas: UnifiedCanvas,
+    range: boolean,
+    listCanvasIds: string[],
+  ) => {
+    const anchorIndex = state.selectionAnchorId
+      ? listCanvasIds.indexOf(state.selectionAnchorId)
+      : -1;
+    const targetIndex = listCanvasIds.indexOf(canvas.id);
+
+    if (!range || anchorIndex === -1 || targetIndex === -1) {
+      dispatch({ type: "TOGGLE_CANVAS_SELECTION", payload: canvas.id });
+      return;
+    }
+
+    const rangeIds = listCanvasIds.slice(
+      Math.min(anchorIndex, targetIndex),
+      Math.max(anchorIndex, targetIndex) + 1,
+    );
+    dispatch({
+      type: "SET_CANVAS_SELECTION",
+      payload: Array.from(new Set([...state.selectedCanvasIds, ...rangeIds])),
+    });
+  };
+
+  // Select every canvas listed in the panel, honouring the tag filter
+  useEffect(() => {
+    const unsubscribe = eventBus.on(InternalEventTypes.SELECT_ALL_REQUEST, () => {
+      const visibleCanvasIds = [
+        ...state.projects.flatMap((project) =>
+          isProjectVisible(project.id) ? getVisibleCanvasesForProject(project.id) : [],
+        ),
+        ...filterByActiveTag(getUnorganizedCanvases()),
+      ].map((canvas) => canvas.id);
+      dispatch({ type: "SET_CANVAS_SELECTION", payload: visibleCanvasIds });
+    });
+
+    return unsubscribe;
+  }, [
+    state.projects,
+    isProjectVisible,
+    getVisibleCanvasesForProject,
+    filterByActiveTag,
+    getUnorganizedCanvases,
+    dispatch,
+  ]);
+
+  // Ctrl/Cmd + A inside the panel selects canvases instead of the page's contents
+  const handlePanelKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (
+      (e.ctrlKey || e.metaKey) &&
+      !e.altKey &&
+      !e.shiftKey &&
+      e.key.toLowerCase() === "a" &&
+      !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement)
+    ) {
+      e.preventDefault();
+      e.stopPropagation();
+      eventBus.emit(InternalEventTypes.SELECT_ALL_REQUEST, null);
+    }
+  };
+
   const handleCanvasSelect = async (canvas: UnifiedCanvas) => {
     try {
       console.log("Selecting canvas:", canvas.name);
 
+      // A plain click opens the canvas and drops any multi-selection
+      if (state.selectedCanvasIds.size > 0) {
+        dispatch({ type: "CLEAR_CANVAS_SELECTION" });
+      }
       dispatch({ type: "SET_SELECTED_CANVAS", payload: canvas.id });
 
       // Emit selection only; orchestrator will save-before-switch and load
@@ -628,6 +854,73 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
     }
   };
 
+  const handleImportFiles = async (files: File[]) => {
+    if (files.length === 0 || isImporting) return;
+
+    setIsImporting(true);
+    try {
+      const result = await importFiles(files);
+
+      result.projects.forEach((project) =>
+        dispatch({ type: "ADD_PROJECT", payload: project }),
+      );
+      result.canvases.forEach((canvas) =>
+        dispatch({ type: "ADD_CANVAS", payload: canvas }),
+      );
+
+      console.log(
+        `Imported ${result.canvases.length} canvases and ${result.projects.length} projects`,
+      );
+
+      const notes: string[] = [];
+      if (result.renamedProjects.length > 0) {
+        notes.push(
+          "Renamed to avoid duplicates:",
+          ...result.renamedProjects.map(({ from, to }) => `  "${from}" → "${to}"`),
+        );
+      }
+      if (result.errors.length > 0) {
+        notes.push("Could not import:", ...result.errors.map((error) => `  ${error}`));
+      }
+      if (notes.length > 0) {
+        alert(
+          `Imported ${result.canvases.length} canvases and ${result.projects.length} projects.\n\n${notes.join("\n")}`,
+        );
+      }
+    } catch (error) {
+      console.error("Failed to import files:", error);
+      alert("Failed to import files. Please try again.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hasDraggedFiles = (e: React.DragEvent) =>
+    Array.from(e.dataTransfer.types).includes("Files");
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDragOver(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsDragOver(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(e)) return;
+    // Keep Excalidraw from also handling the dropped file
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+    handleImportFiles(Array.from(e.dataTransfer.files));
+  };
+
   const formatDate = (date: Date) => {
     const now = new Date();
     const diffMs = now.getTime() - date.getTime();
@@ -720,7 +1013,50 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
               transition={{ type: "spring", damping: 30, stiffness: 300 }}
               onMouseEnter={handleMouseEnter}
               onMouseLeave={handleMouseLeave}
+              onDragOver={handleDragOver}
+              onDragLeave={handleDragLeave}
+              onDrop={handleDrop}
+              onKeyDown={handlePanelKeyDown}
             >
+              {/* Drop overlay for importing files */}
+              {isDragOver && (
+                <div
+                  style={{
+                    position: "absolute",
+                    inset: "8px",
+                    border: "2px dashed var(--theme-accent-primary, #6366f1)",
+                    borderRadius: "8px",
+                    background: "var(--theme-bg-primary, #ffffff)",
+                    opacity: 0.95,
+                    display: "flex",
+                    alignItems: "center",
+                    justifyContent: "center",
+                    textAlign: "center",
+                    padding: "16px",
+                    color: "var(--theme-accent-primary, #6366f1)",
+                    fontWeight: "600",
+                    pointerEvents: "none",
+                    zIndex: 20,
+                  }}
+                >
+                  Drop .excalidraw files or project ZIPs to import
+                </div>
+              )}
+
+              <input
+                ref={importInputRef}
+                type="file"
+                accept=".excalidraw,.json,.zip"
+                multiple
+                style={{ display: "none" }}
+                onChange={(e) => {
+                  const files = Array.from(e.target.files || []);
+                  // Reset so picking the same file again still fires onChange
+                  e.target.value = "";
+                  handleImportFiles(files);
+                }}
+              />
+
               {/* Resize Handle */}
               <div
                 style={resizeHandleStyle}
@@ -739,13 +1075,23 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
                 <PanelHeader
                   isPanelPinned={state.isPanelPinned}
                   onTogglePin={togglePin}
+                  viewMode={state.panelViewMode}
+                  onToggleViewMode={() =>
+                    updatePanelSettings({
+                      viewMode: state.panelViewMode === "grid" ? "list" : "grid",
+                    })
+                  }
                   onNewCanvas={handleNewCanvasEnhanced}
+                  onNewFromTemplate={() => dispatch({ type: "SET_TEMPLATE_PICKER", payload: {} })}
                   onNewProject={() => setShowProjectModal(true)}
                   onSearchOpen={() => dispatch({ type: "SET_SEARCH_MODAL_OPEN", payload: true })}
                   shortcuts={shortcuts}
                 />
               </ComponentErrorBoundary>
 
+              {/* Bulk actions for the multi-selection */}
+              <BulkActionBar />
+
               {/* Content */}
               <div
                 style={{
@@ -754,6 +1100,60 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
                   padding: "0 16px 16px",
                 }}
               >
+                {/* Favorites Section (not affected by the tag filter) */}
+                <ComponentErrorBoundary
+                  fallback={FavoritesSectionErrorFallback}
+                  componentName="FavoritesSection"
+                >
+                  <FavoritesSection
+                    favorites={favorites}
+                    isCollapsed={isFavoritesCollapsed}
+                    onToggleCollapsed={toggleFavorites}
+                    selectedCanvasId={state.selectedCanvasId}
+                    canvasesOpenElsewhere={state.canvasesOpenElsewhere}
+                    getFavoriteCanvas={getFavoriteCanvas}
+                    getCanvasCount={getCanvasCount}
+                    shortcuts={shortcuts}
+                    dragAndDrop={dragAndDrop}
+                    onCanvasSelect={handleCanvasSelect}
+                    onCanvasRightClick={handleCanvasRightClick}
+                    onProjectRightClick={handleProjectRightClick}
+                  />
+                </ComponentErrorBoundary>
+
+                {/* Active tag filter */}
+                {state.activeTagFilter && (
+                  <div
+                    style={{
+                      display: "flex",
+                      alignItems: "center",
+                      justifyContent: "space-between",
+                      gap: "8px",
+                      padding: "6px 10px",
+                      marginBottom: "12px",
+                      borderRadius: "6px",
+                      fontSize: "12px",
+                      background: "var(--theme-bg-active)",
+                    }}
+                  >
+                    <span>
+                      Tagged <strong>#{state.activeTagFilter}</strong>
+                    </span>
+                    <button
+                      onClick={() => dispatch({ type: "SET_ACTIVE_TAG_FILTER", payload: null })}
+                      style={{
+                        background: "none",
+                        border: "none",
+                        color: "var(--theme-accent-primary, #6366f1)",
+                        cursor: "pointer",
+                        fontSize: "12px",
+                      }}
+                    >
+                      Clear
+                    </button>
+                  </div>
+                )}
+
                 {/* Projects Section */}
                 <ComponentErrorBoundary 
                   fallback={ProjectSectionErrorFallback}
@@ -768,12 +1168,20 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
                     onShowAllProjectsToggle={() => setShowAllProjects(!showAllProjects)}
                     collapsedProjects={state.collapsedProjects}
                     selectedCanvasId={state.selectedCanvasId}
-                    getCanvasesForProject={getCanvasesForProject}
+                    selectedCanvasIds={state.selectedCanvasIds}
+                    canvasesOpenElsewhere={state.canvasesOpenElsewhere}
+                    getCanvasesForProject={getVisibleCanvasesForProject}
+                    getChildProjects={getSortedChildProjects}
+                    dragAndDrop={dragAndDrop}
                     onToggleProject={toggleProject}
                     onProjectRightClick={handleProjectRightClick}
                     onCanvasSelect={handleCanvasSelect}
+                    onCanvasMultiSelect={handleCanvasMultiSelect}
                     onCanvasRightClick={handleCanvasRightClick}
                     formatDate={formatDate}
+                    viewMode={state.panelViewMode}
+                    activeTag={state.activeTagFilter}
+                    onTagClick={handleTagClick}
                     hoveredProject={hoveredProject}
                     onProjectHover={(project, position) => {
                       setHoveredProject(project);
@@ -790,13 +1198,35 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
                   componentName="CanvasSection"
                 >
                   <CanvasSection
-                    unorganizedCanvases={getUnorganizedCanvases()}
+                    unorganizedCanvases={filterByActiveTag(getUnorganizedCanvases())}
                     selectedCanvasId={state.selectedCanvasId}
+                    selectedCanvasIds={state.selectedCanvasIds}
+                    canvasesOpenElsewhere={state.canvasesOpenElsewhere}
                     onCanvasSelect={handleCanvasSelect}
+                    onCanvasMultiSelect={handleCanvasMultiSelect}
                     onCanvasRightClick={handleCanvasRightClick}
                     formatDate={formatDate}
+                    viewMode={state.panelViewMode}
+                    activeTag={state.activeTagFilter}
+                    onTagClick={handleTagClick}
+                    dragAndDrop={dragAndDrop}
                   />
                 </ComponentErrorBoundary>
+
+                {/* Screen reader feedback for keyboard moves */}
+                <div
+                  aria-live="polite"
+                  style={{
+                    position: "absolute",
+                    width: "1px",
+                    height: "1px",
+                    overflow: "hidden",
+                    clip: "rect(0 0 0 0)",
+                    whiteSpace: "nowrap",
+                  }}
+                >
+                  {dragAndDrop.announcement}
+                </div>
               </div>
 
               {/* Footer */}
@@ -806,6 +1236,10 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
               >
                 <PanelFooter
                   onHelpOpen={() => dispatch({ type: "SET_HELP_MODAL_OPEN", payload: true })}
+                  onImport={() => importInputRef.current?.click()}
+                  onBackupOpen={openBackupModal}
+                  onTrashOpen={openTrashModal}
+                  isImporting={isImporting}
                 />
               </ComponentErrorBoundary>
             </motion.div>
@@ -815,8 +1249,9 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
 
       {/* Modals */}
       <AnimatePresence>
-        {state.isSearchModalOpen && <SearchModal />}
+        {state.isSearchModalOpen && <SearchModal commandPalette={commandPalette} />}
         {state.isHelpModalOpen && <HelpOverlay />}
+        {state.isCanvasSwitcherOpen && <CanvasSwitcher onClose={handleCloseCanvasSwitcher} />}
         {state.isCanvasDeleteModalOpen && state.canvasToDelete && (
           <CanvasDeleteModal
             canvas={state.canvasToDelete}
@@ -831,6 +1266,43 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
             onClose={handleCancelCanvasRename}
           />
         )}
+        {state.canvasToTag && (
+          <TagEditorModal
+            canvases={[state.canvasToTag]}
+            onSave={handleSaveCanvasTags}
+            onClose={handleCloseTagEditor}
+          />
+        )}
+        {state.canvasHistoryTarget && (
+          <CanvasHistoryModal
+            canvas={state.canvasHistoryTarget}
+            onClose={handleCloseCanvasHistory}
+          />
+        )}
+        {state.canvasToTemplate && (
+          <SaveTemplateModal
+            canvas={state.canvasToTemplate}
+            onClose={handleCloseSaveTemplate}
+          />
+        )}
+        {state.templatePicker && (
+          <TemplatePickerModal
+            projectId={state.templatePicker.projectId}
+            onClose={handleCloseTemplatePicker}
+          />
+        )}
+        {state.imageExportTarget && (
+          <ImageExportModal
+            target={state.imageExportTarget}
+            onClose={handleCloseImageExport}
+          />
+        )}
+        {state.canvasConflict && (
+          <CanvasConflictModal
+            conflict={state.canvasConflict}
+            onClose={handleCloseCanvasConflict}
+          />
+        )}
       </AnimatePresence>
 
       <AnimatePresence>
@@ -842,6 +1314,29 @@ export function EnhancedAutoHidePanel({ onNewCanvas, onCanvasSelect }: Props) {
         )}
       </AnimatePresence>
 
+      <AnimatePresence>
+        {showBackupModal && (
+          <BackupRestoreModal
+            onClose={() => setShowBackupModal(false)}
+            onRestored={async (mode) => {
+              if (mode === "replace") {
+                dispatch({ type: "SET_CURRENT_WORKING_CANVAS", payload: null });
+              }
+              await loadInitialData();
+            }}
+          />
+        )}
+      </AnimatePresence>
+
+      <AnimatePresence>
+        {showTrashModal && (
+          <TrashModal
+            onClose={() => setShowTrashModal(false)}
+            onChanged={loadInitialData}
+          />
+        )}
+      </AnimatePresence>
+
       <AnimatePresence>
         {state.contextMenu && (
           <ContextMenu
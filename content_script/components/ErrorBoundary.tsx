@@ -63,6 +63,30 @@ export function PanelErrorFallback({ error: _error }: { error: Error }) {
   );
 }
 
+export function FavoritesSectionErrorFallback({ error: _error }: { error: Error }) {
+  return (
+    <div
+      style={{
+        padding: "16px",
+        borderRadius: "8px",
+        border: "1px solid var(--theme-border-error, #ef4444)",
+        backgroundColor: "var(--theme-bg-error, rgba(239, 68, 68, 0.1))",
+        color: "var(--theme-text-error, #dc2626)",
+        fontSize: "14px",
+        textAlign: "center",
+        margin: "8px 0",
+      }}
+    >
+      <div style={{ fontWeight: "600", marginBottom: "8px" }}>
+        Favorites Section Error
+      </div>
+      <div style={{ fontSize: "12px", opacity: 0.8 }}>
+        Unable to load favorites. Other features still work.
+      </div>
+    </div>
+  );
+}
+
 export function ProjectSectionErrorFallback({ error: _error }: { error: Error }) {
   return (
     <div
@@ -0,0 +1,211 @@
+import { motion, AnimatePresence } from "framer-motion";
+import { Folder, ChevronRight, AppWindow } from "lucide-react";
+import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
+import { CanvasThumbnail } from "./CanvasThumbnail";
+import { FavoriteItem, FAVORITES_CONSTANTS } from "../../shared/utils";
+import { getFavoriteRef } from "../hooks/useFavorites";
+import { PanelDragAndDrop } from "../hooks/usePanelDragAndDrop";
+
+interface FavoritesSectionProps {
+  favorites: FavoriteItem[];
+  isCollapsed: boolean;
+  onToggleCollapsed: () => void;
+  selectedCanvasId: string | null;
+  canvasesOpenElsewhere: Set<string>; // Canvases other excalidraw.com tabs have open
+  getFavoriteCanvas: (item: FavoriteItem) => UnifiedCanvas | undefined;
+  getCanvasCount: (projectId: string) => number;
+  shortcuts: Record<string, string>; // Formatted bindings by command label
+  dragAndDrop: PanelDragAndDrop;
+  onCanvasSelect: (canvas: UnifiedCanvas) => void;
+  onCanvasRightClick: (e: React.MouseEvent, canvas: UnifiedCanvas) => void;
+  onProjectRightClick: (e: React.MouseEvent, project: UnifiedProject) => void;
+}
+
+export function FavoritesSection({
+  favorites,
+  isCollapsed,
+  onToggleCollapsed,
+  selectedCanvasId,
+  canvasesOpenElsewhere,
+  getFavoriteCanvas,
+  getCanvasCount,
+  shortcuts,
+  dragAndDrop,
+  onCanvasSelect,
+  onCanvasRightClick,
+  onProjectRightClick,
+}: FavoritesSectionProps) {
+  if (favorites.length === 0) {
+    return null;
+  }
+
+  // Projects open at their most recently edited canvas; an empty one has nothing to open
+  const openFavorite = (favorite: FavoriteItem) => {
+    const canvas = getFavoriteCanvas(favorite);
+    if (canvas) onCanvasSelect(canvas);
+  };
+
+  const renderFavorite = (favorite: FavoriteItem, index: number) => {
+    const ref = getFavoriteRef(favorite);
+    const favoriteItem = { type: "favorite" as const, favorite };
+    const isHighlighted = favorite.type === "canvas" && selectedCanvasId === favorite.canvas.id;
+    const shortcut =
+      index < FAVORITES_CONSTANTS.QUICK_JUMP_COUNT ? shortcuts[`Open Favorite ${index + 1}`] : undefined;
+    const name = favorite.type === "canvas" ? favorite.canvas.name : favorite.project.name;
+
+    return (
+      <div
+        key={`${ref.type}:${ref.id}`}
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "8px",
+          padding: "6px 8px",
+          borderRadius: "6px",
+          minWidth: 0,
+          cursor: "pointer",
+          transition: "background-color 0.2s ease",
+          backgroundColor: isHighlighted ? "var(--theme-bg-active)" : "transparent",
+          opacity: dragAndDrop.isDragging(favoriteItem) ? 0.5 : 1,
+          ...dragAndDrop.getDropIndicatorStyle(favoriteItem),
+        }}
+        role="button"
+        tabIndex={0}
+        aria-label={shortcut ? `${name} (${shortcut})` : name}
+        {...dragAndDrop.getDragSourceProps(favoriteItem)}
+        {...dragAndDrop.getDropZoneProps(favoriteItem)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.altKey) {
+            openFavorite(favorite);
+            return;
+          }
+          dragAndDrop.handleMoveKey(e, favoriteItem);
+        }}
+        onClick={() => openFavorite(favorite)}
+        onContextMenu={(e) =>
+          favorite.type === "canvas"
+            ? onCanvasRightClick(e, favorite.canvas)
+            : onProjectRightClick(e, favorite.project)
+        }
+        onMouseEnter={(e) => {
+          if (!isHighlighted) {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!isHighlighted) {
+            e.currentTarget.style.background = "transparent";
+          }
+        }}
+      >
+        {favorite.type === "canvas" ? (
+          <CanvasThumbnail canvas={favorite.canvas} width={40} height={28} iconSize={16} />
+        ) : (
+          <span style={{ display: "flex", width: "40px", justifyContent: "center", flexShrink: 0 }}>
+            <Folder size={16} color={favorite.project.color} fill={favorite.project.color} />
+          </span>
+        )}
+        <span
+          style={{
+            flex: 1,
+            fontWeight: "500",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+          }}
+        >
+          {name}
+        </span>
+        {favorite.type === "canvas" && canvasesOpenElsewhere.has(favorite.canvas.id) && (
+          <span
+            title="Open in another tab"
+            style={{
+              display: "flex",
+              color: "var(--theme-text-secondary)",
+              flexShrink: 0,
+            }}
+          >
+            <AppWindow size={12} aria-label="Open in another tab" />
+          </span>
+        )}
+        {favorite.type === "project" && (
+          <span
+            style={{
+              fontSize: "12px",
+              color: "var(--theme-text-secondary)",
+              flexShrink: 0,
+            }}
+          >
+            {getCanvasCount(favorite.project.id)}
+          </span>
+        )}
+        {shortcut && (
+          <span
+            title={`Open with ${shortcut}`}
+            style={{
+              fontSize: "11px",
+              fontFamily: "monospace",
+              padding: "1px 5px",
+              borderRadius: "4px",
+              border: "1px solid var(--theme-border-secondary)",
+              color: "var(--theme-text-secondary)",
+              flexShrink: 0,
+            }}
+          >
+            {index + 1}
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ marginBottom: "24px" }}>
+      <button
+        style={{
+          display: "flex",
+          alignItems: "center",
+          gap: "4px",
+          width: "100%",
+          padding: 0,
+          marginBottom: "8px",
+          background: "none",
+          border: "none",
+          cursor: "pointer",
+          fontSize: "12px",
+          fontWeight: "600",
+          textTransform: "uppercase",
+          color: "var(--theme-text-secondary)",
+          letterSpacing: "0.5px",
+        }}
+        onClick={onToggleCollapsed}
+        aria-expanded={!isCollapsed}
+        title={isCollapsed ? "Expand favorites" : "Collapse favorites"}
+      >
+        <motion.div
+          animate={{ rotate: isCollapsed ? 0 : 90 }}
+          transition={{ duration: 0.15, ease: "easeOut" }}
+          style={{ display: "flex", alignItems: "center", justifyContent: "center" }}
+        >
+          <ChevronRight size={12} />
+        </motion.div>
+        Favorites
+        <span style={{ marginLeft: "auto", fontWeight: "500" }}>{favorites.length}</span>
+      </button>
+
+      <AnimatePresence>
+        {!isCollapsed && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: "auto", opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            transition={{ duration: 0.2 }}
+            style={{ overflow: "hidden" }}
+          >
+            {favorites.map(renderFavorite)}
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -1,14 +1,49 @@
-import React, { useEffect, useRef } from "react";
+import React, { useCallback, useEffect, useRef, useState } from "react";
 import { createPortal } from "react-dom";
 import { motion } from "framer-motion";
-import { X, Keyboard } from "lucide-react";
+import { X, Keyboard, Pencil, RotateCcw } from "lucide-react";
 import { useUnifiedState } from "../context/UnifiedStateProvider";
-import { getExtensionShortcuts } from "../hooks/useKeyboardShortcuts";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import {
+  getExtensionShortcuts,
+  SHORTCUT_CAPTURE_ATTRIBUTE,
+  useShortcutBindings,
+} from "../hooks/useKeyboardShortcuts";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  SHORTCUT_COMMANDS,
+  ShortcutBindings,
+  ShortcutCommandId,
+  ShortcutGroup,
+  eventToStroke,
+  findShortcutConflicts,
+  formatBinding,
+  formatBindingKeys,
+  saveShortcutBindings,
+} from "../../shared/shortcuts";
+import { SHORTCUT_CONSTANTS } from "../../shared/utils";
 
+interface ShortcutRow {
+  action: string;
+  shortcut: string;
+  commandId?: ShortcutCommandId; // Rows with a command can be rebound
+}
+
+// Keys a rebinding is being recorded into, and why the last attempt was refused
+interface CaptureState {
+  commandId: ShortcutCommandId;
+  strokes: string[];
+  error: string | null;
+}
 
 export function HelpOverlay() {
   const { dispatch } = useUnifiedState();
   const focusRef = useRef<HTMLDivElement>(null);
+  const captureRef = useRef<HTMLSpanElement>(null);
+  const captureTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const bindings = useShortcutBindings();
+  const [capture, setCapture] = useState<CaptureState | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
 
   // Auto-focus and trap focus within the modal
   useEffect(() => {
@@ -38,50 +73,129 @@ export function HelpOverlay() {
     };
   }, []);
 
+  useEffect(() => {
+    if (capture) captureRef.current?.focus();
+  }, [capture]);
+
+  useEffect(() => () => clearTimeout(captureTimeoutRef.current), []);
+
   // Note: ESC key handling is done in the main keyboard shortcuts handler
 
-  const shortcuts = getExtensionShortcuts();
+  const shortcuts = getExtensionShortcuts(bindings);
 
   // Helper function to safely get shortcut or fallback
   const getShortcut = (key: string): string => {
     return shortcuts?.shortcuts?.[key as keyof typeof shortcuts.shortcuts] || "Not available";
   };
 
+  const commandRows = (group: ShortcutGroup): ShortcutRow[] =>
+    SHORTCUT_COMMANDS.filter((command) => command.group === group).map((command) => ({
+      action: command.label,
+      shortcut: bindings[command.id],
+      commandId: command.id,
+    }));
+
   // Group shortcuts by category
-  const shortcutGroups = [
+  const shortcutGroups: { title: ShortcutGroup; shortcuts: ShortcutRow[] }[] = [
     {
       title: "Navigation",
-      shortcuts: [
-        { action: "Toggle Panel", shortcut: getShortcut("Toggle Panel") },
-        // TODO-later: Navigate Canvases functionality may be added back later
-        // { action: "Navigate Canvases", shortcut: getShortcut("Navigate Canvases") },
-        { action: "Search", shortcut: getShortcut("Search") },
-      ]
+      shortcuts: commandRows("Navigation"),
     },
     {
       title: "Canvas Operations",
       shortcuts: [
-        { action: "New Canvas", shortcut: getShortcut("New Canvas") },
-        { action: "Duplicate Canvas", shortcut: getShortcut("Duplicate Canvas") },
-        { action: "Delete Canvas", shortcut: getShortcut("Delete Canvas") },
-        { action: "Rename Canvas", shortcut: getShortcut("Rename Canvas") },
+        ...commandRows("Canvas Operations"),
+        { action: "Multi-select Canvases", shortcut: getShortcut("Select Canvases") },
+        { action: "Select All in Panel", shortcut: getShortcut("Select All Canvases") },
       ]
     },
     {
       title: "Project Operations",
       shortcuts: [
-        { action: "New Project", shortcut: getShortcut("New Project") },
+        ...commandRows("Project Operations"),
+        { action: "Move Focused Canvas / Project", shortcut: getShortcut("Move Focused Item") },
       ]
     },
     {
       title: "System",
       shortcuts: [
-        { action: "Help", shortcut: getShortcut("Help") },
+        ...commandRows("System"),
         { action: "Close Modals / Focus Panel", shortcut: getShortcut("Close Modals / Focus Panel") },
       ]
     }
   ];
 
+  const conflicts = findShortcutConflicts(bindings);
+  const hasCustomBindings = SHORTCUT_COMMANDS.some(
+    (command) => bindings[command.id] !== command.defaultBinding,
+  );
+
+  const applyBindings = useCallback(async (next: ShortcutBindings) => {
+    try {
+      await saveShortcutBindings(next);
+      setSaveError(null);
+      eventBus.emit(InternalEventTypes.SHORTCUTS_CHANGED, next);
+    } catch (error) {
+      console.error("Failed to save keyboard shortcuts:", error);
+      setSaveError("Could not save your shortcuts. Please try again.");
+    }
+  }, []);
+
+  // Save the recorded keys unless another command already uses them
+  const commitCapture = useCallback(
+    (commandId: ShortcutCommandId, strokes: string[]) => {
+      const next = { ...bindings, [commandId]: strokes.join(" ") };
+      const clash = findShortcutConflicts(next).find(
+        (conflict) => conflict.commandId === commandId && conflict.otherCommandId !== null,
+      );
+      if (clash) {
+        setCapture({ commandId, strokes: [], error: clash.reason });
+        return;
+      }
+      setCapture(null);
+      applyBindings(next);
+    },
+    [bindings, applyBindings],
+  );
+
+  const handleCaptureKeyDown = (e: React.KeyboardEvent<HTMLSpanElement>) => {
+    if (!capture) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === "Escape") {
+      clearTimeout(captureTimeoutRef.current);
+      setCapture(null);
+      return;
+    }
+
+    const stroke = eventToStroke(e.nativeEvent);
+    if (!stroke) return;
+
+    // Keep recording until the chord is full or no key follows in time
+    const strokes = [...capture.strokes, stroke];
+    clearTimeout(captureTimeoutRef.current);
+    if (strokes.length >= SHORTCUT_CONSTANTS.MAX_CHORD_STROKES) {
+      commitCapture(capture.commandId, strokes);
+      return;
+    }
+    setCapture({ ...capture, strokes, error: null });
+    captureTimeoutRef.current = setTimeout(
+      () => commitCapture(capture.commandId, strokes),
+      SHORTCUT_CONSTANTS.CHORD_TIMEOUT_MS,
+    );
+  };
+
+  const startCapture = (commandId: ShortcutCommandId) => {
+    clearTimeout(captureTimeoutRef.current);
+    setCapture({ commandId, strokes: [], error: null });
+  };
+
+  const stopCapture = () => {
+    clearTimeout(captureTimeoutRef.current);
+    setCapture(null);
+  };
+
   const panelStyles: React.CSSProperties = {
     position: "fixed",
     top: 0,
@@ -156,6 +270,117 @@ export function HelpOverlay() {
     );
   };
 
+  // A binding's strokes, chords shown as "G then P"
+  const renderBinding = (binding: string) => {
+    const strokes = formatBindingKeys(binding);
+    if (strokes.length === 0) {
+      return <span style={{ fontSize: "12px", color: "var(--theme-text-secondary, #666666)" }}>Not set</span>;
+    }
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+        {strokes.map((keys, index) => (
+          <React.Fragment key={index}>
+            {renderShortcutKey(keys.join(" + "))}
+            {index < strokes.length - 1 && (
+              <span style={{ color: "var(--theme-text-secondary, #666666)", fontSize: "12px" }}>then</span>
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+    );
+  };
+
+  const iconButtonStyles: React.CSSProperties = {
+    background: "none",
+    border: "none",
+    padding: "4px",
+    cursor: "pointer",
+    borderRadius: "4px",
+    color: "var(--theme-text-secondary, #666666)",
+    display: "flex",
+    alignItems: "center",
+  };
+
+  const textButtonStyles: React.CSSProperties = {
+    background: "none",
+    border: "1px solid var(--theme-border-primary, rgba(0, 0, 0, 0.1))",
+    padding: "4px 8px",
+    cursor: "pointer",
+    borderRadius: "4px",
+    fontSize: "12px",
+    color: "var(--theme-text-secondary, #666666)",
+  };
+
+  const renderCommandShortcut = (commandId: ShortcutCommandId, binding: string) => {
+    if (capture?.commandId === commandId) {
+      return (
+        <div style={{ display: "flex", alignItems: "center", gap: "6px" }}>
+          <span
+            ref={captureRef}
+            tabIndex={0}
+            {...{ [SHORTCUT_CAPTURE_ATTRIBUTE]: "" }}
+            onKeyDown={handleCaptureKeyDown}
+            style={{
+              ...keyStyles,
+              border: "1px dashed var(--theme-border-info, rgba(59, 130, 246, 0.6))",
+              minWidth: "120px",
+              outline: "none",
+            }}
+          >
+            {capture.strokes.length > 0 ? `${formatBinding(capture.strokes.join(" "))} …` : "Press keys…"}
+          </span>
+          <button
+            type="button"
+            style={textButtonStyles}
+            onClick={() => {
+              stopCapture();
+              applyBindings({ ...bindings, [commandId]: "" });
+            }}
+          >
+            Clear
+          </button>
+          <button type="button" style={textButtonStyles} onClick={stopCapture}>
+            Cancel
+          </button>
+        </div>
+      );
+    }
+
+    return (
+      <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        {renderBinding(binding)}
+        <button
+          type="button"
+          style={iconButtonStyles}
+          onClick={() => startCapture(commandId)}
+          title="Change shortcut"
+          aria-label="Change shortcut"
+        >
+          <Pencil size={14} />
+        </button>
+        {binding !== DEFAULT_SHORTCUT_BINDINGS[commandId] && (
+          <button
+            type="button"
+            style={iconButtonStyles}
+            onClick={() => applyBindings({ ...bindings, [commandId]: DEFAULT_SHORTCUT_BINDINGS[commandId] })}
+            title="Reset to default"
+            aria-label="Reset to default"
+          >
+            <RotateCcw size={14} />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Shown under a row: a refused recording, or keys that clash with another command or with Excalidraw
+  const rowMessages = (commandId: ShortcutCommandId): string[] => {
+    if (capture?.commandId === commandId && capture.error) return [capture.error];
+    return conflicts
+      .filter((conflict) => conflict.commandId === commandId)
+      .map((conflict) => conflict.reason);
+  };
+
   return createPortal(
     <motion.div
       style={panelStyles}
@@ -230,30 +455,50 @@ export function HelpOverlay() {
                   {group.title}
                 </h3>
                 <div style={{ display: "grid", gap: "12px" }}>
-                  {group.shortcuts.map((shortcut, index) => (
-                    <div
-                      key={index}
-                      style={{
-                        display: "flex",
-                        alignItems: "center",
-                        justifyContent: "space-between",
-                        padding: "12px 16px",
-                        background: "var(--theme-bg-shortcut, var(--theme-bg-secondary, rgba(0, 0, 0, 0.03)))",
-                        borderRadius: "8px",
-                        border: "1px solid var(--theme-border-shortcut, var(--theme-border-secondary, rgba(0, 0, 0, 0.05)))",
-                        transition: "all 0.2s ease",
-                      }}
-                    >
-                      <span style={{
-                        fontSize: "14px",
-                        color: "var(--theme-text-primary, #333333)",
-                        fontWeight: "500",
-                      }}>
-                        {shortcut.action}
-                      </span>
-                      {renderShortcutKey(shortcut.shortcut)}
-                    </div>
-                  ))}
+                  {group.shortcuts.map((shortcut, index) => {
+                    const messages = shortcut.commandId ? rowMessages(shortcut.commandId) : [];
+                    return (
+                      <div
+                        key={index}
+                        style={{
+                          padding: "12px 16px",
+                          background: "var(--theme-bg-shortcut, var(--theme-bg-secondary, rgba(0, 0, 0, 0.03)))",
+                          borderRadius: "8px",
+                          border: "1px solid var(--theme-border-shortcut, var(--theme-border-secondary, rgba(0, 0, 0, 0.05)))",
+                          transition: "all 0.2s ease",
+                        }}
+                      >
+                        <div style={{
+                          display: "flex",
+                          alignItems: "center",
+                          justifyContent: "space-between",
+                        }}>
+                          <span style={{
+                            fontSize: "14px",
+                            color: "var(--theme-text-primary, #333333)",
+                            fontWeight: "500",
+                          }}>
+                            {shortcut.action}
+                          </span>
+                          {shortcut.commandId
+                            ? renderCommandShortcut(shortcut.commandId, shortcut.shortcut)
+                            : renderShortcutKey(shortcut.shortcut)}
+                        </div>
+                        {messages.map((message) => (
+                          <div
+                            key={message}
+                            style={{
+                              marginTop: "6px",
+                              fontSize: "12px",
+                              color: "var(--theme-warning, #d97706)",
+                            }}
+                          >
+                            {message}
+                          </div>
+                        ))}
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             ))}
@@ -272,9 +517,30 @@ export function HelpOverlay() {
               color: "var(--theme-text-info, var(--theme-text-primary, #333333))",
               lineHeight: "1.5",
             }}>
-              <strong>Note:</strong> These shortcuts work globally within Excalidraw, even when you're actively drawing or typing. Press <strong>Escape</strong> to close this help or any modal.
+              <strong>Note:</strong> Most shortcuts work globally within Excalidraw, even when you're actively drawing or typing; chords made of plain letters, like <strong>G</strong> then <strong>P</strong>, are ignored while typing in a text field. Use the pencil to record new keys (press up to {SHORTCUT_CONSTANTS.MAX_CHORD_STROKES} in a row for a chord). Press <strong>Escape</strong> to close this help or any modal.
             </p>
           </div>
+
+          {saveError && (
+            <div style={{ marginTop: "16px", fontSize: "13px", color: "var(--theme-error, #ef4444)" }}>
+              {saveError}
+            </div>
+          )}
+
+          {hasCustomBindings && (
+            <div style={{ marginTop: "16px", display: "flex", justifyContent: "flex-end" }}>
+              <button
+                type="button"
+                style={textButtonStyles}
+                onClick={() => {
+                  stopCapture();
+                  applyBindings({ ...DEFAULT_SHORTCUT_BINDINGS });
+                }}
+              >
+                Reset all shortcuts to defaults
+              </button>
+            </div>
+          )}
         </div>
       </motion.div>
     </motion.div>,
@@ -0,0 +1,357 @@
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { ImageDown } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { projectOperations } from "../../shared/storage-client";
+import { ImageExportTarget } from "../../shared/types";
+import {
+  DEFAULT_IMAGE_EXPORT_OPTIONS,
+  ImageExportOptions,
+  createImageArchive,
+  downloadBlob,
+  exportCanvasImage,
+  renderCanvasToSvg,
+  toSafeFileName,
+} from "../services/ExportService";
+
+interface Props {
+  target: ImageExportTarget;
+  onClose: () => void;
+}
+
+const PNG_SCALES = [1, 2, 3, 4];
+
+export function ImageExportModal({ target, onClose }: Props) {
+  const { state } = useUnifiedState();
+  const [options, setOptions] = useState<ImageExportOptions>(DEFAULT_IMAGE_EXPORT_OPTIONS);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const exportButtonRef = useRef<HTMLButtonElement>(null);
+
+  // Prefer the live copy from state; the menu target may predate the latest auto-save
+  const canvas = useMemo(
+    () =>
+      target.type === "canvas"
+        ? state.canvases.find((c) => c.id === target.canvas.id) || target.canvas
+        : null,
+    [state.canvases, target],
+  );
+
+  useEffect(() => {
+    const focusTimeout = setTimeout(() => {
+      exportButtonRef.current?.focus();
+    }, 100);
+
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+
+    return () => {
+      clearTimeout(focusTimeout);
+      unsubscribe();
+    };
+  }, [onClose]);
+
+  // Single canvases get a live preview of the current options
+  useEffect(() => {
+    if (!canvas) return;
+
+    let cancelled = false;
+    renderCanvasToSvg(canvas, options)
+      .then((svg) => {
+        if (!cancelled) {
+          setPreviewUrl(svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : null);
+        }
+      })
+      .catch((err) => console.error("Failed to render export preview:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvas, options]);
+
+  const updateOption = <K extends keyof ImageExportOptions>(
+    key: K,
+    value: ImageExportOptions[K],
+  ) => {
+    setOptions((current) => ({ ...current, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      if (canvas) {
+        const image = await exportCanvasImage(canvas, options);
+        if (!image) {
+          setError("This canvas is empty, there is nothing to export.");
+          setIsExporting(false);
+          return;
+        }
+        downloadBlob(image, `${toSafeFileName(canvas.name)}.${options.format}`);
+      } else if (target.type === "project") {
+        const { canvases } = await projectOperations.exportProject(target.project.id);
+        const { blob, skipped } = await createImageArchive(canvases, options);
+        if (skipped.length === canvases.length) {
+          setError("All canvases in this project are empty, there is nothing to export.");
+          setIsExporting(false);
+          return;
+        }
+        downloadBlob(blob, `${toSafeFileName(target.project.name)}_${options.format}.zip`);
+        if (skipped.length > 0) {
+          console.log(`Skipped ${skipped.length} empty canvases:`, skipped);
+        }
+      }
+      onClose();
+    } catch (err) {
+      console.error("Failed to export image:", err);
+      setError("Failed to export image. Please try again.");
+      setIsExporting(false);
+    }
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "440px",
+    minWidth: "300px",
+    margin: "0 16px",
+  };
+
+  const rowStyles: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: "12px",
+    marginBottom: "12px",
+    fontSize: "13px",
+    color: "var(--theme-text-secondary)",
+  };
+
+  const controlStyles: React.CSSProperties = {
+    padding: "4px 8px",
+    fontSize: "13px",
+    border: "1px solid var(--theme-border-primary)",
+    borderRadius: "4px",
+    background: "var(--theme-bg-secondary)",
+    color: "var(--theme-text-primary)",
+  };
+
+  const segmentStyles = (active: boolean): React.CSSProperties => ({
+    padding: "4px 12px",
+    fontSize: "13px",
+    border: "1px solid var(--theme-border-primary)",
+    background: active ? "var(--theme-bg-active)" : "var(--theme-bg-secondary)",
+    color: active ? "var(--theme-text-primary)" : "var(--theme-text-secondary)",
+    fontWeight: active ? "600" : "400",
+    cursor: "pointer",
+  });
+
+  const title =
+    target.type === "canvas"
+      ? `Export "${target.canvas.name}"`
+      : `Export "${target.project.name}" as images`;
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !isExporting && onClose()}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            color: "var(--theme-text-primary)",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            overflow: "hidden",
+            textOverflow: "ellipsis",
+            whiteSpace: "nowrap",
+          }}
+        >
+          <ImageDown size={18} style={{ flexShrink: 0 }} />
+          {title}
+        </h2>
+
+        {canvas && (
+          <div
+            style={{
+              height: "160px",
+              marginBottom: "16px",
+              borderRadius: "6px",
+              border: "1px solid var(--theme-border-primary)",
+              // Checkerboard shows where the export is transparent
+              background:
+                "repeating-conic-gradient(var(--theme-bg-tertiary) 0% 25%, transparent 0% 50%) 50% / 16px 16px",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              overflow: "hidden",
+            }}
+          >
+            {previewUrl ? (
+              <img
+                src={previewUrl}
+                alt={`Preview of ${canvas.name}`}
+                style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
+              />
+            ) : (
+              <span style={{ fontSize: "13px", color: "var(--theme-text-secondary)" }}>
+                Nothing to preview
+              </span>
+            )}
+          </div>
+        )}
+
+        <div style={rowStyles}>
+          <span>Format</span>
+          <div style={{ display: "flex" }}>
+            {(["png", "svg"] as const).map((format, index) => (
+              <button
+                key={format}
+                type="button"
+                onClick={() => updateOption("format", format)}
+                aria-pressed={options.format === format}
+                style={{
+                  ...segmentStyles(options.format === format),
+                  borderRadius: index === 0 ? "4px 0 0 4px" : "0 4px 4px 0",
+                  marginLeft: index === 0 ? 0 : "-1px",
+                }}
+              >
+                {format.toUpperCase()}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {options.format === "png" && (
+          <label style={rowStyles}>
+            Scale
+            <select
+              value={options.scale}
+              onChange={(e) => updateOption("scale", Number(e.target.value))}
+              style={controlStyles}
+            >
+              {PNG_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {scale}×
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        <label style={rowStyles}>
+          Background
+          <input
+            type="checkbox"
+            checked={options.withBackground}
+            onChange={(e) => updateOption("withBackground", e.target.checked)}
+          />
+        </label>
+
+        <label style={rowStyles}>
+          Theme
+          <select
+            value={options.theme}
+            onChange={(e) => updateOption("theme", e.target.value as ImageExportOptions["theme"])}
+            style={controlStyles}
+          >
+            <option value="light">Light</option>
+            <option value="dark">Dark</option>
+          </select>
+        </label>
+
+        <label style={rowStyles}>
+          Padding
+          <input
+            type="number"
+            min={0}
+            max={200}
+            value={options.padding}
+            onChange={(e) =>
+              updateOption("padding", Math.max(0, Math.min(200, Number(e.target.value) || 0)))
+            }
+            style={{ ...controlStyles, width: "72px" }}
+          />
+        </label>
+
+        {error && (
+          <div
+            style={{
+              marginBottom: "12px",
+              fontSize: "13px",
+              color: "var(--theme-error, #ef4444)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <div style={{ display: "flex", justifyContent: "flex-end", gap: "12px", marginTop: "16px" }}>
+          <button
+            type="button"
+            onClick={onClose}
+            disabled={isExporting}
+            style={{
+              padding: "8px 16px",
+              background: "var(--theme-bg-tertiary)",
+              border: "1px solid var(--theme-border-primary)",
+              color: "var(--theme-text-secondary)",
+              borderRadius: "4px",
+              cursor: "pointer",
+            }}
+          >
+            Cancel
+          </button>
+          <button
+            ref={exportButtonRef}
+            type="button"
+            onClick={handleExport}
+            disabled={isExporting}
+            style={{
+              padding: "8px 16px",
+              background: "var(--theme-accent-primary, #6366f1)",
+              border: "none",
+              borderRadius: "6px",
+              color: "var(--theme-text-on-accent, #ffffff)",
+              fontSize: "14px",
+              cursor: isExporting ? "wait" : "pointer",
+            }}
+          >
+            {isExporting ? "Exporting..." : target.type === "project" ? "Export ZIP" : "Export"}
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -1,10 +1,20 @@
-import { Github, HelpCircle } from "lucide-react";
+import { Github, HelpCircle, Upload, Archive, Trash2 } from "lucide-react";
 
 interface PanelFooterProps {
   onHelpOpen: () => void;
+  onImport: () => void;
+  isImporting: boolean;
+  onBackupOpen: () => void;
+  onTrashOpen: () => void;
 }
 
-export function PanelFooter({ onHelpOpen }: PanelFooterProps) {
+export function PanelFooter({
+  onHelpOpen,
+  onImport,
+  isImporting,
+  onBackupOpen,
+  onTrashOpen,
+}: PanelFooterProps) {
   return (
     <div
       style={{
@@ -46,31 +56,113 @@ export function PanelFooter({ onHelpOpen }: PanelFooterProps) {
         <span>GitHub</span>
       </a>
 
-      <button
-        style={{
-          background: "transparent",
-          border: "none",
-          color: "var(--theme-text-secondary)",
-          cursor: "pointer",
-          padding: "4px",
-          borderRadius: "4px",
-          display: "flex",
-          alignItems: "center",
-          transition: "all 0.2s ease",
-        }}
-        onClick={onHelpOpen}
-        onMouseEnter={(e) => {
-          e.currentTarget.style.background = "var(--theme-bg-hover)";
-          e.currentTarget.style.color = "var(--theme-text-primary)";
-        }}
-        onMouseLeave={(e) => {
-          e.currentTarget.style.background = "transparent";
-          e.currentTarget.style.color = "var(--theme-text-secondary)";
-        }}
-        title="Show Keyboard Shortcuts (F1)"
-      >
-        <HelpCircle size={16} />
-      </button>
+      <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+        <button
+          style={{
+            background: "transparent",
+            border: "none",
+            color: "var(--theme-text-secondary)",
+            cursor: isImporting ? "wait" : "pointer",
+            padding: "4px",
+            borderRadius: "4px",
+            display: "flex",
+            alignItems: "center",
+            opacity: isImporting ? 0.5 : 1,
+            transition: "all 0.2s ease",
+          }}
+          onClick={onImport}
+          disabled={isImporting}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+            e.currentTarget.style.color = "var(--theme-text-primary)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "transparent";
+            e.currentTarget.style.color = "var(--theme-text-secondary)";
+          }}
+          title={isImporting ? "Importing..." : "Import .excalidraw files or project ZIPs"}
+        >
+          <Upload size={16} />
+        </button>
+
+        <button
+          style={{
+            background: "transparent",
+            border: "none",
+            color: "var(--theme-text-secondary)",
+            cursor: "pointer",
+            padding: "4px",
+            borderRadius: "4px",
+            display: "flex",
+            alignItems: "center",
+            transition: "all 0.2s ease",
+          }}
+          onClick={onBackupOpen}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+            e.currentTarget.style.color = "var(--theme-text-primary)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "transparent";
+            e.currentTarget.style.color = "var(--theme-text-secondary)";
+          }}
+          title="Backup & restore workspace"
+        >
+          <Archive size={16} />
+        </button>
+
+        <button
+          style={{
+            background: "transparent",
+            border: "none",
+            color: "var(--theme-text-secondary)",
+            cursor: "pointer",
+            padding: "4px",
+            borderRadius: "4px",
+            display: "flex",
+            alignItems: "center",
+            transition: "all 0.2s ease",
+          }}
+          onClick={onTrashOpen}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+            e.currentTarget.style.color = "var(--theme-text-primary)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "transparent";
+            e.currentTarget.style.color = "var(--theme-text-secondary)";
+          }}
+          title="Trash"
+        >
+          <Trash2 size={16} />
+        </button>
+
+        <button
+          style={{
+            background: "transparent",
+            border: "none",
+            color: "var(--theme-text-secondary)",
+            cursor: "pointer",
+            padding: "4px",
+            borderRadius: "4px",
+            display: "flex",
+            alignItems: "center",
+            transition: "all 0.2s ease",
+          }}
+          onClick={onHelpOpen}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+            e.currentTarget.style.color = "var(--theme-text-primary)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "transparent";
+            e.currentTarget.style.color = "var(--theme-text-secondary)";
+          }}
+          title="Show Keyboard Shortcuts (F1)"
+        >
+          <HelpCircle size={16} />
+        </button>
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -1,9 +1,13 @@
-import { Plus, Search, Pin, PinOff, FolderPlus } from "lucide-react";
+import { Plus, Search, Pin, PinOff, FolderPlus, LayoutGrid, List, LayoutTemplate } from "lucide-react";
+import { PanelViewMode } from "../../shared/types";
 
 interface PanelHeaderProps {
   isPanelPinned: boolean;
   onTogglePin: () => void;
+  viewMode: PanelViewMode;
+  onToggleViewMode: () => void;
   onNewCanvas: () => void;
+  onNewFromTemplate: () => void;
   onNewProject: () => void;
   onSearchOpen: () => void;
   shortcuts: Record<string, string>;
@@ -12,7 +16,10 @@ interface PanelHeaderProps {
 export function PanelHeader({
   isPanelPinned,
   onTogglePin,
+  viewMode,
+  onToggleViewMode,
   onNewCanvas,
+  onNewFromTemplate,
   onNewProject,
   onSearchOpen,
   shortcuts,
@@ -100,71 +107,127 @@ export function PanelHeader({
             Excali Organizer
           </span>
         </a>
+        <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+          <button
+            style={{
+              background: "transparent",
+              border: "none",
+              color: "var(--theme-text-secondary)",
+              cursor: "pointer",
+              padding: "4px",
+              borderRadius: "4px",
+              display: "flex",
+              alignItems: "center",
+              opacity: 0.6,
+              transition: "opacity 0.2s ease",
+            }}
+            onClick={onToggleViewMode}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.opacity = "1";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.opacity = "0.6";
+            }}
+            title={viewMode === "grid" ? "Switch to list view" : "Switch to grid view"}
+          >
+            {viewMode === "grid" ? <List size={16} /> : <LayoutGrid size={16} />}
+          </button>
+          <button
+            style={{
+              background: "transparent",
+              border: "none",
+              color: "var(--theme-text-secondary)",
+              cursor: "pointer",
+              padding: "4px",
+              borderRadius: "4px",
+              display: "flex",
+              alignItems: "center",
+              opacity: isPanelPinned ? 1 : 0.6,
+              transition: "opacity 0.2s ease",
+            }}
+            onClick={onTogglePin}
+            title={isPanelPinned ? "Unpin panel" : "Pin panel"}
+          >
+            {isPanelPinned ? (
+              <Pin size={16} />
+            ) : (
+              <PinOff size={16} />
+            )}
+          </button>
+        </div>
+      </div>
+
+      <div style={{ display: "flex", gap: "8px", marginBottom: "8px" }}>
         <button
           style={{
-            background: "transparent",
+            background:
+              "linear-gradient(135deg, var(--theme-accent-primary, #6366f1), var(--theme-accent-secondary, #8b5cf6))",
+            color: "var(--theme-text-on-accent, #ffffff)",
             border: "none",
-            color: "var(--theme-text-secondary)",
+            padding: "8px 12px",
+            borderRadius: "6px",
+            fontSize: "14px",
             cursor: "pointer",
-            padding: "4px",
-            borderRadius: "4px",
             display: "flex",
             alignItems: "center",
-            opacity: isPanelPinned ? 1 : 0.6,
-            transition: "opacity 0.2s ease",
+            gap: "6px",
+            flex: 1,
+            transition: "transform 0.1s ease",
+          }}
+          onClick={onNewCanvas}
+          onMouseDown={(e) => {
+            e.currentTarget.style.transform = "scale(0.98)";
+          }}
+          onMouseUp={(e) => {
+            e.currentTarget.style.transform = "scale(1)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.transform = "scale(1)";
           }}
-          onClick={onTogglePin}
-          title={isPanelPinned ? "Unpin panel" : "Pin panel"}
         >
-          {isPanelPinned ? (
-            <Pin size={16} />
-          ) : (
-            <PinOff size={16} />
-          )}
+          <Plus size={16} />
+          <span>New Canvas</span>
+          <span
+            style={{
+              marginLeft: "auto",
+              fontSize: "12px",
+              opacity: 0.8,
+              fontFamily: "monospace",
+            }}
+          >
+            {shortcuts["New Canvas"]}
+          </span>
         </button>
-      </div>
 
-      <button
-        style={{
-          background:
-            "linear-gradient(135deg, var(--theme-accent-primary, #6366f1), var(--theme-accent-secondary, #8b5cf6))",
-          color: "var(--theme-text-on-accent, #ffffff)",
-          border: "none",
-          padding: "8px 12px",
-          borderRadius: "6px",
-          fontSize: "14px",
-          cursor: "pointer",
-          display: "flex",
-          alignItems: "center",
-          gap: "6px",
-          width: "100%",
-          marginBottom: "8px",
-          transition: "transform 0.1s ease",
-        }}
-        onClick={onNewCanvas}
-        onMouseDown={(e) => {
-          e.currentTarget.style.transform = "scale(0.98)";
-        }}
-        onMouseUp={(e) => {
-          e.currentTarget.style.transform = "scale(1)";
-        }}
-        onMouseLeave={(e) => {
-          e.currentTarget.style.transform = "scale(1)";
-        }}
-      >
-        <Plus size={16} />
-        <span>New Canvas</span>
-        <span
+        <button
           style={{
-            marginLeft: "auto",
-            fontSize: "12px",
-            opacity: 0.8,
-            fontFamily: "monospace",
+            background: "var(--theme-bg-active)",
+            color: "var(--theme-text-secondary)",
+            border: `1px solid var(--theme-border-primary)`,
+            padding: "8px",
+            borderRadius: "6px",
+            cursor: "pointer",
+            display: "flex",
+            alignItems: "center",
+            transition: "background-color 0.2s ease",
+          }}
+          onClick={onNewFromTemplate}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-active)";
           }}
+          title={
+            shortcuts["New from Template"]
+              ? `New from template (${shortcuts["New from Template"]})`
+              : "New from template"
+          }
+          aria-label="New from template"
         >
-          {shortcuts["New Canvas"]}
-        </span>
-      </button>
+          <LayoutTemplate size={16} />
+        </button>
+      </div>
 
       <button
         style={{
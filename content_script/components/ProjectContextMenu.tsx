@@ -1,18 +1,29 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useMemo } from "react";
 import { createPortal } from "react-dom";
-import { motion } from "framer-motion";
+import { motion, AnimatePresence } from "framer-motion";
 import {
   Edit3,
   Trash2,
   Download,
   AlertTriangle,
+  FolderPlus,
+  FolderInput,
+  ChevronRight,
+  FilePlus,
+  LayoutTemplate,
+  ImageDown,
+  Star,
+  StarOff,
 } from "lucide-react";
-import JSZip from "jszip";
 import { useUnifiedState } from "../context/UnifiedStateProvider";
 import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
 import { ProjectFormModal } from "./ProjectFormModal";
+import { useCanvasTemplates } from "../hooks/useCanvasTemplates";
+import { useFavorites } from "../hooks/useFavorites";
 import { UnifiedProject } from "../../shared/types";
-import { projectOperations } from "../../shared/unified-db";
+import { projectOperations } from "../../shared/storage-client";
+import { createProjectArchive, downloadBlob, toSafeFileName } from "../services/ExportService";
+import { getDescendantProjectIds, getProjectPath, SUBMENU_CONSTANTS } from "../../shared/utils";
 
 interface Props {
   x: number;
@@ -23,7 +34,11 @@ interface Props {
 
 export function ProjectContextMenu({ x, y, project, onClose }: Props) {
   const { state, dispatch } = useUnifiedState();
+  const { createCanvasInProject } = useCanvasTemplates();
+  const { setFavorite } = useFavorites();
   const [isEditModalOpen, setEditModalOpen] = useState(false);
+  const [isSubprojectModalOpen, setSubprojectModalOpen] = useState(false);
+  const [showMoveTo, setShowMoveTo] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [deleteCanvasAction, setDeleteCanvasAction] = useState<'keep' | 'delete'>('keep');
   const menuRef = useRef<HTMLDivElement>(null);
@@ -66,7 +81,8 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
         menuRef.current &&
         !menuRef.current.contains(e.target as Node) &&
         (!deleteModalRef.current || !deleteModalRef.current.contains(e.target as Node)) &&
-        !isEditModalOpen // Don't close if edit modal is open
+        !isEditModalOpen && // Don't close if edit modal is open
+        !isSubprojectModalOpen
       ) {
         onClose();
       }
@@ -78,6 +94,8 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
           setShowDeleteConfirm(false);
         } else if (isEditModalOpen) {
           setEditModalOpen(false);
+        } else if (isSubprojectModalOpen) {
+          setSubprojectModalOpen(false);
         } else {
           onClose();
         }
@@ -95,7 +113,7 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
       document.removeEventListener("mousedown", handleClickOutside);
       document.removeEventListener("keydown", handleEscape);
     };
-  }, [onClose, showDeleteConfirm, isEditModalOpen]);
+  }, [onClose, showDeleteConfirm, isEditModalOpen, isSubprojectModalOpen]);
 
   // Focus management for delete modal
   useEffect(() => {
@@ -104,12 +122,18 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
     }
   }, [showDeleteConfirm]);
 
-  const handleEdit = async (newName: string, newColor: string, newDescription?: string) => {
+  const handleEdit = async (
+    newName: string,
+    newColor: string,
+    newDescription?: string,
+    newDefaultTemplateId?: string,
+  ) => {
     try {
       const updatedProject = await projectOperations.updateProjectFields(project.id, {
         name: newName,
         color: newColor,
         description: newDescription,
+        defaultTemplateId: newDefaultTemplateId,
       });
 
       // Update state
@@ -139,7 +163,9 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
         ? state.canvases.find(c => c.id === state.currentWorkingCanvasId)
         : null;
       
-      const isActiveCanvasInProject = currentWorkingCanvas?.projectId === project.id;
+      const isActiveCanvasInProject =
+        !!currentWorkingCanvas?.projectId &&
+        subtreeProjectIds.includes(currentWorkingCanvas.projectId);
       
       if (isActiveCanvasInProject) {
         console.log("Project deletion will affect currently active canvas - requesting replacement canvas");
@@ -187,96 +213,12 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
   const handleExport = async () => {
     try {
       const exportData = await projectOperations.exportProject(project.id);
-
-      // Create ZIP file structure
-      const zip = new JSZip();
-
-      // Add project metadata
-      const projectMetadata = {
-        id: exportData.project.id,
-        name: exportData.project.name,
-        description: exportData.project.description || "",
-        color: exportData.project.color,
-        createdAt: exportData.project.createdAt,
-        updatedAt: exportData.project.updatedAt,
-        canvasCount: exportData.canvases.length,
-      };
-
-      zip.file("project.json", JSON.stringify(projectMetadata, null, 2));
-
-      // Create canvases directory
-      const canvasesFolder = zip.folder("canvases");
-      if (!canvasesFolder) {
-        throw new Error("Failed to create canvases folder");
-      }
-
-      // Add each canvas as an individual .excalidraw file
-      exportData.canvases.forEach((canvas) => {
-        const canvasData = {
-          type: "excalidraw",
-          version: 2,
-          source: "https://excalidraw.com",
-          elements: canvas.elements || [],
-          appState: canvas.appState || {
-            theme: "light",
-            viewBackgroundColor: "#ffffff",
-            currentItemStrokeColor: "#000000",
-            currentItemBackgroundColor: "transparent",
-            currentItemFillStyle: "hachure",
-            currentItemStrokeWidth: 1,
-            currentItemStrokeStyle: "solid",
-            currentItemRoughness: 1,
-            currentItemOpacity: 100,
-            currentItemFontSize: 20,
-            currentItemFontFamily: 1,
-            currentItemTextAlign: "left",
-            currentItemStartArrowhead: null,
-            currentItemEndArrowhead: "arrow",
-            scrollX: 0,
-            scrollY: 0,
-            zoom: { value: 1 },
-            currentItemLinearStrokeSharpness: "round",
-            gridSize: null,
-            colorPalette: {},
-          },
-          files: {},
-        };
-
-        const filename = `canvas-${canvas.id}.excalidraw`;
-        canvasesFolder.file(filename, JSON.stringify(canvasData, null, 2));
-      });
-
-      // Add export manifest
-      const manifest = {
-        exportVersion: "1.0.0",
-        exportedAt: exportData.exportedAt,
-        exportedBy: "Excali Organizer Extension",
-        projectName: exportData.project.name,
-        canvasCount: exportData.canvases.length,
-        format: "zip",
-        compatibility: {
-          excalidraw: "^0.18.0",
-          excaliOrganizer: "^1.0.0",
-        },
-      };
-
-      zip.file("manifest.json", JSON.stringify(manifest, null, 2));
-
-      // Generate ZIP blob and download
-      const zipBlob = await zip.generateAsync({
-        type: "blob",
-        compression: "DEFLATE",
-        compressionOptions: { level: 6 }
-      });
-
-      const url = URL.createObjectURL(zipBlob);
-      const a = document.createElement("a");
-      a.href = url;
-      a.download = `${project.name
-        .replace(/[^a-z0-9]/gi, "_")
-        .toLowerCase()}_project.zip`;
-      a.click();
-      URL.revokeObjectURL(url);
+      const zipBlob = await createProjectArchive(
+        exportData.project,
+        exportData.canvases,
+        exportData.exportedAt,
+      );
+      downloadBlob(zipBlob, `${toSafeFileName(project.name)}_project.zip`);
 
       // Emit event
       eventBus.emit(InternalEventTypes.PROJECT_EXPORT_REQUEST, {
@@ -291,7 +233,54 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
     onClose();
   };
 
-  const canvasCount = project.canvasIds?.length || 0;
+  const isFavorite = project.favoriteRank !== undefined;
+
+  const handleToggleFavorite = async () => {
+    try {
+      await setFavorite({ type: "project", id: project.id }, !isFavorite);
+    } catch (error) {
+      console.error("Failed to update favorites:", error);
+      alert("Failed to update favorites. Please try again.");
+    }
+    onClose();
+  };
+
+  const handleMove = async (parentId?: string) => {
+    try {
+      const movedProject = await projectOperations.moveProject(project.id, parentId);
+      dispatch({ type: "UPDATE_PROJECT", payload: movedProject });
+      eventBus.emit(InternalEventTypes.PROJECT_UPDATED, movedProject);
+    } catch (error) {
+      console.error("Failed to move project:", error);
+      alert("Failed to move project. Please try again.");
+    }
+    onClose();
+  };
+
+  // The project and everything nested under it; deleted together
+  const subtreeProjectIds = useMemo(
+    () => [project.id, ...getDescendantProjectIds(state.projects, project.id)],
+    [state.projects, project.id]
+  );
+  const subprojectCount = subtreeProjectIds.length - 1;
+
+  // A project can move anywhere except into its own subtree
+  const moveTargets = useMemo(
+    () =>
+      state.projects
+        .filter((p) => !subtreeProjectIds.includes(p.id) && p.id !== project.parentId)
+        .map((p) => ({ project: p, path: getProjectPath(state.projects, p.id) }))
+        .sort((a, b) => a.path.localeCompare(b.path)),
+    [state.projects, subtreeProjectIds, project.parentId]
+  );
+
+  const canvasCount = state.projects
+    .filter((p) => subtreeProjectIds.includes(p.id))
+    .reduce((count, p) => count + (p.canvasIds?.length || 0), 0);
+
+  const showSubmenuOnLeft =
+    position.x + (menuRef.current?.offsetWidth || 200) + SUBMENU_CONSTANTS.SUBMENU_WIDTH >
+    window.innerWidth;
 
   const menuStyles: React.CSSProperties = {
     position: "fixed",
@@ -362,6 +351,48 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
         exit={{ opacity: 0, scale: 0.9 }}
         transition={{ duration: 0.15 }}
       >
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            createCanvasInProject(project.id);
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <FilePlus size={16} />
+          New Canvas
+        </button>
+
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            dispatch({ type: "SET_TEMPLATE_PICKER", payload: { projectId: project.id } });
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <LayoutTemplate size={16} />
+          New from Template...
+        </button>
+
+        <div
+          style={{
+            height: "1px",
+            background: "var(--theme-border-secondary)",
+            margin: "4px 0",
+          }}
+        />
+
         <button
           style={menuItemStyles}
           onClick={() => setEditModalOpen(true)}
@@ -385,6 +416,128 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
           {/* </span> */}
         </button>
 
+        <button
+          style={menuItemStyles}
+          onClick={handleToggleFavorite}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          {isFavorite ? <StarOff size={16} /> : <Star size={16} />}
+          {isFavorite ? "Remove from Favorites" : "Add to Favorites"}
+        </button>
+
+        <button
+          style={menuItemStyles}
+          onClick={() => setSubprojectModalOpen(true)}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <FolderPlus size={16} />
+          New Subproject
+        </button>
+
+        {/* Move to submenu */}
+        {(moveTargets.length > 0 || project.parentId) && (
+          <div
+            style={{ position: "relative" }}
+            onMouseEnter={() => setShowMoveTo(true)}
+            onMouseLeave={() => setShowMoveTo(false)}
+          >
+            <button style={menuItemStyles}>
+              <FolderInput size={16} />
+              Move to
+              <ChevronRight size={14} style={{ marginLeft: "auto" }} />
+            </button>
+
+            <AnimatePresence>
+              {showMoveTo && (
+                <motion.div
+                  className="project-submenu-scrollable"
+                  style={{
+                    position: "absolute",
+                    top: 0,
+                    left: showSubmenuOnLeft ? "auto" : "100%",
+                    right: showSubmenuOnLeft ? "100%" : "auto",
+                    margin: `0 ${SUBMENU_CONSTANTS.MARGIN}px`,
+                    background: "var(--theme-bg-primary, #ffffff)",
+                    border: "1px solid var(--theme-border-primary, rgba(0, 0, 0, 0.1))",
+                    borderRadius: "8px",
+                    boxShadow: "var(--theme-shadow-lg, 0 8px 32px rgba(0, 0, 0, 0.1))",
+                    minWidth: "180px",
+                    maxWidth: "280px",
+                    padding: "8px 0",
+                    maxHeight: `${SUBMENU_CONSTANTS.MAX_HEIGHT}px`,
+                    overflowY: "auto",
+                    zIndex: 10000000,
+                    scrollbarWidth: "thin",
+                    scrollbarColor: "var(--theme-border-secondary) transparent",
+                  }}
+                  initial={{ opacity: 0, x: -10 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: -10 }}
+                  transition={{ duration: 0.15 }}
+                >
+                  {project.parentId && (
+                    <button
+                      style={{ ...menuItemStyles, padding: "8px 12px" }}
+                      onClick={() => handleMove(undefined)}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.background = "var(--theme-bg-hover)";
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.background = "none";
+                      }}
+                    >
+                      Top level
+                    </button>
+                  )}
+                  {moveTargets.map(({ project: target, path }) => (
+                    <button
+                      key={target.id}
+                      style={{ ...menuItemStyles, padding: "8px 12px" }}
+                      title={path}
+                      onClick={() => handleMove(target.id)}
+                      onMouseEnter={(e) => {
+                        e.currentTarget.style.background = "var(--theme-bg-hover)";
+                      }}
+                      onMouseLeave={(e) => {
+                        e.currentTarget.style.background = "none";
+                      }}
+                    >
+                      <div
+                        style={{
+                          width: "12px",
+                          height: "12px",
+                          borderRadius: "3px",
+                          backgroundColor: target.color,
+                          flexShrink: 0,
+                        }}
+                      />
+                      <span
+                        style={{
+                          overflow: "hidden",
+                          textOverflow: "ellipsis",
+                          whiteSpace: "nowrap",
+                        }}
+                      >
+                        {path}
+                      </span>
+                    </button>
+                  ))}
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        )}
+
         <div
           style={{
             height: "1px",
@@ -416,6 +569,23 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
           {/* </span> */}
         </button>
 
+        <button
+          style={menuItemStyles}
+          onClick={() => {
+            dispatch({ type: "SET_IMAGE_EXPORT_TARGET", payload: { type: "project", project } });
+            onClose();
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "none";
+          }}
+        >
+          <ImageDown size={16} />
+          Export as Images...
+        </button>
+
         <div
           style={{
             height: "1px",
@@ -467,6 +637,18 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
         />
       )}
 
+      {/* New Subproject Modal */}
+      {isSubprojectModalOpen && (
+        <ProjectFormModal
+          mode="create"
+          parentId={project.id}
+          onClose={() => {
+            setSubprojectModalOpen(false);
+            onClose();
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Modal */}
       {showDeleteConfirm && (
         <div
@@ -531,7 +713,7 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
                   color: "var(--theme-text-secondary, #6b7280)",
                   lineHeight: "1.4"
                 }}>
-                  This action cannot be undone
+                  You can restore it from the trash
                 </p>
               </div>
             </div>
@@ -545,6 +727,8 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
                 lineHeight: "1.5"
               }}>
                 Are you sure you want to delete "<strong style={{ color: "var(--theme-text-primary, #1f2937)" }}>{project.name}</strong>"?
+                {subprojectCount > 0 &&
+                  ` Its ${subprojectCount} subproject${subprojectCount !== 1 ? 's' : ''} will be deleted too.`}
               </p>
 
               {canvasCount > 0 && (
@@ -560,7 +744,8 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
                     fontWeight: "600",
                     color: "var(--theme-text-primary, #1f2937)"
                   }}>
-                    This project contains <strong>{canvasCount}</strong> canvas{canvasCount !== 1 ? 'es' : ''}
+                    {subprojectCount > 0 ? "This project and its subprojects contain" : "This project contains"}{" "}
+                    <strong>{canvasCount}</strong> canvas{canvasCount !== 1 ? 'es' : ''}
                   </p>
 
                   <div style={{ display: "flex", flexDirection: "column", gap: "12px" }}>
@@ -647,13 +832,13 @@ export function ProjectContextMenu({ x, y, project, onClose }: Props) {
                       />
                       <div>
                         <div style={{ fontSize: "15px", fontWeight: "500", marginBottom: "4px" }}>
-                          Delete all canvases
+                          Trash all canvases
                         </div>
                         <div style={{
                           fontSize: "13px",
                           opacity: deleteCanvasAction === 'delete' ? 0.9 : 0.7
                         }}>
-                          Permanently delete all {canvasCount} canvas{canvasCount !== 1 ? 'es' : ''}
+                          Move all {canvasCount} canvas{canvasCount !== 1 ? 'es' : ''} to the trash with the project
                         </div>
                       </div>
                     </div>
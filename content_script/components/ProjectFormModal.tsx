@@ -4,17 +4,24 @@ import { motion } from "framer-motion";
 import { X } from "lucide-react";
 import { useUnifiedState } from "../context/UnifiedStateProvider";
 import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
-import { UnifiedProject } from "../../shared/types";
+import { templateOperations } from "../../shared/storage-client";
+import { CanvasTemplate, UnifiedProject } from "../../shared/types";
 
 interface CreateProjectProps {
   mode: "create";
+  parentId?: string; // Create as a subproject of this project
   onClose: () => void;
 }
 
 interface EditProjectProps {
   mode: "edit";
   project: UnifiedProject;
-  onEdit: (newName: string, newColor: string, newDescription?: string) => Promise<void>;
+  onEdit: (
+    newName: string,
+    newColor: string,
+    newDescription?: string,
+    newDefaultTemplateId?: string,
+  ) => Promise<void>;
   onClose: () => void;
 }
 
@@ -42,12 +49,16 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
   const isEditMode = mode === "edit";
   const project = isEditMode ? (props as EditProjectProps).project : null;
   const onEdit = isEditMode ? (props as EditProjectProps).onEdit : null;
+  const parentId = isEditMode ? undefined : (props as CreateProjectProps).parentId;
+  const parentProject = parentId ? state.projects.find((p) => p.id === parentId) : undefined;
 
   const [name, setName] = useState(project?.name || "");
   const [description, setDescription] = useState(project?.description || "");
   const [selectedColor, setSelectedColor] = useState<string>(
     project?.color || projectColors[0] || "#6366f1"
   );
+  const [defaultTemplateId, setDefaultTemplateId] = useState(project?.defaultTemplateId || "");
+  const [templates, setTemplates] = useState<CanvasTemplate[]>([]);
   const [customColor, setCustomColor] = useState("");
   const [showCustomPicker, setShowCustomPicker] = useState(false);
   const [selectedColorIndex, setSelectedColorIndex] = useState(
@@ -78,6 +89,14 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
     }
   }, [isEditMode]);
 
+  // Templates offered as the project's default for new canvases
+  useEffect(() => {
+    templateOperations
+      .getAllTemplates()
+      .then(setTemplates)
+      .catch((err) => console.error("Failed to load templates:", err));
+  }, []);
+
   // Handle escape key
   useEffect(() => {
     const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
@@ -135,7 +154,8 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
       const hasChanges = 
         name.trim() !== project.name || 
         selectedColor !== project.color || 
-        (description.trim() || undefined) !== (project.description || undefined);
+        (description.trim() || undefined) !== (project.description || undefined) ||
+        (defaultTemplateId || undefined) !== (project.defaultTemplateId || undefined);
       
       if (!hasChanges) {
         onClose();
@@ -147,7 +167,12 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
 
     try {
       if (isEditMode && onEdit) {
-        await onEdit(name.trim(), selectedColor || projectColors[0] || "#6366f1", description.trim() || undefined);
+        await onEdit(
+          name.trim(),
+          selectedColor || projectColors[0] || "#6366f1",
+          description.trim() || undefined,
+          defaultTemplateId || undefined,
+        );
       } else {
         // Create new project
         const newProject = await createProject({
@@ -155,6 +180,8 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
           description: description.trim() || undefined,
           canvasIds: [],
           color: selectedColor || projectColors[0] || "#6366f1",
+          parentId: parentProject?.id,
+          defaultTemplateId: defaultTemplateId || undefined,
           updatedAt: new Date(),
         });
 
@@ -169,7 +196,7 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
     } finally {
       setIsLoading(false);
     }
-  }, [validateForm, isEditMode, project, name, selectedColor, onClose, onEdit, createProject, description]);
+  }, [validateForm, isEditMode, project, name, selectedColor, onClose, onEdit, createProject, description, defaultTemplateId, parentProject]);
 
   const handleNameChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     setName(e.target.value);
@@ -313,7 +340,7 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
                 margin: 0,
               }}
             >
-              {isEditMode ? "Edit Project" : "Create New Project"}
+              {isEditMode ? "Edit Project" : parentProject ? "Create Subproject" : "Create New Project"}
             </h2>
             <button
               onClick={onClose}
@@ -343,7 +370,9 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
           >
             {isEditMode 
               ? "Update the project details" 
-              : "Organize your canvases into projects for better management"
+              : parentProject
+                ? `Add a folder inside "${parentProject.name}"`
+                : "Organize your canvases into projects for better management"
             }
           </p>
         </div>
@@ -578,6 +607,44 @@ export const ProjectFormModal = React.memo(function ProjectFormModal(props: Prop
               </div>
             </div>
 
+            {templates.length > 0 && (
+              <div style={{ marginBottom: "20px" }}>
+                <label
+                  style={{
+                    display: "block",
+                    fontSize: "14px",
+                    fontWeight: 500,
+                    color: "var(--theme-text-primary)",
+                    marginBottom: "8px",
+                  }}
+                >
+                  Default Template
+                </label>
+                <select
+                  style={{ ...inputStyles, cursor: "pointer" }}
+                  value={defaultTemplateId}
+                  onChange={(e) => setDefaultTemplateId(e.target.value)}
+                  disabled={isLoading}
+                >
+                  <option value="">Blank canvas</option>
+                  {templates.map((template) => (
+                    <option key={template.id} value={template.id}>
+                      {template.category} / {template.name}
+                    </option>
+                  ))}
+                </select>
+                <div
+                  style={{
+                    fontSize: "12px",
+                    color: "var(--theme-text-secondary)",
+                    marginTop: "4px",
+                  }}
+                >
+                  Used for canvases created from the project's menu
+                </div>
+              </div>
+            )}
+
             {error &&
               !error.includes("name") &&
               !error.includes("description") && (
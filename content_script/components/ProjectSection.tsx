@@ -1,7 +1,10 @@
 import { motion, AnimatePresence } from "framer-motion";
-import { Folder, FileText, ChevronRight } from "lucide-react";
-import { UnifiedProject, UnifiedCanvas } from "../../shared/types";
+import { Folder, ChevronRight, AppWindow } from "lucide-react";
+import { UnifiedProject, UnifiedCanvas, PanelViewMode } from "../../shared/types";
+import { CanvasThumbnail } from "./CanvasThumbnail";
+import { TagChips } from "./TagChips";
 import { PROJECT_SORT_CONSTANTS } from "../../shared/utils";
+import { PanelDragAndDrop } from "../hooks/usePanelDragAndDrop";
 
 interface ProjectSectionProps {
   projects: UnifiedProject[];
@@ -12,12 +15,20 @@ interface ProjectSectionProps {
   onShowAllProjectsToggle: () => void;
   collapsedProjects: Set<string>;
   selectedCanvasId: string | null;
+  selectedCanvasIds: Set<string>;
+  canvasesOpenElsewhere: Set<string>; // Canvases other excalidraw.com tabs have open
   getCanvasesForProject: (projectId: string) => UnifiedCanvas[];
+  getChildProjects: (projectId: string) => UnifiedProject[];
+  dragAndDrop: PanelDragAndDrop;
   onToggleProject: (projectId: string) => void;
   onProjectRightClick: (e: React.MouseEvent, project: UnifiedProject) => void;
   onCanvasSelect: (canvas: UnifiedCanvas) => void;
+  onCanvasMultiSelect: (canvas: UnifiedCanvas, range: boolean, listCanvasIds: string[]) => void;
   onCanvasRightClick: (e: React.MouseEvent, canvas: UnifiedCanvas) => void;
   formatDate: (date: Date) => string;
+  viewMode: PanelViewMode;
+  activeTag: string | null;
+  onTagClick: (tag: string) => void;
   hoveredProject: UnifiedProject | null;
   onProjectHover: (project: UnifiedProject | null, position?: { x: number; y: number }) => void;
 }
@@ -31,12 +42,20 @@ export function ProjectSection({
   onShowAllProjectsToggle,
   collapsedProjects,
   selectedCanvasId,
+  selectedCanvasIds,
+  canvasesOpenElsewhere,
   getCanvasesForProject,
+  getChildProjects,
+  dragAndDrop,
   onToggleProject,
   onProjectRightClick,
   onCanvasSelect,
+  onCanvasMultiSelect,
   onCanvasRightClick,
   formatDate,
+  viewMode,
+  activeTag,
+  onTagClick,
   hoveredProject: _hoveredProject,
   onProjectHover,
 }: ProjectSectionProps) {
@@ -46,6 +65,286 @@ export function ProjectSection({
     return null;
   }
 
+  const isGrid = viewMode === "grid";
+
+  // Renders a project row with its subprojects and canvases nested below it
+  const renderProject = (project: UnifiedProject): React.ReactNode => {
+    const projectCanvases = getCanvasesForProject(project.id);
+    const projectCanvasIds = projectCanvases.map((canvas) => canvas.id);
+    const childProjects = getChildProjects(project.id);
+    const isCollapsed = collapsedProjects.has(project.id);
+    const projectItem = { type: "project" as const, project };
+
+    return (
+      <div key={project.id} style={{ marginBottom: "8px" }}>
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "4px",
+            padding: "4px",
+            borderRadius: "6px",
+            transition: "background-color 0.2s ease",
+            opacity: dragAndDrop.isDragging(projectItem) ? 0.5 : 1,
+            ...dragAndDrop.getDropIndicatorStyle(projectItem),
+          }}
+          {...dragAndDrop.getDragSourceProps(projectItem)}
+          {...dragAndDrop.getDropZoneProps(projectItem)}
+          onContextMenu={(e) => onProjectRightClick(e, project)}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.background = "var(--theme-bg-hover)";
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.background = "transparent";
+          }}
+        >
+          {/* Expand/Collapse Button */}
+          <button
+            style={{
+              background: "none",
+              border: "none",
+              padding: "4px",
+              cursor: "pointer",
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              borderRadius: "4px",
+              color: "var(--theme-text-secondary)",
+              transition: "all 0.15s ease",
+              width: "20px",
+              height: "20px",
+            }}
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleProject(project.id);
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.background = "var(--theme-bg-secondary)";
+              e.currentTarget.style.color = "var(--theme-text-primary)";
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.background = "none";
+              e.currentTarget.style.color = "var(--theme-text-secondary)";
+            }}
+            title={isCollapsed ? "Expand project" : "Collapse project"}
+          >
+            <motion.div
+              animate={{ rotate: isCollapsed ? 0 : 90 }}
+              transition={{ duration: 0.15, ease: "easeOut" }}
+              style={{ display: "flex", alignItems: "center", justifyContent: "center" }}
+            >
+              <ChevronRight size={12} />
+            </motion.div>
+          </button>
+
+          {/* Project Info Area */}
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              flex: 1,
+              padding: "4px",
+              borderRadius: "4px",
+              cursor: "pointer",
+              transition: "background-color 0.15s ease",
+            }}
+            role="button"
+            tabIndex={0}
+            aria-label={`${project.name}${project.description ? ` - ${project.description}` : ''}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              // Optional: Add project selection logic here
+              // For now, we'll just expand/collapse as well
+              onToggleProject(project.id);
+            }}
+            onKeyDown={(e) => {
+              if ((e.key === "Enter" || e.key === " ") && !e.altKey) {
+                e.preventDefault();
+                onToggleProject(project.id);
+                return;
+              }
+              dragAndDrop.handleMoveKey(e, projectItem);
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.background = "var(--theme-bg-secondary)";
+              if (project.description?.trim()) {
+                const rect = e.currentTarget.getBoundingClientRect();
+                onProjectHover(project, {
+                  x: rect.right + 8,
+                  y: rect.top + rect.height / 2
+                });
+              }
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.background = "transparent";
+              onProjectHover(null);
+            }}
+          >
+            <Folder size={16} color={project.color} fill={project.color} style={{ flexShrink: 0 }} />
+            <span
+              style={{
+                flex: 1,
+                fontWeight: "500",
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {project.name}
+            </span>
+            <span
+              style={{
+                fontSize: "12px",
+                color: "var(--theme-text-secondary)",
+                flexShrink: 0,
+              }}
+            >
+              {projectCanvases.length}
+            </span>
+          </div>
+        </div>
+
+        <AnimatePresence>
+          {!isCollapsed && (
+            <motion.div
+              initial={{ height: 0, opacity: 0 }}
+              animate={{ height: "auto", opacity: 1 }}
+              exit={{ height: 0, opacity: 0 }}
+              transition={{ duration: 0.2 }}
+              style={{ overflow: "hidden" }}
+            >
+              {/* Subprojects come before the project's own canvases */}
+              {childProjects.length > 0 && (
+                <div style={{ marginLeft: "16px", paddingTop: "4px" }}>
+                  {childProjects.map(renderProject)}
+                </div>
+              )}
+              <div
+                style={
+                  isGrid
+                    ? {
+                        display: "grid",
+                        gridTemplateColumns: "repeat(auto-fill, minmax(100px, 1fr))",
+                        gap: "6px",
+                        marginLeft: "20px",
+                        paddingTop: "4px",
+                      }
+                    : undefined
+                }
+              >
+              {projectCanvases.map((canvas) => {
+                const isHighlighted =
+                  selectedCanvasId === canvas.id || selectedCanvasIds.has(canvas.id);
+                return (
+                <div
+                  key={canvas.id}
+                  style={{
+                    display: "flex",
+                    flexDirection: isGrid ? "column" : "row",
+                    alignItems: isGrid ? "stretch" : "center",
+                    gap: isGrid ? "4px" : "8px",
+                    padding: isGrid ? "4px" : "6px 8px",
+                    marginLeft: isGrid ? 0 : "20px",
+                    minWidth: 0,
+                    borderRadius: "4px",
+                    cursor: "pointer",
+                    transition: "background-color 0.2s ease",
+                    backgroundColor: isHighlighted
+                      ? "var(--theme-bg-active)"
+                      : "transparent",
+                    boxShadow: selectedCanvasIds.has(canvas.id)
+                      ? "inset 0 0 0 1px var(--theme-accent-primary, #6366f1)"
+                      : undefined,
+                    opacity: dragAndDrop.isDragging({ type: "canvas", canvas }) ? 0.5 : 1,
+                    ...dragAndDrop.getDropIndicatorStyle({ type: "canvas", canvas }),
+                  }}
+                  tabIndex={0}
+                  aria-selected={selectedCanvasIds.has(canvas.id)}
+                  {...dragAndDrop.getDragSourceProps({ type: "canvas", canvas })}
+                  {...dragAndDrop.getDropZoneProps({ type: "canvas", canvas })}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.altKey) {
+                      onCanvasSelect(canvas);
+                      return;
+                    }
+                    if (e.key === " " && !e.altKey) {
+                      e.preventDefault();
+                      onCanvasMultiSelect(canvas, e.shiftKey, projectCanvasIds);
+                      return;
+                    }
+                    dragAndDrop.handleMoveKey(e, { type: "canvas", canvas });
+                  }}
+                  onClick={(e) => {
+                    // Shift extends the selection, Ctrl/Cmd toggles one canvas
+                    if (e.shiftKey || e.ctrlKey || e.metaKey) {
+                      onCanvasMultiSelect(canvas, e.shiftKey, projectCanvasIds);
+                      return;
+                    }
+                    onCanvasSelect(canvas);
+                  }}
+                  onContextMenu={(e) => onCanvasRightClick(e, canvas)}
+                  onMouseEnter={(e) => {
+                    if (!isHighlighted) {
+                      e.currentTarget.style.background = "var(--theme-bg-hover)";
+                    }
+                  }}
+                  onMouseLeave={(e) => {
+                    if (!isHighlighted) {
+                      e.currentTarget.style.background = "transparent";
+                    }
+                  }}
+                >
+                  <CanvasThumbnail
+                    canvas={canvas}
+                    width={isGrid ? "100%" : 32}
+                    height={isGrid ? 64 : 22}
+                    iconSize={isGrid ? 20 : 12}
+                  />
+                  <span
+                    style={{
+                      flex: 1,
+                      fontSize: isGrid ? "12px" : "13px",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {canvas.name}
+                  </span>
+                  {canvasesOpenElsewhere.has(canvas.id) && (
+                    <span
+                      title="Open in another tab"
+                      style={{
+                        display: "flex",
+                        color: "var(--theme-text-secondary)",
+                        flexShrink: 0,
+                      }}
+                    >
+                      <AppWindow size={12} aria-label="Open in another tab" />
+                    </span>
+                  )}
+                  <TagChips tags={canvas.tags} activeTag={activeTag} onTagClick={onTagClick} />
+                  <span
+                    style={{
+                      fontSize: "11px",
+                      color: "var(--theme-text-secondary)",
+                      flexShrink: 0,
+                    }}
+                  >
+                    {formatDate(canvas.createdAt)}
+                  </span>
+                </div>
+                );
+              })}
+              </div>
+            </motion.div>
+          )}
+        </AnimatePresence>
+      </div>
+    );
+  };
+
   return (
     <div style={{ marginBottom: "24px" }}>
       <div
@@ -78,202 +377,13 @@ export function ProjectSection({
           }}
         >
           {projects.length} {projects.length === 1 ? 'project' : 'projects'}
-          {projects.length > PROJECT_SORT_CONSTANTS.DEFAULT_PAGINATION_LIMIT && !showAllProjects && ` • showing top ${PROJECT_SORT_CONSTANTS.DEFAULT_PAGINATION_LIMIT}`}
-          {projects.length > PROJECT_SORT_CONSTANTS.DEFAULT_PAGINATION_LIMIT && showAllProjects && ' • all shown'}
+          {hasMoreProjects && !showAllProjects && ` • showing top ${PROJECT_SORT_CONSTANTS.DEFAULT_PAGINATION_LIMIT}`}
+          {hasMoreProjects && showAllProjects && ' • all shown'}
         </div>
       </div>
 
       <>
-        {projectsToShow.map((project) => {
-        const projectCanvases = getCanvasesForProject(project.id);
-        const isCollapsed = collapsedProjects.has(project.id);
-
-        return (
-          <div key={project.id} style={{ marginBottom: "8px" }}>
-            <div
-              style={{
-                display: "flex",
-                alignItems: "center",
-                gap: "4px",
-                padding: "4px",
-                borderRadius: "6px",
-                transition: "background-color 0.2s ease",
-              }}
-              onContextMenu={(e) => onProjectRightClick(e, project)}
-              onMouseEnter={(e) => {
-                e.currentTarget.style.background = "var(--theme-bg-hover)";
-              }}
-              onMouseLeave={(e) => {
-                e.currentTarget.style.background = "transparent";
-              }}
-            >
-              {/* Expand/Collapse Button */}
-              <button
-                style={{
-                  background: "none",
-                  border: "none",
-                  padding: "4px",
-                  cursor: "pointer",
-                  display: "flex",
-                  alignItems: "center",
-                  justifyContent: "center",
-                  borderRadius: "4px",
-                  color: "var(--theme-text-secondary)",
-                  transition: "all 0.15s ease",
-                  width: "20px",
-                  height: "20px",
-                }}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onToggleProject(project.id);
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.background = "var(--theme-bg-secondary)";
-                  e.currentTarget.style.color = "var(--theme-text-primary)";
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.background = "none";
-                  e.currentTarget.style.color = "var(--theme-text-secondary)";
-                }}
-                title={isCollapsed ? "Expand project" : "Collapse project"}
-              >
-                <motion.div
-                  animate={{ rotate: isCollapsed ? 0 : 90 }}
-                  transition={{ duration: 0.15, ease: "easeOut" }}
-                  style={{ display: "flex", alignItems: "center", justifyContent: "center" }}
-                >
-                  <ChevronRight size={12} />
-                </motion.div>
-              </button>
-
-              {/* Project Info Area */}
-              <div
-                style={{
-                  display: "flex",
-                  alignItems: "center",
-                  gap: "8px",
-                  flex: 1,
-                  padding: "4px",
-                  borderRadius: "4px",
-                  cursor: "pointer",
-                  transition: "background-color 0.15s ease",
-                }}
-                role="button"
-                tabIndex={0}
-                aria-label={`${project.name}${project.description ? ` - ${project.description}` : ''}`}
-                onClick={(e) => {
-                  e.stopPropagation();
-                  // Optional: Add project selection logic here
-                  // For now, we'll just expand/collapse as well
-                  onToggleProject(project.id);
-                }}
-                onMouseEnter={(e) => {
-                  e.currentTarget.style.background = "var(--theme-bg-secondary)";
-                  if (project.description?.trim()) {
-                    const rect = e.currentTarget.getBoundingClientRect();
-                    onProjectHover(project, {
-                      x: rect.right + 8,
-                      y: rect.top + rect.height / 2
-                    });
-                  }
-                }}
-                onMouseLeave={(e) => {
-                  e.currentTarget.style.background = "transparent";
-                  onProjectHover(null);
-                }}
-              >
-                <Folder size={16} color={project.color} fill={project.color} style={{ flexShrink: 0 }} />
-                <span
-                  style={{
-                    flex: 1,
-                    fontWeight: "500",
-                    overflow: "hidden",
-                    textOverflow: "ellipsis",
-                    whiteSpace: "nowrap",
-                  }}
-                >
-                  {project.name}
-                </span>
-                <span
-                  style={{
-                    fontSize: "12px",
-                    color: "var(--theme-text-secondary)",
-                    flexShrink: 0,
-                  }}
-                >
-                  {projectCanvases.length}
-                </span>
-              </div>
-            </div>
-
-            <AnimatePresence>
-              {!isCollapsed && (
-                <motion.div
-                  initial={{ height: 0, opacity: 0 }}
-                  animate={{ height: "auto", opacity: 1 }}
-                  exit={{ height: 0, opacity: 0 }}
-                  transition={{ duration: 0.2 }}
-                  style={{ overflow: "hidden" }}
-                >
-                  {projectCanvases.map((canvas) => (
-                    <div
-                      key={canvas.id}
-                      style={{
-                        display: "flex",
-                        alignItems: "center",
-                        gap: "8px",
-                        padding: "6px 8px",
-                        marginLeft: "20px",
-                        borderRadius: "4px",
-                        cursor: "pointer",
-                        transition: "background-color 0.2s ease",
-                        backgroundColor:
-                          selectedCanvasId === canvas.id
-                            ? "var(--theme-bg-active)"
-                            : "transparent",
-                      }}
-                      onClick={() => onCanvasSelect(canvas)}
-                      onContextMenu={(e) => onCanvasRightClick(e, canvas)}
-                      onMouseEnter={(e) => {
-                        if (selectedCanvasId !== canvas.id) {
-                          e.currentTarget.style.background = "var(--theme-bg-hover)";
-                        }
-                      }}
-                      onMouseLeave={(e) => {
-                        if (selectedCanvasId !== canvas.id) {
-                          e.currentTarget.style.background = "transparent";
-                        }
-                      }}
-                    >
-                      <FileText size={12} />
-                      <span
-                        style={{
-                          flex: 1,
-                          fontSize: "13px",
-                          overflow: "hidden",
-                          textOverflow: "ellipsis",
-                          whiteSpace: "nowrap",
-                        }}
-                      >
-                        {canvas.name}
-                      </span>
-                      <span
-                        style={{
-                          fontSize: "11px",
-                          color: "var(--theme-text-secondary)",
-                          flexShrink: 0,
-                        }}
-                      >
-                        {formatDate(canvas.createdAt)}
-                      </span>
-                    </div>
-                  ))}
-                </motion.div>
-              )}
-            </AnimatePresence>
-          </div>
-        );
-            })}
+        {projectsToShow.map(renderProject)}
 
             {/* Show More/Less button */}
             {hasMoreProjects && (
@@ -0,0 +1,223 @@
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { LayoutTemplate } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { templateOperations } from "../../shared/storage-client";
+import { UnifiedCanvas } from "../../shared/types";
+import { TEMPLATE_CONSTANTS } from "../../shared/utils";
+
+interface Props {
+  canvas: UnifiedCanvas;
+  onClose: () => void;
+}
+
+export function SaveTemplateModal({ canvas, onClose }: Props) {
+  const { state } = useUnifiedState();
+  const [name, setName] = useState(canvas.name);
+  const [category, setCategory] = useState<string>(TEMPLATE_CONSTANTS.DEFAULT_CATEGORY);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Prefer the live copy from state; the menu target may predate the latest auto-save
+  const currentCanvas = useMemo(
+    () => state.canvases.find((c) => c.id === canvas.id) || canvas,
+    [state.canvases, canvas],
+  );
+
+  useEffect(() => {
+    const focusTimeout = setTimeout(() => {
+      inputRef.current?.focus();
+      inputRef.current?.select();
+    }, 100);
+
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+
+    return () => {
+      clearTimeout(focusTimeout);
+      unsubscribe();
+    };
+  }, [onClose]);
+
+  // Existing categories are offered as suggestions
+  useEffect(() => {
+    templateOperations
+      .getAllTemplates()
+      .then((templates) =>
+        setCategories(Array.from(new Set(templates.map((template) => template.category)))),
+      )
+      .catch((err) => console.error("Failed to load template categories:", err));
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError("Template name is required");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await templateOperations.createTemplateFromCanvas(currentCanvas, { name, category });
+      onClose();
+    } catch (err) {
+      console.error("Failed to save template:", err);
+      setError("Failed to save template. Please try again.");
+      setIsSaving(false);
+    }
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "400px",
+    minWidth: "300px",
+    margin: "0 16px",
+  };
+
+  const labelStyles: React.CSSProperties = {
+    display: "block",
+    fontSize: "13px",
+    color: "var(--theme-text-secondary)",
+    marginBottom: "6px",
+  };
+
+  const inputStyles: React.CSSProperties = {
+    width: "100%",
+    padding: "8px",
+    fontSize: "14px",
+    border: "1px solid var(--theme-border-primary)",
+    borderRadius: "4px",
+    marginBottom: "16px",
+    background: "var(--theme-bg-secondary)",
+    color: "var(--theme-text-primary)",
+    boxSizing: "border-box",
+  };
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !isSaving && onClose()}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            color: "var(--theme-text-primary)",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <LayoutTemplate size={18} />
+          Save as template
+        </h2>
+        <form onSubmit={handleSubmit}>
+          <label style={labelStyles}>
+            Name
+            <input
+              ref={inputRef}
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={50}
+              style={{ ...inputStyles, marginTop: "6px" }}
+            />
+          </label>
+          <label style={labelStyles}>
+            Category
+            <input
+              type="text"
+              value={category}
+              list="excali-org-template-categories"
+              onChange={(e) => setCategory(e.target.value)}
+              maxLength={30}
+              style={{ ...inputStyles, marginTop: "6px" }}
+            />
+          </label>
+          <datalist id="excali-org-template-categories">
+            {categories.map((existing) => (
+              <option key={existing} value={existing} />
+            ))}
+          </datalist>
+
+          {error && (
+            <div
+              style={{
+                marginBottom: "12px",
+                fontSize: "13px",
+                color: "var(--theme-error, #ef4444)",
+              }}
+            >
+              {error}
+            </div>
+          )}
+
+          <div style={{ display: "flex", justifyContent: "flex-end", gap: "12px" }}>
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              style={{
+                padding: "8px 16px",
+                background: "var(--theme-bg-tertiary)",
+                border: "1px solid var(--theme-border-primary)",
+                color: "var(--theme-text-secondary)",
+                borderRadius: "4px",
+                cursor: "pointer",
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving}
+              style={{
+                padding: "8px 16px",
+                background: "var(--theme-accent-primary, #6366f1)",
+                border: "none",
+                borderRadius: "6px",
+                color: "var(--theme-text-on-accent, #ffffff)",
+                fontSize: "14px",
+                cursor: isSaving ? "wait" : "pointer",
+              }}
+            >
+              {isSaving ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -1,32 +1,69 @@
-import React, { useState, useEffect, useCallback, useRef } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { createPortal } from "react-dom";
 import { motion } from "framer-motion";
-import { Search, FileText, Folder, Clock, ArrowLeft, ChevronRight } from "lucide-react";
+import { Search, Folder, Clock, ArrowLeft, ChevronRight, Link, Command } from "lucide-react";
+import { CanvasThumbnail } from "./CanvasThumbnail";
+import { TagChips } from "./TagChips";
 import { useUnifiedState } from "../context/UnifiedStateProvider";
 import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
 import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
+import {
+  COMMAND_PALETTE_CONSTANTS,
+  CONTENT_SEARCH_CONSTANTS,
+  parseTagQuery,
+} from "../../shared/utils";
+import { ContentSearchMatch, searchOperations } from "../../shared/storage-client";
+import { formatBinding } from "../../shared/shortcuts";
+import { useShortcutBindings } from "../hooks/useKeyboardShortcuts";
+import { CommandPalette, PaletteChoice, PaletteCommand } from "../hooks/useCommandPalette";
 
 interface SearchResult {
   type: "canvas" | "project";
   item: UnifiedCanvas | UnifiedProject;
   matches: string[];
   score: number;
+  content?: ContentSearchMatch; // Text or link inside the canvas that matched
 }
 
 interface DrillDownState {
-  mode: 'search' | 'project-canvases';
+  mode: 'search' | 'project-canvases' | 'command-choices';
   selectedProject?: UnifiedProject;
+  command?: PaletteCommand; // Command whose choices are listed
   originalQuery?: string;
 }
 
-export function SearchModal() {
+// A row of the command palette: a command, or one of a command's choices
+interface PaletteItem {
+  command: PaletteCommand;
+  choice?: PaletteChoice;
+  isRecent: boolean;
+  score: number;
+}
+
+interface SearchModalProps {
+  commandPalette: CommandPalette;
+}
+
+export function SearchModal({ commandPalette }: SearchModalProps) {
   const { state, dispatch } = useUnifiedState();
+  const shortcutBindings = useShortcutBindings();
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [results, setResults] = useState<SearchResult[]>([]);
   const [drillDown, setDrillDown] = useState<DrillDownState>({ mode: 'search' });
+  const [contentMatches, setContentMatches] = useState<Map<string, ContentSearchMatch>>(
+    new Map(),
+  );
   const searchInputRef = useRef<HTMLInputElement>(null);
 
+  // "Go to Project" run from the palette opens this modal again on projects
+  useEffect(() => {
+    if (state.searchScope === "projects") {
+      setDrillDown({ mode: 'search' });
+      setQuery("");
+    }
+  }, [state.searchScope]);
+
   // Autofocus and trap focus within the modal
   useEffect(() => {
     const input = searchInputRef.current;
@@ -103,38 +140,140 @@ export function SearchModal() {
     return { score: 0, matches: false };
   };
 
+  const isCommandMode =
+    drillDown.mode === 'search' && query.startsWith(COMMAND_PALETTE_CONSTANTS.PREFIX);
+  const isPalette = isCommandMode || drillDown.mode === 'command-choices';
+  const paletteText = isCommandMode
+    ? query.slice(COMMAND_PALETTE_CONSTANTS.PREFIX.length).trim()
+    : query.trim();
+
+  // Commands (or the open command's choices) matching what's typed after ">";
+  // with nothing typed, recently used commands come first
+  const paletteItems = useMemo((): PaletteItem[] => {
+    if (!isPalette) return [];
+    const { commands, recentCommandIds } = commandPalette;
+
+    if (drillDown.mode === 'command-choices' && drillDown.command) {
+      const command = drillDown.command;
+      return (command.choices?.() ?? [])
+        .map((choice) => ({
+          command,
+          choice,
+          isRecent: false,
+          score: paletteText ? fuzzyMatch(choice.label, paletteText).score : 100,
+        }))
+        .filter((item) => item.score > 0);
+    }
+
+    const recentRank = (command: PaletteCommand) => {
+      const index = recentCommandIds.indexOf(command.id);
+      return index === -1 ? recentCommandIds.length : index;
+    };
+
+    return commands
+      .map((command) => ({
+        command,
+        isRecent: recentCommandIds.includes(command.id),
+        score: paletteText
+          ? Math.max(
+              fuzzyMatch(command.label, paletteText).score,
+              ...(command.keywords ?? []).map((keyword) => fuzzyMatch(keyword, paletteText).score - 10),
+              fuzzyMatch(command.category, paletteText).score - 20,
+            )
+          : 100,
+      }))
+      .filter((item) => item.score > 0)
+      .sort((a, b) => b.score - a.score || recentRank(a.command) - recentRank(b.command));
+  }, [isPalette, commandPalette, drillDown, paletteText]);
+
   // Perform advanced search with fuzzy matching
   const performSearch = useCallback(
     (searchQuery: string) => {
       const searchResults: SearchResult[] = [];
+      const projectsOnly = state.searchScope === "projects";
 
-      if (drillDown.mode === 'search') {
+      // The command palette lists its own rows
+      if (
+        drillDown.mode === 'command-choices' ||
+        (drillDown.mode === 'search' && searchQuery.startsWith(COMMAND_PALETTE_CONSTANTS.PREFIX))
+      ) {
+        setResults([]);
+        setSelectedIndex(0);
+        return;
+      }
+
+      // `tag:foo` tokens filter canvases; the remaining text is matched as usual
+      const { text, tags } = parseTagQuery(searchQuery);
+      const hasAllTags = (canvas: UnifiedCanvas) =>
+        tags.every((tag) => canvas.tags?.includes(tag));
+
+      const matchCanvas = (canvas: UnifiedCanvas) => {
+        if (!hasAllTags(canvas)) return;
+
+        if (!text) {
+          // Tag filter only: every tagged canvas matches equally
+          searchResults.push({
+            type: "canvas",
+            item: canvas,
+            matches: ["tags"],
+            score: 100,
+          });
+          return;
+        }
+
+        const nameMatch = fuzzyMatch(canvas.name, text);
+        const tagScore = Math.max(
+          0,
+          ...(canvas.tags || []).map((tag) => fuzzyMatch(tag, text).score),
+        );
+        const contentMatch = contentMatches.get(canvas.id);
+        const matches: string[] = [];
+
+        if (nameMatch.matches) matches.push("name");
+        if (tagScore > 0) matches.push("tags");
+        if (contentMatch) matches.push("content");
+
+        if (matches.length > 0) {
+          searchResults.push({
+            type: "canvas",
+            item: canvas,
+            matches,
+            // Name matches rank above matches on a tag or the canvas content alone
+            score: Math.max(nameMatch.score, tagScore - 10, (contentMatch?.score ?? 0) - 20),
+            // Only jump into the canvas when nothing but its content matched
+            content: nameMatch.matches || tagScore > 0 ? undefined : contentMatch,
+          });
+        }
+      };
+
+      if (drillDown.mode === 'search' && projectsOnly && !text && tags.length === 0) {
+        // Go to Project: list every project until something is typed
+        state.projects.forEach((project) => {
+          searchResults.push({
+            type: "project",
+            item: project,
+            matches: ["name"],
+            score: 100,
+          });
+        });
+      } else if (drillDown.mode === 'search') {
         // Regular search mode - search both canvases and projects
-        if (!searchQuery.trim()) {
+        if (!text && tags.length === 0) {
           setResults([]);
           setSelectedIndex(0);
           return;
         }
 
         // Search canvases
-        state.canvases.forEach((canvas) => {
-          const nameMatch = fuzzyMatch(canvas.name, searchQuery);
-
-          if (nameMatch.matches) {
-            searchResults.push({
-              type: "canvas",
-              item: canvas,
-              matches: ["name"],
-              score: nameMatch.score,
-            });
-          }
-        });
+        if (!projectsOnly) state.canvases.forEach(matchCanvas);
 
-        // Search projects
+        // Search projects (projects carry no tags, so a tag filter excludes them)
         state.projects.forEach((project) => {
-          const nameMatch = fuzzyMatch(project.name, searchQuery);
+          if (tags.length > 0) return;
+
+          const nameMatch = fuzzyMatch(project.name, text);
           const descMatch = project.description
-            ? fuzzyMatch(project.description, searchQuery)
+            ? fuzzyMatch(project.description, text)
             : { score: 0, matches: false };
 
           const bestMatch = Math.max(nameMatch.score, descMatch.score);
@@ -159,7 +298,7 @@ export function SearchModal() {
           canvas.projectId === selectedProject.id
         );
 
-        if (!searchQuery.trim()) {
+        if (!text && tags.length === 0) {
           // Show all canvases in project when no query
           projectCanvases.forEach((canvas) => {
             searchResults.push({
@@ -171,18 +310,7 @@ export function SearchModal() {
           });
         } else {
           // Search within project canvases
-          projectCanvases.forEach((canvas) => {
-            const nameMatch = fuzzyMatch(canvas.name, searchQuery);
-
-            if (nameMatch.matches) {
-              searchResults.push({
-                type: "canvas",
-                item: canvas,
-                matches: ["name"],
-                score: nameMatch.score,
-              });
-            }
-          });
+          projectCanvases.forEach(matchCanvas);
         }
       }
 
@@ -195,7 +323,7 @@ export function SearchModal() {
       setResults(searchResults.slice(0, 20)); // Limit to top 20 results
       setSelectedIndex(0);
     },
-    [state.canvases, state.projects, drillDown],
+    [state.canvases, state.projects, state.searchScope, drillDown, contentMatches],
   );
 
   // Debounced search
@@ -207,12 +335,50 @@ export function SearchModal() {
     return () => clearTimeout(timeoutId);
   }, [query, performSearch]);
 
+  // Debounced full-text lookup; results feed back into performSearch
+  useEffect(() => {
+    const { text } = parseTagQuery(query);
+    if (
+      text.length < CONTENT_SEARCH_CONSTANTS.MIN_TERM_LENGTH ||
+      query.startsWith(COMMAND_PALETTE_CONSTANTS.PREFIX)
+    ) {
+      setContentMatches((prev) => (prev.size === 0 ? prev : new Map()));
+      return;
+    }
+
+    let cancelled = false;
+    const timeoutId = setTimeout(() => {
+      searchOperations
+        .searchContent(text)
+        .then((found) => {
+          if (!cancelled) {
+            setContentMatches(new Map(found.map((match) => [match.canvasId, match])));
+          }
+        })
+        .catch((error) => {
+          console.warn("Full-text search failed:", error);
+        });
+    }, 150);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [query]);
+
   const handleSelect = useCallback(
     (result: SearchResult) => {
       if (result.type === "canvas") {
         const canvas = result.item as UnifiedCanvas;
         dispatch({ type: "SET_SELECTED_CANVAS", payload: canvas.id });
-        eventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
+        if (result.content) {
+          eventBus.emit(InternalEventTypes.FOCUS_CANVAS_ELEMENT, {
+            canvas,
+            elementId: result.content.elementId,
+          });
+        } else {
+          eventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
+        }
         dispatch({ type: "SET_SEARCH_MODAL_OPEN", payload: false });
       } else {
         const project = result.item as UnifiedProject;
@@ -236,9 +402,23 @@ export function SearchModal() {
     [dispatch, drillDown.mode, query],
   );
 
+  const handlePaletteSelect = useCallback(
+    (item: PaletteItem) => {
+      if (!item.choice && item.command.choices) {
+        // List the command's choices, e.g. the projects to move the canvas to
+        setDrillDown({ mode: 'command-choices', command: item.command, originalQuery: query });
+        setQuery('');
+        setSelectedIndex(0);
+        return;
+      }
+      commandPalette.runCommand(item.command, item.choice);
+    },
+    [commandPalette, query],
+  );
+
   // Handle back navigation
   const handleBack = useCallback(() => {
-    if (drillDown.mode === 'project-canvases') {
+    if (drillDown.mode !== 'search') {
       setDrillDown({ mode: 'search' });
       setQuery(drillDown.originalQuery || '');
       setSelectedIndex(0);
@@ -249,14 +429,18 @@ export function SearchModal() {
 
   // Handle keyboard navigation
   useEffect(() => {
+    const itemCount = isPalette ? paletteItems.length : results.length;
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === "ArrowDown") {
         e.preventDefault();
-        setSelectedIndex((prev) => Math.min(prev + 1, results.length - 1));
+        setSelectedIndex((prev) => Math.min(prev + 1, itemCount - 1));
       } else if (e.key === "ArrowUp") {
         e.preventDefault();
         setSelectedIndex((prev) => Math.max(prev - 1, 0));
-      } else if (e.key === "Enter" && results[selectedIndex]) {
+      } else if (e.key === "Enter" && isPalette && paletteItems[selectedIndex]) {
+        e.preventDefault();
+        handlePaletteSelect(paletteItems[selectedIndex]);
+      } else if (e.key === "Enter" && !isPalette && results[selectedIndex]) {
         e.preventDefault();
         handleSelect(results[selectedIndex]);
       } else if (e.key === "Escape") {
@@ -267,7 +451,7 @@ export function SearchModal() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [results, selectedIndex, dispatch, handleSelect, handleBack]);
+  }, [results, paletteItems, isPalette, selectedIndex, dispatch, handleSelect, handlePaletteSelect, handleBack]);
 
   const highlightMatch = (text: string, query: string) => {
     if (!query.trim()) return text;
@@ -389,6 +573,116 @@ export function SearchModal() {
     color: "var(--theme-text-secondary)",
   };
 
+  const renderPaletteItems = () => {
+    if (paletteItems.length === 0) {
+      return (
+        <div
+          style={{
+            padding: "40px 24px",
+            textAlign: "center",
+            fontSize: "14px",
+            color: "var(--theme-text-tertiary)",
+          }}
+        >
+          {drillDown.mode === 'command-choices' && !paletteText
+            ? "Nothing to choose from"
+            : `No commands matching "${paletteText}"`}
+        </div>
+      );
+    }
+
+    return paletteItems.map((item, index) => {
+      const binding = item.command.shortcutId ? shortcutBindings[item.command.shortcutId] : "";
+      const label = item.choice?.label ?? item.command.label;
+      const detail = item.choice
+        ? item.choice.detail
+        : [item.command.category, item.command.detail].filter(Boolean).join(" · ");
+
+      return (
+        <div
+          key={item.choice ? `choice-${item.choice.id}` : `command-${item.command.id}`}
+          style={{
+            ...resultItemStyles,
+            background: index === selectedIndex ? "var(--theme-bg-active)" : "transparent",
+            color:
+              index === selectedIndex
+                ? "var(--theme-accent-primary)"
+                : "var(--theme-text-secondary)",
+          }}
+          onClick={() => handlePaletteSelect(item)}
+          onMouseEnter={() => setSelectedIndex(index)}
+        >
+          <div
+            style={{
+              width: "32px",
+              display: "flex",
+              justifyContent: "center",
+              flexShrink: 0,
+              color: "var(--theme-accent-primary, #6366f1)",
+            }}
+          >
+            {item.choice ? <Folder size={16} /> : <Command size={16} />}
+          </div>
+
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div
+              style={{
+                fontSize: "14px",
+                fontWeight: 500,
+                overflow: "hidden",
+                textOverflow: "ellipsis",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {highlightMatch(label, paletteText)}
+            </div>
+            {detail && (
+              <div
+                style={{
+                  fontSize: "12px",
+                  marginTop: "4px",
+                  color: "var(--theme-text-tertiary, #9ca3af)",
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {detail}
+              </div>
+            )}
+          </div>
+
+          <div
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              fontSize: "12px",
+              color: "var(--theme-text-tertiary, #9ca3af)",
+              flexShrink: 0,
+            }}
+          >
+            {item.isRecent && !paletteText && <span>Recent</span>}
+            {binding && (
+              <span
+                style={{
+                  background: "var(--theme-bg-active)",
+                  border: "1px solid var(--theme-border-primary)",
+                  borderRadius: "4px",
+                  padding: "2px 6px",
+                  fontSize: "11px",
+                  fontFamily: "monospace",
+                }}
+              >
+                {formatBinding(binding)}
+              </span>
+            )}
+          </div>
+        </div>
+      );
+    });
+  };
+
   return createPortal(
     <motion.div
       style={panelStyles}
@@ -415,7 +709,7 @@ export function SearchModal() {
             padding: "20px 24px",
           }}
         >
-          {drillDown.mode === 'project-canvases' && (
+          {drillDown.mode !== 'search' && (
             <button
               onClick={handleBack}
               aria-label="Go back to main search"
@@ -441,20 +735,34 @@ export function SearchModal() {
               <ArrowLeft size={16} />
             </button>
           )}
-          <Search
-            size={20}
-            style={{
-              color: "var(--theme-text-secondary, #6b7280)",
-              marginRight: "12px",
-            }}
-          />
+          {isPalette ? (
+            <Command
+              size={20}
+              style={{
+                color: "var(--theme-text-secondary, #6b7280)",
+                marginRight: "12px",
+              }}
+            />
+          ) : (
+            <Search
+              size={20}
+              style={{
+                color: "var(--theme-text-secondary, #6b7280)",
+                marginRight: "12px",
+              }}
+            />
+          )}
           <input
             ref={searchInputRef}
             style={searchInputStyles}
             placeholder={
               drillDown.mode === 'project-canvases'
                 ? `Search in ${drillDown.selectedProject?.name || 'project'}...`
-                : "Search canvases and projects..."
+                : drillDown.mode === 'command-choices'
+                  ? "Filter choices..."
+                  : state.searchScope === "projects"
+                  ? "Go to project..."
+                    : `Search canvases and projects, or type ${COMMAND_PALETTE_CONSTANTS.PREFIX} for commands...`
             }
             value={query}
             onChange={(e) => setQuery(e.target.value)}
@@ -510,6 +818,35 @@ export function SearchModal() {
           </div>
         )}
 
+        {drillDown.mode === 'command-choices' && drillDown.command && (
+          <div
+            style={{
+              padding: "0 24px 16px",
+              display: "flex",
+              alignItems: "center",
+              gap: "8px",
+              fontSize: "14px",
+              color: "var(--theme-text-secondary, #6b7280)",
+            }}
+          >
+            <button
+              onClick={handleBack}
+              style={{
+                background: "none",
+                border: "none",
+                color: "var(--theme-accent-primary, #6366f1)",
+                cursor: "pointer",
+                textDecoration: "underline",
+                fontSize: "14px",
+              }}
+            >
+              Commands
+            </button>
+            <ChevronRight size={14} />
+            <span style={{ fontWeight: 500 }}>{drillDown.command.label}</span>
+          </div>
+        )}
+
         <div
           style={{
             maxHeight: "400px",
@@ -518,7 +855,9 @@ export function SearchModal() {
             borderTop: "1px solid var(--theme-border-primary)",
           }}
         >
-          {results.length > 0 ? (
+          {isPalette ? (
+            renderPaletteItems()
+          ) : results.length > 0 ? (
             results.map((result, index) => (
               <div
                 key={`${result.type}-${result.item.id}`}
@@ -538,16 +877,17 @@ export function SearchModal() {
               >
                 <div
                   style={{
-                    width: "32px",
+                    width: result.type === "canvas" ? "48px" : "32px",
                     height: "32px",
                     display: "flex",
                     alignItems: "center",
                     justifyContent: "center",
                     flexShrink: 0,
+                    color: "var(--theme-accent-primary, #6366f1)",
                   }}
                 >
                   {result.type === "canvas" ? (
-                    <FileText size={16} color="var(--theme-accent-primary, #6366f1)" />
+                    <CanvasThumbnail canvas={result.item as UnifiedCanvas} width={48} height={32} />
                   ) : (
                     <Folder size={16} color={(result.item as UnifiedProject).color || "#6366f1"} fill={(result.item as UnifiedProject).color || "#6366f1"} />
                   )}
@@ -564,7 +904,7 @@ export function SearchModal() {
                       whiteSpace: "nowrap",
                     }}
                   >
-                    {highlightMatch(result.item.name, query)}
+                    {highlightMatch(result.item.name, parseTagQuery(query).text)}
                   </div>
                   <div
                     style={{
@@ -578,13 +918,21 @@ export function SearchModal() {
                       gap: "4px",
                     }}
                   >
-                    {result.type === "canvas" ? (
+                    {result.content ? (
+                      <>
+                        {result.content.kind === "link" && <Link size={12} style={{ flexShrink: 0 }} />}
+                        <span style={{ overflow: "hidden", textOverflow: "ellipsis" }}>
+                          {highlightMatch(result.content.snippet, parseTagQuery(query).text)}
+                        </span>
+                      </>
+                    ) : result.type === "canvas" ? (
                       <>
                         <Clock size={12} />
                         {formatDate(
                           (result.item as UnifiedCanvas).updatedAt ||
                             (result.item as UnifiedCanvas).createdAt,
                         )}
+                        <TagChips tags={(result.item as UnifiedCanvas).tags} maxVisible={4} />
                       </>
                     ) : (
                       `${getProjectCanvasCount(result.item as UnifiedProject)} canvases`
@@ -627,7 +975,7 @@ export function SearchModal() {
               <div style={{ fontSize: "14px", lineHeight: 1.5 }}>
                 {drillDown.mode === 'project-canvases'
                   ? `No canvases found in ${drillDown.selectedProject?.name || 'project'} matching "${query}"`
-                  : "Try searching for a different canvas or project name"
+                  : "Try searching for a different canvas name, project, or text on a canvas"
                 }
               </div>
             </div>
@@ -676,7 +1024,8 @@ export function SearchModal() {
                     Search your canvases
                   </div>
                   <div style={{ fontSize: "14px", lineHeight: 1.5 }}>
-                    Start typing to find canvases and projects
+                    Start typing to find canvases and projects, use tag:name to filter by tag,
+                    or type {COMMAND_PALETTE_CONSTANTS.PREFIX} to run a command
                   </div>
                 </>
               )}
@@ -723,7 +1072,7 @@ export function SearchModal() {
             >
               Enter
             </span>
-            <span>{drillDown.mode === 'search' ? 'Select' : 'Open'}</span>
+            <span>{isPalette ? 'Run' : drillDown.mode === 'search' ? 'Select' : 'Open'}</span>
           </div>
           <div style={{ display: "flex", alignItems: "center", gap: "4px" }}>
             <span
@@ -738,7 +1087,7 @@ export function SearchModal() {
             >
               Esc
             </span>
-            <span>{drillDown.mode === 'project-canvases' ? 'Back' : 'Close'}</span>
+            <span>{drillDown.mode !== 'search' ? 'Back' : 'Close'}</span>
           </div>
         </div>
       </motion.div>
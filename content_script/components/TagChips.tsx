@@ -0,0 +1,73 @@
+import { TAG_CONSTANTS } from "../../shared/utils";
+
+interface TagChipsProps {
+  tags: string[] | undefined;
+  activeTag?: string | null;
+  onTagClick?: (tag: string) => void;
+  maxVisible?: number;
+}
+
+export function TagChips({
+  tags,
+  activeTag,
+  onTagClick,
+  maxVisible = TAG_CONSTANTS.MAX_VISIBLE_CHIPS,
+}: TagChipsProps) {
+  if (!tags || tags.length === 0) return null;
+
+  const visibleTags = tags.slice(0, maxVisible);
+  const hiddenCount = tags.length - visibleTags.length;
+
+  const chipStyle = (isActive: boolean): React.CSSProperties => ({
+    padding: "1px 6px",
+    borderRadius: "8px",
+    fontSize: "10px",
+    lineHeight: "14px",
+    whiteSpace: "nowrap",
+    border: "none",
+    cursor: onTagClick ? "pointer" : "default",
+    background: isActive
+      ? "var(--theme-accent-primary, #6366f1)"
+      : "var(--theme-bg-tertiary, rgba(0, 0, 0, 0.06))",
+    color: isActive
+      ? "var(--theme-text-on-accent, #ffffff)"
+      : "var(--theme-text-secondary)",
+  });
+
+  return (
+    <span
+      style={{
+        display: "inline-flex",
+        alignItems: "center",
+        gap: "4px",
+        flexShrink: 0,
+        minWidth: 0,
+        overflow: "hidden",
+      }}
+    >
+      {visibleTags.map((tag) => (
+        <button
+          key={tag}
+          style={chipStyle(tag === activeTag)}
+          title={onTagClick ? `Show canvases tagged #${tag}` : `#${tag}`}
+          onClick={(e) => {
+            if (!onTagClick) return;
+            // Keep the row from also opening the canvas
+            e.stopPropagation();
+            onTagClick(tag);
+          }}
+        >
+          #{tag}
+        </button>
+      ))}
+      {hiddenCount > 0 && (
+        <span
+          style={{ fontSize: "10px", color: "var(--theme-text-secondary)" }}
+          title={tags.slice(maxVisible).map((tag) => `#${tag}`).join(" ")}
+        >
+          +{hiddenCount}
+        </span>
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { X } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { UnifiedCanvas } from "../../shared/types";
+import { normalizeTag } from "../../shared/utils";
+
+interface Props {
+  canvases: UnifiedCanvas[];
+  // removedTags are the shared tags taken off; other tags on individual canvases are kept
+  onSave: (tags: string[], removedTags: string[]) => void;
+  onClose: () => void;
+}
+
+export function TagEditorModal({ canvases, onSave, onClose }: Props) {
+  const { state } = useUnifiedState();
+  // With several canvases, only the tags they all share are edited
+  const [initialTags] = useState<string[]>(() =>
+    (canvases[0]?.tags || []).filter((tag) =>
+      canvases.every((canvas) => canvas.tags?.includes(tag)),
+    ),
+  );
+  const [tags, setTags] = useState<string[]>(initialTags);
+  const [draft, setDraft] = useState("");
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const focusTimeout = setTimeout(() => {
+      inputRef.current?.focus();
+    }, 100);
+
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+
+    return () => {
+      clearTimeout(focusTimeout);
+      unsubscribe();
+    };
+  }, [onClose]);
+
+  // Tags already used elsewhere, narrowed by what is being typed
+  const suggestions = useMemo(() => {
+    const known = new Set<string>();
+    state.canvases.forEach((c) => c.tags?.forEach((tag) => known.add(tag)));
+
+    const prefix = normalizeTag(draft);
+    return Array.from(known)
+      .filter((tag) => !tags.includes(tag) && (!prefix || tag.startsWith(prefix)))
+      .sort()
+      .slice(0, 8);
+  }, [state.canvases, tags, draft]);
+
+  const addTag = (value: string) => {
+    const tag = normalizeTag(value);
+    if (tag && !tags.includes(tag)) {
+      setTags([...tags, tag]);
+    }
+    setDraft("");
+  };
+
+  const removeTag = (tag: string) => {
+    setTags(tags.filter((t) => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if ((e.key === "Enter" || e.key === ",") && draft.trim()) {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && tags.length > 0) {
+      removeTag(tags[tags.length - 1]!);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    // Include a tag still being typed
+    const pending = normalizeTag(draft);
+    const finalTags = pending && !tags.includes(pending) ? [...tags, pending] : tags;
+    onSave(
+      finalTags,
+      initialTags.filter((tag) => !finalTags.includes(tag)),
+    );
+    onClose();
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "400px",
+    minWidth: "300px",
+    margin: "0 16px",
+  };
+
+  const chipStyles: React.CSSProperties = {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "4px",
+    padding: "2px 8px",
+    borderRadius: "10px",
+    fontSize: "12px",
+    background: "var(--theme-bg-active)",
+    color: "var(--theme-text-primary)",
+  };
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={onClose}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            color: "var(--theme-text-primary)",
+          }}
+        >
+          Tags for {canvases.length === 1 ? canvases[0]?.name : `${canvases.length} canvases`}
+        </h2>
+        <form onSubmit={handleSubmit}>
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              alignItems: "center",
+              gap: "6px",
+              padding: "8px",
+              border: "1px solid var(--theme-border-primary)",
+              borderRadius: "4px",
+              marginBottom: "12px",
+              background: "var(--theme-bg-secondary)",
+            }}
+            onClick={() => inputRef.current?.focus()}
+          >
+            {tags.map((tag) => (
+              <span key={tag} style={chipStyles}>
+                #{tag}
+                <button
+                  type="button"
+                  onClick={() => removeTag(tag)}
+                  aria-label={`Remove tag ${tag}`}
+                  style={{
+                    background: "none",
+                    border: "none",
+                    padding: 0,
+                    display: "flex",
+                    cursor: "pointer",
+                    color: "var(--theme-text-secondary)",
+                  }}
+                >
+                  <X size={12} />
+                </button>
+              </span>
+            ))}
+            <input
+              ref={inputRef}
+              type="text"
+              value={draft}
+              placeholder={tags.length === 0 ? "Add tags, e.g. draft" : ""}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+              style={{
+                flex: 1,
+                minWidth: "80px",
+                padding: "4px",
+                fontSize: "14px",
+                border: "none",
+                background: "transparent",
+                color: "var(--theme-text-primary)",
+                outline: "none",
+              }}
+            />
+          </div>
+
+          {suggestions.length > 0 && (
+            <div
+              style={{
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "6px",
+                marginBottom: "16px",
+              }}
+            >
+              {suggestions.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => addTag(tag)}
+                  style={{
+                    ...chipStyles,
+                    border: "1px dashed var(--theme-border-primary)",
+                    background: "transparent",
+                    color: "var(--theme-text-secondary)",
+                    cursor: "pointer",
+                  }}
+                >
+                  #{tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div style={{ display: "flex", justifyContent: "flex-end", gap: "12px" }}>
+            <button
+              type="button"
+              onClick={onClose}
+              style={{
+                padding: "8px 16px",
+                background: "var(--theme-bg-tertiary)",
+                border: "1px solid var(--theme-border-primary)",
+                color: "var(--theme-text-secondary)",
+                borderRadius: "4px",
+                cursor: "pointer",
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              style={{
+                padding: "8px 16px",
+                background: "var(--theme-accent-primary, #6366f1)",
+                border: "none",
+                borderRadius: "6px",
+                color: "var(--theme-text-on-accent, #ffffff)",
+                fontSize: "14px",
+                cursor: "pointer",
+              }}
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -0,0 +1,430 @@
+import React, { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { LayoutTemplate, FilePlus, Trash2 } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { templateOperations } from "../../shared/storage-client";
+import { CanvasTemplate } from "../../shared/types";
+import { renderSceneToSvg } from "../services/SceneRenderer";
+import { useCanvasTemplates } from "../hooks/useCanvasTemplates";
+
+interface Props {
+  projectId?: string; // Create the canvas inside this project
+  onClose: () => void;
+}
+
+// Selection key for the blank canvas entry
+const BLANK_ID = "blank";
+
+export function TemplatePickerModal({ projectId, onClose }: Props) {
+  const { state, dispatch } = useUnifiedState();
+  const { createCanvasFromTemplate } = useCanvasTemplates();
+  const [templates, setTemplates] = useState<CanvasTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(BLANK_ID);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const modalRef = useRef<HTMLDivElement>(null);
+
+  const project = projectId ? state.projects.find((p) => p.id === projectId) : undefined;
+
+  // Focus the dialog so arrow keys and Enter work right away
+  useEffect(() => {
+    modalRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+    return unsubscribe;
+  }, [onClose]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    templateOperations
+      .getAllTemplates()
+      .then((loadedTemplates) => {
+        if (cancelled) return;
+        setTemplates(loadedTemplates);
+        // Start from the project's default template when it still exists
+        const defaultTemplateId = project?.defaultTemplateId;
+        if (defaultTemplateId && loadedTemplates.some((t) => t.id === defaultTemplateId)) {
+          setSelectedId(defaultTemplateId);
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to load templates:", err);
+        if (!cancelled) setError("Failed to load templates.");
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [project?.defaultTemplateId]);
+
+  const templatesByCategory = useMemo(() => {
+    const groups = new Map<string, CanvasTemplate[]>();
+    templates.forEach((template) => {
+      groups.set(template.category, [...(groups.get(template.category) || []), template]);
+    });
+    return Array.from(groups.entries());
+  }, [templates]);
+
+  // Blank first, then templates in display order, for arrow-key navigation
+  const orderedIds = useMemo(
+    () => [BLANK_ID, ...templatesByCategory.flatMap(([, group]) => group.map((t) => t.id))],
+    [templatesByCategory],
+  );
+
+  const selectedTemplate = templates.find((t) => t.id === selectedId) || null;
+
+  const previewUrl = useMemo(() => {
+    if (!selectedTemplate) return null;
+    const svg = renderSceneToSvg(selectedTemplate.elements, {
+      padding: 20,
+      backgroundColor: selectedTemplate.appState?.viewBackgroundColor || "#ffffff",
+      files: selectedTemplate.files,
+    });
+    return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : null;
+  }, [selectedTemplate]);
+
+  const handleCreate = useCallback(async () => {
+    setIsBusy(true);
+    const createdCanvas = await createCanvasFromTemplate(selectedTemplate, projectId);
+    setIsBusy(false);
+    if (createdCanvas) {
+      onClose();
+    }
+  }, [createCanvasFromTemplate, selectedTemplate, projectId, onClose]);
+
+  const handleDelete = useCallback(async () => {
+    if (!selectedTemplate) return;
+    if (!confirm(`Delete the template "${selectedTemplate.name}"? Canvases made from it are kept.`)) {
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const updatedProjects = await templateOperations.deleteTemplate(selectedTemplate.id);
+      updatedProjects.forEach((updated) => {
+        dispatch({ type: "UPDATE_PROJECT", payload: updated });
+        eventBus.emit(InternalEventTypes.PROJECT_UPDATED, updated);
+      });
+      setTemplates((current) => current.filter((t) => t.id !== selectedTemplate.id));
+      setSelectedId(BLANK_ID);
+    } catch (err) {
+      console.error("Failed to delete template:", err);
+      setError(`Failed to delete "${selectedTemplate.name}".`);
+    } finally {
+      setIsBusy(false);
+    }
+  }, [selectedTemplate, dispatch]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const index = orderedIds.indexOf(selectedId);
+      const nextIndex =
+        e.key === "ArrowDown"
+          ? Math.min(index + 1, orderedIds.length - 1)
+          : Math.max(index - 1, 0);
+      setSelectedId(orderedIds[nextIndex] ?? BLANK_ID);
+    } else if (e.key === "Enter" && !isBusy) {
+      e.preventDefault();
+      handleCreate();
+    }
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    color: "var(--theme-text-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "720px",
+    minWidth: "300px",
+    margin: "0 16px",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    fontSize: "14px",
+    outline: "none",
+  };
+
+  const itemStyles = (isSelected: boolean): React.CSSProperties => ({
+    display: "flex",
+    alignItems: "center",
+    gap: "8px",
+    width: "100%",
+    textAlign: "left",
+    padding: "6px 8px",
+    marginBottom: "4px",
+    border: "none",
+    borderRadius: "6px",
+    cursor: "pointer",
+    background: isSelected ? "var(--theme-bg-active)" : "none",
+    color: "var(--theme-text-primary)",
+    fontSize: "13px",
+    fontWeight: isSelected ? 600 : 500,
+  });
+
+  const thumbnailStyles: React.CSSProperties = {
+    width: "40px",
+    height: "28px",
+    flexShrink: 0,
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    borderRadius: "4px",
+    overflow: "hidden",
+    background: "var(--theme-bg-secondary, #f5f5f5)",
+    border: "1px solid var(--theme-border-secondary, rgba(0, 0, 0, 0.08))",
+    boxSizing: "border-box",
+  };
+
+  const renderList = () => (
+    <div
+      style={{
+        width: "220px",
+        flexShrink: 0,
+        overflowY: "auto",
+        borderRight: "1px solid var(--theme-border-secondary)",
+        paddingRight: "8px",
+      }}
+    >
+      <button style={itemStyles(selectedId === BLANK_ID)} onClick={() => setSelectedId(BLANK_ID)}>
+        <span style={thumbnailStyles}>
+          <FilePlus size={14} />
+        </span>
+        Blank canvas
+      </button>
+
+      {templatesByCategory.map(([category, group]) => (
+        <div key={category}>
+          <div
+            style={{
+              padding: "8px 8px 4px",
+              fontSize: "11px",
+              fontWeight: 600,
+              textTransform: "uppercase",
+              color: "var(--theme-text-secondary)",
+            }}
+          >
+            {category}
+          </div>
+          {group.map((template) => (
+            <button
+              key={template.id}
+              style={itemStyles(template.id === selectedId)}
+              onClick={() => setSelectedId(template.id)}
+              onDoubleClick={() => !isBusy && handleCreate()}
+            >
+              <span style={thumbnailStyles}>
+                {template.thumbnail ? (
+                  <img
+                    src={template.thumbnail}
+                    alt=""
+                    draggable={false}
+                    style={{ width: "100%", height: "100%", objectFit: "contain" }}
+                  />
+                ) : (
+                  <LayoutTemplate size={14} />
+                )}
+              </span>
+              <span
+                style={{
+                  overflow: "hidden",
+                  textOverflow: "ellipsis",
+                  whiteSpace: "nowrap",
+                }}
+              >
+                {template.name}
+              </span>
+              {template.id === project?.defaultTemplateId && (
+                <span
+                  style={{
+                    marginLeft: "auto",
+                    fontSize: "11px",
+                    fontWeight: 400,
+                    color: "var(--theme-text-secondary)",
+                  }}
+                >
+                  default
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      ))}
+
+      {!isLoading && templates.length === 0 && (
+        <div
+          style={{
+            padding: "8px",
+            fontSize: "12px",
+            color: "var(--theme-text-secondary)",
+          }}
+        >
+          No templates yet. Right-click a canvas and choose "Save as template".
+        </div>
+      )}
+    </div>
+  );
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !isBusy && onClose()}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        ref={modalRef}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <LayoutTemplate size={18} />
+          {project ? `New canvas in ${project.name}` : "New canvas from template"}
+        </h2>
+
+        <div style={{ display: "flex", gap: "16px", height: "320px" }}>
+          {renderList()}
+
+          <div
+            style={{
+              flex: 1,
+              display: "flex",
+              alignItems: "center",
+              justifyContent: "center",
+              borderRadius: "6px",
+              overflow: "hidden",
+              background: "var(--theme-bg-secondary, #f5f5f5)",
+              border: "1px solid var(--theme-border-secondary, rgba(0, 0, 0, 0.08))",
+            }}
+          >
+            {previewUrl ? (
+              <img
+                src={previewUrl}
+                alt="Template preview"
+                draggable={false}
+                style={{ maxWidth: "100%", maxHeight: "100%", objectFit: "contain" }}
+              />
+            ) : (
+              <span style={{ color: "var(--theme-text-secondary)" }}>
+                {selectedTemplate ? "No preview" : "Start from an empty canvas"}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div
+            style={{
+              marginTop: "12px",
+              fontSize: "13px",
+              color: "var(--theme-error, #ef4444)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            gap: "12px",
+            marginTop: "20px",
+          }}
+        >
+          <button
+            onClick={handleDelete}
+            disabled={isBusy || !selectedTemplate}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: "6px",
+              padding: "8px 12px",
+              background: "transparent",
+              border: "1px solid var(--theme-error, #ef4444)",
+              borderRadius: "6px",
+              color: "var(--theme-error, #ef4444)",
+              fontSize: "14px",
+              cursor: isBusy ? "wait" : "pointer",
+              visibility: selectedTemplate ? "visible" : "hidden",
+            }}
+          >
+            <Trash2 size={16} />
+            Delete template
+          </button>
+          <div style={{ display: "flex", gap: "12px" }}>
+            <button
+              onClick={onClose}
+              disabled={isBusy}
+              style={{
+                padding: "8px 16px",
+                background: "var(--theme-bg-tertiary)",
+                border: "1px solid var(--theme-border-primary)",
+                color: "var(--theme-text-secondary)",
+                borderRadius: "6px",
+                fontSize: "14px",
+                cursor: "pointer",
+              }}
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={isBusy}
+              style={{
+                padding: "8px 16px",
+                background: "var(--theme-accent-primary, #6366f1)",
+                border: "none",
+                borderRadius: "6px",
+                color: "var(--theme-text-on-accent, #ffffff)",
+                fontSize: "14px",
+                cursor: isBusy ? "wait" : "pointer",
+              }}
+            >
+              Create canvas
+            </button>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
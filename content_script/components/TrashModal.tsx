@@ -0,0 +1,380 @@
+import React, { useState, useEffect, useCallback } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "framer-motion";
+import { Trash2, RotateCcw, FileText, Folder, X } from "lucide-react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { settingsOperations, trashOperations } from "../../shared/storage-client";
+import { TrashItem } from "../../shared/types";
+import { TRASH_CONSTANTS } from "../../shared/utils";
+
+interface Props {
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function TrashModal({ onClose, onChanged }: Props) {
+  const { state } = useUnifiedState();
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [purgeDays, setPurgeDays] = useState<number>(
+    TRASH_CONSTANTS.DEFAULT_AUTO_PURGE_DAYS,
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = eventBus.on(InternalEventTypes.ESCAPE_PRESSED, onClose);
+    return unsubscribe;
+  }, [onClose]);
+
+  const loadTrash = useCallback(async () => {
+    try {
+      const [trashItems, savedPurgeDays] = await Promise.all([
+        trashOperations.getTrashItems(),
+        settingsOperations.getSetting<number>(
+          "trashAutoPurgeDays",
+          TRASH_CONSTANTS.DEFAULT_AUTO_PURGE_DAYS,
+        ),
+      ]);
+      setItems(trashItems);
+      setPurgeDays(savedPurgeDays ?? TRASH_CONSTANTS.DEFAULT_AUTO_PURGE_DAYS);
+    } catch (err) {
+      console.error("Failed to load trash:", err);
+      setError("Failed to load trash.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+  }, [loadTrash]);
+
+  // Canvases and subprojects trashed together with a project are restored and purged with it
+  const visibleItems = items.filter((item) => !item.parentId);
+
+  const getItemDetails = (item: TrashItem): string => {
+    if (item.type === "project") {
+      const children = items.filter((other) => other.parentId === item.id);
+      const count = children.filter((child) => child.type === "canvas").length;
+      const subprojectCount = children.length - count;
+      const parts = [
+        count > 0 && `${count} canvas${count !== 1 ? "es" : ""}`,
+        subprojectCount > 0 && `${subprojectCount} subproject${subprojectCount !== 1 ? "s" : ""}`,
+      ].filter(Boolean);
+      return parts.length > 0 ? `Project with ${parts.join(" and ")}` : "Project";
+    }
+
+    const projectId = item.canvas.projectId;
+    if (!projectId) return "Canvas";
+    const projectName =
+      state.projects.find((p) => p.id === projectId)?.name ??
+      items.find((other) => other.id === projectId)?.name;
+    return projectName ? `Canvas from ${projectName}` : "Canvas";
+  };
+
+  const getDeletedLabel = (item: TrashItem): string => {
+    const deletedAt = new Date(item.deletedAt);
+    const label = `Deleted ${deletedAt.toLocaleDateString()}`;
+    if (purgeDays <= 0) return label;
+
+    const daysLeft = Math.max(
+      0,
+      Math.ceil((deletedAt.getTime() + purgeDays * DAY_MS - Date.now()) / DAY_MS),
+    );
+    return `${label} · removed in ${daysLeft} day${daysLeft !== 1 ? "s" : ""}`;
+  };
+
+  const handleRestore = async (item: TrashItem) => {
+    setBusyId(item.id);
+    setError(null);
+    try {
+      const result = await trashOperations.restoreItem(item.id);
+      if (result.project && result.project.name !== item.name) {
+        alert(
+          `A project named "${item.name}" already exists; restored as "${result.project.name}".`,
+        );
+      }
+      await onChanged();
+      await loadTrash();
+    } catch (err) {
+      console.error("Failed to restore from trash:", err);
+      setError(`Failed to restore "${item.name}".`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!confirm(`Permanently delete "${item.name}"? This cannot be undone.`)) {
+      return;
+    }
+
+    setBusyId(item.id);
+    setError(null);
+    try {
+      await trashOperations.purgeItem(item.id);
+      await loadTrash();
+    } catch (err) {
+      console.error("Failed to purge trash item:", err);
+      setError(`Failed to delete "${item.name}".`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm("Permanently delete everything in the trash? This cannot be undone.")) {
+      return;
+    }
+
+    setBusyId("all");
+    setError(null);
+    try {
+      await trashOperations.emptyTrash();
+      await loadTrash();
+    } catch (err) {
+      console.error("Failed to empty trash:", err);
+      setError("Failed to empty trash.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handlePurgeDaysChange = async (days: number) => {
+    setPurgeDays(days);
+    try {
+      await settingsOperations.setSetting("trashAutoPurgeDays", days);
+    } catch (err) {
+      console.error("Failed to save auto-purge setting:", err);
+      setError("Failed to save the auto-delete setting.");
+    }
+  };
+
+  const overlayStyles: React.CSSProperties = {
+    position: "fixed",
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    background: "rgba(0, 0, 0, 0.5)",
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "center",
+    zIndex: 10000000,
+  };
+
+  const modalStyles: React.CSSProperties = {
+    background: "var(--theme-bg-primary)",
+    color: "var(--theme-text-primary)",
+    padding: "24px",
+    borderRadius: "8px",
+    boxShadow: "var(--theme-shadow-lg)",
+    width: "90%",
+    maxWidth: "480px",
+    minWidth: "300px",
+    margin: "0 16px",
+    fontFamily:
+      '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+    fontSize: "14px",
+  };
+
+  const iconButtonStyles: React.CSSProperties = {
+    background: "transparent",
+    border: "none",
+    color: "var(--theme-text-secondary)",
+    cursor: busyId ? "wait" : "pointer",
+    padding: "6px",
+    borderRadius: "4px",
+    display: "flex",
+    alignItems: "center",
+  };
+
+  return createPortal(
+    <motion.div
+      style={overlayStyles}
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      onClick={() => !busyId && onClose()}
+    >
+      <motion.div
+        style={modalStyles}
+        initial={{ scale: 0.9 }}
+        animate={{ scale: 1 }}
+        exit={{ scale: 0.9 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2
+          style={{
+            margin: "0 0 16px",
+            fontSize: "18px",
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+          }}
+        >
+          <Trash2 size={18} />
+          Trash
+        </h2>
+
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            justifyContent: "space-between",
+            gap: "12px",
+            marginBottom: "16px",
+            fontSize: "13px",
+            color: "var(--theme-text-secondary)",
+          }}
+        >
+          Automatically delete items after
+          <select
+            value={purgeDays}
+            onChange={(e) => handlePurgeDaysChange(Number(e.target.value))}
+            style={{
+              padding: "4px 8px",
+              background: "var(--theme-bg-secondary)",
+              color: "var(--theme-text-primary)",
+              border: "1px solid var(--theme-border-primary)",
+              borderRadius: "4px",
+              fontSize: "13px",
+            }}
+          >
+            {TRASH_CONSTANTS.AUTO_PURGE_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days === 0 ? "Never" : `${days} days`}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div
+          style={{
+            maxHeight: "320px",
+            overflowY: "auto",
+            borderTop: "1px solid var(--theme-border-secondary)",
+            borderBottom: "1px solid var(--theme-border-secondary)",
+          }}
+        >
+          {isLoading ? (
+            <div style={{ padding: "24px 0", color: "var(--theme-text-secondary)" }}>
+              Loading trash...
+            </div>
+          ) : visibleItems.length === 0 ? (
+            <div style={{ padding: "24px 0", color: "var(--theme-text-secondary)" }}>
+              Trash is empty
+            </div>
+          ) : (
+            visibleItems.map((item) => (
+              <div
+                key={item.id}
+                style={{
+                  display: "flex",
+                  alignItems: "center",
+                  gap: "10px",
+                  padding: "8px 0",
+                  opacity: busyId === item.id ? 0.5 : 1,
+                }}
+              >
+                {item.type === "project" ? (
+                  <Folder size={16} style={{ flexShrink: 0 }} />
+                ) : (
+                  <FileText size={16} style={{ flexShrink: 0 }} />
+                )}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div
+                    style={{
+                      fontWeight: "500",
+                      overflow: "hidden",
+                      textOverflow: "ellipsis",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    {item.name}
+                  </div>
+                  <div style={{ fontSize: "12px", color: "var(--theme-text-secondary)" }}>
+                    {getItemDetails(item)} · {getDeletedLabel(item)}
+                  </div>
+                </div>
+                <button
+                  style={iconButtonStyles}
+                  onClick={() => handleRestore(item)}
+                  disabled={!!busyId}
+                  title="Restore"
+                >
+                  <RotateCcw size={16} />
+                </button>
+                <button
+                  style={iconButtonStyles}
+                  onClick={() => handlePurge(item)}
+                  disabled={!!busyId}
+                  title="Delete forever"
+                >
+                  <X size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {error && (
+          <div
+            style={{
+              marginTop: "12px",
+              fontSize: "13px",
+              color: "var(--theme-error, #ef4444)",
+            }}
+          >
+            {error}
+          </div>
+        )}
+
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            gap: "12px",
+            marginTop: "20px",
+          }}
+        >
+          <button
+            onClick={handleEmptyTrash}
+            disabled={!!busyId || items.length === 0}
+            style={{
+              padding: "8px 16px",
+              background: "transparent",
+              border: "1px solid var(--theme-error, #ef4444)",
+              borderRadius: "6px",
+              color: "var(--theme-error, #ef4444)",
+              fontSize: "14px",
+              cursor: busyId ? "wait" : "pointer",
+              opacity: items.length === 0 ? 0.5 : 1,
+            }}
+          >
+            Empty trash
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: "8px 16px",
+              background: "var(--theme-accent-primary, #6366f1)",
+              border: "none",
+              borderRadius: "6px",
+              color: "var(--theme-text-on-accent, #ffffff)",
+              fontSize: "14px",
+              cursor: "pointer",
+            }}
+          >
+            Done
+          </button>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body,
+  );
+}
@@ -14,19 +14,38 @@ import {
   SearchResult,
   ContextMenuData,
   ProjectContextMenuData,
+  TemplatePickerData,
+  ImageExportTarget,
+  CanvasConflict,
   UnifiedAction,
+  PanelViewMode,
+  SearchScope,
 } from "../../shared/types";
 import {
   canvasOperations,
   projectOperations,
   settingsOperations,
+  fileOperations,
+  versionOperations,
+  trashOperations,
+  searchOperations,
   dbUtils,
-} from "../../shared/unified-db";
+} from "../../shared/storage-client";
 import {
   globalEventBus,
   InternalEventTypes,
 } from "../messaging/InternalEventBus";
-import { ExcalidrawElement, AppState } from "../../shared/excalidraw-types";
+import { ExcalidrawElement, AppState, BinaryFiles } from "../../shared/excalidraw-types";
+import { createThumbnail } from "../services/SceneRenderer";
+import {
+  getDescendantProjectIds,
+  clampNumberSetting,
+  generateCanvasId,
+  generateProjectId,
+  PANEL_CONSTANTS,
+  TRASH_CONSTANTS,
+} from "../../shared/utils";
+import { reconcileElements, logElementMerge } from "../../shared/element-reconcile";
 
 // Enhanced state interface combining data and UI state
 interface UnifiedState {
@@ -34,19 +53,30 @@ interface UnifiedState {
   projects: UnifiedProject[];
   canvases: UnifiedCanvas[];
   currentWorkingCanvasId: string | null;
+  canvasesOpenElsewhere: Set<string>; // Canvases other excalidraw.com tabs have open
 
   // Search state
   searchQuery: string;
   searchResults: SearchResult[];
   isSearchModalOpen: boolean;
+  searchScope: SearchScope;
   isHelpModalOpen: boolean;
+  isCanvasSwitcherOpen: boolean; // Recent canvases overlay
   isCanvasDeleteModalOpen: boolean;
   canvasToDelete: UnifiedCanvas | null;
   isRenameModalOpen: boolean;
   canvasToRename: UnifiedCanvas | null;
+  canvasHistoryTarget: UnifiedCanvas | null;
+  canvasToTag: UnifiedCanvas | null;
+  canvasToTemplate: UnifiedCanvas | null;
+  templatePicker: TemplatePickerData | null;
+  imageExportTarget: ImageExportTarget | null;
+  canvasConflict: CanvasConflict | null;
 
   // UI state
   selectedCanvasId: string | null;
+  selectedCanvasIds: Set<string>; // Multi-selection for bulk actions, separate from the open canvas
+  selectionAnchorId: string | null; // Last canvas toggled; shift-click selects the range from here
   contextMenu: ContextMenuData | null;
   projectContextMenu: ProjectContextMenuData | null;
   theme: "light" | "dark";
@@ -56,6 +86,8 @@ interface UnifiedState {
   isPanelPinned: boolean;
   panelWidth: number;
   collapsedProjects: Set<string>;
+  panelViewMode: PanelViewMode;
+  activeTagFilter: string | null;
 
   // Loading and error state
   isLoading: boolean;
@@ -106,19 +138,30 @@ const initialState: UnifiedState = {
   projects: [],
   canvases: [],
   currentWorkingCanvasId: null,
+  canvasesOpenElsewhere: new Set(),
 
   // Search state
   searchQuery: "",
   searchResults: [],
   isSearchModalOpen: false,
+  searchScope: "all",
   isHelpModalOpen: false,
+  isCanvasSwitcherOpen: false,
   isCanvasDeleteModalOpen: false,
   canvasToDelete: null,
   isRenameModalOpen: false,
   canvasToRename: null,
+  canvasHistoryTarget: null,
+  canvasToTag: null,
+  canvasToTemplate: null,
+  templatePicker: null,
+  imageExportTarget: null,
+  canvasConflict: null,
 
   // UI state
   selectedCanvasId: null,
+  selectedCanvasIds: new Set(),
+  selectionAnchorId: null,
   contextMenu: null,
   projectContextMenu: null,
   theme: detectInitialTheme(),
@@ -126,8 +169,10 @@ const initialState: UnifiedState = {
   // Panel state
   isPanelVisible: false,
   isPanelPinned: false,
-  panelWidth: 320,
+  panelWidth: PANEL_CONSTANTS.DEFAULT_WIDTH,
   collapsedProjects: new Set(),
+  panelViewMode: "list",
+  activeTagFilter: null,
 
   // Loading and error state
   isLoading: false,
@@ -148,8 +193,16 @@ function unifiedStateReducer(
     case "SET_PROJECTS":
       return { ...state, projects: action.payload };
 
-    case "SET_CANVASES":
-      return { ...state, canvases: action.payload };
+    case "SET_CANVASES": {
+      const canvasIds = new Set(action.payload.map((canvas) => canvas.id));
+      return {
+        ...state,
+        canvases: action.payload,
+        selectedCanvasIds: new Set(
+          [...state.selectedCanvasIds].filter((id) => canvasIds.has(id)),
+        ),
+      };
+    }
 
     case "ADD_CANVAS":
       return {
@@ -185,6 +238,9 @@ function unifiedStateReducer(
           state.currentWorkingCanvasId === action.payload
             ? null
             : state.currentWorkingCanvasId,
+        selectedCanvasIds: state.selectedCanvasIds.has(action.payload)
+          ? new Set([...state.selectedCanvasIds].filter((id) => id !== action.payload))
+          : state.selectedCanvasIds,
       };
 
     case "ADD_PROJECT":
@@ -203,20 +259,27 @@ function unifiedStateReducer(
         ? { projectId: action.payload, canvasAction: 'keep' as const }
         : action.payload;
 
+      // Subprojects are deleted together with their parent
+      const deletedIds = new Set([
+        deletePayload.projectId,
+        ...getDescendantProjectIds(state.projects, deletePayload.projectId),
+      ]);
+      const isDeletedProject = (projectId?: string) => !!projectId && deletedIds.has(projectId);
+
       return {
         ...state,
         projects: state.projects.filter(
-          (project) => project.id !== deletePayload.projectId,
+          (project) => !deletedIds.has(project.id),
         ),
         canvases: deletePayload.canvasAction === 'delete'
-          ? state.canvases.filter((canvas) => canvas.projectId !== deletePayload.projectId)
+          ? state.canvases.filter((canvas) => !isDeletedProject(canvas.projectId))
           : state.canvases.map((canvas) =>
-            canvas.projectId === deletePayload.projectId
+            isDeletedProject(canvas.projectId)
               ? { ...canvas, projectId: undefined }
               : canvas,
           ),
         collapsedProjects: new Set(
-          [...state.collapsedProjects].filter((id) => id !== deletePayload.projectId),
+          [...state.collapsedProjects].filter((id) => !deletedIds.has(id)),
         ),
       };
     }
@@ -238,9 +301,13 @@ function unifiedStateReducer(
       return { ...state, isSearchModalOpen: action.payload };
 
     case "SET_SEARCH_MODAL_OPEN":
-      return { ...state, isSearchModalOpen: action.payload };
+      return { ...state, isSearchModalOpen: action.payload, searchScope: "all" };
+    case "OPEN_PROJECT_SEARCH":
+      return { ...state, isSearchModalOpen: true, searchScope: "projects" };
     case "SET_HELP_MODAL_OPEN":
       return { ...state, isHelpModalOpen: action.payload };
+    case "SET_CANVAS_SWITCHER_OPEN":
+      return { ...state, isCanvasSwitcherOpen: action.payload };
     case "SET_CANVAS_DELETE_MODAL_OPEN":
       return { ...state, isCanvasDeleteModalOpen: action.payload };
     case "SET_CANVAS_TO_DELETE":
@@ -250,10 +317,47 @@ function unifiedStateReducer(
     case "SET_CANVAS_TO_RENAME":
       return { ...state, canvasToRename: action.payload };
 
+    case "SET_CANVAS_HISTORY_TARGET":
+      return { ...state, canvasHistoryTarget: action.payload };
+
+    case "SET_CANVAS_TO_TAG":
+      return { ...state, canvasToTag: action.payload };
+
+    case "SET_CANVAS_TO_TEMPLATE":
+      return { ...state, canvasToTemplate: action.payload };
+
+    case "SET_TEMPLATE_PICKER":
+      return { ...state, templatePicker: action.payload };
+
+    case "SET_IMAGE_EXPORT_TARGET":
+      return { ...state, imageExportTarget: action.payload };
+
+    case "SET_CANVAS_CONFLICT":
+      return { ...state, canvasConflict: action.payload };
+
+    case "SET_CANVASES_OPEN_ELSEWHERE":
+      return { ...state, canvasesOpenElsewhere: new Set(action.payload) };
+
     // UI operations
     case "SET_SELECTED_CANVAS":
       return { ...state, selectedCanvasId: action.payload };
 
+    case "TOGGLE_CANVAS_SELECTION": {
+      const selectedCanvasIds = new Set(state.selectedCanvasIds);
+      if (selectedCanvasIds.has(action.payload)) {
+        selectedCanvasIds.delete(action.payload);
+      } else {
+        selectedCanvasIds.add(action.payload);
+      }
+      return { ...state, selectedCanvasIds, selectionAnchorId: action.payload };
+    }
+
+    case "SET_CANVAS_SELECTION":
+      return { ...state, selectedCanvasIds: new Set(action.payload) };
+
+    case "CLEAR_CANVAS_SELECTION":
+      return { ...state, selectedCanvasIds: new Set(), selectionAnchorId: null };
+
     case "SET_CONTEXT_MENU":
       return { ...state, contextMenu: action.payload };
 
@@ -289,6 +393,12 @@ function unifiedStateReducer(
     case "SET_COLLAPSED_PROJECTS":
       return { ...state, collapsedProjects: action.payload };
 
+    case "SET_PANEL_VIEW_MODE":
+      return { ...state, panelViewMode: action.payload };
+
+    case "SET_ACTIVE_TAG_FILTER":
+      return { ...state, activeTagFilter: action.payload };
+
     // System operations
     case "SET_LOADING":
       return { ...state, isLoading: action.payload };
@@ -351,10 +461,12 @@ interface UnifiedStateContextType {
   dispatch: React.Dispatch<UnifiedAction>;
   // Convenience functions for common operations
   loadInitialData: () => Promise<void>;
-  saveCanvas: (canvas: UnifiedCanvas) => Promise<void>;
+  // base: the elements the caller's copy started from (its own elements when only details changed)
+  saveCanvas: (canvas: UnifiedCanvas, base: readonly ExcalidrawElement[]) => Promise<void>;
   createCanvas: (
     canvas: Omit<UnifiedCanvas, "id" | "createdAt" | "updatedAt">,
   ) => Promise<UnifiedCanvas>;
+  duplicateCanvas: (canvas: UnifiedCanvas) => Promise<UnifiedCanvas>;
   removeCanvas: (canvasId: string, createReplacementFn?: () => Promise<void>) => Promise<void>;
   saveProject: (project: UnifiedProject) => Promise<void>;
   createProject: (
@@ -366,6 +478,7 @@ interface UnifiedStateContextType {
       isPinned: boolean;
       width: number;
       collapsedProjects: string[];
+      viewMode: PanelViewMode;
     }>,
   ) => Promise<void>;
   getCanvasesForProject: (projectId: string) => UnifiedCanvas[];
@@ -413,6 +526,20 @@ export function UnifiedStateProvider({
         return;
       }
 
+      // Drop trash items past the auto-purge window before loading
+      try {
+        const purgeDays = await settingsOperations.getSetting<number>(
+          "trashAutoPurgeDays",
+          TRASH_CONSTANTS.DEFAULT_AUTO_PURGE_DAYS,
+        );
+        const purgedCount = await trashOperations.purgeExpired(purgeDays ?? 0);
+        if (purgedCount > 0) {
+          console.log(`Auto-purged ${purgedCount} expired trash items`);
+        }
+      } catch (purgeError) {
+        console.warn("Failed to auto-purge trash:", purgeError);
+      }
+
       // Load data in parallel
       console.log("Loading projects, canvases, and panel settings...");
       const [projects, canvases, panelSettings] = await Promise.all([
@@ -437,6 +564,7 @@ export function UnifiedStateProvider({
         type: "SET_COLLAPSED_PROJECTS",
         payload: new Set(panelSettings.collapsedProjects),
       });
+      dispatch({ type: "SET_PANEL_VIEW_MODE", payload: panelSettings.viewMode });
 
       // Load current working canvas
       const currentCanvasId = await settingsOperations.getSetting(
@@ -450,6 +578,14 @@ export function UnifiedStateProvider({
         });
       }
 
+      // Catch up the search index with canvases changed outside auto-save (imports, restores)
+      searchOperations
+        .reindexStale()
+        .then((count) => {
+          if (count > 0) console.log(`Search index refreshed for ${count} canvases`);
+        })
+        .catch((indexError) => console.warn("Failed to refresh search index:", indexError));
+
       console.log("Initial data loading completed successfully");
     } catch (error) {
       console.error("Failed to load initial data:", error);
@@ -464,27 +600,33 @@ export function UnifiedStateProvider({
 
   // Load panel settings from IndexedDB
   const loadPanelSettings = async () => {
-    const [isPinned, width, collapsedProjectsStr] = await Promise.all([
+    const [isPinned, width, collapsedProjectsStr, viewMode] = await Promise.all([
       settingsOperations.getSetting("panelIsPinned"),
       settingsOperations.getSetting("panelWidth"),
       settingsOperations.getSetting("collapsedProjects"),
+      settingsOperations.getSetting("panelViewMode"),
     ]);
 
     return {
       isPinned: isPinned === true,
-      width:
-        typeof width === "number" ? Math.max(200, Math.min(600, width)) : 320,
+      width: clampNumberSetting(
+        width,
+        PANEL_CONSTANTS.MIN_WIDTH,
+        PANEL_CONSTANTS.MAX_WIDTH,
+        PANEL_CONSTANTS.DEFAULT_WIDTH,
+      ),
       collapsedProjects: Array.isArray(collapsedProjectsStr)
         ? collapsedProjectsStr
         : [],
+      viewMode: (viewMode === "grid" ? "grid" : "list") as PanelViewMode,
     };
   };
 
   // Save canvas with database sync
-  const saveCanvas = useCallback(async (canvas: UnifiedCanvas) => {
+  const saveCanvas = useCallback(async (canvas: UnifiedCanvas, base: readonly ExcalidrawElement[]) => {
     try {
-      await canvasOperations.updateCanvas(canvas);
-      dispatch({ type: "UPDATE_CANVAS", payload: canvas });
+      const savedCanvas = await canvasOperations.updateCanvas(canvas, base);
+      dispatch({ type: "UPDATE_CANVAS", payload: savedCanvas });
     } catch (error) {
       console.error("Failed to save canvas:", error);
       dispatch({ type: "SET_ERROR", payload: "Failed to save canvas." });
@@ -501,7 +643,7 @@ export function UnifiedStateProvider({
         const now = new Date();
         const canvas: UnifiedCanvas = {
           ...canvasData,
-          id: `canvas_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+          id: generateCanvasId(),
           createdAt: now,
           updatedAt: now,
           lastEditedAt: now, // Initialize lastEditedAt for new canvases
@@ -519,6 +661,24 @@ export function UnifiedStateProvider({
     [],
   );
 
+  // Copy a canvas; the copy starts outside any project and unstarred
+  const duplicateCanvas = useCallback(
+    async (canvas: UnifiedCanvas) => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { id, createdAt, updatedAt, lastEditedAt, projectId, favoriteRank, ...content } = canvas;
+      const createdCanvas = await createCanvas({
+        ...content,
+        name: `${canvas.name} (Copy)`,
+        elements: canvas.elements || [],
+      });
+      // Share the original's embedded images instead of copying them
+      await fileOperations.shareCanvasFiles(canvas.id, createdCanvas.id);
+      globalEventBus.emit(InternalEventTypes.CANVAS_CREATED, createdCanvas);
+      return createdCanvas;
+    },
+    [createCanvas],
+  );
+
   // Remove canvas
   const removeCanvas = useCallback(async (canvasId: string, createReplacementFn?: () => Promise<void>) => {
     try {
@@ -545,8 +705,8 @@ export function UnifiedStateProvider({
   // Save project with database sync
   const saveProject = useCallback(async (project: UnifiedProject) => {
     try {
-      await projectOperations.updateProject(project);
-      dispatch({ type: "UPDATE_PROJECT", payload: project });
+      const savedProject = await projectOperations.updateProject(project);
+      dispatch({ type: "UPDATE_PROJECT", payload: savedProject });
     } catch (error) {
       console.error("Failed to save project:", error);
       dispatch({ type: "SET_ERROR", payload: "Failed to save project." });
@@ -558,10 +718,12 @@ export function UnifiedStateProvider({
   const createProject = useCallback(
     async (projectData: Omit<UnifiedProject, "id" | "createdAt">) => {
       try {
+        const now = new Date();
         const project: UnifiedProject = {
           ...projectData,
-          id: `project_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
-          createdAt: new Date(),
+          id: generateProjectId(),
+          createdAt: now,
+          updatedAt: projectData.updatedAt || now,
           canvasIds: projectData.canvasIds || [],
         };
 
@@ -596,6 +758,7 @@ export function UnifiedStateProvider({
         isPinned: boolean;
         width: number;
         collapsedProjects: string[];
+        viewMode: PanelViewMode;
       }>,
     ) => {
       try {
@@ -628,6 +791,13 @@ export function UnifiedStateProvider({
           });
         }
 
+        if (settings.viewMode !== undefined) {
+          promises.push(
+            settingsOperations.setSetting("panelViewMode", settings.viewMode),
+          );
+          dispatch({ type: "SET_PANEL_VIEW_MODE", payload: settings.viewMode });
+        }
+
         await Promise.all(promises);
       } catch (error) {
         console.error("Failed to save panel settings:", error);
@@ -636,7 +806,7 @@ export function UnifiedStateProvider({
     [],
   );
 
-  // Memoized project-canvas mapping for performance
+  // Memoized project-canvas mapping for performance, in each project's canvasIds order
   const projectCanvasMap = useMemo(() => {
     const map = new Map<string, UnifiedCanvas[]>();
     state.canvases.forEach(canvas => {
@@ -645,8 +815,16 @@ export function UnifiedStateProvider({
         map.set(canvas.projectId, [...existing, canvas]);
       }
     });
+    state.projects.forEach(project => {
+      const canvases = map.get(project.id);
+      if (!canvases || canvases.length < 2) return;
+      const positions = new Map(project.canvasIds.map((id, index) => [id, index]));
+      const positionOf = (canvas: UnifiedCanvas) =>
+        positions.get(canvas.id) ?? Number.MAX_SAFE_INTEGER;
+      canvases.sort((a, b) => positionOf(a) - positionOf(b));
+    });
     return map;
-  }, [state.canvases]);
+  }, [state.canvases, state.projects]);
 
   // Convenience functions for canvas filtering
   const getCanvasesForProject = useCallback(
@@ -674,11 +852,15 @@ export function UnifiedStateProvider({
     const handleSyncExcalidrawData = async ({
       elements,
       appState,
+      files,
       canvasId,
+      base,
     }: {
       elements: readonly ExcalidrawElement[];
       appState: AppState;
+      files?: BinaryFiles;
       canvasId?: string;
+      base?: { updatedAt: number; elements: readonly ExcalidrawElement[] };
     }) => {
       try {
         console.log(
@@ -736,7 +918,10 @@ export function UnifiedStateProvider({
         const newElements = elements || [];
 
         // Detect if this is a real content edit or just a visit
-        const hasContentChanges = () => {
+        const hasContentChanges = (
+          existingElements: readonly ExcalidrawElement[] = currentCanvas.elements || [],
+          newElements: readonly ExcalidrawElement[] = elements || [],
+        ) => {
           if (newElements.length !== existingElements.length) {
             return true;
           }
@@ -857,9 +1042,10 @@ export function UnifiedStateProvider({
           ...(shouldUpdateTimestamp ? {
             updatedAt: now,
           } : {}),
-          // Only update lastEditedAt for real content changes (drawing, editing text, etc.)
+          // Only update lastEditedAt and the preview for real content changes (drawing, editing text, etc.)
           ...(shouldUpdateEditTimestamp ? {
             lastEditedAt: now,
+            thumbnail: createThumbnail(newElements, appState),
           } : {}),
         };
 
@@ -884,7 +1070,100 @@ export function UnifiedStateProvider({
         console.log(
           `Auto-saving canvas: ${currentCanvas.name} (${targetCanvasId}) with ${elements?.length || 0} elements`,
         );
-        await canvasOperations.updateCanvas(updatedCanvas);
+        // Keep the pre-edit content in version history (throttled per canvas)
+        if (hasRealContentChanges) {
+          try {
+            await versionOperations.snapshotCanvas(currentCanvas);
+          } catch (snapshotError) {
+            console.warn("Failed to snapshot canvas version:", snapshotError);
+          }
+        }
+
+        let savedCanvas = updatedCanvas;
+        let mergedOtherTabEdits = false;
+        if (base) {
+          // Refuse to overwrite a copy stored since this scene was loaded, e.g. by another tab
+          const firstAttempt = await canvasOperations.updateCanvasIfUnchanged(
+            updatedCanvas,
+            base.updatedAt,
+          );
+          savedCanvas = firstAttempt.canvas;
+          if (!firstAttempt.saved) {
+            const newerStoredCanvas = firstAttempt.canvas;
+            const storedElements = newerStoredCanvas.elements || [];
+            let sceneElements = newElements;
+            if (hasContentChanges(base.elements, storedElements)) {
+              if (!hasContentChanges(base.elements)) {
+                dispatch({ type: "UPDATE_CANVAS", payload: newerStoredCanvas });
+                console.log(
+                  `Canvas ${targetCanvasId} was edited in another tab and not here - keeping that save`,
+                );
+                return;
+              }
+
+              // Both tabs edited the scene; merge per element unless they touched the same ones
+              const merge = reconcileElements(storedElements, newElements, base.elements);
+              logElementMerge(targetCanvasId, "auto-save", storedElements, newElements, merge);
+              if (merge.conflicts.length > 0) {
+                dispatch({ type: "UPDATE_CANVAS", payload: newerStoredCanvas });
+                console.warn(
+                  `Canvas ${targetCanvasId} was also edited in another tab - asking which version to keep`,
+                );
+                dispatch({
+                  type: "SET_CANVAS_CONFLICT",
+                  payload: {
+                    canvasId: targetCanvasId,
+                    local: { elements: newElements, appState, files },
+                    remote: newerStoredCanvas,
+                  },
+                });
+                return;
+              }
+              sceneElements = merge.elements;
+              mergedOtherTabEdits = true;
+            }
+
+            // Save the scene on top of the other tab's details (name, tags) and merged edits
+            const retry = await canvasOperations.updateCanvasIfUnchanged(
+              {
+                ...newerStoredCanvas,
+                elements: sceneElements,
+                appState: updatedCanvas.appState,
+                lastEditedAt: updatedCanvas.lastEditedAt,
+                thumbnail: mergedOtherTabEdits
+                  ? createThumbnail(sceneElements, appState)
+                  : updatedCanvas.thumbnail,
+              },
+              newerStoredCanvas.updatedAt,
+            );
+            if (!retry.saved) {
+              console.warn(`Canvas ${targetCanvasId} changed again during auto-save - skipping`);
+              return;
+            }
+            savedCanvas = retry.canvas;
+          }
+        } else {
+          // No loaded scene to compare with; the copy in state is what this scene started from
+          savedCanvas = await canvasOperations.updateCanvas(updatedCanvas, existingElements);
+        }
+
+        // Persist embedded image data so it survives canvas switches
+        if (files) {
+          await fileOperations.syncCanvasFiles(targetCanvasId, savedCanvas.elements, files);
+        }
+        globalEventBus.emit(InternalEventTypes.CANVAS_AUTO_SAVED, savedCanvas);
+
+        // The editor lacks the other tab's half of a merge
+        if (mergedOtherTabEdits) {
+          void globalEventBus.emit(InternalEventTypes.RELOAD_CANVAS_REQUEST, savedCanvas);
+        }
+
+        // Keep full-text search in step with the saved content
+        if (hasRealContentChanges) {
+          searchOperations.indexCanvas(savedCanvas).catch((indexError) =>
+            console.warn("Failed to update search index:", indexError),
+          );
+        }
 
         // Validate context hasn't changed during async database operation
         if (canvasId && state.currentWorkingCanvasId !== canvasId) {
@@ -896,9 +1175,9 @@ export function UnifiedStateProvider({
         }
 
         // Update state only if context is still valid
-        dispatch({ type: "UPDATE_CANVAS", payload: updatedCanvas });
+        dispatch({ type: "UPDATE_CANVAS", payload: savedCanvas });
 
-        console.log(`Canvas auto-saved successfully: ${updatedCanvas.name} (${targetCanvasId})`);
+        console.log(`Canvas auto-saved successfully: ${savedCanvas.name} (${targetCanvasId})`);
       } catch (error) {
         console.error("Failed to auto-save canvas:", error);
         dispatch({
@@ -950,6 +1229,36 @@ export function UnifiedStateProvider({
     return unsubscribe;
   }, []);
 
+  // Keep in step with other excalidraw.com tabs; the open canvas and panel UI stay this tab's own
+  useEffect(() => {
+    const handleRefreshData = async () => {
+      try {
+        const [projects, canvases] = await Promise.all([
+          projectOperations.getAllProjects(),
+          canvasOperations.getAllCanvases(),
+        ]);
+        dispatch({ type: "SET_PROJECTS", payload: projects });
+        dispatch({ type: "SET_CANVASES", payload: canvases });
+      } catch (error) {
+        console.error("Failed to refresh data from database:", error);
+      }
+    };
+
+    const unsubscribeRefresh = globalEventBus.on(
+      InternalEventTypes.REFRESH_DATA,
+      handleRefreshData,
+    );
+    const unsubscribeOpenElsewhere = globalEventBus.on(
+      InternalEventTypes.CANVASES_OPEN_ELSEWHERE_CHANGED,
+      (canvasIds) => dispatch({ type: "SET_CANVASES_OPEN_ELSEWHERE", payload: canvasIds }),
+    );
+
+    return () => {
+      unsubscribeRefresh();
+      unsubscribeOpenElsewhere();
+    };
+  }, []);
+
   // Load initial data on mount
   useEffect(() => {
     loadInitialData();
@@ -961,6 +1270,7 @@ export function UnifiedStateProvider({
     loadInitialData,
     saveCanvas,
     createCanvas,
+    duplicateCanvas,
     removeCanvas,
     saveProject,
     createProject,
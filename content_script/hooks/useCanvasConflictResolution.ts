@@ -0,0 +1,144 @@
+import { useCallback } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import {
+  canvasOperations,
+  fileOperations,
+  projectOperations,
+  searchOperations,
+  versionOperations,
+} from "../../shared/storage-client";
+import { CanvasConflict, UnifiedCanvas } from "../../shared/types";
+import { createThumbnail } from "../services/SceneRenderer";
+
+/**
+ * Resolving an auto-save that collided with a save from another tab
+ */
+export function useCanvasConflictResolution() {
+  const { dispatch, createCanvas } = useUnifiedState();
+
+  /**
+   * Show the stored copy in the editor, if this tab still has the canvas open
+   */
+  const reloadStoredCopy = useCallback(async (canvasId: string) => {
+    const storedCanvas = await canvasOperations.getCanvas(canvasId);
+    if (storedCanvas) {
+      dispatch({ type: "UPDATE_CANVAS", payload: storedCanvas });
+      await eventBus.emit(InternalEventTypes.RELOAD_CANVAS_REQUEST, storedCanvas);
+    }
+  }, [dispatch]);
+
+  /**
+   * Store this tab's scene as a new canvas next to the original
+   */
+  const saveLocalCopy = useCallback(
+    async (conflict: CanvasConflict): Promise<UnifiedCanvas> => {
+      const { local, remote } = conflict;
+      const createdCanvas = await createCanvas({
+        name: `${remote.name} (conflict copy)`,
+        elements: local.elements,
+        appState: local.appState,
+        thumbnail: createThumbnail(local.elements, local.appState),
+        tags: remote.tags,
+      });
+
+      if (local.files) {
+        await fileOperations.syncCanvasFiles(createdCanvas.id, createdCanvas.elements, local.files);
+      }
+
+      let canvas = createdCanvas;
+      if (remote.projectId) {
+        await projectOperations.addCanvasToProject(createdCanvas.id, remote.projectId);
+        const updatedProject = await projectOperations.getProject(remote.projectId);
+        const updatedCanvas = await canvasOperations.getCanvas(createdCanvas.id);
+        if (updatedProject) {
+          dispatch({ type: "UPDATE_PROJECT", payload: updatedProject });
+          eventBus.emit(InternalEventTypes.PROJECT_UPDATED, updatedProject);
+        }
+        if (updatedCanvas) {
+          dispatch({ type: "UPDATE_CANVAS", payload: updatedCanvas });
+          canvas = updatedCanvas;
+        }
+      }
+
+      searchOperations.indexCanvas(canvas).catch((indexError) =>
+        console.warn("Failed to update search index:", indexError),
+      );
+      eventBus.emit(InternalEventTypes.CANVAS_CREATED, canvas);
+      return canvas;
+    },
+    [createCanvas, dispatch],
+  );
+
+  /**
+   * Overwrite the other tab's save with this tab's scene
+   */
+  const keepLocal = useCallback(
+    async (conflict: CanvasConflict) => {
+      const storedCanvas = await canvasOperations.getCanvas(conflict.canvasId);
+      if (!storedCanvas) {
+        // Deleted in the other tab meanwhile; keep the scene as a new canvas instead
+        await saveLocalCopy(conflict);
+        return;
+      }
+
+      // The other tab's save stays restorable from version history
+      await versionOperations.snapshotCanvas(storedCanvas, { force: true });
+
+      const { local } = conflict;
+      // Based on the stored elements, so this tab's scene replaces them
+      const updatedCanvas = await canvasOperations.updateCanvas(
+        {
+          ...storedCanvas,
+          elements: local.elements,
+          appState: local.appState,
+          lastEditedAt: new Date(),
+          thumbnail: createThumbnail(local.elements, local.appState),
+        },
+        storedCanvas.elements,
+      );
+
+      if (local.files) {
+        await fileOperations.syncCanvasFiles(updatedCanvas.id, updatedCanvas.elements, local.files);
+      }
+      searchOperations.indexCanvas(updatedCanvas).catch((indexError) =>
+        console.warn("Failed to update search index:", indexError),
+      );
+
+      dispatch({ type: "UPDATE_CANVAS", payload: updatedCanvas });
+      // Tells the other tabs, which pick the save up like any other
+      eventBus.emit(InternalEventTypes.CANVAS_AUTO_SAVED, updatedCanvas);
+      // The editor may have been refreshed with the other tab's copy meanwhile
+      await eventBus.emit(InternalEventTypes.RELOAD_CANVAS_REQUEST, updatedCanvas);
+    },
+    [dispatch, saveLocalCopy],
+  );
+
+  /**
+   * Drop this tab's scene in favour of the other tab's save
+   */
+  const keepRemote = useCallback(
+    async (conflict: CanvasConflict) => {
+      // This tab's scene stays restorable from version history
+      await versionOperations.snapshotCanvas(
+        { ...conflict.remote, elements: conflict.local.elements, appState: conflict.local.appState },
+        { force: true },
+      );
+      await reloadStoredCopy(conflict.canvasId);
+    },
+    [reloadStoredCopy],
+  );
+
+  /**
+   * Keep the other tab's save and store this tab's scene as a copy
+   */
+  const keepBoth = useCallback(
+    async (conflict: CanvasConflict) => {
+      await saveLocalCopy(conflict);
+      await reloadStoredCopy(conflict.canvasId);
+    },
+    [saveLocalCopy, reloadStoredCopy],
+  );
+
+  return { keepLocal, keepRemote, keepBoth };
+}
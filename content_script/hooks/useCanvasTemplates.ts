@@ -0,0 +1,133 @@
+import { useCallback } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import {
+  canvasOperations,
+  fileOperations,
+  projectOperations,
+  templateOperations,
+} from "../../shared/storage-client";
+import { TEMPLATE_CONSTANTS } from "../../shared/utils";
+import { CanvasTemplate, UnifiedCanvas } from "../../shared/types";
+import { AppState } from "../../shared/excalidraw-types";
+
+/**
+ * View settings for a canvas that starts out empty
+ */
+export const createBlankAppState = (): AppState => ({
+  zoom: { value: 1 },
+  scrollX: 0,
+  scrollY: 0,
+  width: window.innerWidth,
+  height: window.innerHeight,
+  viewBackgroundColor: "#ffffff",
+  theme: "light",
+  selectedElementIds: {},
+  editingGroupId: null,
+  viewModeEnabled: false,
+  currentItemFontSize: 20,
+  currentItemStrokeColor: "#000000",
+});
+
+/**
+ * Creating canvases from templates (or blank), optionally straight into a project
+ */
+export function useCanvasTemplates() {
+  const { state, dispatch, createCanvas } = useUnifiedState();
+
+  const getUniqueCanvasName = useCallback(
+    (baseName: string) => {
+      const existingNames = new Set(state.canvases.map((c) => c.name));
+      let finalName = baseName;
+      let counter = 1;
+      while (existingNames.has(finalName)) {
+        finalName = `${baseName} ${counter}`;
+        counter++;
+      }
+      return finalName;
+    },
+    [state.canvases]
+  );
+
+  /**
+   * Create and open a canvas from a template; a null template gives a blank canvas
+   */
+  const createCanvasFromTemplate = useCallback(
+    async (template: CanvasTemplate | null, projectId?: string): Promise<UnifiedCanvas | null> => {
+      try {
+        const blankAppState = createBlankAppState();
+        const createdCanvas = await createCanvas({
+          name: getUniqueCanvasName(template?.name ?? TEMPLATE_CONSTANTS.BLANK_CANVAS_NAME),
+          elements: template?.elements ?? [],
+          // Keep the template's look but fit the view to this window
+          appState: template?.appState
+            ? {
+                ...template.appState,
+                width: blankAppState.width,
+                height: blankAppState.height,
+                selectedElementIds: {},
+                editingGroupId: null,
+              }
+            : blankAppState,
+          thumbnail: template?.thumbnail,
+        });
+
+        if (template?.files) {
+          await fileOperations.syncCanvasFiles(createdCanvas.id, createdCanvas.elements, template.files);
+        }
+
+        let canvas = createdCanvas;
+        if (projectId) {
+          await projectOperations.addCanvasToProject(createdCanvas.id, projectId);
+          const updatedProject = await projectOperations.getProject(projectId);
+          const updatedCanvas = await canvasOperations.getCanvas(createdCanvas.id);
+          if (updatedProject) {
+            dispatch({ type: "UPDATE_PROJECT", payload: updatedProject });
+            eventBus.emit(InternalEventTypes.PROJECT_UPDATED, updatedProject);
+          }
+          if (updatedCanvas) {
+            dispatch({ type: "UPDATE_CANVAS", payload: updatedCanvas });
+            canvas = updatedCanvas;
+          }
+        }
+
+        dispatch({ type: "SET_SELECTED_CANVAS", payload: canvas.id });
+
+        eventBus.emit(InternalEventTypes.CANVAS_CREATED, canvas);
+        eventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
+        return canvas;
+      } catch (error) {
+        console.error("Error creating canvas from template:", error);
+        dispatch({
+          type: "SET_ERROR",
+          payload:
+            "Failed to create canvas: " +
+            (error instanceof Error ? error.message : String(error)),
+        });
+        return null;
+      }
+    },
+    [createCanvas, getUniqueCanvasName, dispatch]
+  );
+
+  /**
+   * Create a canvas inside a project, starting from the project's default template if it has one
+   */
+  const createCanvasInProject = useCallback(
+    async (projectId: string): Promise<UnifiedCanvas | null> => {
+      const project = state.projects.find((p) => p.id === projectId);
+      let template: CanvasTemplate | null = null;
+      if (project?.defaultTemplateId) {
+        try {
+          template = (await templateOperations.getTemplate(project.defaultTemplateId)) ?? null;
+        } catch (error) {
+          console.error("Failed to load project default template:", error);
+        }
+      }
+      return createCanvasFromTemplate(template, projectId);
+    },
+    [state.projects, createCanvasFromTemplate]
+  );
+
+  return { createCanvasFromTemplate, createCanvasInProject };
+}
@@ -0,0 +1,365 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { projectOperations, settingsOperations } from "../../shared/storage-client";
+import { ShortcutCommandId } from "../../shared/shortcuts";
+import { COMMAND_PALETTE_CONSTANTS } from "../../shared/utils";
+import { useCanvasTemplates } from "./useCanvasTemplates";
+import { useCurrentCanvasActions } from "./useCurrentCanvasActions";
+import { useFavorites } from "./useFavorites";
+
+// A target to pick after choosing a command, e.g. the project for "Move Canvas to Project"
+export interface PaletteChoice {
+  id: string;
+  label: string;
+  detail?: string;
+  run: () => void | Promise<void>;
+}
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  category: "Canvas" | "Create" | "Panel" | "Data" | "Help";
+  detail?: string; // What the command acts on, e.g. the current canvas's name
+  keywords?: string[]; // Extra words the fuzzy match looks at
+  shortcutId?: ShortcutCommandId; // Shown next to the command, from the shortcut registry
+  run?: () => void | Promise<void>;
+  choices?: () => PaletteChoice[]; // Listed in the palette instead of running straight away
+}
+
+export interface CommandPalette {
+  commands: PaletteCommand[];
+  recentCommandIds: string[]; // Most recent first
+  runCommand: (command: PaletteCommand, choice?: PaletteChoice) => void;
+}
+
+interface CommandPaletteProps {
+  onNewProject: () => void;
+  onTogglePanel: () => void;
+  onTogglePin: () => void;
+  onBackupOpen: () => void;
+  onTrashOpen: () => void;
+}
+
+/**
+ * excalidraw.com switches its theme on Alt+Shift+D; the organizer follows through useInstantThemeSync
+ */
+const toggleExcalidrawTheme = () => {
+  document.dispatchEvent(
+    new KeyboardEvent("keydown", {
+      key: "D",
+      code: "KeyD",
+      altKey: true,
+      shiftKey: true,
+      bubbles: true,
+      cancelable: true,
+    }),
+  );
+};
+
+/**
+ * Every organizer action as a command for the palette in the search modal (entered with ">")
+ */
+export function useCommandPalette({
+  onNewProject,
+  onTogglePanel,
+  onTogglePin,
+  onBackupOpen,
+  onTrashOpen,
+}: CommandPaletteProps): CommandPalette {
+  const { state, dispatch } = useUnifiedState();
+  const { createCanvasFromTemplate } = useCanvasTemplates();
+  const {
+    currentCanvas,
+    deleteCurrentCanvas,
+    duplicateCurrentCanvas,
+    renameCurrentCanvas,
+    openAdjacentCanvas,
+  } = useCurrentCanvasActions();
+  const { setFavorite } = useFavorites();
+  const [recentCommandIds, setRecentCommandIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    settingsOperations
+      .getSetting<string[]>(COMMAND_PALETTE_CONSTANTS.RECENT_COMMANDS_SETTING, [])
+      .then((stored) => setRecentCommandIds(Array.isArray(stored) ? stored : []))
+      .catch((error) => {
+        console.error("Failed to load recent commands:", error);
+      });
+  }, []);
+
+  const moveCurrentCanvas = useCallback(
+    async (projectId?: string) => {
+      if (!currentCanvas) return;
+      const { canvases, projects } = await projectOperations.moveCanvasesToProject(
+        [currentCanvas.id],
+        projectId,
+      );
+      canvases.forEach((canvas) => {
+        dispatch({ type: "UPDATE_CANVAS", payload: canvas });
+        eventBus.emit(InternalEventTypes.CANVAS_UPDATED, canvas);
+      });
+      projects.forEach((project) => {
+        dispatch({ type: "UPDATE_PROJECT", payload: project });
+        eventBus.emit(InternalEventTypes.PROJECT_UPDATED, project);
+      });
+    },
+    [currentCanvas, dispatch],
+  );
+
+  const commands = useMemo((): PaletteCommand[] => {
+    const canvasCommands: PaletteCommand[] = currentCanvas
+      ? [
+          {
+            id: "canvas.rename",
+            label: "Rename Canvas",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            shortcutId: "renameCanvas",
+            run: renameCurrentCanvas,
+          },
+          {
+            id: "canvas.duplicate",
+            label: "Duplicate Canvas",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["copy"],
+            shortcutId: "duplicateCanvas",
+            run: duplicateCurrentCanvas,
+          },
+          {
+            id: "canvas.move",
+            label: "Move Canvas to Project...",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["project", "organize"],
+            choices: () => [
+              ...state.projects
+                .filter((project) => project.id !== currentCanvas.projectId)
+                .map((project) => ({
+                  id: project.id,
+                  label: project.name,
+                  detail: `${project.canvasIds.length} canvases`,
+                  run: () => moveCurrentCanvas(project.id),
+                })),
+              ...(currentCanvas.projectId
+                ? [{ id: "unorganized", label: "No project", run: () => moveCurrentCanvas(undefined) }]
+                : []),
+            ],
+          },
+          {
+            id: "canvas.tags",
+            label: "Edit Canvas Tags",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["label"],
+            run: () => dispatch({ type: "SET_CANVAS_TO_TAG", payload: currentCanvas }),
+          },
+          {
+            id: "canvas.favorite",
+            label:
+              currentCanvas.favoriteRank === undefined ? "Add Canvas to Favorites" : "Remove Canvas from Favorites",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["star", "pin"],
+            run: () =>
+              setFavorite({ type: "canvas", id: currentCanvas.id }, currentCanvas.favoriteRank === undefined),
+          },
+          {
+            id: "canvas.history",
+            label: "Show Version History",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["restore", "snapshot"],
+            run: () => dispatch({ type: "SET_CANVAS_HISTORY_TARGET", payload: currentCanvas }),
+          },
+          {
+            id: "canvas.saveTemplate",
+            label: "Save Canvas as Template",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            run: () => dispatch({ type: "SET_CANVAS_TO_TEMPLATE", payload: currentCanvas }),
+          },
+          {
+            id: "canvas.export",
+            label: "Export Canvas as Image",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["png", "svg", "download"],
+            run: () =>
+              dispatch({
+                type: "SET_IMAGE_EXPORT_TARGET",
+                payload: { type: "canvas", canvas: currentCanvas },
+              }),
+          },
+          {
+            id: "canvas.delete",
+            label: "Delete Canvas",
+            category: "Canvas",
+            detail: currentCanvas.name,
+            keywords: ["remove", "trash"],
+            shortcutId: "deleteCanvas",
+            run: deleteCurrentCanvas,
+          },
+          {
+            id: "canvas.next",
+            label: "Next Canvas in Project",
+            category: "Canvas",
+            keywords: ["navigate", "switch"],
+            shortcutId: "nextCanvas",
+            run: () => openAdjacentCanvas(1),
+          },
+          {
+            id: "canvas.previous",
+            label: "Previous Canvas in Project",
+            category: "Canvas",
+            keywords: ["navigate", "switch"],
+            shortcutId: "previousCanvas",
+            run: () => openAdjacentCanvas(-1),
+          },
+        ]
+      : [];
+
+    return [
+      ...canvasCommands,
+      {
+        id: "create.canvas",
+        label: "New Canvas",
+        category: "Create",
+        shortcutId: "newCanvas",
+        run: async () => {
+          await createCanvasFromTemplate(null);
+        },
+      },
+      {
+        id: "create.fromTemplate",
+        label: "New Canvas from Template",
+        category: "Create",
+        shortcutId: "newFromTemplate",
+        run: () => dispatch({ type: "SET_TEMPLATE_PICKER", payload: {} }),
+      },
+      {
+        id: "create.project",
+        label: "New Project",
+        category: "Create",
+        shortcutId: "newProject",
+        run: onNewProject,
+      },
+      {
+        id: "panel.toggle",
+        label: "Toggle Panel",
+        category: "Panel",
+        keywords: ["show", "hide", "sidebar"],
+        shortcutId: "togglePanel",
+        run: onTogglePanel,
+      },
+      {
+        id: "panel.pin",
+        label: state.isPanelPinned ? "Unpin Panel" : "Pin Panel",
+        category: "Panel",
+        keywords: ["toggle pin", "auto-hide"],
+        run: onTogglePin,
+      },
+      {
+        id: "panel.goToProject",
+        label: "Go to Project",
+        category: "Panel",
+        shortcutId: "goToProject",
+        run: () => dispatch({ type: "OPEN_PROJECT_SEARCH" }),
+      },
+      {
+        id: "panel.recentCanvases",
+        label: "Recent Canvases",
+        category: "Panel",
+        keywords: ["history", "switch", "mru"],
+        shortcutId: "recentCanvases",
+        run: () => dispatch({ type: "SET_CANVAS_SWITCHER_OPEN", payload: true }),
+      },
+      {
+        id: "panel.theme",
+        label: state.theme === "dark" ? "Switch to Light Theme" : "Switch to Dark Theme",
+        category: "Panel",
+        keywords: ["toggle theme", "dark", "light", "appearance"],
+        run: toggleExcalidrawTheme,
+      },
+      {
+        id: "data.backup",
+        label: "Backup & Restore",
+        category: "Data",
+        keywords: ["export", "import", "zip"],
+        run: onBackupOpen,
+      },
+      {
+        id: "data.trash",
+        label: "Open Trash",
+        category: "Data",
+        keywords: ["deleted", "restore"],
+        run: onTrashOpen,
+      },
+      {
+        id: "help.shortcuts",
+        label: "Keyboard Shortcuts",
+        category: "Help",
+        keywords: ["help", "keys", "rebind"],
+        shortcutId: "help",
+        run: () => dispatch({ type: "SET_HELP_MODAL_OPEN", payload: true }),
+      },
+    ];
+  }, [
+    currentCanvas,
+    state.projects,
+    state.isPanelPinned,
+    state.theme,
+    dispatch,
+    createCanvasFromTemplate,
+    deleteCurrentCanvas,
+    duplicateCurrentCanvas,
+    renameCurrentCanvas,
+    moveCurrentCanvas,
+    openAdjacentCanvas,
+    setFavorite,
+    onNewProject,
+    onTogglePanel,
+    onTogglePin,
+    onBackupOpen,
+    onTrashOpen,
+  ]);
+
+  const recordCommandUse = useCallback((commandId: string) => {
+    setRecentCommandIds((previous) => {
+      const next = [commandId, ...previous.filter((id) => id !== commandId)].slice(
+        0,
+        COMMAND_PALETTE_CONSTANTS.MAX_RECENT_COMMANDS,
+      );
+      settingsOperations
+        .setSetting(COMMAND_PALETTE_CONSTANTS.RECENT_COMMANDS_SETTING, next)
+        .catch((error) => {
+          console.error("Failed to save recent commands:", error);
+        });
+      return next;
+    });
+  }, []);
+
+  // Close the palette first so the command can open its own modal
+  const runCommand = useCallback(
+    (command: PaletteCommand, choice?: PaletteChoice) => {
+      const run = choice?.run ?? command.run;
+      if (!run) return;
+
+      dispatch({ type: "SET_SEARCH_MODAL_OPEN", payload: false });
+      recordCommandUse(command.id);
+      Promise.resolve()
+        .then(run)
+        .catch((error) => {
+          console.error(`Failed to run command "${command.label}":`, error);
+          dispatch({
+            type: "SET_ERROR",
+            payload: `Failed to run "${command.label}". Please try again.`,
+          });
+        });
+    },
+    [dispatch, recordCommandUse],
+  );
+
+  return { commands, recentCommandIds, runCommand };
+}
@@ -0,0 +1,119 @@
+import { useCallback, useMemo } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+
+/**
+ * Actions on the canvas loaded in Excalidraw (or, failing that, the selected one),
+ * shared by the keyboard shortcuts and the command palette
+ */
+export function useCurrentCanvasActions() {
+  const { state, dispatch, duplicateCanvas, getCanvasesForProject, getUnorganizedCanvases } =
+    useUnifiedState();
+
+  const currentCanvas = useMemo(() => {
+    const canvasId = state.currentWorkingCanvasId || state.selectedCanvasId;
+    return state.canvases.find((c) => c.id === canvasId) ?? null;
+  }, [state.currentWorkingCanvasId, state.selectedCanvasId, state.canvases]);
+
+  const deleteCurrentCanvas = useCallback(async () => {
+    // Try to use currentWorkingCanvasId first (the canvas that's currently loaded in Excalidraw)
+    // If that's not available, fall back to selectedCanvasId
+    const canvasIdToUse = state.currentWorkingCanvasId || state.selectedCanvasId;
+
+    if (!canvasIdToUse) {
+      alert("Please select a canvas first to delete it.");
+      return;
+    }
+
+    const canvas = state.canvases.find((c) => c.id === canvasIdToUse);
+    if (!canvas) {
+      alert("Selected canvas not found.");
+      return;
+    }
+
+    dispatch({ type: "SET_CANVAS_TO_DELETE", payload: canvas });
+    dispatch({ type: "SET_CANVAS_DELETE_MODAL_OPEN", payload: true });
+  }, [state.selectedCanvasId, state.currentWorkingCanvasId, state.canvases, dispatch]);
+
+  const duplicateCurrentCanvas = useCallback(async () => {
+    // Try to use currentWorkingCanvasId first (the canvas that's currently loaded in Excalidraw)
+    // If that's not available, fall back to selectedCanvasId
+    const canvasIdToUse = state.currentWorkingCanvasId || state.selectedCanvasId;
+
+    if (!canvasIdToUse) {
+      alert("Please load a canvas first to duplicate it.");
+      return;
+    }
+
+    const canvas = state.canvases.find((c) => c.id === canvasIdToUse);
+    if (!canvas) {
+      alert("Current canvas not found.");
+      return;
+    }
+
+    try {
+      const newCanvas = await duplicateCanvas(canvas);
+      eventBus.emit(InternalEventTypes.CANVAS_SELECTED, newCanvas);
+      dispatch({ type: "SET_SELECTED_CANVAS", payload: newCanvas.id });
+    } catch (error) {
+      console.error(
+        "Failed to duplicate canvas via keyboard shortcut:",
+        error,
+      );
+      alert("Failed to duplicate canvas. Please try again.");
+    }
+  }, [state.selectedCanvasId, state.currentWorkingCanvasId, state.canvases, duplicateCanvas, dispatch]);
+
+  const renameCurrentCanvas = useCallback(async () => {
+    // Try to use currentWorkingCanvasId first (the canvas that's currently loaded in Excalidraw)
+    // If that's not available, fall back to selectedCanvasId
+    const canvasIdToUse = state.currentWorkingCanvasId || state.selectedCanvasId;
+
+    if (!canvasIdToUse) {
+      alert("Please select a canvas first to rename it.");
+      return;
+    }
+
+    const canvas = state.canvases.find((c) => c.id === canvasIdToUse);
+    if (!canvas) {
+      alert("Selected canvas not found.");
+      return;
+    }
+
+    dispatch({ type: "SET_CANVAS_TO_RENAME", payload: canvas });
+    dispatch({ type: "SET_RENAME_MODAL_OPEN", payload: true });
+  }, [state.selectedCanvasId, state.currentWorkingCanvasId, state.canvases, dispatch]);
+
+  /**
+   * Open the next (1) or previous (-1) canvas in the panel list the current canvas is in:
+   * its project, or the unorganized canvases. Wraps around at either end.
+   */
+  const openAdjacentCanvas = useCallback(
+    (direction: 1 | -1) => {
+      if (!currentCanvas) return;
+
+      const siblings = currentCanvas.projectId
+        ? getCanvasesForProject(currentCanvas.projectId)
+        : // Same order as the panel's Recent list
+          [...getUnorganizedCanvases()].sort(
+            (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime(),
+          );
+      const index = siblings.findIndex((c) => c.id === currentCanvas.id);
+      if (index === -1 || siblings.length < 2) return;
+
+      const target = siblings[(index + direction + siblings.length) % siblings.length];
+      if (!target) return;
+      dispatch({ type: "SET_SELECTED_CANVAS", payload: target.id });
+      eventBus.emit(InternalEventTypes.CANVAS_SELECTED, target);
+    },
+    [currentCanvas, getCanvasesForProject, getUnorganizedCanvases, dispatch],
+  );
+
+  return {
+    currentCanvas,
+    deleteCurrentCanvas,
+    duplicateCurrentCanvas,
+    renameCurrentCanvas,
+    openAdjacentCanvas,
+  };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useMemo } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { favoriteOperations } from "../../shared/storage-client";
+import { FavoriteItem, getFavorites } from "../../shared/utils";
+import { FavoriteRef, UnifiedCanvas, UnifiedProject } from "../../shared/types";
+
+export const getFavoriteRef = (item: FavoriteItem): FavoriteRef =>
+  item.type === "canvas"
+    ? { type: "canvas", id: item.canvas.id }
+    : { type: "project", id: item.project.id };
+
+/**
+ * Starred canvases and projects (the panel's Favorites), shared by the context
+ * menus, the Favorites section and the "Open Favorite" shortcuts
+ */
+export function useFavorites() {
+  const { state, dispatch } = useUnifiedState();
+
+  const favorites = useMemo(
+    () => getFavorites(state.canvases, state.projects),
+    [state.canvases, state.projects],
+  );
+
+  const applyChanges = useCallback(
+    ({ canvases, projects }: { canvases: UnifiedCanvas[]; projects: UnifiedProject[] }) => {
+      canvases.forEach((canvas) => {
+        dispatch({ type: "UPDATE_CANVAS", payload: canvas });
+        eventBus.emit(InternalEventTypes.CANVAS_UPDATED, canvas);
+      });
+      projects.forEach((project) => {
+        dispatch({ type: "UPDATE_PROJECT", payload: project });
+        eventBus.emit(InternalEventTypes.PROJECT_UPDATED, project);
+      });
+    },
+    [dispatch],
+  );
+
+  const setFavorite = useCallback(
+    async (ref: FavoriteRef, favorite: boolean) => {
+      applyChanges(await favoriteOperations.setFavorite(ref, favorite));
+    },
+    [applyChanges],
+  );
+
+  const reorderFavorites = useCallback(
+    async (orderedRefs: FavoriteRef[]) => {
+      applyChanges(await favoriteOperations.reorderFavorites(orderedRefs));
+    },
+    [applyChanges],
+  );
+
+  // A starred project opens at its most recently edited canvas
+  const getFavoriteCanvas = useCallback(
+    (item: FavoriteItem): UnifiedCanvas | undefined => {
+      if (item.type === "canvas") return item.canvas;
+      const lastEdited = (canvas: UnifiedCanvas) =>
+        new Date(canvas.lastEditedAt || canvas.updatedAt).getTime();
+      return state.canvases
+        .filter((canvas) => canvas.projectId === item.project.id)
+        .sort((a, b) => lastEdited(b) - lastEdited(a))[0];
+    },
+    [state.canvases],
+  );
+
+  /**
+   * Open the favorite at a position in Favorites (0-based); false if there is nothing to open
+   */
+  const openFavoriteAt = useCallback(
+    (index: number): boolean => {
+      const item = favorites[index];
+      const canvas = item ? getFavoriteCanvas(item) : undefined;
+      if (!canvas) return false;
+
+      dispatch({ type: "SET_SELECTED_CANVAS", payload: canvas.id });
+      eventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
+      return true;
+    },
+    [favorites, getFavoriteCanvas, dispatch],
+  );
+
+  return { favorites, setFavorite, reorderFavorites, getFavoriteCanvas, openFavoriteAt };
+}
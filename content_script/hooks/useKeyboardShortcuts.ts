@@ -1,6 +1,25 @@
-import { useEffect, useCallback } from "react";
+import { useEffect, useCallback, useMemo, useRef, useState } from "react";
 import { useUnifiedState } from "../context/UnifiedStateProvider";
 import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import {
+  DEFAULT_SHORTCUT_BINDINGS,
+  FAVORITE_SHORTCUT_IDS,
+  FavoriteShortcutId,
+  SHORTCUT_COMMANDS,
+  ShortcutBindings,
+  ShortcutCommandId,
+  eventToStroke,
+  formatBinding,
+  isBareStroke,
+  isMacPlatform,
+  loadShortcutBindings,
+  matchShortcut,
+  parseBinding,
+} from "../../shared/shortcuts";
+import { SHORTCUT_CONSTANTS } from "../../shared/utils";
+import { useCanvasTemplates } from "./useCanvasTemplates";
+import { useCurrentCanvasActions } from "./useCurrentCanvasActions";
+import { useFavorites } from "./useFavorites";
 
 interface KeyboardShortcutsProps {
   onNewCanvas: () => void;
@@ -8,24 +27,25 @@ interface KeyboardShortcutsProps {
   onTogglePanel?: () => void;
 }
 
-export function getExtensionShortcuts() {
-  const isMac = /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+// Key presses inside an element with this attribute are left alone (shortcut capture in the help overlay)
+export const SHORTCUT_CAPTURE_ATTRIBUTE = "data-shortcut-capture";
+
+export function getExtensionShortcuts(bindings: ShortcutBindings = DEFAULT_SHORTCUT_BINDINGS) {
+  const isMac = isMacPlatform();
   const modifier = isMac ? "⌥" : "Alt";
   const ctrlCmd = isMac ? "⌘" : "Ctrl";
 
+  const shortcuts: Record<string, string> = Object.fromEntries(
+    SHORTCUT_COMMANDS.map((command) => [command.label, formatBinding(bindings[command.id])]),
+  );
+
   return {
     shortcuts: {
-      "Toggle Panel": `${ctrlCmd} + B`,
-      // TODO-later: Navigate Canvases functionality may be added back later
-      // "Navigate Canvases": `${ctrlCmd} + ${modifier} + ↑/↓`,
+      ...shortcuts,
       "Close Modals / Focus Panel": "Escape",
-      "New Canvas": `${modifier} + N`,
-      "Duplicate Canvas": `${ctrlCmd} + Shift + D`,
-      "Delete Canvas": `${modifier} + Delete`,
-      "Rename Canvas": `F2`,
-      "New Project": `${modifier} + Shift + N`,
-      Search: `${ctrlCmd} + Shift + F`,
-      Help: `F1`,
+      "Move Focused Item": `${modifier} + ↑/↓/←/→`,
+      "Select Canvases": `${ctrlCmd} / Shift + Click`,
+      "Select All Canvases": `${ctrlCmd} + A`,
     },
     modifiers: {
       modifier,
@@ -34,66 +54,76 @@ export function getExtensionShortcuts() {
   };
 }
 
+/**
+ * The user's shortcut bindings, kept current when they are changed in the help overlay
+ */
+export function useShortcutBindings(): ShortcutBindings {
+  const [bindings, setBindings] = useState<ShortcutBindings>(DEFAULT_SHORTCUT_BINDINGS);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadShortcutBindings()
+      .then((loaded) => {
+        if (!cancelled) setBindings(loaded);
+      })
+      .catch((error) => {
+        console.error("Failed to load keyboard shortcuts:", error);
+      });
+
+    const unsubscribe = eventBus.on(InternalEventTypes.SHORTCUTS_CHANGED, setBindings);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return bindings;
+}
+
 export function useKeyboardShortcuts({
   onNewCanvas,
   onNewProject,
   onTogglePanel,
 }: KeyboardShortcutsProps) {
-  const { state, dispatch, createCanvas } =
-    useUnifiedState();
+  const { state, dispatch } = useUnifiedState();
+  const { createCanvasFromTemplate } = useCanvasTemplates();
+  const { deleteCurrentCanvas, duplicateCurrentCanvas, renameCurrentCanvas, openAdjacentCanvas } =
+    useCurrentCanvasActions();
+  const { openFavoriteAt } = useFavorites();
+  const bindings = useShortcutBindings();
+  // Strokes of a chord typed so far, dropped when the next key is too slow
+  const pendingChordRef = useRef<{ strokes: string[]; timeout?: ReturnType<typeof setTimeout> }>({
+    strokes: [],
+  });
+
+  const parsedBindings = useMemo(
+    () =>
+      SHORTCUT_COMMANDS.map((command) => ({
+        command,
+        commandId: command.id,
+        strokes: parseBinding(bindings[command.id]) ?? [],
+      })).filter(({ strokes }) => strokes.length > 0),
+    [bindings],
+  );
 
   const showHelpDialog = useCallback(() => {
     dispatch({ type: "SET_HELP_MODAL_OPEN", payload: true });
   }, [dispatch]);
 
   const handleNewCanvasShortcut = useCallback(async () => {
-    try {
-      const existingNames = state.canvases.map((c) => c.name);
-      const baseName = "Untitled Canvas";
-      let counter = 1;
-      let finalName = baseName;
+    await createCanvasFromTemplate(null);
+  }, [createCanvasFromTemplate]);
 
-      while (existingNames.includes(finalName)) {
-        finalName = `${baseName} ${counter}`;
-        counter++;
-      }
-
-      const newCanvas = {
-        name: finalName,
-        elements: [],
-        appState: {
-          zoom: { value: 1 },
-          scrollX: 0,
-          scrollY: 0,
-          width: window.innerWidth,
-          height: window.innerHeight,
-          viewBackgroundColor: "#ffffff",
-          theme: "light" as const,
-          selectedElementIds: {},
-          editingGroupId: null,
-          viewModeEnabled: false,
-          currentItemFontSize: 20,
-          currentItemStrokeColor: "#000000",
-        },
-      };
-
-      const createdCanvas = await createCanvas(newCanvas);
-
-      dispatch({ type: "SET_SELECTED_CANVAS", payload: createdCanvas.id });
-
-      eventBus.emit(InternalEventTypes.CANVAS_CREATED, createdCanvas);
-      eventBus.emit(InternalEventTypes.CANVAS_SELECTED, createdCanvas);
-    } catch (error) {
-      console.error("Error creating new canvas via keyboard shortcut:", error);
-      dispatch({
-        type: "SET_ERROR",
-        payload:
-          "Failed to create canvas: " +
-          (error instanceof Error ? error.message : String(error)),
-      });
-    }
-  }, [state.canvases, dispatch, createCanvas]);
 
+  const isTextEntry = useCallback(() => {
+    const activeElement = document.activeElement;
+    return (
+      activeElement &&
+      (activeElement.tagName === "INPUT" ||
+        activeElement.tagName === "TEXTAREA" ||
+        activeElement.closest("[contenteditable]"))
+    );
+  }, []);
 
   const isTyping = useCallback(() => {
     const activeElement = document.activeElement;
@@ -108,155 +138,43 @@ export function useKeyboardShortcuts({
     );
   }, []);
 
-  const handleDeleteSelected = useCallback(async () => {
-    // Try to use currentWorkingCanvasId first (the canvas that's currently loaded in Excalidraw)
-    // If that's not available, fall back to selectedCanvasId
-    const canvasIdToUse = state.currentWorkingCanvasId || state.selectedCanvasId;
-
-    if (!canvasIdToUse) {
-      alert("Please select a canvas first to delete it.");
-      return;
-    }
-
-    const canvas = state.canvases.find((c) => c.id === canvasIdToUse);
-    if (!canvas) {
-      alert("Selected canvas not found.");
-      return;
-    }
-
-    dispatch({ type: "SET_CANVAS_TO_DELETE", payload: canvas });
-    dispatch({ type: "SET_CANVAS_DELETE_MODAL_OPEN", payload: true });
-  }, [state.selectedCanvasId, state.currentWorkingCanvasId, state.canvases, dispatch]);
-
-  const handleDuplicateSelected = useCallback(async () => {
-    // Try to use currentWorkingCanvasId first (the canvas that's currently loaded in Excalidraw)
-    // If that's not available, fall back to selectedCanvasId
-    const canvasIdToUse = state.currentWorkingCanvasId || state.selectedCanvasId;
-
-    if (!canvasIdToUse) {
-      alert("Please load a canvas first to duplicate it.");
-      return;
-    }
-
-    const canvas = state.canvases.find((c) => c.id === canvasIdToUse);
-    if (!canvas) {
-      alert("Current canvas not found.");
-      return;
-    }
-
-    try {
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const { projectId, ...canvasWithoutProject } = canvas;
-      const newCanvas = await createCanvas({
-        ...canvasWithoutProject,
-        name: `${canvas.name} (Copy)`,
-        elements: canvas.elements || [],
-        appState: canvas.appState,
-      });
-      eventBus.emit(InternalEventTypes.CANVAS_CREATED, newCanvas);
-      eventBus.emit(InternalEventTypes.CANVAS_SELECTED, newCanvas);
-      dispatch({ type: "SET_SELECTED_CANVAS", payload: newCanvas.id });
-    } catch (error) {
-      console.error(
-        "Failed to duplicate canvas via keyboard shortcut:",
-        error,
-      );
-      alert("Failed to duplicate canvas. Please try again.");
-    }
-  }, [state.selectedCanvasId, state.currentWorkingCanvasId, state.canvases, createCanvas, dispatch]);
-
-  const handleRenameSelected = useCallback(async () => {
-    // Try to use currentWorkingCanvasId first (the canvas that's currently loaded in Excalidraw)
-    // If that's not available, fall back to selectedCanvasId
-    const canvasIdToUse = state.currentWorkingCanvasId || state.selectedCanvasId;
-
-    if (!canvasIdToUse) {
-      alert("Please select a canvas first to rename it.");
-      return;
-    }
-
-    const canvas = state.canvases.find((c) => c.id === canvasIdToUse);
-    if (!canvas) {
-      alert("Selected canvas not found.");
-      return;
-    }
-
-    dispatch({ type: "SET_CANVAS_TO_RENAME", payload: canvas });
-    dispatch({ type: "SET_RENAME_MODAL_OPEN", payload: true });
-  }, [state.selectedCanvasId, state.currentWorkingCanvasId, state.canvases, dispatch]);
-
-  // TODO-later: Navigate Canvases functionality may be added back later
-  // const handleNavigateCanvases = useCallback(
-  //   (direction: "next" | "prev") => {
-  //     const visibleCanvases = state.canvases
-  //       .filter(() => true)
-  //       .sort(
-  //         (a, b) =>
-  //           new Date(b.updatedAt || b.createdAt).getTime() -
-  //           new Date(a.updatedAt || a.createdAt).getTime(),
-  //       );
-  //
-  //     if (visibleCanvases.length === 0) return;
-  //
-  //     const currentIndex = state.selectedCanvasId
-  //       ?
-  //       visibleCanvases.findIndex((c) => c.id === state.selectedCanvasId)
-  //       : -1;
-  //
-  //     let newIndex;
-  //     if (direction === "next") {
-  //       newIndex =
-  //         currentIndex < visibleCanvases.length - 1 ? currentIndex + 1 : 0;
-  //     } else {
-  //       newIndex =
-  //         currentIndex > 0 ? currentIndex - 1 : visibleCanvases.length - 1;
-  //     }
-  //
-  //     const nextCanvas = visibleCanvases[newIndex];
-  //     if (nextCanvas) {
-  //       dispatch({ type: "SET_SELECTED_CANVAS", payload: nextCanvas.id });
-  //       eventBus.emit(InternalEventTypes.CANVAS_SELECTED, nextCanvas);
-  //       eventBus.emit(InternalEventTypes.LOAD_CANVAS_TO_EXCALIDRAW, nextCanvas);
-  //     }
-  //   },
-  //   [state.canvases, state.selectedCanvasId, dispatch],
-  // );
-
   useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      const isMac = /Mac|iPod|iPhone|iPad/.test(navigator.platform);
-      const altKey = e.altKey;
-      const ctrlCmdKey = isMac ? e.metaKey : e.ctrlKey;
-      const shiftKey = e.shiftKey;
-
+    const pendingChord = pendingChordRef.current;
+    const clearPendingChord = () => {
+      clearTimeout(pendingChord.timeout);
+      pendingChord.strokes = [];
+    };
 
-      // Universal Search Shortcut (works even when typing)
-      if (ctrlCmdKey && shiftKey && !altKey && e.key.toLowerCase() === "f") {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        dispatch({ type: "SET_SEARCH_MODAL_OPEN", payload: true });
-        return;
-      }
+    const commandHandlers: Record<ShortcutCommandId, () => void | Promise<void>> = {
+      togglePanel: () => onTogglePanel?.(),
+      search: () => dispatch({ type: "SET_SEARCH_MODAL_OPEN", payload: true }),
+      goToProject: () => dispatch({ type: "OPEN_PROJECT_SEARCH" }),
+      recentCanvases: () => dispatch({ type: "SET_CANVAS_SWITCHER_OPEN", payload: true }),
+      nextCanvas: () => openAdjacentCanvas(1),
+      previousCanvas: () => openAdjacentCanvas(-1),
+      newCanvas: handleNewCanvasShortcut,
+      newFromTemplate: () => dispatch({ type: "SET_TEMPLATE_PICKER", payload: {} }),
+      duplicateCanvas: duplicateCurrentCanvas,
+      deleteCanvas: deleteCurrentCanvas,
+      renameCanvas: renameCurrentCanvas,
+      newProject: onNewProject,
+      help: showHelpDialog,
+      ...(Object.fromEntries(
+        FAVORITE_SHORTCUT_IDS.map((id, index) => [id, () => void openFavoriteAt(index)]),
+      ) as Record<FavoriteShortcutId, () => void>),
+    };
 
-      // New Project: Alt/Option + Shift + N (works even when typing)
-      if (altKey && shiftKey && !ctrlCmdKey && (e.key.toLowerCase() === "n" || e.code === "KeyN")) {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        try {
-          onNewProject();
-        } catch (error) {
-          console.error("Error calling onNewProject:", error);
-        }
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof Element && e.target.closest(`[${SHORTCUT_CAPTURE_ATTRIBUTE}]`)) {
         return;
       }
 
-      // Close Modals / Focus Panel: Escape
-      if (!ctrlCmdKey && !altKey && !shiftKey && e.key === "Escape") {
+      // Close Modals / Focus Panel: Escape (not rebindable)
+      if (!e.ctrlKey && !e.metaKey && !e.altKey && !e.shiftKey && e.key === "Escape") {
         e.preventDefault();
         e.stopPropagation();
         e.stopImmediatePropagation();
+        clearPendingChord();
         if (state.contextMenu) {
           dispatch({ type: "SET_CONTEXT_MENU", payload: null });
         } else if (state.projectContextMenu) {
@@ -274,107 +192,54 @@ export function useKeyboardShortcuts({
         return;
       }
 
-      // Toggle Panel: Ctrl/Cmd + B
-      if (ctrlCmdKey && !altKey && !shiftKey && e.key === "b") {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        onTogglePanel?.();
-        return;
-      }
+      const stroke = eventToStroke(e);
+      if (!stroke) return;
 
-      // New Canvas: Alt + N (works even when typing)
-      if (altKey && !ctrlCmdKey && !shiftKey && (e.key.toLowerCase() === "n" || e.code === "KeyN")) {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        handleNewCanvasShortcut();
-        return;
-      }
-
-      // Duplicate Canvas: Ctrl/Cmd + Shift + D (works even when typing)
-      if (ctrlCmdKey && shiftKey && !altKey && e.key.toLowerCase() === "d") {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        try {
-          handleDuplicateSelected();
-        } catch (error) {
-          console.error("Error calling handleDuplicateSelected:", error);
-        }
-        return;
-      }
+      // Commands that must not interrupt typing or drawing sit out while focus is there, and
+      // plain-letter chords never fire in a text field
+      const typing = isTyping();
+      const textEntry = isTextEntry();
+      const candidates = parsedBindings.filter(
+        ({ command, strokes }) =>
+          (command.allowWhileTyping || !typing) && !(textEntry && isBareStroke(strokes[0] ?? "")),
+      );
 
-      // Help: F1 (works even when typing)
-      if (!altKey && !ctrlCmdKey && !shiftKey && e.key === "F1") {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        showHelpDialog();
-        return;
+      let sequence = [...pendingChord.strokes, stroke];
+      let match = matchShortcut(sequence, candidates);
+      if (match.type === "none" && sequence.length > 1) {
+        // The key doesn't continue the chord, but may start another
+        sequence = [stroke];
+        match = matchShortcut(sequence, candidates);
       }
+      clearPendingChord();
 
-      // TODO Later
-      if (isTyping()) return;
-
-      // TODO-later: Navigate Canvases functionality may be added back later
-      // Navigate Canvases: Ctrl/Cmd + Alt + Up/Down
-      // if (
-      //   ctrlCmdKey &&
-      //   altKey &&
-      //   !shiftKey &&
-      //   (e.key === "ArrowUp" || e.key === "ArrowDown")
-      // ) {
-      //   e.preventDefault();
-      //   e.stopPropagation();
-      //   e.stopImmediatePropagation();
-      //   handleNavigateCanvases(e.key === "ArrowDown" ? "next" : "prev");
-      //   return;
-      // }
+      if (match.type === "none") return;
 
-      // Delete Canvas: Alt + Delete
-      if (altKey && !ctrlCmdKey && !shiftKey && e.key === "Delete") {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        handleDeleteSelected();
-        return;
+      if (match.type === "prefix") {
+        pendingChord.strokes = sequence;
+        pendingChord.timeout = setTimeout(clearPendingChord, SHORTCUT_CONSTANTS.CHORD_TIMEOUT_MS);
+        // A plain letter that starts a chord still reaches Excalidraw; a modified one is ours
+        if (isBareStroke(stroke)) return;
       }
 
-      // Rename Canvas: F2 (works even when typing)
-      if (!altKey && !ctrlCmdKey && !shiftKey && e.key === "F2") {
-        e.preventDefault();
-        e.stopPropagation();
-        e.stopImmediatePropagation();
-        handleRenameSelected();
-        return;
+      e.preventDefault();
+      e.stopPropagation();
+      e.stopImmediatePropagation();
+
+      if (match.type === "match") {
+        const { commandId } = match;
+        Promise.resolve()
+          .then(commandHandlers[commandId])
+          .catch((error) => {
+            console.error(`Error running keyboard shortcut "${commandId}":`, error);
+          });
       }
-
-      // TODO Later
-      if (isTyping()) return;
-
-      // TODO-later: Navigate Canvases functionality may be added back later
-      // Navigate Canvases: Ctrl/Cmd + Alt + Up/Down
-      // if (
-      //   ctrlCmdKey &&
-      //   altKey &&
-      //   !shiftKey &&
-      //   (e.key === "ArrowUp" || e.key === "ArrowDown")
-      // ) {
-      //   e.preventDefault();
-      //   e.stopPropagation();
-      //   e.stopImmediatePropagation();
-      //   handleNavigateCanvases(e.key === "ArrowDown" ? "next" : "prev");
-      //   return;
-      // }
-
-
-
     };
 
     document.addEventListener("keydown", handleKeyDown, true);
     return () => {
       document.removeEventListener("keydown", handleKeyDown, true);
+      clearPendingChord();
     };
   }, [
     state.contextMenu,
@@ -383,18 +248,21 @@ export function useKeyboardShortcuts({
     state.isHelpModalOpen,
     state.isRenameModalOpen,
     state.isCanvasDeleteModalOpen,
+    parsedBindings,
+    isTextEntry,
     isTyping,
     dispatch,
     onNewCanvas,
     onNewProject,
     onTogglePanel,
-    handleDeleteSelected,
-    handleDuplicateSelected,
-    handleRenameSelected,
-    // handleNavigateCanvases, // TODO-later: Commented out with navigate canvases functionality
+    deleteCurrentCanvas,
+    duplicateCurrentCanvas,
+    renameCurrentCanvas,
+    openFavoriteAt,
+    openAdjacentCanvas,
     showHelpDialog,
     handleNewCanvasShortcut,
   ]);
 
-  return getExtensionShortcuts();
+  return getExtensionShortcuts(bindings);
 }
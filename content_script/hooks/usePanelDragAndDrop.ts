@@ -0,0 +1,434 @@
+import React, { useState, useCallback } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { getFavoriteRef, useFavorites } from "./useFavorites";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { canvasOperations, projectOperations } from "../../shared/storage-client";
+import {
+  FavoriteItem,
+  getChildProjects,
+  getDescendantProjectIds,
+  sortProjectsForDisplay,
+} from "../../shared/utils";
+import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
+
+export type PanelDragItem =
+  | { type: "canvas"; canvas: UnifiedCanvas }
+  | { type: "project"; project: UnifiedProject }
+  | { type: "favorite"; favorite: FavoriteItem }; // A row of the Favorites section
+
+export type PanelDropTarget =
+  | { type: "canvas"; canvas: UnifiedCanvas }
+  | { type: "project"; project: UnifiedProject }
+  | { type: "favorite"; favorite: FavoriteItem }
+  | { type: "unorganized" };
+
+type DropPosition = "before" | "after" | "inside";
+
+interface Options {
+  getCanvasCount: (projectId: string) => number;
+}
+
+// Custom type so panel drags are told apart from files dragged in for import
+const DRAG_DATA_TYPE = "application/x-excali-org-item";
+
+const getTargetKey = (target: PanelDropTarget | PanelDragItem): string => {
+  if (target.type === "canvas") return `canvas:${target.canvas.id}`;
+  if (target.type === "project") return `project:${target.project.id}`;
+  if (target.type === "favorite") {
+    const ref = getFavoriteRef(target.favorite);
+    return `favorite:${ref.type}:${ref.id}`;
+  }
+  return "unorganized";
+};
+
+/**
+ * Drag-and-drop and keyboard (Alt + arrow keys) organization of the panel:
+ * canvases move between projects and the unorganized list, and canvases within
+ * a project, sibling projects and Favorites can be reordered by hand
+ */
+export function usePanelDragAndDrop({ getCanvasCount }: Options) {
+  const { state, dispatch, getCanvasesForProject } = useUnifiedState();
+  const { favorites, reorderFavorites } = useFavorites();
+  const [dragItem, setDragItem] = useState<PanelDragItem | null>(null);
+  const [dropIndicator, setDropIndicator] = useState<{
+    key: string;
+    position: DropPosition;
+  } | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+
+  const getProjectName = useCallback(
+    (projectId?: string) =>
+      state.projects.find((project) => project.id === projectId)?.name ?? "Unorganized",
+    [state.projects]
+  );
+
+  // Existing parent of a project; a parent that no longer exists means top level
+  const getParentId = useCallback(
+    (project: UnifiedProject) =>
+      project.parentId && state.projects.some((p) => p.id === project.parentId)
+        ? project.parentId
+        : undefined,
+    [state.projects]
+  );
+
+  const getSiblingProjects = useCallback(
+    (parentId?: string) =>
+      sortProjectsForDisplay(getChildProjects(state.projects, parentId), getCanvasCount),
+    [state.projects, getCanvasCount]
+  );
+
+  /**
+   * Put a canvas into a project (or the unorganized list) at the given index
+   * of that project's canvases; without an index it goes to the end
+   */
+  const moveCanvas = useCallback(
+    async (canvas: UnifiedCanvas, projectId?: string, index?: number) => {
+      const previousProjectId = canvas.projectId;
+
+      try {
+        if (previousProjectId && previousProjectId !== projectId) {
+          await projectOperations.removeCanvasFromProject(canvas.id, previousProjectId);
+        }
+        if (projectId && previousProjectId !== projectId) {
+          await projectOperations.addCanvasToProject(canvas.id, projectId);
+        }
+        if (projectId && index !== undefined) {
+          const order = getCanvasesForProject(projectId)
+            .map((c) => c.id)
+            .filter((id) => id !== canvas.id);
+          order.splice(Math.max(0, Math.min(index, order.length)), 0, canvas.id);
+          await projectOperations.reorderProjectCanvases(projectId, order);
+        }
+
+        const projectIds = Array.from(
+          new Set([previousProjectId, projectId].filter((id): id is string => !!id))
+        );
+        const updatedProjects = await Promise.all(
+          projectIds.map((id) => projectOperations.getProject(id))
+        );
+        const updatedCanvas = await canvasOperations.getCanvas(canvas.id);
+
+        updatedProjects.forEach((project) => {
+          if (!project) return;
+          dispatch({ type: "UPDATE_PROJECT", payload: project });
+          eventBus.emit(InternalEventTypes.PROJECT_UPDATED, project);
+        });
+        if (updatedCanvas) {
+          dispatch({ type: "UPDATE_CANVAS", payload: updatedCanvas });
+          eventBus.emit(InternalEventTypes.CANVAS_UPDATED, updatedCanvas);
+        }
+
+        setAnnouncement(
+          previousProjectId === projectId
+            ? `Moved "${canvas.name}" to position ${(index ?? 0) + 1}`
+            : `Moved "${canvas.name}" to ${getProjectName(projectId)}`
+        );
+      } catch (error) {
+        console.error("Failed to move canvas:", error);
+        dispatch({
+          type: "SET_ERROR",
+          payload: "Failed to move canvas. Please try again.",
+        });
+      }
+    },
+    [getCanvasesForProject, getProjectName, dispatch]
+  );
+
+  /**
+   * Put a project under a parent (undefined for top level) at the given index of its siblings
+   */
+  const moveProject = useCallback(
+    async (project: UnifiedProject, parentId: string | undefined, index: number) => {
+      try {
+        if (getParentId(project) !== parentId) {
+          await projectOperations.moveProject(project.id, parentId);
+        }
+
+        const order = getSiblingProjects(parentId)
+          .map((p) => p.id)
+          .filter((id) => id !== project.id);
+        order.splice(Math.max(0, Math.min(index, order.length)), 0, project.id);
+
+        const updatedProjects = await projectOperations.reorderProjects(order);
+        updatedProjects.forEach((updated) => {
+          dispatch({ type: "UPDATE_PROJECT", payload: updated });
+        });
+        const movedProject = updatedProjects.find((p) => p.id === project.id);
+        if (movedProject) {
+          eventBus.emit(InternalEventTypes.PROJECT_UPDATED, movedProject);
+        }
+
+        setAnnouncement(
+          getParentId(project) === parentId
+            ? `Moved "${project.name}" to position ${order.indexOf(project.id) + 1}`
+            : `Moved "${project.name}" to ${parentId ? getProjectName(parentId) : "top level"}`
+        );
+      } catch (error) {
+        console.error("Failed to move project:", error);
+        dispatch({
+          type: "SET_ERROR",
+          payload: "Failed to move project. Please try again.",
+        });
+      }
+    },
+    [getParentId, getSiblingProjects, getProjectName, dispatch]
+  );
+
+  /**
+   * Put a favorite at the given index of Favorites
+   */
+  const moveFavorite = useCallback(
+    async (favorite: FavoriteItem, index: number) => {
+      const ref = getFavoriteRef(favorite);
+      const order = favorites
+        .map(getFavoriteRef)
+        .filter((other) => other.type !== ref.type || other.id !== ref.id);
+      order.splice(Math.max(0, Math.min(index, order.length)), 0, ref);
+
+      try {
+        await reorderFavorites(order);
+        const name = favorite.type === "canvas" ? favorite.canvas.name : favorite.project.name;
+        setAnnouncement(`Moved "${name}" to favorite ${order.indexOf(ref) + 1}`);
+      } catch (error) {
+        console.error("Failed to reorder favorites:", error);
+        dispatch({
+          type: "SET_ERROR",
+          payload: "Failed to reorder favorites. Please try again.",
+        });
+      }
+    },
+    [favorites, reorderFavorites, dispatch]
+  );
+
+  const canDrop = useCallback(
+    (item: PanelDragItem, target: PanelDropTarget): boolean => {
+      if (getTargetKey(item) === getTargetKey(target)) return false;
+      // Favorites only reorder among themselves
+      if (item.type === "favorite" || target.type === "favorite") {
+        return item.type === "favorite" && target.type === "favorite";
+      }
+      if (item.type === "canvas") return true;
+
+      // Projects only land on other projects, never inside their own subtree
+      return (
+        target.type === "project" &&
+        !getDescendantProjectIds(state.projects, item.project.id).includes(target.project.id)
+      );
+    },
+    [state.projects]
+  );
+
+  const getDropPosition = (
+    e: React.DragEvent<HTMLElement>,
+    item: PanelDragItem,
+    target: PanelDropTarget
+  ): DropPosition => {
+    if (target.type === "unorganized") return "inside";
+    if (target.type === "project" && item.type === "canvas") return "inside";
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / (rect.height || 1);
+    if (target.type === "canvas" || target.type === "favorite") {
+      return offset < 0.5 ? "before" : "after";
+    }
+
+    // Project on project: edges reorder, the middle nests
+    if (offset < 0.25) return "before";
+    if (offset > 0.75) return "after";
+    return "inside";
+  };
+
+  const dropItem = useCallback(
+    async (item: PanelDragItem, target: PanelDropTarget, position: DropPosition) => {
+      if (item.type === "favorite" || target.type === "favorite") {
+        if (item.type !== "favorite" || target.type !== "favorite") return;
+        const itemKey = getTargetKey(item);
+        const order = favorites
+          .map((favorite) => getTargetKey({ type: "favorite", favorite }))
+          .filter((key) => key !== itemKey);
+        const index = order.indexOf(getTargetKey(target)) + (position === "after" ? 1 : 0);
+        await moveFavorite(item.favorite, index);
+        return;
+      }
+
+      if (item.type === "canvas") {
+        if (target.type === "unorganized") {
+          await moveCanvas(item.canvas, undefined);
+        } else if (target.type === "project") {
+          await moveCanvas(item.canvas, target.project.id);
+        } else if (!target.canvas.projectId) {
+          // The unorganized list keeps its date order
+          await moveCanvas(item.canvas, undefined);
+        } else {
+          const projectId = target.canvas.projectId;
+          const order = getCanvasesForProject(projectId)
+            .map((c) => c.id)
+            .filter((id) => id !== item.canvas.id);
+          const index = order.indexOf(target.canvas.id) + (position === "after" ? 1 : 0);
+          await moveCanvas(item.canvas, projectId, index);
+        }
+        return;
+      }
+
+      if (target.type !== "project") return;
+
+      if (position === "inside") {
+        await moveProject(item.project, target.project.id, getSiblingProjects(target.project.id).length);
+        return;
+      }
+
+      const parentId = getParentId(target.project);
+      const order = getSiblingProjects(parentId)
+        .map((p) => p.id)
+        .filter((id) => id !== item.project.id);
+      const index = order.indexOf(target.project.id) + (position === "after" ? 1 : 0);
+      await moveProject(item.project, parentId, index);
+    },
+    [moveCanvas, moveProject, moveFavorite, favorites, getCanvasesForProject, getSiblingProjects, getParentId]
+  );
+
+  const getDragSourceProps = (item: PanelDragItem) => ({
+    draggable: true,
+    onDragStart: (e: React.DragEvent<HTMLElement>) => {
+      e.stopPropagation();
+      e.dataTransfer.effectAllowed = "move";
+      e.dataTransfer.setData(DRAG_DATA_TYPE, getTargetKey(item));
+      setDragItem(item);
+    },
+    onDragEnd: () => {
+      setDragItem(null);
+      setDropIndicator(null);
+    },
+  });
+
+  const getDropZoneProps = (target: PanelDropTarget) => {
+    const key = getTargetKey(target);
+    const isPanelDrag = (e: React.DragEvent<HTMLElement>) =>
+      !!dragItem && Array.from(e.dataTransfer.types).includes(DRAG_DATA_TYPE);
+
+    return {
+      onDragOver: (e: React.DragEvent<HTMLElement>) => {
+        if (!isPanelDrag(e) || !dragItem || !canDrop(dragItem, target)) return;
+        e.preventDefault();
+        e.stopPropagation();
+        e.dataTransfer.dropEffect = "move";
+
+        const position = getDropPosition(e, dragItem, target);
+        setDropIndicator((prev) =>
+          prev?.key === key && prev.position === position ? prev : { key, position }
+        );
+      },
+      onDragLeave: (e: React.DragEvent<HTMLElement>) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+          setDropIndicator((prev) => (prev?.key === key ? null : prev));
+        }
+      },
+      onDrop: (e: React.DragEvent<HTMLElement>) => {
+        if (!isPanelDrag(e) || !dragItem) return;
+        e.preventDefault();
+        e.stopPropagation();
+
+        const item = dragItem;
+        const position = getDropPosition(e, item, target);
+        setDragItem(null);
+        setDropIndicator(null);
+        if (canDrop(item, target)) {
+          dropItem(item, target, position);
+        }
+      },
+    };
+  };
+
+  // Highlight for the row currently under the pointer during a drag
+  const getDropIndicatorStyle = (target: PanelDropTarget): React.CSSProperties => {
+    if (dropIndicator?.key !== getTargetKey(target)) return {};
+
+    const accent = "var(--theme-accent-primary, #6366f1)";
+    if (dropIndicator.position === "before") return { boxShadow: `inset 0 2px 0 ${accent}` };
+    if (dropIndicator.position === "after") return { boxShadow: `inset 0 -2px 0 ${accent}` };
+    return { outline: `2px dashed ${accent}`, outlineOffset: "-2px" };
+  };
+
+  const isDragging = (item: PanelDragItem) =>
+    !!dragItem && getTargetKey(dragItem) === getTargetKey(item);
+
+  /**
+   * Keyboard equivalent of dragging a focused row:
+   * Alt+↑/↓ reorders, Alt+← moves out of the project, Alt+→ nests a project
+   * into the project above it. Favorites only move up and down.
+   */
+  const handleMoveKey = (e: React.KeyboardEvent<HTMLElement>, item: PanelDragItem) => {
+    if (!e.altKey || e.ctrlKey || e.metaKey || e.shiftKey) return;
+    if (!["ArrowUp", "ArrowDown", "ArrowLeft", "ArrowRight"].includes(e.key)) return;
+
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (item.type === "favorite") {
+      if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+      const itemKey = getTargetKey(item);
+      const position = favorites.findIndex(
+        (favorite) => getTargetKey({ type: "favorite", favorite }) === itemKey
+      );
+      const index = position + (e.key === "ArrowUp" ? -1 : 1);
+      if (position !== -1 && index >= 0 && index < favorites.length) {
+        moveFavorite(item.favorite, index);
+      }
+      return;
+    }
+
+    if (item.type === "canvas") {
+      const { canvas } = item;
+      if (e.key === "ArrowLeft") {
+        if (canvas.projectId) moveCanvas(canvas, undefined);
+        return;
+      }
+      if (e.key === "ArrowRight") return;
+      if (!canvas.projectId) {
+        setAnnouncement("Unorganized canvases are sorted by date");
+        return;
+      }
+
+      const order = getCanvasesForProject(canvas.projectId).map((c) => c.id);
+      const index = order.indexOf(canvas.id) + (e.key === "ArrowUp" ? -1 : 1);
+      if (index >= 0 && index < order.length) {
+        moveCanvas(canvas, canvas.projectId, index);
+      }
+      return;
+    }
+
+    const { project } = item;
+    const parentId = getParentId(project);
+    const siblings = getSiblingProjects(parentId);
+    const position = siblings.findIndex((p) => p.id === project.id);
+
+    if (e.key === "ArrowLeft") {
+      if (!parentId) return;
+      const parent = state.projects.find((p) => p.id === parentId);
+      const parentSiblings = parent ? getSiblingProjects(getParentId(parent)) : [];
+      const parentIndex = parentSiblings.findIndex((p) => p.id === parentId);
+      moveProject(project, parent ? getParentId(parent) : undefined, parentIndex + 1);
+    } else if (e.key === "ArrowRight") {
+      const previous = siblings[position - 1];
+      if (previous) {
+        moveProject(project, previous.id, getSiblingProjects(previous.id).length);
+      }
+    } else {
+      const index = position + (e.key === "ArrowUp" ? -1 : 1);
+      if (index >= 0 && index < siblings.length) {
+        moveProject(project, parentId, index);
+      }
+    }
+  };
+
+  return {
+    announcement,
+    getDragSourceProps,
+    getDropZoneProps,
+    getDropIndicatorStyle,
+    isDragging,
+    handleMoveKey,
+  };
+}
+
+export type PanelDragAndDrop = ReturnType<typeof usePanelDragAndDrop>;
@@ -0,0 +1,40 @@
+import { useEffect, useMemo, useState } from "react";
+import { useUnifiedState } from "../context/UnifiedStateProvider";
+import { eventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { recentCanvasOperations } from "../../shared/storage-client";
+import { UnifiedCanvas } from "../../shared/types";
+
+/**
+ * Canvases in the order they were last opened, most recent first. The list is kept
+ * in the database by CanvasSwitchOrchestrator, so it survives reload switches.
+ */
+export function useRecentCanvases(): UnifiedCanvas[] {
+  const { state } = useUnifiedState();
+  const [recentCanvasIds, setRecentCanvasIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    recentCanvasOperations
+      .getRecentCanvasIds()
+      .then((ids) => {
+        if (!cancelled) setRecentCanvasIds(ids);
+      })
+      .catch((error) => {
+        console.error("Failed to load recent canvases:", error);
+      });
+
+    const unsubscribe = eventBus.on(InternalEventTypes.RECENT_CANVASES_CHANGED, setRecentCanvasIds);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  // Deleted canvases drop out; the stored list is only trimmed by new visits
+  return useMemo(() => {
+    const canvasesById = new Map(state.canvases.map((canvas) => [canvas.id, canvas]));
+    return recentCanvasIds
+      .map((id) => canvasesById.get(id))
+      .filter((canvas): canvas is UnifiedCanvas => !!canvas);
+  }, [recentCanvasIds, state.canvases]);
+}
@@ -4,7 +4,8 @@
  */
 
 import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
-import { ExcalidrawElement, AppState } from "../../shared/excalidraw-types";
+import { ExcalidrawElement, AppState, BinaryFiles } from "../../shared/excalidraw-types";
+import { ShortcutBindings } from "../../shared/shortcuts";
 
 // Event types for internal communication
 export enum InternalEventTypes {
@@ -14,6 +15,9 @@ export enum InternalEventTypes {
   CANVAS_DELETED = "CANVAS_DELETED",
   CANVAS_SELECTED = "CANVAS_SELECTED",
   CANVAS_LOADED = "CANVAS_LOADED",
+  CANVAS_SWITCH_COMPLETED = "CANVAS_SWITCH_COMPLETED",
+  CANVAS_AUTO_SAVED = "CANVAS_AUTO_SAVED",
+  RECENT_CANVASES_CHANGED = "RECENT_CANVASES_CHANGED",
   REQUEST_NEW_CANVAS = "REQUEST_NEW_CANVAS",
 
   // Project operations
@@ -27,6 +31,8 @@ export enum InternalEventTypes {
   SAVE_EXCALIDRAW_DATA = "SAVE_EXCALIDRAW_DATA",
   UPDATE_FILE_NAME_DISPLAY = "UPDATE_FILE_NAME_DISPLAY",
   SYNC_EXCALIDRAW_DATA = "SYNC_EXCALIDRAW_DATA",
+  RELOAD_CANVAS_REQUEST = "RELOAD_CANVAS_REQUEST",
+  FOCUS_CANVAS_ELEMENT = "FOCUS_CANVAS_ELEMENT",
 
   // Panel operations
   PANEL_VISIBILITY_CHANGED = "PANEL_VISIBILITY_CHANGED",
@@ -54,8 +60,12 @@ export enum InternalEventTypes {
   ESCAPE_PRESSED = "ESCAPE_PRESSED",
   SELECT_ALL_REQUEST = "SELECT_ALL_REQUEST",
   SHOW_HELP_OVERLAY = "SHOW_HELP_OVERLAY",
+  SHORTCUTS_CHANGED = "SHORTCUTS_CHANGED",
   REFRESH_DATA = "REFRESH_DATA",
 
+  // Other excalidraw.com tabs
+  CANVASES_OPEN_ELSEWHERE_CHANGED = "CANVASES_OPEN_ELSEWHERE_CHANGED",
+
   // System operations
   ERROR_OCCURRED = "ERROR_OCCURRED",
   LOADING_STATE_CHANGED = "LOADING_STATE_CHANGED",
@@ -69,6 +79,13 @@ export interface EventPayloads {
   [InternalEventTypes.CANVAS_DELETED]: UnifiedCanvas;
   [InternalEventTypes.CANVAS_SELECTED]: UnifiedCanvas;
   [InternalEventTypes.CANVAS_LOADED]: UnifiedCanvas;
+  [InternalEventTypes.CANVAS_SWITCH_COMPLETED]: {
+    canvasId: string;
+    mode: "live" | "reload"; // How the switch completed, after any fallback
+    durationMs: number; // From selection until the scene is shown
+  };
+  [InternalEventTypes.CANVAS_AUTO_SAVED]: UnifiedCanvas; // The editor's scene was written to the database
+  [InternalEventTypes.RECENT_CANVASES_CHANGED]: string[]; // Canvas ids, most recently opened first
   [InternalEventTypes.REQUEST_NEW_CANVAS]: null;
 
   [InternalEventTypes.PROJECT_CREATED]: UnifiedProject;
@@ -77,6 +94,11 @@ export interface EventPayloads {
   [InternalEventTypes.PROJECT_SELECTED]: UnifiedProject;
 
   [InternalEventTypes.LOAD_CANVAS_TO_EXCALIDRAW]: UnifiedCanvas;
+  [InternalEventTypes.RELOAD_CANVAS_REQUEST]: UnifiedCanvas; // Stored content replaced; reload without saving the open scene
+  [InternalEventTypes.FOCUS_CANVAS_ELEMENT]: {
+    canvas: UnifiedCanvas;
+    elementId: string; // Scrolled into view and selected once the canvas loads
+  };
   [InternalEventTypes.SAVE_EXCALIDRAW_DATA]: {
     canvasId: string;
     elements: readonly ExcalidrawElement[];
@@ -86,7 +108,10 @@ export interface EventPayloads {
   [InternalEventTypes.SYNC_EXCALIDRAW_DATA]: {
     elements: readonly ExcalidrawElement[];
     appState: AppState;
+    files?: BinaryFiles; // Image files referenced by the elements
     canvasId?: string; // Optional canvas context for validation
+    // Stored copy the scene was loaded from or last saved as; anything newer was saved elsewhere
+    base?: { updatedAt: number; elements: readonly ExcalidrawElement[] };
   };
 
   [InternalEventTypes.PANEL_VISIBILITY_CHANGED]: { isVisible: boolean };
@@ -127,8 +152,11 @@ export interface EventPayloads {
   [InternalEventTypes.ESCAPE_PRESSED]: null;
   [InternalEventTypes.SELECT_ALL_REQUEST]: null;
   [InternalEventTypes.SHOW_HELP_OVERLAY]: null;
+  [InternalEventTypes.SHORTCUTS_CHANGED]: ShortcutBindings; // Saved from the help overlay
   [InternalEventTypes.REFRESH_DATA]: null;
 
+  [InternalEventTypes.CANVASES_OPEN_ELSEWHERE_CHANGED]: string[];
+
   [InternalEventTypes.ERROR_OCCURRED]: { error: string; details?: unknown };
   [InternalEventTypes.LOADING_STATE_CHANGED]: { isLoading: boolean };
   [InternalEventTypes.THEME_CHANGED]: "light" | "dark";
@@ -0,0 +1,176 @@
+/**
+ * BackupService - Full-workspace backup archives and restore in replace or merge mode
+ */
+
+import JSZip from "jszip";
+import {
+  backupOperations,
+  settingsOperations,
+  WorkspaceData,
+  MergeSummary,
+} from "../../shared/storage-client";
+
+// Bump the major version when the archive layout changes incompatibly
+export const BACKUP_FORMAT_VERSION = "1.0.0";
+
+export type RestoreMode = "replace" | "merge";
+
+const DATE_FIELDS = new Set(["createdAt", "updatedAt", "lastEditedAt", "deletedAt"]);
+
+// Settings describing the live Excalidraw session must not be restored onto another session
+const SESSION_SETTING_KEYS = new Set(["currentWorkingCanvasId"]);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * JSON reviver turning serialized timestamps back into Date objects
+ */
+const reviveDates = (key: string, value: unknown) => {
+  if (DATE_FIELDS.has(key) && typeof value === "string") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date;
+  }
+  return value;
+};
+
+/**
+ * Build a versioned ZIP archive of the whole workspace
+ */
+export async function createBackupArchive(): Promise<{ blob: Blob; fileName: string }> {
+  const data = await backupOperations.exportAllData();
+  const exportedAt = new Date();
+
+  const zip = new JSZip();
+  zip.file(
+    "manifest.json",
+    JSON.stringify(
+      {
+        backupVersion: BACKUP_FORMAT_VERSION,
+        exportedAt,
+        exportedBy: "Excali Organizer Extension",
+        format: "backup",
+        counts: {
+          canvases: data.canvases.length,
+          projects: data.projects.length,
+          settings: data.settings.length,
+          files: data.files.length,
+          trash: data.trash.length,
+          templates: data.templates.length,
+        },
+      },
+      null,
+      2,
+    ),
+  );
+  zip.file("canvases.json", JSON.stringify(data.canvases));
+  zip.file("projects.json", JSON.stringify(data.projects, null, 2));
+  zip.file("settings.json", JSON.stringify(data.settings, null, 2));
+  zip.file("files.json", JSON.stringify(data.files));
+  zip.file("trash.json", JSON.stringify(data.trash));
+  zip.file("templates.json", JSON.stringify(data.templates));
+
+  const blob = await zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+
+  const stamp = exportedAt.toISOString().slice(0, 10);
+  return { blob, fileName: `excali-organizer-backup-${stamp}.zip` };
+}
+
+/**
+ * Read and validate a backup archive
+ */
+export async function readBackupArchive(file: File): Promise<WorkspaceData> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error("File is not a valid backup archive");
+  }
+
+  const manifestEntry = zip.file("manifest.json");
+  if (!manifestEntry) {
+    throw new Error("Missing manifest.json; not an Excali Organizer backup");
+  }
+  const manifest: unknown = JSON.parse(await manifestEntry.async("string"));
+  if (!isRecord(manifest)) {
+    throw new Error("Malformed manifest.json");
+  }
+  if (manifest.backupVersion === undefined && manifest.exportVersion !== undefined) {
+    throw new Error("This is a project export; use Import instead of Restore");
+  }
+
+  const version = typeof manifest.backupVersion === "string" ? manifest.backupVersion : "";
+  const major = version.split(".")[0];
+  if (major !== BACKUP_FORMAT_VERSION.split(".")[0]) {
+    throw new Error(`Unsupported backup version ${version || "(missing)"}`);
+  }
+
+  const readArray = async (name: string, required: boolean): Promise<unknown[]> => {
+    const entry = zip.file(name);
+    if (!entry) {
+      if (required) throw new Error(`Backup is missing ${name}`);
+      return [];
+    }
+    const parsed: unknown = JSON.parse(await entry.async("string"), reviveDates);
+    if (!Array.isArray(parsed)) {
+      throw new Error(`Malformed ${name}`);
+    }
+    return parsed;
+  };
+
+  const [canvases, projects, settings, files, trash, templates] = await Promise.all([
+    readArray("canvases.json", true),
+    readArray("projects.json", true),
+    readArray("settings.json", false),
+    readArray("files.json", false),
+    readArray("trash.json", false),
+    readArray("templates.json", false),
+  ]);
+
+  return {
+    canvases: canvases as WorkspaceData["canvases"],
+    projects: projects as WorkspaceData["projects"],
+    settings: settings as NonNullable<WorkspaceData["settings"]>,
+    files: files as NonNullable<WorkspaceData["files"]>,
+    trash: trash as NonNullable<WorkspaceData["trash"]>,
+    templates: templates as NonNullable<WorkspaceData["templates"]>,
+  };
+}
+
+/**
+ * Restore backup data. Replace wipes the workspace first; merge keeps local data.
+ */
+export async function restoreBackup(
+  data: WorkspaceData,
+  mode: RestoreMode,
+): Promise<MergeSummary> {
+  if (mode === "merge") {
+    return backupOperations.mergeAllData(data);
+  }
+
+  const settings = (data.settings || []).filter(
+    (setting) => !SESSION_SETTING_KEYS.has(setting.key),
+  );
+  await backupOperations.importAllData({ ...data, settings });
+  // The open Excalidraw scene belongs to the old workspace; detach it
+  await settingsOperations.deleteSetting("currentWorkingCanvasId");
+
+  return {
+    added: {
+      canvases: data.canvases.length,
+      projects: data.projects.length,
+      files: data.files?.length ?? 0,
+      templates: data.templates?.length ?? 0,
+    },
+    skipped: {
+      canvases: 0,
+      projects: 0,
+      settings: (data.settings?.length ?? 0) - settings.length,
+    },
+    renamed: [],
+  };
+}
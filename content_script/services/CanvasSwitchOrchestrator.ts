@@ -1,14 +1,35 @@
 import { UnifiedCanvas } from "../../shared/types";
+import { AppState, BinaryFiles } from "../../shared/excalidraw-types";
 import { globalEventBus, InternalEventTypes } from "../messaging/InternalEventBus";
-import { ExcalidrawDataBridge } from "../bridges/ExcalidrawDataBridge";
-import { settingsOperations } from "../../shared/unified-db";
+import { ExcalidrawDataBridge, CanvasLoadMode } from "../bridges/ExcalidrawDataBridge";
+import {
+  canvasOperations,
+  recentCanvasOperations,
+  settingsOperations,
+} from "../../shared/storage-client";
+
+export type CanvasSwitchMode = Extract<CanvasLoadMode, "live" | "reload">;
+
+export interface CanvasSwitchMeasurement {
+  canvasId: string;
+  mode: CanvasSwitchMode; // The mode that actually completed, after any fallback
+  durationMs: number; // From selection until the scene is shown
+}
+
+// Survives the reload so the next page can finish timing a reload switch
+const RELOAD_SWITCH_MARKER_KEY = "excali-org-pending-switch";
+// Excalidraw persists the injected scene on a ~300ms debounce; autosync waits it out
+const LIVE_SWITCH_SETTLE_MS = 600;
+const MAX_MEASUREMENTS = 20;
 
 /**
  * CanvasSwitchOrchestrator
  * - Debounces rapid selections
  * - Performs save-before-switch with timeout
  * - Suspends autosync to avoid cross-canvas races
- * - Loads target canvas atomically via ExcalidrawDataBridge
+ * - Loads target canvas atomically via ExcalidrawDataBridge, live when possible
+ * - Measures switch latency
+ * - Records opened canvases in the recent list (a reload switch is recorded by the next page)
  */
 export class CanvasSwitchOrchestrator {
   private bridge: ExcalidrawDataBridge;
@@ -18,6 +39,9 @@ export class CanvasSwitchOrchestrator {
   private isSwitching = false;
   private pendingTarget: UnifiedCanvas | null = null;
   private debounceTimer: number | null = null;
+  private resumeTimer: number | null = null;
+  private requestedAt = 0; // Date.now() of the selection being served
+  private measurements: CanvasSwitchMeasurement[] = [];
 
   constructor(bridge: ExcalidrawDataBridge) {
     this.bridge = bridge;
@@ -33,10 +57,117 @@ export class CanvasSwitchOrchestrator {
     globalEventBus.on(InternalEventTypes.LOAD_CANVAS_TO_EXCALIDRAW, (canvas) => {
       this.queueSwitch(canvas);
     });
+
+    // Open a canvas scrolled to one of its elements (e.g. a full-text search hit)
+    globalEventBus.on(InternalEventTypes.FOCUS_CANVAS_ELEMENT, async ({ canvas, elementId }) => {
+      await this.focusElement(canvas, elementId);
+    });
+
+    // Stored content was replaced (e.g. version restore); reload without saving the stale scene
+    globalEventBus.on(InternalEventTypes.RELOAD_CANVAS_REQUEST, async (canvas) => {
+      await this.reloadCanvas(canvas);
+    });
+  }
+
+  private async focusElement(canvas: UnifiedCanvas, elementId: string): Promise<void> {
+    if (this.bridge.getCanvasContext() !== canvas.id) {
+      // Regular switch; the target's stored view is replaced with one centered on the element
+      this.queueSwitch(this.withViewCenteredOn(await this.latestStoredCopy(canvas), elementId));
+      return;
+    }
+
+    // Already open: save the live scene, then reload it centered on the element
+    try {
+      const snapshot = this.bridge.hasForeignScene() ? null : this.bridge.getExcalidrawData();
+      let liveCanvas = await this.latestStoredCopy(canvas);
+      if (snapshot) {
+        const files = await this.bridge.getExcalidrawFiles(snapshot.elements);
+        await this.saveExplicit(
+          canvas.id,
+          snapshot.elements,
+          snapshot.appState as AppState,
+          files,
+        );
+        liveCanvas = {
+          ...(await this.latestStoredCopy(canvas)),
+          elements: snapshot.elements,
+          appState: snapshot.appState as AppState,
+        };
+      }
+
+      this.bridge.suspendAutoSync("focus");
+      const mode = await this.bridge.loadCanvasToExcalidraw(
+        this.withViewCenteredOn(liveCanvas, elementId),
+        await this.getSwitchMode(),
+      );
+      this.resumeAfterLiveLoad(mode, "focus");
+    } catch (error) {
+      await globalEventBus.emit(InternalEventTypes.ERROR_OCCURRED, {
+        error: "Failed to focus canvas element",
+        details: error,
+      });
+      this.bridge.resumeAutoSync("focus");
+    }
+  }
+
+  /**
+   * Copy of the canvas whose view scrolls the element to the middle of the window and selects it
+   */
+  private withViewCenteredOn(canvas: UnifiedCanvas, elementId: string): UnifiedCanvas {
+    const element = canvas.elements.find((el) => el.id === elementId && !el.isDeleted);
+    if (!element) {
+      return canvas;
+    }
+
+    const appState = canvas.appState;
+    const zoom = appState?.zoom?.value || 1;
+    const centerX = element.x + (element.width || 0) / 2;
+    const centerY = element.y + (element.height || 0) / 2;
+
+    return {
+      ...canvas,
+      appState: {
+        ...(appState || {
+          viewBackgroundColor: "#ffffff",
+          theme: "light",
+          editingGroupId: null,
+          viewModeEnabled: false,
+        }),
+        zoom: { value: zoom },
+        width: window.innerWidth,
+        height: window.innerHeight,
+        // Excalidraw draws scene point p at (p + scroll) * zoom on screen
+        scrollX: window.innerWidth / (2 * zoom) - centerX,
+        scrollY: window.innerHeight / (2 * zoom) - centerY,
+        selectedElementIds: { [elementId]: true },
+      } as AppState,
+    };
+  }
+
+  private async reloadCanvas(canvas: UnifiedCanvas): Promise<void> {
+    if (this.bridge.getCanvasContext() !== canvas.id) {
+      return; // Not open in the editor; the next switch picks up the stored content
+    }
+    if (this.isSwitching && this.pendingTarget?.id !== canvas.id) {
+      return; // Being switched away from, e.g. a merge made by the save before the switch
+    }
+
+    this.bridge.suspendAutoSync("reload");
+    try {
+      const mode = await this.bridge.loadCanvasToExcalidraw(canvas, await this.getSwitchMode());
+      this.resumeAfterLiveLoad(mode, "reload");
+    } catch (error) {
+      await globalEventBus.emit(InternalEventTypes.ERROR_OCCURRED, {
+        error: "Canvas reload failed",
+        details: error,
+      });
+      this.bridge.resumeAutoSync("reload");
+    }
   }
 
   private queueSwitch(target: UnifiedCanvas): void {
     this.pendingTarget = target;
+    this.requestedAt = Date.now();
 
     // Debounce to coalesce rapid selections
     if (this.debounceTimer) {
@@ -52,19 +183,26 @@ export class CanvasSwitchOrchestrator {
 
   private async performSwitch(target: UnifiedCanvas): Promise<void> {
     this.isSwitching = true;
+    this.cancelPendingResume();
+    let loadMode: CanvasLoadMode = "none";
+    // The selection this switch serves; one made after it is switched to next
+    let served = this.pendingTarget || target;
 
     try {
-      // Determine the current working canvas id from settings
-      const currentId = await settingsOperations.getSetting<string>("currentWorkingCanvasId");
+      // The canvas this tab shows; the persisted setting may belong to another tab
+      const currentId = this.bridge.getCanvasContext();
 
-      // Attempt explicit save of current canvas BEFORE suspending autosync to ensure listener is active
-      if (currentId) {
+      // Attempt explicit save of current canvas BEFORE suspending autosync to ensure listener is active.
+      // When another tab overwrote the shared storage, this tab's edits were already saved.
+      if (currentId && !this.bridge.hasForeignScene()) {
         const snapshot = this.bridge.getExcalidrawData();
         if (snapshot) {
+          const files = await this.bridge.getExcalidrawFiles(snapshot.elements);
           await this.saveExplicit(
             currentId,
             snapshot.elements,
-            snapshot.appState as import("../../shared/excalidraw-types").AppState,
+            snapshot.appState as AppState,
+            files,
           );
         }
       }
@@ -74,18 +212,27 @@ export class CanvasSwitchOrchestrator {
 
       // No-op if selecting the already-active canvas
       if (currentId && currentId === target.id) {
-        this.isSwitching = false;
-        this.pendingTarget = null;
-        this.bridge.resumeAutoSync("switch");
         return;
       }
 
       // If a newer target arrived while we were saving, prefer the latest
-      const latest = this.pendingTarget || target;
+      served = this.pendingTarget || target;
+      const latest = await this.latestStoredCopy(served);
 
-      // Load the target canvas and force reload for a clean pickup
-      await this.bridge.loadCanvasToExcalidraw(latest, true);
-      // After this call, the page will reload shortly; orchestrator instance will be re-created
+      const requestedAt = this.requestedAt;
+      const switchMode = await this.getSwitchMode();
+      if (switchMode === "reload") {
+        this.markReloadSwitch(latest.id, requestedAt);
+      }
+
+      loadMode = await this.bridge.loadCanvasToExcalidraw(latest, switchMode);
+      if (loadMode === "live") {
+        this.recordMeasurement(latest.id, "live", Date.now() - requestedAt);
+        await this.recordVisit(latest.id);
+      } else if (switchMode === "live") {
+        // Live load fell back; the page reloads shortly and the next instance finishes timing
+        this.markReloadSwitch(latest.id, requestedAt);
+      }
     } catch (error) {
       // Report but do not throw to keep UI responsive
       await globalEventBus.emit(InternalEventTypes.ERROR_OCCURRED, {
@@ -94,17 +241,152 @@ export class CanvasSwitchOrchestrator {
       });
     } finally {
       this.isSwitching = false;
+      const next = this.pendingTarget;
       this.pendingTarget = null;
 
-      // In case reload didn’t happen (forceReload disabled), resume autosync
-      this.bridge.resumeAutoSync("switch");
+      // In case reload didn’t happen, resume autosync
+      this.resumeAfterLiveLoad(loadMode, "switch");
+
+      // A canvas selected during the switch is switched to next (by the debounce timer if one is
+      // still running); a reload switch leaves the page anyway
+      if (next && next.id !== served.id && loadMode !== "reload") {
+        this.pendingTarget = next;
+        if (!this.debounceTimer) {
+          void this.performSwitch(next);
+        }
+      }
+    }
+  }
+
+  /**
+   * Finish timing a reload switch started before this page load, if any
+   */
+  completeReloadSwitch(canvasId: string): void {
+    try {
+      const raw = sessionStorage.getItem(RELOAD_SWITCH_MARKER_KEY);
+      if (!raw) return;
+      sessionStorage.removeItem(RELOAD_SWITCH_MARKER_KEY);
+
+      const marker = JSON.parse(raw) as { canvasId?: string; requestedAt?: number };
+      if (marker.canvasId === canvasId && typeof marker.requestedAt === "number") {
+        this.recordMeasurement(canvasId, "reload", Date.now() - marker.requestedAt);
+      }
+    } catch (error) {
+      console.warn("[CanvasSwitchOrchestrator] Failed to read switch timing marker:", error);
+    }
+  }
+
+  /**
+   * Put a canvas shown in this tab at the front of the recent list
+   */
+  async recordVisit(canvasId: string): Promise<void> {
+    try {
+      const recentIds = await recentCanvasOperations.recordCanvasVisit(canvasId);
+      void globalEventBus.emit(InternalEventTypes.RECENT_CANVASES_CHANGED, recentIds);
+    } catch (error) {
+      console.warn("[CanvasSwitchOrchestrator] Failed to record canvas visit:", error);
+    }
+  }
+
+  /**
+   * Recent switch timings, newest last
+   */
+  getSwitchStats(): {
+    measurements: CanvasSwitchMeasurement[];
+    averageMs: Record<CanvasSwitchMode, number | null>;
+  } {
+    const average = (mode: CanvasSwitchMode): number | null => {
+      const durations = this.measurements
+        .filter((measurement) => measurement.mode === mode)
+        .map((measurement) => measurement.durationMs);
+      return durations.length > 0
+        ? Math.round(durations.reduce((sum, duration) => sum + duration, 0) / durations.length)
+        : null;
+    };
+
+    return {
+      measurements: [...this.measurements],
+      averageMs: { live: average("live"), reload: average("reload") },
+    };
+  }
+
+  /**
+   * The stored canvas when it is newer than the given copy, e.g. saved since by another tab
+   */
+  private async latestStoredCopy(canvas: UnifiedCanvas): Promise<UnifiedCanvas> {
+    try {
+      const stored = await canvasOperations.getCanvas(canvas.id);
+      return stored && new Date(stored.updatedAt).getTime() > new Date(canvas.updatedAt).getTime()
+        ? stored
+        : canvas;
+    } catch {
+      return canvas;
+    }
+  }
+
+  private async getSwitchMode(): Promise<CanvasSwitchMode> {
+    try {
+      const mode = await settingsOperations.getSetting<CanvasSwitchMode>("canvasSwitchMode");
+      return mode === "reload" ? "reload" : "live";
+    } catch {
+      return "live";
+    }
+  }
+
+  private markReloadSwitch(canvasId: string, requestedAt: number): void {
+    try {
+      sessionStorage.setItem(
+        RELOAD_SWITCH_MARKER_KEY,
+        JSON.stringify({ canvasId, requestedAt }),
+      );
+    } catch (error) {
+      console.warn("[CanvasSwitchOrchestrator] Failed to store switch timing marker:", error);
+    }
+  }
+
+  private recordMeasurement(
+    canvasId: string,
+    mode: CanvasSwitchMode,
+    durationMs: number,
+  ): void {
+    const measurement: CanvasSwitchMeasurement = { canvasId, mode, durationMs };
+    this.measurements = [...this.measurements, measurement].slice(-MAX_MEASUREMENTS);
+    console.info(`[CanvasSwitchOrchestrator] Canvas switch (${mode}) took ${durationMs}ms`);
+    void globalEventBus.emit(InternalEventTypes.CANVAS_SWITCH_COMPLETED, measurement);
+  }
+
+  /**
+   * Resume autosync after a load; a live load waits for Excalidraw to persist the new scene first.
+   * A reload is left suspended since the page is about to go away.
+   */
+  private resumeAfterLiveLoad(mode: CanvasLoadMode, reason: string): void {
+    if (mode === "reload") {
+      return;
+    }
+    if (mode !== "live") {
+      this.bridge.resumeAutoSync(reason);
+      return;
+    }
+
+    this.cancelPendingResume();
+    this.resumeTimer = window.setTimeout(() => {
+      this.resumeTimer = null;
+      this.bridge.resumeAutoSync(reason);
+    }, LIVE_SWITCH_SETTLE_MS);
+  }
+
+  private cancelPendingResume(): void {
+    if (this.resumeTimer) {
+      clearTimeout(this.resumeTimer);
+      this.resumeTimer = null;
     }
   }
 
   private async saveExplicit(
     canvasId: string,
     elements: UnifiedCanvas["elements"],
-    appState: import("../../shared/excalidraw-types").AppState,
+    appState: AppState,
+    files: BinaryFiles,
   ): Promise<void> {
     // Await the full persistence path with acknowledgment to guarantee save-before-switch
     const result = await globalEventBus.emitWithAck(
@@ -112,7 +394,10 @@ export class CanvasSwitchOrchestrator {
       {
         elements,
         appState,
+        files,
         canvasId,
+        // Checked like an auto-save, so a newer save from another tab is not overwritten
+        base: this.bridge.getCanvasBase() ?? undefined,
       },
       { requireListener: true, timeoutMs: 1500 },
     );
@@ -0,0 +1,259 @@
+/**
+ * ExportService - Writes canvases out as project ZIPs or SVG/PNG images and triggers downloads
+ * The ZIP layout is read back by ImportService.importProjectZip
+ */
+
+import JSZip from "jszip";
+import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
+import { fileOperations } from "../../shared/storage-client";
+import { renderSceneToSvg } from "./SceneRenderer";
+
+export type ImageExportFormat = "svg" | "png";
+
+export interface ImageExportOptions {
+  format: ImageExportFormat;
+  scale: number; // PNG pixel ratio; SVG output is always at scene size
+  withBackground: boolean; // Otherwise the background is transparent
+  theme: "light" | "dark";
+  padding: number;
+}
+
+export const DEFAULT_IMAGE_EXPORT_OPTIONS: ImageExportOptions = {
+  format: "png",
+  scale: 2,
+  withBackground: true,
+  theme: "light",
+  padding: 20,
+};
+
+// Browsers refuse to allocate canvases much larger than this per side
+const MAX_PNG_DIMENSION = 16384;
+
+// Fallback appState for canvases saved before appState was stored
+const DEFAULT_EXPORT_APP_STATE = {
+  theme: "light",
+  viewBackgroundColor: "#ffffff",
+  currentItemStrokeColor: "#000000",
+  currentItemBackgroundColor: "transparent",
+  currentItemFillStyle: "hachure",
+  currentItemStrokeWidth: 1,
+  currentItemStrokeStyle: "solid",
+  currentItemRoughness: 1,
+  currentItemOpacity: 100,
+  currentItemFontSize: 20,
+  currentItemFontFamily: 1,
+  currentItemTextAlign: "left",
+  currentItemStartArrowhead: null,
+  currentItemEndArrowhead: "arrow",
+  scrollX: 0,
+  scrollY: 0,
+  zoom: { value: 1 },
+  currentItemLinearStrokeSharpness: "round",
+  gridSize: null,
+  colorPalette: {},
+};
+
+/**
+ * Turn a display name into a safe, lowercase file name stem
+ */
+export const toSafeFileName = (name: string): string =>
+  name.replace(/[^a-z0-9]/gi, "_").toLowerCase();
+
+/**
+ * Build a project ZIP: project.json, one .excalidraw file per canvas and a manifest.
+ * Canvases exported without a real project get a name-only project entry.
+ */
+export async function createProjectArchive(
+  project: Pick<UnifiedProject, "name"> & Partial<UnifiedProject>,
+  canvases: UnifiedCanvas[],
+  exportedAt: Date = new Date(),
+): Promise<Blob> {
+  const zip = new JSZip();
+
+  // Add project metadata
+  const projectMetadata = {
+    id: project.id,
+    name: project.name,
+    description: project.description || "",
+    color: project.color,
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+    canvasCount: canvases.length,
+    // Canvas names and dates, keyed by file, so imports can restore them
+    canvases: canvases.map((canvas) => ({
+      id: canvas.id,
+      name: canvas.name,
+      file: `canvas-${canvas.id}.excalidraw`,
+      createdAt: canvas.createdAt,
+      updatedAt: canvas.updatedAt,
+    })),
+  };
+
+  zip.file("project.json", JSON.stringify(projectMetadata, null, 2));
+
+  // Create canvases directory
+  const canvasesFolder = zip.folder("canvases");
+  if (!canvasesFolder) {
+    throw new Error("Failed to create canvases folder");
+  }
+
+  // Add each canvas as an individual .excalidraw file
+  for (const canvas of canvases) {
+    const files = await fileOperations.getFilesForCanvas(canvas.id);
+    const canvasData = {
+      type: "excalidraw",
+      version: 2,
+      source: "https://excalidraw.com",
+      elements: canvas.elements || [],
+      appState: canvas.appState || DEFAULT_EXPORT_APP_STATE,
+      files,
+    };
+
+    const filename = `canvas-${canvas.id}.excalidraw`;
+    canvasesFolder.file(filename, JSON.stringify(canvasData, null, 2));
+  }
+
+  // Add export manifest
+  const manifest = {
+    exportVersion: "1.0.0",
+    exportedAt,
+    exportedBy: "Excali Organizer Extension",
+    projectName: project.name,
+    canvasCount: canvases.length,
+    format: "zip",
+    compatibility: {
+      excalidraw: "^0.18.0",
+      excaliOrganizer: "^1.0.0",
+    },
+  };
+
+  zip.file("manifest.json", JSON.stringify(manifest, null, 2));
+
+  return zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+}
+
+/**
+ * Save a blob through a temporary download link
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Render a stored canvas to an SVG document, embedding its images.
+ * Returns null when the canvas has nothing to draw.
+ */
+export async function renderCanvasToSvg(
+  canvas: UnifiedCanvas,
+  options: ImageExportOptions,
+): Promise<string | null> {
+  const files = await fileOperations.getFilesForCanvas(canvas.id);
+  return renderSceneToSvg(canvas.elements || [], {
+    padding: options.padding,
+    backgroundColor: options.withBackground
+      ? canvas.appState?.viewBackgroundColor || "#ffffff"
+      : null,
+    files,
+    theme: options.theme,
+  });
+}
+
+/**
+ * Rasterise an SVG document to a PNG at the given scale
+ */
+export async function svgToPngBlob(svg: string, scale: number): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svg], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error("Failed to load rendered SVG"));
+      img.src = url;
+    });
+
+    const effectiveScale = Math.min(
+      scale,
+      MAX_PNG_DIMENSION / image.width,
+      MAX_PNG_DIMENSION / image.height,
+    );
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.max(1, Math.round(image.width * effectiveScale));
+    canvas.height = Math.max(1, Math.round(image.height * effectiveScale));
+
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Canvas 2D context is not available");
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode PNG"))),
+        "image/png",
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Render a stored canvas to an SVG or PNG blob, or null when it is empty
+ */
+export async function exportCanvasImage(
+  canvas: UnifiedCanvas,
+  options: ImageExportOptions,
+): Promise<Blob | null> {
+  const svg = await renderCanvasToSvg(canvas, options);
+  if (!svg) {
+    return null;
+  }
+  return options.format === "svg"
+    ? new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+    : svgToPngBlob(svg, options.scale);
+}
+
+/**
+ * Build a ZIP with one image per canvas. Empty canvases are skipped and reported.
+ */
+export async function createImageArchive(
+  canvases: UnifiedCanvas[],
+  options: ImageExportOptions,
+): Promise<{ blob: Blob; skipped: string[] }> {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const skipped: string[] = [];
+
+  for (const canvas of canvases) {
+    const image = await exportCanvasImage(canvas, options);
+    if (!image) {
+      skipped.push(canvas.name);
+      continue;
+    }
+
+    // Canvas names are not unique, so repeated names get a numeric suffix
+    const stem = toSafeFileName(canvas.name) || "canvas";
+    let fileName = `${stem}.${options.format}`;
+    for (let counter = 2; usedNames.has(fileName); counter++) {
+      fileName = `${stem}_${counter}.${options.format}`;
+    }
+    usedNames.add(fileName);
+    zip.file(fileName, image);
+  }
+
+  const blob = await zip.generateAsync({
+    type: "blob",
+    compression: "DEFLATE",
+    compressionOptions: { level: 6 },
+  });
+  return { blob, skipped };
+}
@@ -0,0 +1,287 @@
+/**
+ * ImportService - Reads .excalidraw files and project ZIPs back into the organizer
+ * Mirrors the formats written by ContextMenu.handleDownload and ProjectContextMenu.handleExport
+ */
+
+import JSZip from "jszip";
+import { UnifiedCanvas, UnifiedProject } from "../../shared/types";
+import {
+  ExcalidrawElement,
+  AppState,
+  BinaryFiles,
+} from "../../shared/excalidraw-types";
+import {
+  bulkOperations,
+  fileOperations,
+  projectOperations,
+} from "../../shared/storage-client";
+import { generateCanvasId, generateProjectId } from "../../shared/utils";
+
+// Only project ZIPs with this manifest major version can be read
+export const SUPPORTED_EXPORT_MAJOR_VERSION = 1;
+
+const DEFAULT_PROJECT_COLOR = "#6366f1";
+
+export interface ImportResult {
+  projects: UnifiedProject[];
+  canvases: UnifiedCanvas[];
+  renamedProjects: { from: string; to: string }[];
+  errors: string[];
+}
+
+interface ParsedCanvas {
+  name: string;
+  elements: ExcalidrawElement[];
+  appState?: AppState;
+  files: BinaryFiles;
+  createdAt?: Date;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stripExtension = (fileName: string) => fileName.replace(/\.[^.]+$/, "");
+
+const parseDate = (value: unknown): Date | undefined => {
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Validate raw JSON as Excalidraw scene data (standard or organizer download format)
+ */
+function parseCanvasData(raw: unknown, fallbackName: string): ParsedCanvas {
+  if (!isRecord(raw) || !Array.isArray(raw.elements)) {
+    throw new Error("Not a valid Excalidraw file");
+  }
+
+  if (raw.type !== undefined && raw.type !== "excalidraw") {
+    throw new Error(`Unsupported file type "${String(raw.type)}"`);
+  }
+
+  const elements = raw.elements.filter(
+    (element): element is ExcalidrawElement =>
+      isRecord(element) &&
+      typeof element.id === "string" &&
+      typeof element.type === "string",
+  );
+  if (elements.length !== raw.elements.length) {
+    throw new Error("File contains malformed elements");
+  }
+
+  const metadata = isRecord(raw.metadata) ? raw.metadata : {};
+
+  return {
+    name:
+      typeof raw.name === "string" && raw.name.trim()
+        ? raw.name.trim()
+        : fallbackName,
+    elements,
+    appState: isRecord(raw.appState) ? (raw.appState as AppState) : undefined,
+    files: isRecord(raw.files) ? (raw.files as BinaryFiles) : {},
+    createdAt: parseDate(metadata.createdAt),
+  };
+}
+
+/**
+ * Check a manifest exportVersion like "1.0.0" against the supported major version
+ */
+function validateExportVersion(exportVersion: unknown): void {
+  if (typeof exportVersion !== "string") {
+    throw new Error("Manifest is missing exportVersion");
+  }
+
+  const major = Number.parseInt(exportVersion.split(".")[0] ?? "", 10);
+  if (major !== SUPPORTED_EXPORT_MAJOR_VERSION) {
+    throw new Error(
+      `Unsupported export version ${exportVersion} (expected ${SUPPORTED_EXPORT_MAJOR_VERSION}.x)`,
+    );
+  }
+}
+
+/**
+ * Find a project name that doesn't collide with the unique name index
+ */
+async function resolveProjectName(name: string): Promise<string> {
+  const baseName = name.trim() || "Imported Project";
+  let candidate = baseName;
+  let suffix = 2;
+
+  while (!(await projectOperations.validateProjectName(candidate))) {
+    if (suffix > 100) {
+      return `${baseName} (${Date.now()})`;
+    }
+    candidate = `${baseName} (${suffix})`;
+    suffix++;
+  }
+
+  return candidate;
+}
+
+const toCanvas = (parsed: ParsedCanvas, projectId?: string): UnifiedCanvas => {
+  const now = new Date();
+  return {
+    id: generateCanvasId(),
+    name: parsed.name,
+    elements: parsed.elements,
+    appState: parsed.appState,
+    projectId,
+    createdAt: parsed.createdAt ?? now,
+    updatedAt: now,
+    lastEditedAt: now,
+  };
+};
+
+/**
+ * Store embedded images for freshly imported canvases
+ */
+async function importCanvasFiles(
+  canvases: UnifiedCanvas[],
+  parsedCanvases: ParsedCanvas[],
+): Promise<void> {
+  for (let i = 0; i < canvases.length; i++) {
+    const canvas = canvases[i]!;
+    const parsed = parsedCanvases[i]!;
+    if (Object.keys(parsed.files).length > 0) {
+      await fileOperations.syncCanvasFiles(canvas.id, canvas.elements, parsed.files);
+    }
+  }
+}
+
+async function importExcalidrawFile(file: File): Promise<UnifiedCanvas> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  const parsed = parseCanvasData(raw, stripExtension(file.name));
+  const canvas = toCanvas(parsed);
+
+  await bulkOperations.bulkAddCanvases([canvas]);
+  await importCanvasFiles([canvas], [parsed]);
+
+  return canvas;
+}
+
+async function importProjectZip(file: File): Promise<{
+  project: UnifiedProject;
+  canvases: UnifiedCanvas[];
+  originalName: string;
+}> {
+  const zip = await JSZip.loadAsync(file);
+
+  const manifestEntry = zip.file("manifest.json");
+  if (!manifestEntry) {
+    throw new Error("Missing manifest.json; not an Excali Organizer export");
+  }
+  const manifest: unknown = JSON.parse(await manifestEntry.async("string"));
+  if (!isRecord(manifest)) {
+    throw new Error("Malformed manifest.json");
+  }
+  validateExportVersion(manifest.exportVersion);
+
+  const projectEntry = zip.file("project.json");
+  const projectData: unknown = projectEntry
+    ? JSON.parse(await projectEntry.async("string"))
+    : {};
+  if (!isRecord(projectData)) {
+    throw new Error("Malformed project.json");
+  }
+
+  // Canvas names live in project.json; older exports only have the files
+  const canvasMetadata = new Map<string, Record<string, unknown>>();
+  if (Array.isArray(projectData.canvases)) {
+    for (const entry of projectData.canvases) {
+      if (isRecord(entry) && typeof entry.file === "string") {
+        canvasMetadata.set(entry.file, entry);
+      }
+    }
+  }
+
+  const canvasEntries = zip.file(/^canvases\/[^/]+\.excalidraw$/);
+  const parsedCanvases: ParsedCanvas[] = [];
+  for (const [index, entry] of canvasEntries.entries()) {
+    const fileName = entry.name.replace(/^canvases\//, "");
+    const metadata = canvasMetadata.get(fileName);
+    const parsed = parseCanvasData(
+      JSON.parse(await entry.async("string")),
+      typeof metadata?.name === "string"
+        ? metadata.name
+        : `Imported Canvas ${index + 1}`,
+    );
+    parsedCanvases.push({
+      ...parsed,
+      createdAt: parseDate(metadata?.createdAt) ?? parsed.createdAt,
+    });
+  }
+
+  const originalName =
+    typeof projectData.name === "string"
+      ? projectData.name
+      : typeof manifest.projectName === "string"
+        ? manifest.projectName
+        : stripExtension(file.name);
+
+  const projectId = generateProjectId();
+  const canvases = parsedCanvases.map((parsed) => toCanvas(parsed, projectId));
+  const project: UnifiedProject = {
+    id: projectId,
+    name: await resolveProjectName(originalName),
+    description:
+      typeof projectData.description === "string" && projectData.description
+        ? projectData.description
+        : undefined,
+    color:
+      typeof projectData.color === "string"
+        ? projectData.color
+        : DEFAULT_PROJECT_COLOR,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    canvasIds: canvases.map((canvas) => canvas.id),
+  };
+
+  await bulkOperations.importProjectWithCanvases(project, canvases);
+  await importCanvasFiles(canvases, parsedCanvases);
+
+  return { project, canvases, originalName };
+}
+
+/**
+ * Import a batch of user-selected files; each file succeeds or fails independently
+ */
+export async function importFiles(files: File[]): Promise<ImportResult> {
+  const result: ImportResult = {
+    projects: [],
+    canvases: [],
+    renamedProjects: [],
+    errors: [],
+  };
+
+  for (const file of files) {
+    const lowerName = file.name.toLowerCase();
+    try {
+      if (lowerName.endsWith(".zip")) {
+        const { project, canvases, originalName } = await importProjectZip(file);
+        result.projects.push(project);
+        result.canvases.push(...canvases);
+        if (project.name !== originalName) {
+          result.renamedProjects.push({ from: originalName, to: project.name });
+        }
+      } else if (lowerName.endsWith(".excalidraw") || lowerName.endsWith(".json")) {
+        result.canvases.push(await importExcalidrawFile(file));
+      } else {
+        throw new Error("Unsupported file type");
+      }
+    } catch (error) {
+      console.error(`Failed to import ${file.name}:`, error);
+      result.errors.push(
+        `${file.name}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,107 @@
+/**
+ * PageOriginMigration - One-time move of the database earlier versions kept in
+ * excalidraw.com's own IndexedDB (lost whenever site data is cleared) into the
+ * extension's database. Only the content script can read the site's IndexedDB.
+ */
+
+import { pageOriginMigrationOperations } from "../../shared/storage-client";
+import {
+  PAGE_ORIGIN_DB_NAME,
+  PAGE_ORIGIN_TABLES,
+} from "../../shared/storage-protocol";
+
+// Records are sent in batches well below Chrome's 64MB message limit
+const MAX_BATCH_CHARS = 8 * 1024 * 1024;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+async function pageOriginDatabaseExists(): Promise<boolean> {
+  // Opening a database that is not there would create it
+  const databases = await indexedDB.databases();
+  return databases.some((database) => database.name === PAGE_ORIGIN_DB_NAME);
+}
+
+function openPageOriginDatabase(): Promise<IDBDatabase> {
+  // No version: opens whatever schema the previous extension version left behind
+  return requestToPromise(indexedDB.open(PAGE_ORIGIN_DB_NAME));
+}
+
+function readAllRecords(db: IDBDatabase, storeName: string): Promise<unknown[]> {
+  const store = db.transaction(storeName, "readonly").objectStore(storeName);
+  return requestToPromise(store.getAll());
+}
+
+function toBatches(records: unknown[]): unknown[][] {
+  const batches: unknown[][] = [];
+  let batch: unknown[] = [];
+  let batchChars = 0;
+
+  for (const record of records) {
+    const recordChars = JSON.stringify(record).length;
+    if (batch.length > 0 && batchChars + recordChars > MAX_BATCH_CHARS) {
+      batches.push(batch);
+      batch = [];
+      batchChars = 0;
+    }
+    batch.push(record);
+    batchChars += recordChars;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+function deletePageOriginDatabase(): Promise<void> {
+  return new Promise((resolve) => {
+    const request = indexedDB.deleteDatabase(PAGE_ORIGIN_DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.warn("Failed to delete the page-origin database:", request.error);
+      resolve();
+    };
+    // Another excalidraw.com tab still has it open; deletion completes once it closes
+    request.onblocked = () => resolve();
+  });
+}
+
+/**
+ * Copy the page-origin database into the extension's database, then delete it.
+ * Safe to run again after a failure: records already copied are left untouched.
+ */
+export async function migratePageOriginDatabase(): Promise<void> {
+  if (!(await pageOriginDatabaseExists())) {
+    return;
+  }
+
+  if (!(await pageOriginMigrationOperations.isMigrated())) {
+    console.log("Migrating the database from excalidraw.com's storage into the extension...");
+    const db = await openPageOriginDatabase();
+    try {
+      for (const table of PAGE_ORIGIN_TABLES) {
+        if (!db.objectStoreNames.contains(table)) {
+          continue; // Added by a schema version the previous install never reached
+        }
+
+        const records = await readAllRecords(db, table);
+        let importedCount = 0;
+        for (const batch of toBatches(records)) {
+          importedCount += await pageOriginMigrationOperations.importRecords(table, batch);
+        }
+        console.log(`Migrated ${importedCount} of ${records.length} ${table} records`);
+      }
+    } finally {
+      db.close();
+    }
+
+    await pageOriginMigrationOperations.completeMigration();
+    console.log("Database migration complete");
+  }
+
+  await deletePageOriginDatabase();
+}
@@ -0,0 +1,345 @@
+/**
+ * SceneRenderer - Renders stored Excalidraw elements to SVG without the editor
+ * Used for panel thumbnails and image export; approximates Excalidraw's hand-drawn look with clean shapes
+ */
+
+import {
+  ExcalidrawElement,
+  AppState,
+  BinaryFiles,
+} from "../../shared/excalidraw-types";
+
+export interface SceneRenderOptions {
+  padding?: number;
+  backgroundColor?: string | null; // null renders a transparent background
+  files?: BinaryFiles; // Embed image data when provided, placeholders otherwise
+  width?: number; // Output size; defaults to the scene size
+  height?: number;
+  theme?: "light" | "dark"; // Dark inverts colours the way Excalidraw's dark mode does
+}
+
+interface SceneBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const THUMBNAIL_WIDTH = 240;
+const THUMBNAIL_HEIGHT = 160;
+const MAX_FREEDRAW_POINTS = 60;
+
+const DARK_FILTER_ID = "excali-org-dark-theme";
+
+// Excalidraw's dark mode is the CSS filter invert(93%) hue-rotate(180deg); this is its SVG equivalent
+const DARK_FILTER = `<defs><filter id="${DARK_FILTER_ID}" color-interpolation-filters="sRGB"><feComponentTransfer><feFuncR type="linear" slope="-0.86" intercept="0.93"/><feFuncG type="linear" slope="-0.86" intercept="0.93"/><feFuncB type="linear" slope="-0.86" intercept="0.93"/></feComponentTransfer><feColorMatrix type="hueRotate" values="180"/></filter></defs>`;
+
+const round = (value: number): number => Math.round(value * 10) / 10;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const getPoints = (element: ExcalidrawElement): [number, number][] => {
+  const points = element.points;
+  if (!Array.isArray(points)) {
+    return [];
+  }
+  return points.filter(
+    (point): point is [number, number] =>
+      Array.isArray(point) &&
+      typeof point[0] === "number" &&
+      typeof point[1] === "number",
+  );
+};
+
+/**
+ * Compute the bounding box of all visible elements
+ */
+export function getSceneBounds(
+  elements: readonly ExcalidrawElement[],
+): SceneBounds | null {
+  let bounds: SceneBounds | null = null;
+
+  for (const element of elements) {
+    if (element.isDeleted) continue;
+
+    let minX = element.x;
+    let minY = element.y;
+    let maxX = element.x + Math.max(0, element.width || 0);
+    let maxY = element.y + Math.max(0, element.height || 0);
+
+    const points = getPoints(element);
+    if (points.length > 0) {
+      const xs = points.map(([px]) => element.x + px);
+      const ys = points.map(([, py]) => element.y + py);
+      minX = Math.min(...xs);
+      minY = Math.min(...ys);
+      maxX = Math.max(...xs);
+      maxY = Math.max(...ys);
+    }
+
+    if (!Number.isFinite(minX + minY + maxX + maxY)) continue;
+
+    bounds = bounds
+      ? {
+          minX: Math.min(bounds.minX, minX),
+          minY: Math.min(bounds.minY, minY),
+          maxX: Math.max(bounds.maxX, maxX),
+          maxY: Math.max(bounds.maxY, maxY),
+        }
+      : { minX, minY, maxX, maxY };
+  }
+
+  return bounds;
+}
+
+const getStrokeAttributes = (element: ExcalidrawElement): string => {
+  const strokeWidth = element.strokeWidth || 1;
+  let dashArray = "";
+  if (element.strokeStyle === "dashed") {
+    dashArray = ` stroke-dasharray="8 ${8 + strokeWidth}"`;
+  } else if (element.strokeStyle === "dotted") {
+    dashArray = ` stroke-dasharray="1.5 ${6 + strokeWidth}"`;
+  }
+
+  return `stroke="${escapeXml(element.strokeColor || "#1e1e1e")}" stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"${dashArray}`;
+};
+
+const getFillAttributes = (element: ExcalidrawElement): string => {
+  const background = element.backgroundColor;
+  if (!background || background === "transparent") {
+    return `fill="none"`;
+  }
+  // Hachure and cross-hatch are approximated with a translucent fill
+  const fillOpacity = element.fillStyle === "solid" ? 1 : 0.5;
+  return `fill="${escapeXml(background)}" fill-opacity="${fillOpacity}"`;
+};
+
+const getArrowhead = (
+  tip: [number, number],
+  from: [number, number],
+  size: number,
+): string => {
+  const angle = Math.atan2(tip[1] - from[1], tip[0] - from[0]);
+  const spread = Math.PI / 7;
+  const left: [number, number] = [
+    tip[0] - size * Math.cos(angle - spread),
+    tip[1] - size * Math.sin(angle - spread),
+  ];
+  const right: [number, number] = [
+    tip[0] - size * Math.cos(angle + spread),
+    tip[1] - size * Math.sin(angle + spread),
+  ];
+  return `M ${round(left[0])} ${round(left[1])} L ${round(tip[0])} ${round(tip[1])} L ${round(right[0])} ${round(right[1])}`;
+};
+
+const renderLinear = (element: ExcalidrawElement): string => {
+  let points = getPoints(element).map(
+    ([px, py]): [number, number] => [element.x + px, element.y + py],
+  );
+  if (points.length < 2) return "";
+
+  if (element.type === "freedraw" && points.length > MAX_FREEDRAW_POINTS) {
+    const step = Math.ceil(points.length / MAX_FREEDRAW_POINTS);
+    const lastPoint = points[points.length - 1]!;
+    points = points.filter((_, index) => index % step === 0);
+    points.push(lastPoint);
+  }
+
+  const path = points
+    .map(([px, py], index) => `${index === 0 ? "M" : "L"} ${round(px)} ${round(py)}`)
+    .join(" ");
+  const isClosed =
+    element.type === "line" &&
+    points.length > 2 &&
+    points[0]![0] === points[points.length - 1]![0] &&
+    points[0]![1] === points[points.length - 1]![1];
+  const fill = isClosed ? getFillAttributes(element) : `fill="none"`;
+
+  let markup = `<path d="${path}" ${fill} ${getStrokeAttributes(element)}/>`;
+
+  if (element.type === "arrow") {
+    const headSize = Math.max(10, (element.strokeWidth || 1) * 6);
+    const heads: string[] = [];
+    if (element.endArrowhead) {
+      heads.push(getArrowhead(points[points.length - 1]!, points[points.length - 2]!, headSize));
+    }
+    if (element.startArrowhead) {
+      heads.push(getArrowhead(points[0]!, points[1]!, headSize));
+    }
+    if (heads.length > 0) {
+      markup += `<path d="${heads.join(" ")}" fill="none" stroke="${escapeXml(element.strokeColor || "#1e1e1e")}" stroke-width="${element.strokeWidth || 1}" stroke-linecap="round" stroke-linejoin="round"/>`;
+    }
+  }
+
+  return markup;
+};
+
+const renderText = (element: ExcalidrawElement): string => {
+  const text = typeof element.text === "string" ? element.text : "";
+  if (!text) return "";
+
+  const fontSize = typeof element.fontSize === "number" ? element.fontSize : 20;
+  const lineHeight =
+    typeof element.lineHeight === "number" ? element.lineHeight : 1.25;
+  const fontFamily =
+    element.fontFamily === 3 || element.fontFamily === 8
+      ? "Cascadia, Consolas, monospace"
+      : "Virgil, Excalifont, Segoe UI, Helvetica, sans-serif";
+
+  let anchor = "start";
+  let textX = element.x;
+  if (element.textAlign === "center") {
+    anchor = "middle";
+    textX = element.x + element.width / 2;
+  } else if (element.textAlign === "right") {
+    anchor = "end";
+    textX = element.x + element.width;
+  }
+
+  const lines = text
+    .split("\n")
+    .map((line, index) => {
+      const lineY = element.y + fontSize + index * fontSize * lineHeight;
+      return `<tspan x="${round(textX)}" y="${round(lineY)}">${escapeXml(line)}</tspan>`;
+    })
+    .join("");
+
+  return `<text font-size="${fontSize}" font-family="${fontFamily}" text-anchor="${anchor}" fill="${escapeXml(element.strokeColor || "#1e1e1e")}">${lines}</text>`;
+};
+
+const renderElement = (
+  element: ExcalidrawElement,
+  files: BinaryFiles | undefined,
+): string => {
+  const x = round(element.x);
+  const y = round(element.y);
+  const width = round(Math.max(0, element.width || 0));
+  const height = round(Math.max(0, element.height || 0));
+
+  switch (element.type) {
+    case "rectangle": {
+      const radius = element.roundness
+        ? round(Math.min(Math.min(width, height) * 0.25, 32))
+        : 0;
+      return `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="${radius}" ${getFillAttributes(element)} ${getStrokeAttributes(element)}/>`;
+    }
+    case "ellipse":
+      return `<ellipse cx="${round(x + width / 2)}" cy="${round(y + height / 2)}" rx="${round(width / 2)}" ry="${round(height / 2)}" ${getFillAttributes(element)} ${getStrokeAttributes(element)}/>`;
+    case "diamond": {
+      const points = [
+        [x + width / 2, y],
+        [x + width, y + height / 2],
+        [x + width / 2, y + height],
+        [x, y + height / 2],
+      ]
+        .map(([px, py]) => `${round(px!)},${round(py!)}`)
+        .join(" ");
+      return `<polygon points="${points}" ${getFillAttributes(element)} ${getStrokeAttributes(element)}/>`;
+    }
+    case "line":
+    case "arrow":
+    case "freedraw":
+      return renderLinear(element);
+    case "text":
+      return renderText(element);
+    case "image": {
+      const file =
+        typeof element.fileId === "string" ? files?.[element.fileId] : undefined;
+      if (file) {
+        return `<image href="${escapeXml(file.dataURL)}" x="${x}" y="${y}" width="${width}" height="${height}" preserveAspectRatio="none"/>`;
+      }
+      return `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#e5e7eb" stroke="#d1d5db"/>`;
+    }
+    case "frame":
+    case "magicframe":
+      return `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="8" fill="none" stroke="#bbb" stroke-width="1"/>`;
+    default:
+      // Unknown element types render as their bounding box outline
+      return width > 0 && height > 0
+        ? `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="none" ${getStrokeAttributes(element)}/>`
+        : "";
+  }
+};
+
+/**
+ * Render elements to a standalone SVG document string
+ */
+export function renderSceneToSvg(
+  elements: readonly ExcalidrawElement[],
+  options: SceneRenderOptions = {},
+): string | null {
+  const bounds = getSceneBounds(elements);
+  if (!bounds) {
+    return null;
+  }
+
+  const padding = options.padding ?? 10;
+  const viewX = round(bounds.minX - padding);
+  const viewY = round(bounds.minY - padding);
+  const viewWidth = round(Math.max(1, bounds.maxX - bounds.minX + padding * 2));
+  const viewHeight = round(Math.max(1, bounds.maxY - bounds.minY + padding * 2));
+
+  const isDark = options.theme === "dark";
+
+  const body = elements
+    .filter((element) => !element.isDeleted)
+    .map((element) => {
+      let markup = renderElement(element, options.files);
+      if (!markup) return "";
+
+      // Images are filtered a second time so they keep roughly their own colours in dark mode
+      if (isDark && element.type === "image") {
+        markup = `<g filter="url(#${DARK_FILTER_ID})">${markup}</g>`;
+      }
+
+      const opacity =
+        typeof element.opacity === "number" && element.opacity < 100
+          ? ` opacity="${element.opacity / 100}"`
+          : "";
+      const transform = element.angle
+        ? ` transform="rotate(${round((element.angle * 180) / Math.PI)} ${round(element.x + element.width / 2)} ${round(element.y + element.height / 2)})"`
+        : "";
+
+      return opacity || transform ? `<g${opacity}${transform}>${markup}</g>` : markup;
+    })
+    .join("");
+
+  const background = options.backgroundColor
+    ? `<rect x="${viewX}" y="${viewY}" width="${viewWidth}" height="${viewHeight}" fill="${escapeXml(options.backgroundColor)}"/>`
+    : "";
+
+  const width = options.width ?? viewWidth;
+  const height = options.height ?? viewHeight;
+
+  const content = isDark
+    ? `${DARK_FILTER}<g filter="url(#${DARK_FILTER_ID})">${background}${body}</g>`
+    : `${background}${body}`;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewX} ${viewY} ${viewWidth} ${viewHeight}">${content}</svg>`;
+}
+
+/**
+ * Build a small SVG data URL preview for a canvas, or undefined for an empty scene
+ */
+export function createThumbnail(
+  elements: readonly ExcalidrawElement[],
+  appState?: Partial<AppState>,
+): string | undefined {
+  try {
+    const svg = renderSceneToSvg(elements, {
+      padding: 20,
+      backgroundColor: appState?.viewBackgroundColor || "#ffffff",
+      width: THUMBNAIL_WIDTH,
+      height: THUMBNAIL_HEIGHT,
+    });
+    return svg ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}` : undefined;
+  } catch (error) {
+    console.warn("[SceneRenderer] Failed to generate thumbnail:", error);
+    return undefined;
+  }
+}
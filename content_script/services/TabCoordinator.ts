@@ -0,0 +1,283 @@
+import { v4 as uuidv4 } from "uuid";
+import { globalEventBus, InternalEventTypes } from "../messaging/InternalEventBus";
+import { ExcalidrawDataBridge } from "../bridges/ExcalidrawDataBridge";
+import { canvasOperations } from "../../shared/storage-client";
+
+const CHANNEL_NAME = "excali-org-tabs";
+const HEARTBEAT_INTERVAL_MS = 10000;
+// Tabs that miss a few heartbeats (closed without notice, frozen) no longer count as open
+const TAB_EXPIRY_MS = 35000;
+const REFRESH_DEBOUNCE_MS = 300;
+// Excalidraw re-reads the shared scene storage ~50ms after a tab regains focus; restore after it
+const RESTORE_DELAY_MS = 150;
+
+// Local changes other tabs need to reload their panel data for
+const DATA_CHANGE_EVENTS = [
+  InternalEventTypes.CANVAS_CREATED,
+  InternalEventTypes.CANVAS_UPDATED,
+  InternalEventTypes.CANVAS_DELETED,
+  InternalEventTypes.PROJECT_CREATED,
+  InternalEventTypes.PROJECT_UPDATED,
+  InternalEventTypes.PROJECT_DELETED,
+] as const;
+
+type TabMessage =
+  | { type: "HELLO"; tabId: string }
+  | { type: "PRESENCE"; tabId: string; canvasId: string | null }
+  | { type: "GOODBYE"; tabId: string }
+  | { type: "DATA_CHANGED"; tabId: string }
+  | { type: "CANVAS_SAVED"; tabId: string; canvasId: string; updatedAt: number };
+
+interface TabPresence {
+  canvasId: string | null;
+  lastSeen: number;
+}
+
+/**
+ * TabCoordinator
+ * - Tracks which canvas each excalidraw.com tab has open over a BroadcastChannel
+ * - Refreshes panel data when another tab changes the database
+ * - Restores this tab's canvas when it regains focus after another tab overwrote
+ *   the shared scene storage or saved the same canvas
+ */
+export class TabCoordinator {
+  private bridge: ExcalidrawDataBridge;
+  private channel: BroadcastChannel | null = null;
+  private readonly tabId = uuidv4();
+  private tabs = new Map<string, TabPresence>();
+  private openElsewhereKey = "";
+  private staleOpenCanvas = false; // Another tab saved the canvas this tab shows
+  private heartbeatTimer: number | null = null;
+  private refreshTimer: number | null = null;
+  private restoreTimer: number | null = null;
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(bridge: ExcalidrawDataBridge) {
+    this.bridge = bridge;
+  }
+
+  initialize(): void {
+    if (typeof BroadcastChannel === "undefined") {
+      console.warn("[TabCoordinator] BroadcastChannel unavailable; tabs will not be coordinated");
+      return;
+    }
+
+    this.channel = new BroadcastChannel(CHANNEL_NAME);
+    this.channel.onmessage = (event: MessageEvent<TabMessage>) => this.handleMessage(event.data);
+
+    this.unsubscribers.push(
+      globalEventBus.on(InternalEventTypes.CANVAS_LOADED, () => {
+        this.staleOpenCanvas = false;
+        this.announcePresence();
+      }),
+      globalEventBus.on(InternalEventTypes.CANVAS_AUTO_SAVED, (canvas) => {
+        this.post({
+          type: "CANVAS_SAVED",
+          tabId: this.tabId,
+          canvasId: canvas.id,
+          updatedAt: new Date(canvas.updatedAt).getTime(),
+        });
+      }),
+      ...DATA_CHANGE_EVENTS.map((eventType) =>
+        globalEventBus.on(eventType, () => {
+          this.post({ type: "DATA_CHANGED", tabId: this.tabId });
+        }),
+      ),
+    );
+
+    window.addEventListener("focus", this.handleTabActivated);
+    document.addEventListener("visibilitychange", this.handleTabActivated);
+
+    this.heartbeatTimer = window.setInterval(() => {
+      this.announcePresence();
+      this.pruneExpiredTabs();
+      // A restore skipped for unsaved edits is retried once they are saved
+      if (this.staleOpenCanvas && document.visibilityState === "visible") {
+        this.scheduleRestore();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Other tabs answer with their own presence
+    this.post({ type: "HELLO", tabId: this.tabId });
+    this.announcePresence();
+  }
+
+  destroy(): void {
+    this.post({ type: "GOODBYE", tabId: this.tabId });
+    this.channel?.close();
+    this.channel = null;
+
+    this.unsubscribers.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribers = [];
+    window.removeEventListener("focus", this.handleTabActivated);
+    document.removeEventListener("visibilitychange", this.handleTabActivated);
+
+    if (this.heartbeatTimer !== null) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+    if (this.restoreTimer !== null) {
+      clearTimeout(this.restoreTimer);
+      this.restoreTimer = null;
+    }
+  }
+
+  /**
+   * Ids of the other tabs that have the canvas open
+   */
+  getTabsWithCanvas(canvasId: string): string[] {
+    return [...this.tabs.entries()]
+      .filter(([, presence]) => presence.canvasId === canvasId)
+      .map(([tabId]) => tabId);
+  }
+
+  private handleMessage(message: TabMessage): void {
+    if (!message || message.tabId === this.tabId) {
+      return;
+    }
+
+    switch (message.type) {
+      case "HELLO":
+        this.touchTab(message.tabId, null);
+        this.announcePresence();
+        break;
+
+      case "PRESENCE":
+        this.touchTab(message.tabId, message.canvasId);
+        break;
+
+      case "GOODBYE":
+        this.tabs.delete(message.tabId);
+        this.publishOpenElsewhere();
+        break;
+
+      case "DATA_CHANGED":
+        this.touchTab(message.tabId);
+        this.scheduleRefresh();
+        break;
+
+      case "CANVAS_SAVED":
+        this.touchTab(message.tabId);
+        this.scheduleRefresh();
+        if (message.canvasId === this.bridge.getCanvasContext()) {
+          // Picked up when this tab is next in use; an edit made first prompts a conflict instead
+          this.staleOpenCanvas = true;
+          if (document.visibilityState === "visible" && document.hasFocus()) {
+            this.scheduleRestore();
+          }
+        }
+        break;
+    }
+  }
+
+  private handleTabActivated = (): void => {
+    if (document.visibilityState === "visible") {
+      this.scheduleRestore();
+    }
+  };
+
+  private scheduleRestore(): void {
+    if (this.restoreTimer !== null) {
+      clearTimeout(this.restoreTimer);
+    }
+    this.restoreTimer = window.setTimeout(() => {
+      this.restoreTimer = null;
+      void this.restoreOpenCanvas();
+    }, RESTORE_DELAY_MS);
+  }
+
+  /**
+   * Reload this tab's canvas from the database when the editor no longer matches it
+   */
+  private async restoreOpenCanvas(): Promise<void> {
+    const canvasId = this.bridge.getCanvasContext();
+    if (!canvasId || (!this.bridge.hasForeignScene() && !this.staleOpenCanvas)) {
+      return;
+    }
+
+    // Unsaved edits win; if the canvas changed meanwhile, their save raises a conflict
+    if (this.bridge.hasPendingChanges()) {
+      return;
+    }
+
+    try {
+      const canvas = await canvasOperations.getCanvas(canvasId);
+      if (!canvas) {
+        return;
+      }
+
+      console.log(`[TabCoordinator] Restoring canvas ${canvasId} after changes in another tab`);
+      this.staleOpenCanvas = false;
+      await globalEventBus.emit(InternalEventTypes.RELOAD_CANVAS_REQUEST, canvas);
+    } catch (error) {
+      console.error("[TabCoordinator] Failed to restore open canvas:", error);
+    }
+  }
+
+  private scheduleRefresh(): void {
+    if (this.refreshTimer !== null) {
+      clearTimeout(this.refreshTimer);
+    }
+    this.refreshTimer = window.setTimeout(() => {
+      this.refreshTimer = null;
+      void globalEventBus.emit(InternalEventTypes.REFRESH_DATA, null);
+    }, REFRESH_DEBOUNCE_MS);
+  }
+
+  private announcePresence(): void {
+    this.post({
+      type: "PRESENCE",
+      tabId: this.tabId,
+      canvasId: this.bridge.getCanvasContext(),
+    });
+  }
+
+  private touchTab(tabId: string, canvasId?: string | null): void {
+    const existing = this.tabs.get(tabId);
+    this.tabs.set(tabId, {
+      canvasId: canvasId === undefined ? (existing?.canvasId ?? null) : canvasId,
+      lastSeen: Date.now(),
+    });
+    this.publishOpenElsewhere();
+  }
+
+  private pruneExpiredTabs(): void {
+    const cutoff = Date.now() - TAB_EXPIRY_MS;
+    for (const [tabId, presence] of this.tabs) {
+      if (presence.lastSeen < cutoff) {
+        this.tabs.delete(tabId);
+      }
+    }
+    // Republish even when nothing expired so a panel mounted after the first answers catches up
+    this.publishOpenElsewhere(true);
+  }
+
+  private publishOpenElsewhere(force: boolean = false): void {
+    const canvasIds = [
+      ...new Set(
+        [...this.tabs.values()]
+          .map((presence) => presence.canvasId)
+          .filter((canvasId): canvasId is string => !!canvasId),
+      ),
+    ].sort();
+
+    const key = canvasIds.join(",");
+    if (!force && key === this.openElsewhereKey) {
+      return;
+    }
+    this.openElsewhereKey = key;
+    void globalEventBus.emit(InternalEventTypes.CANVASES_OPEN_ELSEWHERE_CHANGED, canvasIds);
+  }
+
+  private post(message: TabMessage): void {
+    try {
+      this.channel?.postMessage(message);
+    } catch (error) {
+      console.warn("[TabCoordinator] Failed to message other tabs:", error);
+    }
+  }
+}
@@ -43,16 +43,24 @@ import {
   initializeDatabase,
   canvasOperations,
   settingsOperations,
-} from "../shared/unified-db";
+} from "../shared/storage-client";
 import { ExcalidrawIntegration } from "./excalidraw-integration";
 import { ExcalidrawDataBridge } from "./bridges/ExcalidrawDataBridge";
 import { CanvasSwitchOrchestrator } from "./services/CanvasSwitchOrchestrator";
+import { TabCoordinator } from "./services/TabCoordinator";
+import { migratePageOriginDatabase } from "./services/PageOriginMigration";
 import { UnifiedStateProvider } from "./context/UnifiedStateProvider";
 import {
   globalEventBus,
   InternalEventTypes,
 } from "./messaging/InternalEventBus";
 import { UnifiedCanvas } from "../shared/types";
+import { getElementMergeLog } from "../shared/element-reconcile";
+import { clampNumberSetting, SYNC_CONSTANTS } from "../shared/utils";
+import {
+  PENDING_OPEN_CANVAS_SETTING,
+  isOpenCanvasMessage,
+} from "../shared/extension-messages";
 
 // Import the enhanced panel application
 import { EnhancedAutoHidePanel } from "./components/EnhancedAutoHidePanel";
@@ -62,6 +70,7 @@ let panelRoot: Root | null = null;
 let excalidrawIntegration: ExcalidrawIntegration | null = null;
 let dataBridge: ExcalidrawDataBridge | null = null;
 let switchOrchestrator: CanvasSwitchOrchestrator | null = null;
+let tabCoordinator: TabCoordinator | null = null;
 
 /**
  * Initialize the unified content script application
@@ -76,17 +85,37 @@ async function initializeUnifiedApp(): Promise<void> {
       isLoading: true,
     });
 
-    // 1. Initialize the database
+    // 1. Connect to the database kept by the service worker
     await initializeDatabase();
+    try {
+      await migratePageOriginDatabase();
+    } catch (migrationError) {
+      // The old copy stays in place and the migration is retried on the next load
+      console.error("Failed to migrate the page-origin database:", migrationError);
+    }
 
     // 2. Wait for Excalidraw to be ready
     await waitForExcalidrawReady();
 
-    // 3. Initialize data bridge
+    // 3. Initialize data bridge with the sync timing set on the options page
+    const [syncInterval, debounceDelay] = await Promise.all([
+      settingsOperations.getSetting<number>("syncIntervalMs"),
+      settingsOperations.getSetting<number>("syncDebounceMs"),
+    ]);
     dataBridge = new ExcalidrawDataBridge({
       autoSave: true,
-      syncInterval: 500,
-      debounceDelay: 200,
+      syncInterval: clampNumberSetting(
+        syncInterval,
+        SYNC_CONSTANTS.MIN_INTERVAL_MS,
+        SYNC_CONSTANTS.MAX_INTERVAL_MS,
+        SYNC_CONSTANTS.DEFAULT_INTERVAL_MS,
+      ),
+      debounceDelay: clampNumberSetting(
+        debounceDelay,
+        SYNC_CONSTANTS.MIN_DEBOUNCE_MS,
+        SYNC_CONSTANTS.MAX_DEBOUNCE_MS,
+        SYNC_CONSTANTS.DEFAULT_DEBOUNCE_MS,
+      ),
     });
     dataBridge.initialize();
 
@@ -108,7 +137,11 @@ async function initializeUnifiedApp(): Promise<void> {
     }
 
     if (currentCanvas) {
-      await dataBridge.loadCanvasToExcalidraw(currentCanvas, false);
+      await dataBridge.loadCanvasToExcalidraw(currentCanvas, "none");
+      // Completes the latency measurement when this page load was a reload switch
+      switchOrchestrator.completeReloadSwitch(currentCanvas.id);
+      // Also how a reload switch reaches the recent list
+      await switchOrchestrator.recordVisit(currentCanvas.id);
     } else {
       await dataBridge.updateFileNameOnLoad(null);
     }
@@ -119,6 +152,13 @@ async function initializeUnifiedApp(): Promise<void> {
     // 7. Create and mount the panel with state provider
     await createAndMountPanel();
 
+    // Coordinate with other excalidraw.com tabs once the panel can take their updates
+    tabCoordinator = new TabCoordinator(dataBridge);
+    tabCoordinator.initialize();
+
+    // A canvas picked in the popup before this tab existed
+    await openPendingCanvas();
+
     // 8. Setup cleanup handlers
     setupCleanupHandlers();
 
@@ -149,10 +189,8 @@ function setupEventHandlers(): void {
   // Handle canvas updates (including renames)
   globalEventBus.on(InternalEventTypes.CANVAS_UPDATED, async (canvas) => {
     try {
-      // Check if this is the currently active canvas
-      const currentCanvasId = await settingsOperations.getSetting("currentWorkingCanvasId");
-      
-      if (currentCanvasId === canvas.id && dataBridge) {
+      // Check if this is the canvas open in this tab
+      if (dataBridge && dataBridge.getCanvasContext() === canvas.id) {
         // Update file name display for the current canvas
         await dataBridge.updateFileNameDisplay(canvas.name);
       }
@@ -207,6 +245,46 @@ function setupEventHandlers(): void {
     console.error("Error reported:", error, details);
     showErrorNotification(error);
   });
+
+  // Canvases picked in the extension popup
+  chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+    if (isOpenCanvasMessage(message)) {
+      void openCanvasById(message.canvasId);
+      sendResponse({ ok: true });
+    }
+    return false;
+  });
+}
+
+/**
+ * Switch this tab to a canvas picked outside the panel
+ */
+async function openCanvasById(canvasId: string): Promise<void> {
+  try {
+    const canvas = await canvasOperations.getCanvas(canvasId);
+    if (!canvas) {
+      console.warn(`Canvas ${canvasId} to open no longer exists`);
+      return;
+    }
+    await globalEventBus.emit(InternalEventTypes.CANVAS_SELECTED, canvas);
+  } catch (error) {
+    console.error("Failed to open canvas:", error);
+  }
+}
+
+/**
+ * Open the canvas the popup left for this tab, if any
+ */
+async function openPendingCanvas(): Promise<void> {
+  try {
+    const canvasId = await settingsOperations.getSetting<string>(PENDING_OPEN_CANVAS_SETTING);
+    if (typeof canvasId === "string") {
+      await settingsOperations.deleteSetting(PENDING_OPEN_CANVAS_SETTING);
+      await openCanvasById(canvasId);
+    }
+  } catch (error) {
+    console.error("Failed to open pending canvas:", error);
+  }
 }
 
 /**
@@ -356,6 +434,12 @@ function cleanup(): void {
       panelRoot = null;
     }
 
+    // Tell other tabs this one is gone
+    if (tabCoordinator) {
+      tabCoordinator.destroy();
+      tabCoordinator = null;
+    }
+
     // Clean up data bridge
     if (dataBridge) {
       dataBridge.destroy();
@@ -505,7 +589,9 @@ if (typeof window !== "undefined") {
     excalidrawIntegration,
     dataBridge,
     switchOrchestrator,
+    tabCoordinator,
     eventBus: globalEventBus,
+    getElementMergeLog,
     getStats: () => ({
       isInitialized: panelRoot !== null,
       integration: excalidrawIntegration?.getStats() || null,
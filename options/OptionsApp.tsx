@@ -0,0 +1,633 @@
+import React, { useEffect, useState } from "react";
+import { Archive, Download, RotateCcw, Stethoscope, Wrench } from "lucide-react";
+import {
+  dbUtils,
+  integrityOperations,
+  migrationOperations,
+  settingsOperations,
+} from "../shared/storage-client";
+import {
+  clampNumberSetting,
+  PANEL_CONSTANTS,
+  SYNC_CONSTANTS,
+  TRASH_CONSTANTS,
+} from "../shared/utils";
+import { createBackupArchive } from "../content_script/services/BackupService";
+import type { CanvasSwitchMode } from "../content_script/services/CanvasSwitchOrchestrator";
+import type { PanelViewMode } from "../shared/types";
+import type { MigrationStatus } from "../shared/db-migrations";
+import {
+  INTEGRITY_ISSUE_KINDS,
+  IntegrityIssueKind,
+  IntegrityReport,
+} from "../shared/workspace-integrity";
+
+const MAX_ISSUES_PER_KIND = 5;
+
+interface OptionsForm {
+  syncIntervalMs: number;
+  syncDebounceMs: number;
+  canvasSwitchMode: CanvasSwitchMode;
+  panelIsPinned: boolean;
+  panelWidth: number;
+  panelViewMode: PanelViewMode;
+  trashAutoPurgeDays: number;
+}
+
+interface StorageStats {
+  canvasCount: number;
+  projectCount: number;
+  settingsCount: number;
+  fileCount: number;
+  usageBytes: number | null;
+}
+
+const DEFAULT_FORM: OptionsForm = {
+  syncIntervalMs: SYNC_CONSTANTS.DEFAULT_INTERVAL_MS,
+  syncDebounceMs: SYNC_CONSTANTS.DEFAULT_DEBOUNCE_MS,
+  canvasSwitchMode: "live",
+  panelIsPinned: false,
+  panelWidth: PANEL_CONSTANTS.DEFAULT_WIDTH,
+  panelViewMode: "list",
+  trashAutoPurgeDays: TRASH_CONSTANTS.DEFAULT_AUTO_PURGE_DAYS,
+};
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+async function loadOptions(): Promise<OptionsForm> {
+  const settings = await settingsOperations.getAllSettings();
+  return {
+    syncIntervalMs: clampNumberSetting(
+      settings.syncIntervalMs,
+      SYNC_CONSTANTS.MIN_INTERVAL_MS,
+      SYNC_CONSTANTS.MAX_INTERVAL_MS,
+      DEFAULT_FORM.syncIntervalMs,
+    ),
+    syncDebounceMs: clampNumberSetting(
+      settings.syncDebounceMs,
+      SYNC_CONSTANTS.MIN_DEBOUNCE_MS,
+      SYNC_CONSTANTS.MAX_DEBOUNCE_MS,
+      DEFAULT_FORM.syncDebounceMs,
+    ),
+    canvasSwitchMode: settings.canvasSwitchMode === "reload" ? "reload" : "live",
+    panelIsPinned: settings.panelIsPinned === true,
+    panelWidth: clampNumberSetting(
+      settings.panelWidth,
+      PANEL_CONSTANTS.MIN_WIDTH,
+      PANEL_CONSTANTS.MAX_WIDTH,
+      DEFAULT_FORM.panelWidth,
+    ),
+    panelViewMode: settings.panelViewMode === "grid" ? "grid" : "list",
+    trashAutoPurgeDays:
+      typeof settings.trashAutoPurgeDays === "number"
+        ? settings.trashAutoPurgeDays
+        : DEFAULT_FORM.trashAutoPurgeDays,
+  };
+}
+
+async function loadStorageStats(): Promise<StorageStats> {
+  const [stats, estimate] = await Promise.all([
+    dbUtils.getStats(),
+    navigator.storage?.estimate?.().catch(() => undefined),
+  ]);
+  return { ...stats, usageBytes: estimate?.usage ?? null };
+}
+
+export function OptionsApp() {
+  const [form, setForm] = useState<OptionsForm>(DEFAULT_FORM);
+  const [stats, setStats] = useState<StorageStats | null>(null);
+  const [migrationStatus, setMigrationStatus] = useState<MigrationStatus | null>(null);
+  const [integrityReport, setIntegrityReport] = useState<IntegrityReport | null>(null);
+  const [integrityStatus, setIntegrityStatus] = useState<string | null>(null);
+  const [migrationRestoreStatus, setMigrationRestoreStatus] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([loadOptions(), loadStorageStats()])
+      .then(([options, storageStats]) => {
+        setForm(options);
+        setStats(storageStats);
+      })
+      .catch((err) => {
+        console.error("Failed to load options:", err);
+        setError("Could not load your settings.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  // Loaded on its own so it still shows why the database failed to open
+  useEffect(() => {
+    migrationOperations
+      .getStatus()
+      .then(setMigrationStatus)
+      .catch((err) => {
+        console.error("Failed to load migration status:", err);
+      });
+  }, []);
+
+  const update = <K extends keyof OptionsForm>(key: K, value: OptionsForm[K]) => {
+    setForm((current) => ({ ...current, [key]: value }));
+    setStatus(null);
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const saved = {
+        ...form,
+        syncIntervalMs: clampNumberSetting(
+          form.syncIntervalMs,
+          SYNC_CONSTANTS.MIN_INTERVAL_MS,
+          SYNC_CONSTANTS.MAX_INTERVAL_MS,
+          DEFAULT_FORM.syncIntervalMs,
+        ),
+        syncDebounceMs: clampNumberSetting(
+          form.syncDebounceMs,
+          SYNC_CONSTANTS.MIN_DEBOUNCE_MS,
+          SYNC_CONSTANTS.MAX_DEBOUNCE_MS,
+          DEFAULT_FORM.syncDebounceMs,
+        ),
+        panelWidth: clampNumberSetting(
+          form.panelWidth,
+          PANEL_CONSTANTS.MIN_WIDTH,
+          PANEL_CONSTANTS.MAX_WIDTH,
+          DEFAULT_FORM.panelWidth,
+        ),
+      };
+      await Promise.all(
+        (Object.keys(saved) as (keyof OptionsForm)[]).map((key) =>
+          settingsOperations.setSetting(key, saved[key]),
+        ),
+      );
+      setForm(saved);
+      setStatus("Saved. Reload open excalidraw.com tabs to apply the sync and panel settings.");
+    } catch (err) {
+      console.error("Failed to save options:", err);
+      setError("Failed to save your settings. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleBackup = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { blob, fileName } = await createBackupArchive();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = fileName;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error("Failed to create backup:", err);
+      setError("Failed to create backup. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCheckWorkspace = async () => {
+    setIsBusy(true);
+    setError(null);
+    setIntegrityStatus(null);
+    try {
+      setIntegrityReport(await integrityOperations.scanWorkspace());
+    } catch (err) {
+      console.error("Failed to check workspace:", err);
+      setError("Failed to check the workspace. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRepair = async (kinds: IntegrityIssueKind[]) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const { canvases, projects, report } = await integrityOperations.repairWorkspace(kinds);
+      setIntegrityReport(report);
+      setIntegrityStatus(
+        `Repaired ${canvases.length} canvas(es) and ${projects.length} project(s). Reload open excalidraw.com tabs to see the changes.`,
+      );
+    } catch (err) {
+      console.error("Failed to repair workspace:", err);
+      setError("Failed to repair the workspace. Nothing was changed.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRestoreMigrationBackup = async () => {
+    const backup = migrationStatus?.backup;
+    if (
+      !backup ||
+      !confirm(
+        `Replace the database with the backup taken at version ${backup.version}? Changes since then are lost.`,
+      )
+    ) {
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const restored = await migrationOperations.restoreFromMigrationBackup();
+      setMigrationStatus(await migrationOperations.getStatus());
+      setMigrationRestoreStatus(
+        `Restored the database as it was at version ${restored.version}. Reload the extension to try the upgrade again.`,
+      );
+    } catch (err) {
+      console.error("Failed to restore migration backup:", err);
+      setError("Failed to restore the backup taken before the upgrade.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const issueGroups = integrityReport
+    ? (Object.keys(INTEGRITY_ISSUE_KINDS) as IntegrityIssueKind[])
+        .map((kind) => ({ kind, issues: integrityReport.issues.filter((issue) => issue.kind === kind) }))
+        .filter((group) => group.issues.length > 0)
+    : [];
+
+  const sectionStyles: React.CSSProperties = {
+    marginBottom: "24px",
+    padding: "16px 20px",
+    borderRadius: "8px",
+    border: "1px solid var(--theme-border-primary)",
+    background: "var(--theme-bg-secondary)",
+  };
+
+  const headingStyles: React.CSSProperties = {
+    margin: "0 0 12px",
+    fontSize: "16px",
+    color: "var(--theme-text-primary)",
+  };
+
+  const fieldStyles: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: "16px",
+    padding: "8px 0",
+    fontSize: "14px",
+    color: "var(--theme-text-primary)",
+  };
+
+  const hintStyles: React.CSSProperties = {
+    display: "block",
+    fontSize: "12px",
+    color: "var(--theme-text-secondary)",
+  };
+
+  const inputStyles: React.CSSProperties = {
+    width: "120px",
+    padding: "6px 8px",
+    background: "var(--theme-bg-primary)",
+    border: "1px solid var(--theme-border-primary)",
+    borderRadius: "4px",
+    color: "var(--theme-text-primary)",
+    fontSize: "14px",
+  };
+
+  const buttonStyles: React.CSSProperties = {
+    display: "inline-flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "8px 16px",
+    background: "var(--theme-accent-primary, #6366f1)",
+    border: "none",
+    borderRadius: "6px",
+    color: "var(--theme-text-on-accent, #ffffff)",
+    fontSize: "14px",
+    cursor: isBusy ? "wait" : "pointer",
+  };
+
+  const renderNumberField = (
+    label: string,
+    hint: string,
+    key: "syncIntervalMs" | "syncDebounceMs" | "panelWidth",
+    min: number,
+    max: number,
+  ) => (
+    <label style={fieldStyles}>
+      <span>
+        {label}
+        <span style={hintStyles}>{hint}</span>
+      </span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        value={form[key]}
+        onChange={(e) => update(key, Number(e.target.value))}
+        style={inputStyles}
+      />
+    </label>
+  );
+
+  return (
+    <div
+      style={{
+        minHeight: "100vh",
+        background: "var(--theme-bg-primary)",
+        color: "var(--theme-text-primary)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+      }}
+    >
+      <div style={{ maxWidth: "640px", margin: "0 auto", padding: "32px 16px" }}>
+        <h1 style={{ margin: "0 0 24px", fontSize: "22px" }}>Excali Organizer Options</h1>
+
+        {error && (
+          <div style={{ marginBottom: "16px", fontSize: "14px", color: "var(--theme-error, #ef4444)" }}>
+            {error}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div style={{ fontSize: "14px", color: "var(--theme-text-secondary)" }}>Loading...</div>
+        ) : (
+          <>
+            <section style={sectionStyles}>
+              <h2 style={headingStyles}>Sync</h2>
+              {renderNumberField(
+                "Sync interval (ms)",
+                "How often the open drawing is checked for changes",
+                "syncIntervalMs",
+                SYNC_CONSTANTS.MIN_INTERVAL_MS,
+                SYNC_CONSTANTS.MAX_INTERVAL_MS,
+              )}
+              {renderNumberField(
+                "Save delay (ms)",
+                "Quiet time after an edit before it is saved",
+                "syncDebounceMs",
+                SYNC_CONSTANTS.MIN_DEBOUNCE_MS,
+                SYNC_CONSTANTS.MAX_DEBOUNCE_MS,
+              )}
+              <label style={fieldStyles}>
+                <span>
+                  Canvas switching
+                  <span style={hintStyles}>Reload the page if switching in place misbehaves</span>
+                </span>
+                <select
+                  value={form.canvasSwitchMode}
+                  onChange={(e) => update("canvasSwitchMode", e.target.value as CanvasSwitchMode)}
+                  style={inputStyles}
+                >
+                  <option value="live">In place</option>
+                  <option value="reload">Reload page</option>
+                </select>
+              </label>
+            </section>
+
+            <section style={sectionStyles}>
+              <h2 style={headingStyles}>Panel</h2>
+              <label style={fieldStyles}>
+                <span>Keep the panel pinned open</span>
+                <input
+                  type="checkbox"
+                  checked={form.panelIsPinned}
+                  onChange={(e) => update("panelIsPinned", e.target.checked)}
+                />
+              </label>
+              {renderNumberField(
+                "Panel width (px)",
+                `Between ${PANEL_CONSTANTS.MIN_WIDTH} and ${PANEL_CONSTANTS.MAX_WIDTH}`,
+                "panelWidth",
+                PANEL_CONSTANTS.MIN_WIDTH,
+                PANEL_CONSTANTS.MAX_WIDTH,
+              )}
+              <label style={fieldStyles}>
+                <span>Canvas view</span>
+                <select
+                  value={form.panelViewMode}
+                  onChange={(e) => update("panelViewMode", e.target.value as PanelViewMode)}
+                  style={inputStyles}
+                >
+                  <option value="list">List</option>
+                  <option value="grid">Grid</option>
+                </select>
+              </label>
+              <label style={fieldStyles}>
+                <span>Empty trash items older than</span>
+                <select
+                  value={form.trashAutoPurgeDays}
+                  onChange={(e) => update("trashAutoPurgeDays", Number(e.target.value))}
+                  style={inputStyles}
+                >
+                  {TRASH_CONSTANTS.AUTO_PURGE_OPTIONS.map((days) => (
+                    <option key={days} value={days}>
+                      {days === 0 ? "Never" : `${days} days`}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </section>
+
+            <div style={{ display: "flex", alignItems: "center", gap: "12px", marginBottom: "32px" }}>
+              <button type="button" onClick={handleSave} disabled={isBusy} style={buttonStyles}>
+                Save settings
+              </button>
+              {status && (
+                <span style={{ fontSize: "13px", color: "var(--theme-text-secondary)" }}>{status}</span>
+              )}
+            </div>
+
+            <section style={sectionStyles}>
+              <h2 style={{ ...headingStyles, display: "flex", alignItems: "center", gap: "8px" }}>
+                <Archive size={18} />
+                Backup
+              </h2>
+              <p style={{ margin: "0 0 12px", fontSize: "14px", color: "var(--theme-text-secondary)" }}>
+                Download every canvas, project, image and setting as one archive. Restore it from
+                the panel on excalidraw.com.
+              </p>
+              <button type="button" onClick={handleBackup} disabled={isBusy} style={buttonStyles}>
+                <Download size={16} />
+                Download backup
+              </button>
+            </section>
+
+            <section style={sectionStyles}>
+              <h2 style={{ ...headingStyles, display: "flex", alignItems: "center", gap: "8px" }}>
+                <Stethoscope size={18} />
+                Workspace check
+              </h2>
+              <p style={{ margin: "0 0 12px", fontSize: "14px", color: "var(--theme-text-secondary)" }}>
+                Look for canvases and projects that disagree about where a canvas belongs, duplicate
+                ids, broken drawing elements and invalid dates.
+              </p>
+              <button type="button" onClick={handleCheckWorkspace} disabled={isBusy} style={buttonStyles}>
+                <Stethoscope size={16} />
+                Check workspace
+              </button>
+
+              {integrityReport && issueGroups.length === 0 && (
+                <p style={{ margin: "12px 0 0", fontSize: "14px", color: "var(--theme-text-secondary)" }}>
+                  No problems found in {integrityReport.canvasCount} canvases and{" "}
+                  {integrityReport.projectCount} projects.
+                </p>
+              )}
+
+              {issueGroups.map(({ kind, issues }) => (
+                <div
+                  key={kind}
+                  style={{ marginTop: "12px", paddingTop: "4px", borderTop: "1px solid var(--theme-border-primary)" }}
+                >
+                  <div style={fieldStyles}>
+                    <span>
+                      {INTEGRITY_ISSUE_KINDS[kind].label} ({issues.length})
+                      <span style={hintStyles}>{INTEGRITY_ISSUE_KINDS[kind].repair}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleRepair([kind])}
+                      disabled={isBusy}
+                      style={{ ...buttonStyles, padding: "4px 10px", fontSize: "13px", flexShrink: 0 }}
+                    >
+                      <Wrench size={14} />
+                      Repair
+                    </button>
+                  </div>
+                  <ul style={{ margin: 0, paddingLeft: "18px", fontSize: "12px", color: "var(--theme-text-secondary)" }}>
+                    {issues.slice(0, MAX_ISSUES_PER_KIND).map((issue) => (
+                      <li key={`${issue.recordType}-${issue.recordId}`}>
+                        {issue.recordType === "canvas" ? "Canvas" : "Project"} "{issue.recordName}": {issue.message}
+                      </li>
+                    ))}
+                    {issues.length > MAX_ISSUES_PER_KIND && (
+                      <li>and {issues.length - MAX_ISSUES_PER_KIND} more</li>
+                    )}
+                  </ul>
+                </div>
+              ))}
+
+              {issueGroups.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => handleRepair(issueGroups.map((group) => group.kind))}
+                  disabled={isBusy}
+                  style={{ ...buttonStyles, marginTop: "16px" }}
+                >
+                  <Wrench size={16} />
+                  Repair all
+                </button>
+              )}
+
+              {integrityStatus && (
+                <p style={{ margin: "12px 0 0", fontSize: "13px", color: "var(--theme-text-secondary)" }}>
+                  {integrityStatus}
+                </p>
+              )}
+            </section>
+
+            {stats && (
+              <section style={sectionStyles}>
+                <h2 style={headingStyles}>Storage</h2>
+                <div style={fieldStyles}>
+                  <span>Canvases</span>
+                  <span>{stats.canvasCount}</span>
+                </div>
+                <div style={fieldStyles}>
+                  <span>Projects</span>
+                  <span>{stats.projectCount}</span>
+                </div>
+                <div style={fieldStyles}>
+                  <span>Images</span>
+                  <span>{stats.fileCount}</span>
+                </div>
+                <div style={fieldStyles}>
+                  <span>Settings</span>
+                  <span>{stats.settingsCount}</span>
+                </div>
+                {stats.usageBytes !== null && (
+                  <div style={fieldStyles}>
+                    <span>Space used</span>
+                    <span>{formatBytes(stats.usageBytes)}</span>
+                  </div>
+                )}
+              </section>
+            )}
+
+            {migrationStatus && (
+              <section style={sectionStyles}>
+                <h2 style={headingStyles}>Database</h2>
+                <div style={fieldStyles}>
+                  <span>Schema version</span>
+                  <span>
+                    {migrationStatus.currentVersion < migrationStatus.latestVersion
+                      ? `${migrationStatus.currentVersion} (${migrationStatus.latestVersion} pending)`
+                      : migrationStatus.currentVersion}
+                  </span>
+                </div>
+                <div style={fieldStyles}>
+                  <span>
+                    Last upgrade
+                    {migrationStatus.lastRun && (
+                      <span style={hintStyles}>
+                        {migrationStatus.lastRun.applied
+                          .map(({ version, description }) => `${version}: ${description}`)
+                          .join(", ")}
+                      </span>
+                    )}
+                  </span>
+                  <span style={{ flexShrink: 0 }}>
+                    {migrationStatus.lastRun
+                      ? `${migrationStatus.lastRun.fromVersion} → ${migrationStatus.lastRun.toVersion}, ${new Date(
+                          migrationStatus.lastRun.completedAt,
+                        ).toLocaleDateString()}`
+                      : "None recorded"}
+                  </span>
+                </div>
+                <div style={fieldStyles}>
+                  <span>
+                    Backup before upgrade
+                    <span style={hintStyles}>Copy of the database taken before the last upgrade ran</span>
+                  </span>
+                  <span style={{ flexShrink: 0 }}>
+                    {migrationStatus.backup
+                      ? `Version ${migrationStatus.backup.version}, ${migrationStatus.backup.recordCount} records, ${new Date(
+                          migrationStatus.backup.createdAt,
+                        ).toLocaleDateString()}`
+                      : "None"}
+                  </span>
+                </div>
+                {migrationStatus.lastError && (
+                  <div style={{ paddingTop: "8px", fontSize: "13px", color: "var(--theme-error, #ef4444)" }}>
+                    The database could not be upgraded and was left as it was: {migrationStatus.lastError}
+                  </div>
+                )}
+                {migrationStatus.lastError && migrationStatus.backup && (
+                  <button
+                    type="button"
+                    onClick={handleRestoreMigrationBackup}
+                    disabled={isBusy}
+                    style={{ ...buttonStyles, marginTop: "12px" }}
+                  >
+                    <RotateCcw size={16} />
+                    Restore backup
+                  </button>
+                )}
+                {migrationRestoreStatus && (
+                  <p style={{ margin: "12px 0 0", fontSize: "13px", color: "var(--theme-text-secondary)" }}>
+                    {migrationRestoreStatus}
+                  </p>
+                )}
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+import React from "react";
+import { createRoot } from "react-dom/client";
+import "../content_script/styles/theme-variables.css";
+import { OptionsApp } from "./OptionsApp";
+
+// Extension pages follow the system theme; the panel follows Excalidraw's
+const darkScheme = window.matchMedia("(prefers-color-scheme: dark)");
+document.documentElement.dataset.theme = darkScheme.matches ? "dark" : "light";
+
+createRoot(document.getElementById("root")!).render(
+  React.createElement(React.StrictMode, null, React.createElement(OptionsApp)),
+);
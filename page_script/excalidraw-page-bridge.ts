@@ -0,0 +1,144 @@
+/**
+ * Excalidraw Page Bridge - Runs in the page's JavaScript world (manifest "world": "MAIN")
+ * Loads scenes into the running Excalidraw editor so canvas switches don't need a page reload.
+ * Answers LOAD_SCENE requests from the content script and reports the editor's own storage
+ * writes; see shared/page-bridge-protocol.ts.
+ */
+
+import {
+  PAGE_BRIDGE_SOURCES,
+  PageBridgeNotification,
+  PageBridgeResponse,
+  PageBridgeScene,
+  isPageBridgeRequest,
+} from "../shared/page-bridge-protocol";
+
+// The parts of Excalidraw's App component instance the bridge relies on
+interface ExcalidrawAppInstance {
+  updateScene: (scene: {
+    elements?: readonly unknown[];
+    appState?: Record<string, unknown>;
+    captureUpdate?: string;
+  }) => void;
+  addFiles: (files: unknown[]) => void;
+  history?: { clear?: () => void };
+}
+
+interface ReactFiber {
+  stateNode: unknown;
+  return: ReactFiber | null;
+}
+
+// appState keys that describe this window or live session rather than the drawing
+const SESSION_APP_STATE_KEYS = [
+  "theme",
+  "width",
+  "height",
+  "offsetLeft",
+  "offsetTop",
+  "collaborators",
+  "openDialog",
+  "openMenu",
+  "openPopup",
+  "openSidebar",
+  "contextMenu",
+  "toast",
+];
+
+// localStorage keys Excalidraw keeps the scene in
+const SCENE_STORAGE_KEYS = ["excalidraw", "excalidraw-state"];
+
+const isExcalidrawApp = (value: unknown): value is ExcalidrawAppInstance =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ExcalidrawAppInstance).updateScene === "function" &&
+  typeof (value as ExcalidrawAppInstance).addFiles === "function";
+
+/**
+ * Find the editor instance by walking up React's fiber tree from Excalidraw's root element
+ */
+function findExcalidrawApp(): ExcalidrawAppInstance | null {
+  const container = document.querySelector(".excalidraw");
+  if (!container) {
+    return null;
+  }
+
+  const fiberKey = Object.keys(container).find((key) => key.startsWith("__reactFiber$"));
+  let fiber = fiberKey
+    ? ((container as unknown as Record<string, ReactFiber | undefined>)[fiberKey] ?? null)
+    : null;
+
+  while (fiber) {
+    if (isExcalidrawApp(fiber.stateNode)) {
+      return fiber.stateNode;
+    }
+    fiber = fiber.return;
+  }
+  return null;
+}
+
+function loadScene(scene: PageBridgeScene): void {
+  const app = findExcalidrawApp();
+  if (!app) {
+    throw new Error("Excalidraw editor instance not found");
+  }
+
+  const appState: Record<string, unknown> = { ...scene.appState };
+  SESSION_APP_STATE_KEYS.forEach((key) => delete appState[key]);
+
+  const files = Object.values(scene.files);
+  if (files.length > 0) {
+    app.addFiles(files);
+  }
+
+  app.updateScene({
+    elements: scene.elements,
+    appState: {
+      ...appState,
+      editingGroupId: null,
+      selectedElementIds: appState.selectedElementIds ?? {},
+    },
+    // Keep the load itself out of undo history
+    captureUpdate: "NEVER",
+  });
+
+  // Undo must not step back into the previous canvas
+  app.history?.clear?.();
+}
+
+window.addEventListener("message", (event: MessageEvent) => {
+  if (event.source !== window || !isPageBridgeRequest(event.data)) {
+    return;
+  }
+
+  const { requestId, scene } = event.data;
+  const response: PageBridgeResponse = {
+    source: PAGE_BRIDGE_SOURCES.PAGE,
+    type: "LOAD_SCENE_RESULT",
+    requestId,
+    ok: true,
+  };
+
+  try {
+    loadScene(scene);
+  } catch (error) {
+    response.ok = false;
+    response.error = error instanceof Error ? error.message : String(error);
+  }
+
+  window.postMessage(response, window.location.origin);
+});
+
+// Excalidraw saves through localStorage.setItem from this world; tell the content script
+// so it can tell this tab's edits apart from writes made by other excalidraw.com tabs
+const originalSetItem = Storage.prototype.setItem;
+Storage.prototype.setItem = function (this: Storage, key: string, value: string) {
+  originalSetItem.call(this, key, value);
+  if (this === window.localStorage && SCENE_STORAGE_KEYS.includes(key)) {
+    const notification: PageBridgeNotification = {
+      source: PAGE_BRIDGE_SOURCES.PAGE,
+      type: "SCENE_STORED",
+    };
+    window.postMessage(notification, window.location.origin);
+  }
+};
@@ -0,0 +1,254 @@
+/// <reference types="chrome"/>
+
+import React, { useEffect, useMemo, useState } from "react";
+import { FileText, Folder, ExternalLink, Settings } from "lucide-react";
+import { canvasOperations, projectOperations } from "../shared/storage-client";
+import { UnifiedCanvas, UnifiedProject } from "../shared/types";
+import { openInExcalidraw } from "./openInExcalidraw";
+
+const MAX_RECENT_CANVASES = 8;
+const MAX_RECENT_PROJECTS = 5;
+
+const lastActivity = (canvas: UnifiedCanvas): number =>
+  new Date(canvas.lastEditedAt || canvas.updatedAt).getTime();
+
+const formatDate = (date: Date) => {
+  const now = new Date();
+  const diffMs = now.getTime() - date.getTime();
+  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+
+  if (diffDays === 0) return "Today";
+  if (diffDays === 1) return "Yesterday";
+  if (diffDays < 7) return `${diffDays}d ago`;
+  return date.toLocaleDateString();
+};
+
+interface ProjectActivity {
+  project: UnifiedProject;
+  latestCanvas: UnifiedCanvas | null;
+}
+
+export function PopupApp() {
+  const [canvases, setCanvases] = useState<UnifiedCanvas[]>([]);
+  const [projects, setProjects] = useState<UnifiedProject[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([canvasOperations.getAllCanvases(), projectOperations.getAllProjects()])
+      .then(([allCanvases, allProjects]) => {
+        setCanvases(allCanvases);
+        setProjects(allProjects);
+      })
+      .catch((err) => {
+        console.error("Failed to load canvases:", err);
+        setError("Could not load your canvases.");
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const recentCanvases = useMemo(
+    () =>
+      [...canvases]
+        .sort((a, b) => lastActivity(b) - lastActivity(a))
+        .slice(0, MAX_RECENT_CANVASES),
+    [canvases],
+  );
+
+  // Projects ordered by their most recently edited canvas
+  const recentProjects = useMemo((): ProjectActivity[] => {
+    const latestByProject = new Map<string, UnifiedCanvas>();
+    for (const canvas of canvases) {
+      if (!canvas.projectId) continue;
+      const latest = latestByProject.get(canvas.projectId);
+      if (!latest || lastActivity(canvas) > lastActivity(latest)) {
+        latestByProject.set(canvas.projectId, canvas);
+      }
+    }
+
+    return projects
+      .map((project) => ({ project, latestCanvas: latestByProject.get(project.id) ?? null }))
+      .sort(
+        (a, b) =>
+          (b.latestCanvas ? lastActivity(b.latestCanvas) : 0) -
+          (a.latestCanvas ? lastActivity(a.latestCanvas) : 0),
+      )
+      .slice(0, MAX_RECENT_PROJECTS);
+  }, [canvases, projects]);
+
+  const projectNames = useMemo(
+    () => new Map(projects.map((project) => [project.id, project.name])),
+    [projects],
+  );
+
+  const open = async (canvasId?: string) => {
+    try {
+      await openInExcalidraw(canvasId);
+      window.close();
+    } catch (err) {
+      console.error("Failed to open Excalidraw:", err);
+      setError("Could not open excalidraw.com.");
+    }
+  };
+
+  const sectionTitleStyles: React.CSSProperties = {
+    margin: "12px 0 4px",
+    padding: "0 12px",
+    fontSize: "11px",
+    fontWeight: "600",
+    textTransform: "uppercase",
+    letterSpacing: "0.04em",
+    color: "var(--theme-text-secondary)",
+  };
+
+  const rowStyles: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "10px",
+    width: "100%",
+    padding: "8px 12px",
+    background: "none",
+    border: "none",
+    borderRadius: "6px",
+    textAlign: "left",
+    color: "var(--theme-text-primary)",
+    fontSize: "13px",
+    cursor: "pointer",
+  };
+
+  const footerButtonStyles: React.CSSProperties = {
+    display: "flex",
+    alignItems: "center",
+    gap: "6px",
+    padding: "6px 10px",
+    background: "var(--theme-bg-tertiary)",
+    border: "1px solid var(--theme-border-primary)",
+    borderRadius: "4px",
+    color: "var(--theme-text-secondary)",
+    fontSize: "12px",
+    cursor: "pointer",
+  };
+
+  const highlight = (e: React.MouseEvent<HTMLButtonElement>, active: boolean) => {
+    e.currentTarget.style.background = active ? "var(--theme-bg-hover)" : "none";
+  };
+
+  const renderRow = (
+    key: string,
+    icon: React.ReactNode,
+    title: string,
+    subtitle: string,
+    onClick: (() => void) | null,
+  ) => (
+    <button
+      key={key}
+      type="button"
+      style={{ ...rowStyles, opacity: onClick ? 1 : 0.5, cursor: onClick ? "pointer" : "default" }}
+      onClick={onClick ?? undefined}
+      disabled={!onClick}
+      onMouseEnter={(e) => onClick && highlight(e, true)}
+      onMouseLeave={(e) => highlight(e, false)}
+    >
+      {icon}
+      <div style={{ minWidth: 0, flex: 1 }}>
+        <div style={{ overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}>
+          {title}
+        </div>
+        <div style={{ fontSize: "11px", color: "var(--theme-text-secondary)" }}>{subtitle}</div>
+      </div>
+    </button>
+  );
+
+  return (
+    <div
+      style={{
+        width: "320px",
+        padding: "12px 4px",
+        background: "var(--theme-bg-primary)",
+        color: "var(--theme-text-primary)",
+        fontFamily: "system-ui, -apple-system, sans-serif",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: "8px", padding: "0 12px" }}>
+        <img src={chrome.runtime.getURL("icon-64.png")} alt="" style={{ width: "24px", height: "24px" }} />
+        <span style={{ fontSize: "15px", fontWeight: "bold" }}>Excali Organizer</span>
+      </div>
+
+      {error && (
+        <div style={{ margin: "12px 12px 0", fontSize: "13px", color: "var(--theme-error, #ef4444)" }}>
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div style={{ padding: "16px 12px", fontSize: "13px", color: "var(--theme-text-secondary)" }}>
+          Loading...
+        </div>
+      ) : (
+        <>
+          <div style={sectionTitleStyles}>Recent canvases</div>
+          {recentCanvases.length === 0 ? (
+            <div style={{ padding: "4px 12px", fontSize: "13px", color: "var(--theme-text-secondary)" }}>
+              No canvases yet
+            </div>
+          ) : (
+            recentCanvases.map((canvas) =>
+              renderRow(
+                canvas.id,
+                <FileText size={16} style={{ flexShrink: 0, color: "var(--theme-text-secondary)" }} />,
+                canvas.name,
+                [
+                  canvas.projectId ? projectNames.get(canvas.projectId) : null,
+                  formatDate(new Date(canvas.lastEditedAt || canvas.updatedAt)),
+                ]
+                  .filter(Boolean)
+                  .join(" · "),
+                () => open(canvas.id),
+              ),
+            )
+          )}
+
+          {recentProjects.length > 0 && (
+            <>
+              <div style={sectionTitleStyles}>Projects</div>
+              {recentProjects.map(({ project, latestCanvas }) =>
+                renderRow(
+                  project.id,
+                  <Folder size={16} style={{ flexShrink: 0, color: project.color }} />,
+                  project.name,
+                  latestCanvas
+                    ? `${project.canvasIds.length} canvases · opens "${latestCanvas.name}"`
+                    : "No canvases",
+                  latestCanvas ? () => open(latestCanvas.id) : null,
+                ),
+              )}
+            </>
+          )}
+        </>
+      )}
+
+      <div
+        style={{
+          display: "flex",
+          justifyContent: "space-between",
+          marginTop: "12px",
+          padding: "12px 12px 0",
+          borderTop: "1px solid var(--theme-border-primary)",
+        }}
+      >
+        <button type="button" style={footerButtonStyles} onClick={() => open()}>
+          <ExternalLink size={14} />
+          Open Excalidraw
+        </button>
+        <button
+          type="button"
+          style={footerButtonStyles}
+          onClick={() => chrome.runtime.openOptionsPage()}
+        >
+          <Settings size={14} />
+          Options
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+/// <reference types="chrome"/>
+
+import { settingsOperations } from "../shared/storage-client";
+import {
+  EXCALIDRAW_TAB_PATTERN,
+  EXCALIDRAW_URL,
+  OpenCanvasMessage,
+  PENDING_OPEN_CANVAS_SETTING,
+} from "../shared/extension-messages";
+
+/**
+ * The excalidraw.com tab to use: the active one in this window, any in this window, then any
+ */
+async function findExcalidrawTab(): Promise<chrome.tabs.Tab | undefined> {
+  const [tabs, currentWindow] = await Promise.all([
+    chrome.tabs.query({ url: EXCALIDRAW_TAB_PATTERN }),
+    chrome.windows.getCurrent(),
+  ]);
+  const inThisWindow = tabs.filter((tab) => tab.windowId === currentWindow.id);
+  return inThisWindow.find((tab) => tab.active) ?? inThisWindow[0] ?? tabs[0];
+}
+
+/**
+ * Show a canvas (or just Excalidraw, without a canvas id) in an excalidraw.com tab,
+ * switching an open tab over or opening a new one
+ */
+export async function openInExcalidraw(canvasId?: string): Promise<void> {
+  const tab = await findExcalidrawTab();
+
+  if (!tab?.id) {
+    if (canvasId) {
+      await settingsOperations.setSetting(PENDING_OPEN_CANVAS_SETTING, canvasId);
+    }
+    await chrome.tabs.create({ url: EXCALIDRAW_URL });
+    return;
+  }
+
+  if (canvasId) {
+    const message: OpenCanvasMessage = { type: "EXCALI_ORG_OPEN_CANVAS", canvasId };
+    try {
+      await chrome.tabs.sendMessage(tab.id, message);
+    } catch {
+      // No content script in the tab (opened before the extension was installed or updated)
+      await settingsOperations.setSetting(PENDING_OPEN_CANVAS_SETTING, canvasId);
+      await chrome.tabs.reload(tab.id);
+    }
+  }
+
+  await chrome.tabs.update(tab.id, { active: true });
+  await chrome.windows.update(tab.windowId, { focused: true });
+}
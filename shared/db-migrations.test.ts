@@ -0,0 +1,298 @@
+import "fake-indexeddb/auto";
+import Dexie from "dexie";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import {
+  DB_MIGRATIONS,
+  DbMigration,
+  LATEST_DB_VERSION,
+  MIGRATION_STATUS_SETTING,
+  assertMigrationOrder,
+  getPendingMigrations,
+} from "./db-migrations";
+import {
+  canvasOperations,
+  initializeDatabase,
+  migrationOperations,
+  settingsOperations,
+  unifiedDb,
+} from "./unified-db";
+
+let fixtureCount = 0;
+const openDatabases: Dexie[] = [];
+
+/**
+ * A database with the registry's schema up to the given version, upgrades included
+ */
+const databaseAt = (name: string, version: number, migrations: DbMigration[] = DB_MIGRATIONS) => {
+  const db = new Dexie(name);
+  for (const migration of migrations.filter((m) => m.version <= version)) {
+    const dexieVersion = db.version(migration.version).stores(migration.stores);
+    if (migration.upgrade) {
+      dexieVersion.upgrade(migration.upgrade);
+    }
+  }
+  openDatabases.push(db);
+  return db;
+};
+
+/**
+ * Write records into a new database at fromVersion, then open it at toVersion
+ */
+async function upgradeFixture(
+  fromVersion: number,
+  records: Record<string, unknown[]>,
+  toVersion = fromVersion + 1,
+  migrations: DbMigration[] = DB_MIGRATIONS,
+): Promise<Dexie> {
+  const name = `MigrationFixture${++fixtureCount}`;
+  const fixture = databaseAt(name, fromVersion, migrations);
+  await fixture.open();
+  for (const [table, rows] of Object.entries(records)) {
+    await fixture.table(table).bulkAdd(rows);
+  }
+  fixture.close();
+
+  const upgraded = databaseAt(name, toVersion, migrations);
+  await upgraded.open();
+  return upgraded;
+}
+
+const date = new Date("2024-03-01T10:00:00Z");
+
+afterEach(() => {
+  openDatabases.splice(0).forEach((db) => db.close());
+});
+
+describe("migration registry", () => {
+  it("is in order and ends at the latest version", () => {
+    expect(() => assertMigrationOrder(DB_MIGRATIONS)).not.toThrow();
+    expect(DB_MIGRATIONS[DB_MIGRATIONS.length - 1]?.version).toBe(LATEST_DB_VERSION);
+  });
+
+  it("rejects versions that are out of order or not positive integers", () => {
+    expect(() =>
+      assertMigrationOrder([
+        { version: 2, description: "b", stores: {} },
+        { version: 1, description: "a", stores: {} },
+      ]),
+    ).toThrow("must come after");
+    expect(() => assertMigrationOrder([{ version: 1.5, description: "a", stores: {} }])).toThrow(
+      "positive integer",
+    );
+  });
+
+  it("lists the migrations after a version", () => {
+    expect(getPendingMigrations(LATEST_DB_VERSION)).toEqual([]);
+    expect(getPendingMigrations(7).map((m) => m.version)).toEqual([8, 9, 10]);
+    expect(getPendingMigrations(0)).toHaveLength(DB_MIGRATIONS.length);
+  });
+});
+
+describe("version 5: canvas tags", () => {
+  it("gives canvases without tags an empty tag list and keeps existing tags", async () => {
+    const db = await upgradeFixture(4, {
+      canvases: [
+        { id: "a", name: "A", createdAt: date, updatedAt: date, elements: [] },
+        { id: "b", name: "B", createdAt: date, updatedAt: date, elements: [], tags: ["work"] },
+        { id: "c", name: "C", createdAt: date, updatedAt: date, elements: [], tags: "work" },
+      ],
+    });
+
+    expect(await db.table("canvases").get("a")).toMatchObject({ tags: [] });
+    expect(await db.table("canvases").get("b")).toMatchObject({ tags: ["work"] });
+    expect(await db.table("canvases").get("c")).toMatchObject({ tags: [] });
+    expect((await db.table("canvases").where("tags").equals("work").toArray()).map((c) => c.id)).toEqual([
+      "b",
+    ]);
+  });
+});
+
+describe("version 7: nested projects", () => {
+  it("clears parentIds that cannot be a project id", async () => {
+    const project = (id: string, extra: Record<string, unknown>) => ({
+      id,
+      name: `Project ${id}`,
+      color: "#000",
+      createdAt: date,
+      canvasIds: [],
+      ...extra,
+    });
+    const db = await upgradeFixture(6, {
+      projects: [
+        project("null", { parentId: null }),
+        project("empty", { parentId: "" }),
+        project("top", {}),
+        project("child", { parentId: "top" }),
+      ],
+    });
+
+    const projects = db.table("projects");
+    expect("parentId" in (await projects.get("null"))).toBe(false);
+    expect("parentId" in (await projects.get("empty"))).toBe(false);
+    expect("parentId" in (await projects.get("top"))).toBe(false);
+    expect(await projects.get("child")).toMatchObject({ parentId: "top" });
+    expect((await projects.where("parentId").equals("top").toArray()).map((p) => p.id)).toEqual(["child"]);
+  });
+});
+
+describe("version 9: legacy dates and lists", () => {
+  it("turns string and number dates into Dates and backfills missing lists", async () => {
+    const db = await upgradeFixture(8, {
+      canvases: [
+        {
+          id: "legacy",
+          name: "Legacy",
+          createdAt: "2023-05-01T08:00:00.000Z",
+          updatedAt: Date.parse("2023-06-01T08:00:00.000Z"),
+          lastEditedAt: "not a date",
+        },
+        { id: "current", name: "Current", createdAt: date, updatedAt: date, elements: [{ id: "x" }] },
+      ],
+      projects: [{ id: "p", name: "P", color: "#000", createdAt: "2023-01-01T00:00:00.000Z" }],
+    });
+
+    const legacy = await db.table("canvases").get("legacy");
+    expect(legacy.createdAt).toEqual(new Date("2023-05-01T08:00:00.000Z"));
+    expect(legacy.updatedAt).toEqual(new Date("2023-06-01T08:00:00.000Z"));
+    expect(legacy.lastEditedAt).toBe("not a date"); // Left for the workspace check
+    expect(legacy.elements).toEqual([]);
+
+    expect(await db.table("canvases").get("current")).toMatchObject({
+      createdAt: date,
+      updatedAt: date,
+      elements: [{ id: "x" }],
+    });
+
+    const project = await db.table("projects").get("p");
+    expect(project.createdAt).toEqual(new Date("2023-01-01T00:00:00.000Z"));
+    expect(project.canvasIds).toEqual([]);
+
+    // String dates sort apart from Dates in the index; after the upgrade both are listed in date order
+    const byUpdatedAt = await db.table("canvases").orderBy("updatedAt").toArray();
+    expect(byUpdatedAt.map((c) => c.id)).toEqual(["legacy", "current"]);
+  });
+});
+
+describe("upgrades", () => {
+  it("brings a version 1 database to the latest version through every upgrade", async () => {
+    const db = await upgradeFixture(
+      1,
+      {
+        canvases: [{ id: "a", name: "A", createdAt: "2023-01-01T00:00:00.000Z", updatedAt: date }],
+        projects: [{ id: "p", name: "P", color: "#000", createdAt: date, parentId: null }],
+      },
+      LATEST_DB_VERSION,
+    );
+
+    expect(db.verno).toBe(LATEST_DB_VERSION);
+    expect(await db.table("canvases").get("a")).toEqual({
+      id: "a",
+      name: "A",
+      createdAt: new Date("2023-01-01T00:00:00.000Z"),
+      updatedAt: date,
+      elements: [],
+      tags: [],
+    });
+    expect(await db.table("projects").get("p")).toEqual({
+      id: "p",
+      name: "P",
+      color: "#000",
+      createdAt: date,
+      canvasIds: [],
+    });
+  });
+
+  it("leaves the database at its old version and contents when an upgrade fails", async () => {
+    const failing: DbMigration[] = [
+      ...DB_MIGRATIONS.filter((m) => m.version <= 8),
+      {
+        version: 9,
+        description: "Fails halfway",
+        stores: {},
+        upgrade: async (tx) => {
+          await tx.table("canvases").toCollection().modify({ name: "Changed" });
+          throw new Error("upgrade failed");
+        },
+      },
+    ];
+    const name = `MigrationFixture${++fixtureCount}`;
+    const fixture = databaseAt(name, 8, failing);
+    await fixture.open();
+    await fixture.table("canvases").add({ id: "a", name: "A", createdAt: date, updatedAt: date, elements: [] });
+    fixture.close();
+
+    await expect(databaseAt(name, 9, failing).open()).rejects.toThrow("upgrade failed");
+
+    const reopened = new Dexie(name);
+    openDatabases.push(reopened);
+    await reopened.open();
+    expect(reopened.verno).toBe(8);
+    expect(await reopened.table("canvases").get("a")).toMatchObject({ name: "A" });
+  });
+});
+
+describe("initializeDatabase and restoreFromMigrationBackup", () => {
+  const fixtureCanvas = { id: "a", name: "Before upgrade", createdAt: date, updatedAt: date, elements: [] };
+
+  beforeAll(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("has nothing to restore before any upgrade", async () => {
+    await expect(migrationOperations.restoreFromMigrationBackup()).rejects.toThrow(
+      "Could not restore the migration backup",
+    );
+  });
+
+  it("backs the database up, upgrades it, and restores the backup", async () => {
+    const fixture = databaseAt(unifiedDb.name, 8);
+    await fixture.open();
+    await fixture.table("canvases").add(fixtureCanvas);
+    fixture.close();
+
+    await initializeDatabase();
+    expect(await settingsOperations.getSetting(MIGRATION_STATUS_SETTING)).toMatchObject({
+      fromVersion: 8,
+      toVersion: LATEST_DB_VERSION,
+      backedUp: true,
+    });
+    expect((await migrationOperations.getStatus()).backup).toMatchObject({ version: 8, recordCount: 1 });
+
+    await canvasOperations.updateCanvas({ ...fixtureCanvas, name: "After upgrade" }, fixtureCanvas.elements);
+
+    const restored = await migrationOperations.restoreFromMigrationBackup();
+    expect(restored.version).toBe(8);
+    expect(unifiedDb.isOpen()).toBe(false);
+    expect((await migrationOperations.getStatus()).currentVersion).toBe(8);
+
+    const installed = new Dexie(unifiedDb.name);
+    openDatabases.push(installed);
+    await installed.open();
+    expect(installed.verno).toBe(8);
+    expect(await installed.table("canvases").toArray()).toEqual([fixtureCanvas]);
+    expect(await installed.table("settings").get(MIGRATION_STATUS_SETTING)).toBeUndefined();
+    installed.close();
+
+    // The next start upgrades the restored database again
+    await initializeDatabase();
+    expect(unifiedDb.verno).toBe(LATEST_DB_VERSION);
+    expect(await canvasOperations.getCanvas("a")).toMatchObject({ name: "Before upgrade" });
+    unifiedDb.close();
+  });
+
+  it("keeps why the database failed to open across a restart until it opens", async () => {
+    vi.spyOn(unifiedDb, "open").mockRejectedValueOnce(new Error("Upgrade failed"));
+    await expect(initializeDatabase()).rejects.toThrow("Database initialization failed");
+    expect((await migrationOperations.getStatus()).lastError).toBe("Upgrade failed");
+
+    // A new service worker starts with fresh module state
+    vi.resetModules();
+    const restarted = await import("./unified-db");
+    expect((await restarted.migrationOperations.getStatus()).lastError).toBe("Upgrade failed");
+
+    await initializeDatabase();
+    expect((await migrationOperations.getStatus()).lastError).toBeNull();
+    unifiedDb.close();
+  });
+});
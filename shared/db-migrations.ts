@@ -0,0 +1,180 @@
+/**
+ * Ordered schema and data migrations for the unified database (shared/unified-db.ts).
+ * Every change to a table's indexes or to the shape of stored records gets a new
+ * entry here with the next version number; existing entries' stores must never change.
+ * An upgrade added to an existing entry only reaches databases still below its version,
+ * so it must leave records in the current shape untouched.
+ */
+
+import type { Transaction } from "dexie";
+import {
+  backfillCanvasTags,
+  normalizeProjectParent,
+  rewriteLegacyCanvasFields,
+  rewriteLegacyProjectFields,
+} from "./record-upgrades";
+
+export interface DbMigration {
+  version: number;
+  description: string; // Shown in the options page diagnostics
+  stores: Record<string, string | null>; // Tables added or re-indexed at this version (null drops one)
+  // Rewrites stored records; runs inside the upgrade transaction, so a throw rolls the whole upgrade back
+  upgrade?: (tx: Transaction) => Promise<void>;
+}
+
+// Runs a record rewrite from record-upgrades.ts over every record of a table
+const rewriteTable = async (
+  tx: Transaction,
+  tableName: string,
+  rewrite: (record: Record<string, unknown>) => void,
+): Promise<void> => {
+  await tx.table(tableName).toCollection().modify((record: Record<string, unknown>) => rewrite(record));
+};
+
+export const DB_MIGRATIONS: DbMigration[] = [
+  {
+    version: 1,
+    description: "Canvases, projects and settings",
+    stores: {
+      // Canvases table with indexes for performance
+      canvases: "id, name, projectId, createdAt, updatedAt, lastEditedAt",
+
+      // Projects table with indexes (name is unique)
+      projects: "id, &name, createdAt, updatedAt, color, description",
+
+      // Settings table for app preferences
+      settings: "key, updatedAt",
+    },
+  },
+  {
+    version: 2,
+    description: "Embedded image files",
+    stores: {
+      // Embedded binary files, multi-entry indexed by the canvases referencing them
+      files: "id, *canvasIds, createdAt",
+    },
+  },
+  {
+    version: 3,
+    description: "Canvas version history",
+    stores: {
+      // Content snapshots for version history, listed per canvas by time
+      canvasVersions: "id, canvasId, createdAt, [canvasId+createdAt]",
+    },
+  },
+  {
+    version: 4,
+    description: "Trash bin",
+    stores: {
+      // Soft-deleted canvases and projects; parentId links canvases trashed with their project
+      trash: "id, type, deletedAt, parentId",
+    },
+  },
+  {
+    version: 5,
+    description: "Canvas tags",
+    stores: {
+      // Multi-entry tag index so canvases can be looked up by any of their tags
+      canvases: "id, name, projectId, createdAt, updatedAt, lastEditedAt, *tags",
+    },
+    upgrade: (tx) => rewriteTable(tx, "canvases", backfillCanvasTags),
+  },
+  {
+    version: 6,
+    description: "Full-text search index",
+    stores: {
+      // Full-text inverted index: the multi-entry terms index maps each word to its canvases
+      searchIndex: "canvasId, *terms",
+    },
+  },
+  {
+    version: 7,
+    description: "Nested projects",
+    stores: {
+      // parentId nests projects; indexed so a project's subprojects can be looked up
+      projects: "id, &name, createdAt, updatedAt, color, description, parentId",
+    },
+    upgrade: (tx) => rewriteTable(tx, "projects", normalizeProjectParent),
+  },
+  {
+    version: 8,
+    description: "Canvas templates",
+    stores: {
+      // Reusable canvas templates, grouped by category in the picker
+      templates: "id, name, category, createdAt",
+    },
+  },
+  {
+    version: 9,
+    description: "Legacy dates and lists",
+    stores: {}, // Data only; the indexes stay as they are
+    upgrade: async (tx) => {
+      await rewriteTable(tx, "canvases", rewriteLegacyCanvasFields);
+      await rewriteTable(tx, "projects", rewriteLegacyProjectFields);
+    },
+  },
+  {
+    version: 10,
+    description: "Favorites",
+    stores: {
+      // favoriteRank orders the starred canvases and projects; only starred records are indexed
+      canvases: "id, name, projectId, createdAt, updatedAt, lastEditedAt, *tags, favoriteRank",
+      projects: "id, &name, createdAt, updatedAt, color, description, parentId, favoriteRank",
+    },
+  },
+];
+
+export const LATEST_DB_VERSION = DB_MIGRATIONS[DB_MIGRATIONS.length - 1]?.version ?? 0;
+
+// Settings key of the last MigrationRun
+export const MIGRATION_STATUS_SETTING = "schemaMigrationStatus";
+
+// The database copy taken before the last upgrade, kept until the next one
+export const MIGRATION_BACKUP_DB_NAME = "ExcaliOrgMigrationBackup";
+
+export interface MigrationRun {
+  fromVersion: number; // 0 for a new install
+  toVersion: number;
+  applied: { version: number; description: string }[];
+  backedUp: boolean;
+  completedAt: Date;
+}
+
+export interface MigrationBackupInfo {
+  version: number;
+  tableCount: number;
+  recordCount: number;
+  createdAt: Date;
+}
+
+export interface MigrationStatus {
+  currentVersion: number; // 0 when the database could not be read
+  latestVersion: number;
+  lastRun: MigrationRun | null;
+  backup: MigrationBackupInfo | null;
+  lastError: string | null; // Why the last upgrade failed; the database stays at currentVersion
+}
+
+/**
+ * The migrations that bring a database at fromVersion up to date, in order
+ */
+export function getPendingMigrations(fromVersion: number): DbMigration[] {
+  return DB_MIGRATIONS.filter((migration) => migration.version > fromVersion);
+}
+
+/**
+ * Guard against registry mistakes that Dexie would only report at open time
+ */
+export function assertMigrationOrder(migrations: DbMigration[]): void {
+  migrations.forEach((migration, index) => {
+    const previous = migrations[index - 1];
+    if (!Number.isInteger(migration.version) || migration.version < 1) {
+      throw new Error(`Migration version ${migration.version} must be a positive integer`);
+    }
+    if (previous && migration.version <= previous.version) {
+      throw new Error(
+        `Migration ${migration.version} must come after ${previous.version} with a higher version`,
+      );
+    }
+  });
+}
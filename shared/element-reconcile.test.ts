@@ -0,0 +1,217 @@
+import { describe, expect, it, vi } from "vitest";
+import { getElementMergeLog, logElementMerge, reconcileElements } from "./element-reconcile";
+import type { ExcalidrawElement } from "./excalidraw-types";
+
+const element = (id: string, version = 1, versionNonce = 100): ExcalidrawElement =>
+  ({ id, type: "rectangle", version, versionNonce }) as unknown as ExcalidrawElement;
+
+const ids = (elements: readonly ExcalidrawElement[]) => elements.map((e) => e.id);
+
+describe("reconcileElements", () => {
+  it("leaves elements both sides have in the same revision out of the decisions", () => {
+    const result = reconcileElements([element("a"), element("b")], [element("a"), element("b")]);
+
+    expect(ids(result.elements)).toEqual(["a", "b"]);
+    expect(result.decisions).toEqual([]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  describe("merge reasons", () => {
+    it("stored-only-change: the stored side changed an element the incoming side left as in the base", () => {
+      const base = [element("a", 1)];
+      const result = reconcileElements([element("a", 2)], [element("a", 1)], base);
+
+      expect(result.elements).toEqual([element("a", 2)]);
+      expect(result.decisions).toEqual([
+        { id: "a", kept: "stored", reason: "stored-only-change", conflict: false },
+      ]);
+    });
+
+    it("incoming-only-change: the incoming side changed an element the stored side left as in the base", () => {
+      const base = [element("a", 1)];
+      const result = reconcileElements([element("a", 1)], [element("a", 3)], base);
+
+      expect(result.elements).toEqual([element("a", 3)]);
+      expect(result.decisions).toEqual([
+        { id: "a", kept: "incoming", reason: "incoming-only-change", conflict: false },
+      ]);
+    });
+
+    it("stored-only-change and incoming-only-change: an element added on one side", () => {
+      const base = [element("a")];
+      const result = reconcileElements(
+        [element("a"), element("s")],
+        [element("a"), element("i")],
+        base,
+      );
+
+      expect(ids(result.elements).sort()).toEqual(["a", "i", "s"]);
+      expect(result.decisions).toEqual([
+        { id: "s", kept: "stored", reason: "stored-only-change", conflict: false },
+        { id: "i", kept: "incoming", reason: "incoming-only-change", conflict: false },
+      ]);
+    });
+
+    it("removed: one side dropped an element the other left as in the base", () => {
+      const base = [element("a"), element("b"), element("c")];
+      const result = reconcileElements([element("a"), element("c")], [element("a"), element("b")], base);
+
+      expect(ids(result.elements)).toEqual(["a"]);
+      expect(result.decisions).toEqual([
+        { id: "c", kept: "none", reason: "removed", conflict: false },
+        { id: "b", kept: "none", reason: "removed", conflict: false },
+      ]);
+    });
+
+    it("newer-version: both changed an element and the higher version wins", () => {
+      const base = [element("a", 1), element("b", 1)];
+      const result = reconcileElements(
+        [element("a", 5), element("b", 2)],
+        [element("a", 3), element("b", 4)],
+        base,
+      );
+
+      expect(result.elements).toEqual([element("a", 5), element("b", 4)]);
+      expect(result.decisions).toEqual([
+        { id: "a", kept: "stored", reason: "newer-version", conflict: true },
+        { id: "b", kept: "incoming", reason: "newer-version", conflict: true },
+      ]);
+      expect(result.conflicts).toEqual(["a", "b"]);
+    });
+
+    it("version-tie: both changed an element to the same version", () => {
+      const result = reconcileElements([element("a", 2, 7)], [element("a", 2, 9)], [element("a", 1)]);
+
+      expect(result.decisions).toEqual([
+        { id: "a", kept: "stored", reason: "version-tie", conflict: true },
+      ]);
+    });
+  });
+
+  describe("version ties", () => {
+    it("keeps the lower versionNonce, whichever side it is on", () => {
+      const lowStored = reconcileElements([element("a", 4, 10)], [element("a", 4, 20)]);
+      const lowIncoming = reconcileElements([element("a", 4, 20)], [element("a", 4, 10)]);
+
+      expect(lowStored.elements).toEqual([element("a", 4, 10)]);
+      expect(lowStored.decisions[0]).toMatchObject({ kept: "stored", reason: "version-tie" });
+      expect(lowIncoming.elements).toEqual([element("a", 4, 10)]);
+      expect(lowIncoming.decisions[0]).toMatchObject({ kept: "incoming", reason: "version-tie" });
+    });
+
+    it("settles the same way no matter which save is stored", () => {
+      const first = element("a", 3, 111);
+      const second = element("a", 3, 222);
+
+      expect(reconcileElements([first], [second]).elements).toEqual(
+        reconcileElements([second], [first]).elements,
+      );
+    });
+  });
+
+  describe("z-order", () => {
+    it("follows the incoming order", () => {
+      const result = reconcileElements(
+        [element("a"), element("b"), element("c")],
+        [element("c"), element("a"), element("b")],
+      );
+
+      expect(ids(result.elements)).toEqual(["c", "a", "b"]);
+    });
+
+    it("places elements only the stored side kept after the element they followed there", () => {
+      const base = [element("a"), element("b"), element("c")];
+      const result = reconcileElements(
+        [element("s1"), element("a"), element("b"), element("s2"), element("s3"), element("c")],
+        [element("c"), element("a"), element("b"), element("i")],
+        base,
+      );
+
+      expect(ids(result.elements)).toEqual(["s1", "c", "a", "b", "s2", "s3", "i"]);
+    });
+
+    it("skips over removed elements when placing stored ones", () => {
+      const base = [element("a"), element("b")];
+      const result = reconcileElements(
+        [element("a"), element("b"), element("s")],
+        [element("a")],
+        base,
+      );
+
+      expect(ids(result.elements)).toEqual(["a", "s"]);
+    });
+  });
+
+  describe("with and without a base", () => {
+    it("without a base, keeps an element the other side deleted", () => {
+      // Excalidraw leaves deleted elements out of what it saves
+      const result = reconcileElements([element("a")], [element("a"), element("gone")]);
+
+      expect(ids(result.elements)).toEqual(["a", "gone"]);
+      expect(result.decisions).toEqual([
+        { id: "gone", kept: "incoming", reason: "incoming-only-change", conflict: false },
+      ]);
+    });
+
+    it("with a base, drops an element the other side deleted", () => {
+      const base = [element("a"), element("gone")];
+      const result = reconcileElements([element("a")], [element("a"), element("gone")], base);
+
+      expect(ids(result.elements)).toEqual(["a"]);
+      expect(result.decisions).toEqual([
+        { id: "gone", kept: "none", reason: "removed", conflict: false },
+      ]);
+    });
+
+    it("with a base, keeps an element one side deleted and the other edited, as a conflict", () => {
+      const base = [element("a", 1)];
+      const result = reconcileElements([], [element("a", 2)], base);
+
+      expect(result.elements).toEqual([element("a", 2)]);
+      expect(result.decisions).toEqual([
+        { id: "a", kept: "incoming", reason: "incoming-only-change", conflict: true },
+      ]);
+      expect(result.conflicts).toEqual(["a"]);
+    });
+
+    it("without a base, settles differing revisions by version and reports no conflicts", () => {
+      const result = reconcileElements([element("a", 1)], [element("a", 2)]);
+
+      expect(result.elements).toEqual([element("a", 2)]);
+      expect(result.decisions).toEqual([
+        { id: "a", kept: "incoming", reason: "newer-version", conflict: false },
+      ]);
+      expect(result.conflicts).toEqual([]);
+    });
+
+    it("with a base, a one-sided change wins even at a lower version", () => {
+      // The stored side is still the base revision, so only the incoming side changed
+      const base = [element("a", 9)];
+      const result = reconcileElements([element("a", 9)], [element("a", 2)], base);
+
+      expect(result.elements).toEqual([element("a", 2)]);
+      expect(result.decisions[0]).toMatchObject({ reason: "incoming-only-change", conflict: false });
+    });
+  });
+});
+
+describe("logElementMerge", () => {
+  it("records the merge in the merge log", () => {
+    vi.spyOn(console, "info").mockImplementation(() => {});
+    const stored = [element("a", 2)];
+    const incoming = [element("a", 1), element("b")];
+    const result = reconcileElements(stored, incoming);
+
+    logElementMerge("canvas-1", "test", stored, incoming, result);
+
+    expect(getElementMergeLog().at(-1)).toMatchObject({
+      canvasId: "canvas-1",
+      source: "test",
+      stored: 1,
+      incoming: 2,
+      merged: 2,
+      decisions: result.decisions,
+      conflicts: [],
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import type { ExcalidrawElement } from './excalidraw-types';
+
+/**
+ * Per-element merging of two saves of the same canvas, following Excalidraw's
+ * collaboration reconcile: every change to an element bumps its `version` and
+ * re-rolls its `versionNonce`, so the higher version wins and equal versions
+ * are settled by the lower nonce, the same way on every client.
+ *
+ * With the common ancestor (`base`) an element changed on one side only always
+ * takes that side's change; elements changed on both sides are reported as conflicts.
+ */
+
+export type ElementMergeReason =
+  | "stored-only-change" // Only the stored save changed (or added) the element
+  | "incoming-only-change" // Only the incoming save changed (or added) the element
+  | "removed" // Dropped by one side and left untouched by the other
+  | "newer-version" // Both changed it; the higher version won
+  | "version-tie"; // Both changed it to the same version; the lower nonce won
+
+export interface ElementMergeDecision {
+  id: string;
+  kept: "stored" | "incoming" | "none";
+  reason: ElementMergeReason;
+  conflict: boolean; // Both sides changed the element since the base
+}
+
+export interface ElementMergeResult {
+  elements: ExcalidrawElement[];
+  decisions: ElementMergeDecision[]; // Elements identical on both sides are left out
+  conflicts: string[]; // Ids of elements both sides changed
+}
+
+export interface ElementMergeLogEntry {
+  canvasId: string;
+  source: string;
+  mergedAt: Date;
+  stored: number;
+  incoming: number;
+  merged: number;
+  decisions: ElementMergeDecision[];
+  conflicts: string[];
+}
+
+const MAX_MERGE_LOG_ENTRIES = 50;
+const mergeLog: ElementMergeLogEntry[] = [];
+
+const isSameRevision = (a: ExcalidrawElement, b: ExcalidrawElement): boolean =>
+  a.version === b.version && a.versionNonce === b.versionNonce;
+
+const toMap = (elements: readonly ExcalidrawElement[]): Map<string, ExcalidrawElement> =>
+  new Map(elements.map((element) => [element.id, element]));
+
+/**
+ * Excalidraw's tie-break: the higher version wins, then the lower versionNonce
+ */
+const prefersStored = (stored: ExcalidrawElement, incoming: ExcalidrawElement): boolean =>
+  stored.version > incoming.version ||
+  (stored.version === incoming.version && stored.versionNonce < incoming.versionNonce);
+
+/**
+ * Merge the stored and incoming element arrays of a canvas per element id.
+ * Without a base, every element both sides have in different revisions is
+ * settled by version, as Excalidraw does between collaborators.
+ */
+export function reconcileElements(
+  stored: readonly ExcalidrawElement[],
+  incoming: readonly ExcalidrawElement[],
+  base?: readonly ExcalidrawElement[],
+): ElementMergeResult {
+  const storedById = toMap(stored);
+  const incomingById = toMap(incoming);
+  const baseById = base ? toMap(base) : null;
+
+  const kept = new Map<string, ExcalidrawElement>();
+  const decisions: ElementMergeDecision[] = [];
+  const conflicts: string[] = [];
+
+  const decide = (
+    id: string,
+    element: ExcalidrawElement | null,
+    decision: Omit<ElementMergeDecision, "id">,
+  ) => {
+    if (element) {
+      kept.set(id, element);
+    }
+    decisions.push({ id, ...decision });
+    if (decision.conflict) {
+      conflicts.push(id);
+    }
+  };
+
+  for (const id of new Set([...storedById.keys(), ...incomingById.keys()])) {
+    const storedElement = storedById.get(id);
+    const incomingElement = incomingById.get(id);
+    const baseElement = baseById?.get(id);
+
+    if (storedElement && incomingElement) {
+      if (isSameRevision(storedElement, incomingElement)) {
+        kept.set(id, incomingElement);
+      } else if (baseElement && isSameRevision(baseElement, storedElement)) {
+        decide(id, incomingElement, { kept: "incoming", reason: "incoming-only-change", conflict: false });
+      } else if (baseElement && isSameRevision(baseElement, incomingElement)) {
+        decide(id, storedElement, { kept: "stored", reason: "stored-only-change", conflict: false });
+      } else {
+        const keepStored = prefersStored(storedElement, incomingElement);
+        decide(id, keepStored ? storedElement : incomingElement, {
+          kept: keepStored ? "stored" : "incoming",
+          reason: storedElement.version === incomingElement.version ? "version-tie" : "newer-version",
+          conflict: !!baseById,
+        });
+      }
+      continue;
+    }
+
+    // Present on one side only: added there, or removed on the other side
+    const [side, element] = storedElement
+      ? (["stored", storedElement] as const)
+      : (["incoming", incomingElement!] as const);
+
+    if (!baseElement) {
+      decide(id, element, { kept: side, reason: `${side}-only-change`, conflict: false });
+    } else if (isSameRevision(baseElement, element)) {
+      decide(id, null, { kept: "none", reason: "removed", conflict: false });
+    } else {
+      // Removed on one side but edited on the other; the edit is kept
+      decide(id, element, { kept: side, reason: `${side}-only-change`, conflict: true });
+    }
+  }
+
+  return { elements: orderMergedElements(stored, incoming, kept), decisions, conflicts };
+}
+
+/**
+ * Incoming z-order, with elements only the stored side kept placed after
+ * the element they followed there
+ */
+function orderMergedElements(
+  stored: readonly ExcalidrawElement[],
+  incoming: readonly ExcalidrawElement[],
+  kept: Map<string, ExcalidrawElement>,
+): ExcalidrawElement[] {
+  const order = incoming.filter((element) => kept.has(element.id)).map((element) => element.id);
+  const placed = new Set(order);
+
+  let anchorId: string | null = null;
+  for (const element of stored) {
+    if (!kept.has(element.id)) {
+      continue;
+    }
+    if (!placed.has(element.id)) {
+      const anchorIndex = anchorId === null ? -1 : order.indexOf(anchorId);
+      order.splice(anchorIndex + 1, 0, element.id);
+      placed.add(element.id);
+    }
+    anchorId = element.id;
+  }
+
+  return order.map((id) => kept.get(id)!);
+}
+
+/**
+ * Record a merge in the console and in the in-memory merge log
+ */
+export function logElementMerge(
+  canvasId: string,
+  source: string,
+  stored: readonly ExcalidrawElement[],
+  incoming: readonly ExcalidrawElement[],
+  result: ElementMergeResult,
+): void {
+  const entry: ElementMergeLogEntry = {
+    canvasId,
+    source,
+    mergedAt: new Date(),
+    stored: stored.length,
+    incoming: incoming.length,
+    merged: result.elements.length,
+    decisions: result.decisions,
+    conflicts: result.conflicts,
+  };
+
+  mergeLog.push(entry);
+  if (mergeLog.length > MAX_MERGE_LOG_ENTRIES) {
+    mergeLog.shift();
+  }
+
+  const keptStored = result.decisions.filter((decision) => decision.kept === "stored").length;
+  const keptIncoming = result.decisions.filter((decision) => decision.kept === "incoming").length;
+  const removed = result.decisions.filter((decision) => decision.kept === "none").length;
+  console.info(
+    `[ElementMerge] ${source}: canvas ${canvasId} merged ${entry.stored} stored + ${entry.incoming} incoming -> ${entry.merged} elements`,
+    `(stored ${keptStored}, incoming ${keptIncoming}, removed ${removed}, conflicts ${result.conflicts.length})`,
+    result.decisions,
+  );
+}
+
+/**
+ * Recent merges, oldest first, for inspection from the console
+ */
+export function getElementMergeLog(): ElementMergeLogEntry[] {
+  return [...mergeLog];
+}
@@ -0,0 +1,21 @@
+/**
+ * Messages the extension pages (popup) send to the content script in
+ * excalidraw.com tabs over chrome.tabs.sendMessage
+ */
+
+export const EXCALIDRAW_URL = "https://excalidraw.com/";
+export const EXCALIDRAW_TAB_PATTERN = "https://excalidraw.com/*";
+
+// A tab opened just for a canvas picks the canvas up from this setting once it is ready
+export const PENDING_OPEN_CANVAS_SETTING = "pendingOpenCanvasId";
+
+export type OpenCanvasMessage = {
+  type: "EXCALI_ORG_OPEN_CANVAS";
+  canvasId: string;
+};
+
+export const isOpenCanvasMessage = (data: unknown): data is OpenCanvasMessage =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as OpenCanvasMessage).type === "EXCALI_ORG_OPEN_CANVAS" &&
+  typeof (data as OpenCanvasMessage).canvasId === "string";
@@ -0,0 +1,59 @@
+/**
+ * Messages exchanged over window.postMessage between the content script
+ * and the page-context bridge (page_script/excalidraw-page-bridge.ts).
+ * The page bridge runs in Excalidraw's own JavaScript world, so it can reach
+ * the live editor instance that the isolated content script cannot.
+ */
+
+import { ExcalidrawElement, AppState, BinaryFiles } from "./excalidraw-types";
+
+export const PAGE_BRIDGE_SOURCES = {
+  CONTENT: "excali-org-content",
+  PAGE: "excali-org-page",
+} as const;
+
+export interface PageBridgeScene {
+  elements: readonly ExcalidrawElement[];
+  appState: Partial<AppState>;
+  files: BinaryFiles;
+}
+
+export type PageBridgeRequest = {
+  source: typeof PAGE_BRIDGE_SOURCES.CONTENT;
+  type: "LOAD_SCENE";
+  requestId: string;
+  scene: PageBridgeScene;
+};
+
+export type PageBridgeResponse = {
+  source: typeof PAGE_BRIDGE_SOURCES.PAGE;
+  type: "LOAD_SCENE_RESULT";
+  requestId: string;
+  ok: boolean;
+  error?: string;
+};
+
+// Sent unprompted when this tab's editor writes its scene to localStorage.
+// Storage is shared by every excalidraw.com tab, so this is the only way to tell own writes apart.
+export type PageBridgeNotification = {
+  source: typeof PAGE_BRIDGE_SOURCES.PAGE;
+  type: "SCENE_STORED";
+};
+
+export const isPageBridgeRequest = (data: unknown): data is PageBridgeRequest =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as PageBridgeRequest).source === PAGE_BRIDGE_SOURCES.CONTENT &&
+  (data as PageBridgeRequest).type === "LOAD_SCENE";
+
+export const isPageBridgeResponse = (data: unknown): data is PageBridgeResponse =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as PageBridgeResponse).source === PAGE_BRIDGE_SOURCES.PAGE &&
+  (data as PageBridgeResponse).type === "LOAD_SCENE_RESULT";
+
+export const isPageBridgeNotification = (data: unknown): data is PageBridgeNotification =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as PageBridgeNotification).source === PAGE_BRIDGE_SOURCES.PAGE &&
+  (data as PageBridgeNotification).type === "SCENE_STORED";
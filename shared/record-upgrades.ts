@@ -0,0 +1,91 @@
+/**
+ * Rewrites of stored canvas and project records written by older versions into the
+ * current shape. Each leaves a record already in that shape untouched, so they can run
+ * over any record: on the stored tables during schema upgrades (db-migrations.ts), and
+ * on records copied over from another database (pageOriginMigrationOperations).
+ */
+
+type StoredRecord = Record<string, unknown>;
+
+const isValidDate = (value: unknown): value is Date =>
+  value instanceof Date && !Number.isNaN(value.getTime());
+
+// A stored value that is not a Date, turned into one when it parses (e.g. an ISO string from an old import)
+export const parseDate = (value: unknown): Date | undefined => {
+  if (isValidDate(value)) return value;
+  if (typeof value !== "string" && typeof value !== "number") return undefined;
+  const date = new Date(value);
+  return isValidDate(date) ? date : undefined;
+};
+
+// Dates written as ISO strings or timestamps become Dates; values that do not parse are left as they are
+const rewriteDates = (record: StoredRecord, fields: string[]) => {
+  for (const field of fields) {
+    const value = record[field];
+    if (value === undefined || value instanceof Date) continue;
+    const date = parseDate(value);
+    if (date) {
+      record[field] = date;
+    }
+  }
+};
+
+/**
+ * Every canvas gets a tag list, so the multi-entry index and tag filters see all of them
+ */
+export function backfillCanvasTags(canvas: StoredRecord): void {
+  if (!Array.isArray(canvas.tags)) {
+    canvas.tags = [];
+  }
+}
+
+/**
+ * Top-level projects have no parentId; clear values that cannot be a project id
+ * (null or "" from imports), which the parentId index would not list anyway
+ */
+export function normalizeProjectParent(project: StoredRecord): void {
+  if ("parentId" in project && (typeof project.parentId !== "string" || project.parentId === "")) {
+    delete project.parentId;
+  }
+}
+
+/**
+ * Canvases from old imports and early versions with string dates (which the date
+ * indexes sort apart from real dates) or without an element list
+ */
+export function rewriteLegacyCanvasFields(canvas: StoredRecord): void {
+  rewriteDates(canvas, ["createdAt", "updatedAt", "lastEditedAt"]);
+  if (!Array.isArray(canvas.elements)) {
+    canvas.elements = [];
+  }
+}
+
+/**
+ * Projects from old imports and early versions with string dates or without a canvas list
+ */
+export function rewriteLegacyProjectFields(project: StoredRecord): void {
+  rewriteDates(project, ["createdAt", "updatedAt"]);
+  if (!Array.isArray(project.canvasIds)) {
+    project.canvasIds = [];
+  }
+}
+
+/**
+ * Copy of a record from a database of any version, in the current shape.
+ * Records of tables other than canvases and projects are returned as they are.
+ */
+export function upgradeStoredRecord(tableName: string, record: unknown): unknown {
+  if (typeof record !== "object" || record === null) {
+    return record;
+  }
+
+  const upgraded: StoredRecord = { ...record };
+  if (tableName === "canvases") {
+    rewriteLegacyCanvasFields(upgraded);
+    backfillCanvasTags(upgraded);
+  } else if (tableName === "projects") {
+    rewriteLegacyProjectFields(upgraded);
+    normalizeProjectParent(upgraded);
+  }
+  return upgraded;
+}
@@ -0,0 +1,352 @@
+import { settingsOperations } from "./storage-client";
+import { FAVORITES_CONSTANTS, SHORTCUT_CONSTANTS } from "./utils";
+
+/**
+ * Registry of the extension's rebindable keyboard shortcuts.
+ *
+ * A binding is one or more strokes separated by spaces ("G P" is a chord: G,
+ * then P); a stroke is modifiers and a key joined by "+", e.g. "Mod+Shift+F".
+ * "Mod" is ⌘ on macOS and Ctrl elsewhere. An empty binding turns the command off.
+ * Users' changes are stored in settings as overrides of the defaults below.
+ */
+
+export type ShortcutCommandId =
+  | "togglePanel"
+  | "search"
+  | "goToProject"
+  | "recentCanvases"
+  | "nextCanvas"
+  | "previousCanvas"
+  | "newCanvas"
+  | "newFromTemplate"
+  | "duplicateCanvas"
+  | "deleteCanvas"
+  | "renameCanvas"
+  | "newProject"
+  | "help"
+  | FavoriteShortcutId;
+
+// "Open Favorite N" jumps to the Nth entry of the panel's Favorites
+export type FavoriteShortcutId = `openFavorite${1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9}`;
+
+export const FAVORITE_SHORTCUT_IDS = Array.from(
+  { length: FAVORITES_CONSTANTS.QUICK_JUMP_COUNT },
+  (_, i) => `openFavorite${i + 1}` as FavoriteShortcutId,
+);
+
+export type ShortcutGroup = "Navigation" | "Canvas Operations" | "Project Operations" | "System";
+
+export interface ShortcutCommand {
+  id: ShortcutCommandId;
+  label: string;
+  group: ShortcutGroup;
+  defaultBinding: string;
+  allowWhileTyping: boolean; // Also fires with focus in a text field or on the Excalidraw canvas
+}
+
+export type ShortcutBindings = Record<ShortcutCommandId, string>;
+
+export interface ShortcutConflict {
+  commandId: ShortcutCommandId;
+  otherCommandId: ShortcutCommandId | null; // Null when the keys belong to Excalidraw or the browser
+  reason: string;
+}
+
+export type ShortcutMatch =
+  | { type: "match"; commandId: ShortcutCommandId }
+  | { type: "prefix" } // The keys so far start a chord
+  | { type: "none" };
+
+export const SHORTCUTS_SETTING = "keyboardShortcuts";
+
+export const SHORTCUT_COMMANDS: readonly ShortcutCommand[] = [
+  { id: "togglePanel", label: "Toggle Panel", group: "Navigation", defaultBinding: "Mod+B", allowWhileTyping: true },
+  { id: "search", label: "Search", group: "Navigation", defaultBinding: "Mod+Shift+F", allowWhileTyping: true },
+  { id: "goToProject", label: "Go to Project", group: "Navigation", defaultBinding: "G P", allowWhileTyping: true },
+  { id: "recentCanvases", label: "Recent Canvases", group: "Navigation", defaultBinding: "Alt+R", allowWhileTyping: true },
+  { id: "nextCanvas", label: "Next Canvas in Project", group: "Navigation", defaultBinding: "Mod+Alt+ArrowDown", allowWhileTyping: true },
+  { id: "previousCanvas", label: "Previous Canvas in Project", group: "Navigation", defaultBinding: "Mod+Alt+ArrowUp", allowWhileTyping: true },
+  // Alt+digit is taken by tab switching in Chrome on Linux, so favorites also need Shift
+  ...FAVORITE_SHORTCUT_IDS.map((id, i): ShortcutCommand => ({
+    id,
+    label: `Open Favorite ${i + 1}`,
+    group: "Navigation",
+    defaultBinding: `Alt+Shift+${i + 1}`,
+    allowWhileTyping: true,
+  })),
+  { id: "newCanvas", label: "New Canvas", group: "Canvas Operations", defaultBinding: "Alt+N", allowWhileTyping: true },
+  { id: "newFromTemplate", label: "New from Template", group: "Canvas Operations", defaultBinding: "Alt+T", allowWhileTyping: true },
+  { id: "duplicateCanvas", label: "Duplicate Canvas", group: "Canvas Operations", defaultBinding: "Mod+Shift+D", allowWhileTyping: true },
+  { id: "deleteCanvas", label: "Delete Canvas", group: "Canvas Operations", defaultBinding: "Alt+Delete", allowWhileTyping: false },
+  { id: "renameCanvas", label: "Rename Canvas", group: "Canvas Operations", defaultBinding: "F2", allowWhileTyping: false },
+  { id: "newProject", label: "New Project", group: "Project Operations", defaultBinding: "Alt+Shift+N", allowWhileTyping: true },
+  { id: "help", label: "Help", group: "System", defaultBinding: "F1", allowWhileTyping: true },
+];
+
+export const DEFAULT_SHORTCUT_BINDINGS = Object.fromEntries(
+  SHORTCUT_COMMANDS.map((command) => [command.id, command.defaultBinding]),
+) as ShortcutBindings;
+
+// Keys Excalidraw or the browser already act on; binding them takes the key away from them
+const RESERVED_STROKES: Record<string, string> = {
+  "Mod+A": "Excalidraw's Select all",
+  "Mod+C": "Copy",
+  "Mod+D": "Excalidraw's Duplicate",
+  "Mod+F": "Excalidraw's Find on canvas",
+  "Mod+G": "Excalidraw's Group",
+  "Mod+K": "Excalidraw's Add link",
+  "Mod+L": "the browser's address bar",
+  "Mod+N": "the browser's New window",
+  "Mod+O": "Excalidraw's Open",
+  "Mod+P": "the browser's Print",
+  "Mod+Q": "quitting the browser",
+  "Mod+R": "the browser's Reload",
+  "Mod+S": "Excalidraw's Save",
+  "Mod+T": "the browser's New tab",
+  "Mod+V": "Paste",
+  "Mod+W": "the browser's Close tab",
+  "Mod+X": "Cut",
+  "Mod+Y": "Redo",
+  "Mod+Z": "Undo",
+  "Mod+/": "Excalidraw's Command palette",
+  "Mod+Shift+G": "Excalidraw's Ungroup",
+  "Mod+Shift+Z": "Redo",
+};
+
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Alt", "Meta", "AltGraph", "CapsLock", "OS"]);
+
+// Escape is left out: it always closes menus and modals
+const NAMED_KEYS = [
+  "Delete",
+  "Backspace",
+  "Enter",
+  "Tab",
+  "Space",
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Home",
+  "End",
+  "PageUp",
+  "PageDown",
+  "Insert",
+  ...Array.from({ length: 12 }, (_, i) => `F${i + 1}`),
+];
+
+const KEY_SYMBOLS: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+};
+
+export const isMacPlatform = () => /Mac|iPod|iPhone|iPad/.test(navigator.platform);
+
+// "Mod++" is Mod and the plus key
+const splitStroke = (stroke: string): string[] => {
+  if (!stroke.endsWith("+")) return stroke.split("+");
+  const modifiers = stroke.slice(0, -1).replace(/\+$/, "");
+  return [...(modifiers ? modifiers.split("+") : []), "+"];
+};
+
+const normalizeKey = (key: string): string | null => {
+  if (key === " ") return "Space";
+  if (key.length === 1) return key.toUpperCase();
+  return NAMED_KEYS.find((named) => named.toLowerCase() === key.toLowerCase()) ?? null;
+};
+
+/**
+ * Canonical form of one stroke ("shift+mod+f" becomes "Mod+Shift+F"), or null if it isn't valid
+ */
+const normalizeStroke = (stroke: string): string | null => {
+  let mod = false;
+  let alt = false;
+  let shift = false;
+  let key: string | null = null;
+
+  for (const token of splitStroke(stroke)) {
+    switch (token.toLowerCase()) {
+      case "mod":
+      case "ctrl":
+      case "cmd":
+        mod = true;
+        break;
+      case "alt":
+      case "option":
+        alt = true;
+        break;
+      case "shift":
+        shift = true;
+        break;
+      default:
+        if (key !== null) return null;
+        key = normalizeKey(token);
+        if (key === null) return null;
+    }
+  }
+
+  if (key === null) return null;
+  return [mod && "Mod", alt && "Alt", shift && "Shift", key].filter(Boolean).join("+");
+};
+
+/**
+ * The canonical strokes of a binding, [] for a disabled command, or null if the binding isn't valid
+ */
+export const parseBinding = (binding: string): string[] | null => {
+  const strokes = binding.trim().split(/\s+/).filter(Boolean);
+  if (strokes.length > SHORTCUT_CONSTANTS.MAX_CHORD_STROKES) return null;
+
+  const normalized = strokes.map(normalizeStroke);
+  return normalized.every((stroke): stroke is string => stroke !== null) ? normalized : null;
+};
+
+export const normalizeBinding = (binding: string): string | null =>
+  parseBinding(binding)?.join(" ") ?? null;
+
+/**
+ * A stroke without Mod or Alt that types a character, like "G" or "Shift+P"
+ */
+export const isBareStroke = (stroke: string): boolean => {
+  const parts = splitStroke(stroke);
+  const key = parts[parts.length - 1] ?? "";
+  return !parts.includes("Mod") && !parts.includes("Alt") && (key.length === 1 || key === "Space");
+};
+
+/**
+ * The stroke a key press makes, or null for a lone modifier or a modifier we don't bind
+ */
+export const eventToStroke = (e: KeyboardEvent): string | null => {
+  const isMac = isMacPlatform();
+  // Ctrl on macOS and the Windows key elsewhere are left to the system
+  if (isMac ? e.ctrlKey : e.metaKey) return null;
+  if (MODIFIER_KEYS.has(e.key)) return null;
+
+  // Alt on macOS turns letters into symbols (⌥N types "˜"), so fall back to the physical key
+  const codeMatch = /^(?:Key|Digit)([A-Z0-9])$/.exec(e.code);
+  const key =
+    /^[a-z0-9]$/i.test(e.key) || !codeMatch ? normalizeKey(e.key) : codeMatch[1];
+  if (!key) return null;
+
+  const mod = isMac ? e.metaKey : e.ctrlKey;
+  return [mod && "Mod", e.altKey && "Alt", e.shiftKey && "Shift", key].filter(Boolean).join("+");
+};
+
+/**
+ * Strokes of a binding as shown to the user, e.g. [["⌘", "Shift", "F"]] or [["G"], ["P"]]
+ */
+export const formatBindingKeys = (binding: string): string[][] => {
+  const isMac = isMacPlatform();
+  const names: Record<string, string> = {
+    Mod: isMac ? "⌘" : "Ctrl",
+    Alt: isMac ? "⌥" : "Alt",
+    ...KEY_SYMBOLS,
+  };
+  return (parseBinding(binding) ?? []).map((stroke) =>
+    splitStroke(stroke).map((part) => names[part] ?? part),
+  );
+};
+
+/**
+ * A binding as one line of text: "⌘ + Shift + F", "G then P", or "" when disabled
+ */
+export const formatBinding = (binding: string): string =>
+  formatBindingKeys(binding)
+    .map((keys) => keys.join(" + "))
+    .join(" then ");
+
+/**
+ * Commands whose keys collide: the same keys, one binding starting another's chord
+ * (the shorter one would always win), or keys Excalidraw or the browser need
+ */
+export function findShortcutConflicts(bindings: ShortcutBindings): ShortcutConflict[] {
+  const conflicts: ShortcutConflict[] = [];
+  const parsed = SHORTCUT_COMMANDS.map((command) => ({
+    command,
+    strokes: parseBinding(bindings[command.id]) ?? [],
+  })).filter(({ strokes }) => strokes.length > 0);
+
+  for (const { command, strokes } of parsed) {
+    for (const other of parsed) {
+      if (other.command.id === command.id) continue;
+
+      const shorter = strokes.length <= other.strokes.length ? strokes : other.strokes;
+      const longer = shorter === strokes ? other.strokes : strokes;
+      if (!shorter.every((stroke, i) => stroke === longer[i])) continue;
+
+      conflicts.push({
+        commandId: command.id,
+        otherCommandId: other.command.id,
+        reason:
+          strokes.length === other.strokes.length
+            ? `Same keys as ${other.command.label}`
+            : `Overlaps the chord of ${other.command.label}`,
+      });
+    }
+
+    const firstStroke = strokes[0] ?? "";
+    const reserved = RESERVED_STROKES[firstStroke];
+    if (reserved) {
+      conflicts.push({ commandId: command.id, otherCommandId: null, reason: `Replaces ${reserved}` });
+    } else if (strokes.length === 1 && isBareStroke(firstStroke)) {
+      conflicts.push({
+        commandId: command.id,
+        otherCommandId: null,
+        reason: "Single keys pick Excalidraw tools",
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * What the keys pressed so far amount to among the given bindings
+ */
+export function matchShortcut(
+  sequence: readonly string[],
+  candidates: ReadonlyArray<{ commandId: ShortcutCommandId; strokes: readonly string[] }>,
+): ShortcutMatch {
+  let isPrefix = false;
+
+  for (const { commandId, strokes } of candidates) {
+    if (strokes.length < sequence.length) continue;
+    if (!sequence.every((stroke, i) => stroke === strokes[i])) continue;
+    if (strokes.length === sequence.length) return { type: "match", commandId };
+    isPrefix = true;
+  }
+
+  return isPrefix ? { type: "prefix" } : { type: "none" };
+}
+
+/**
+ * The defaults with stored overrides applied; overrides that no longer parse are ignored
+ */
+export function resolveShortcutBindings(overrides: unknown): ShortcutBindings {
+  const bindings = { ...DEFAULT_SHORTCUT_BINDINGS };
+  if (typeof overrides !== "object" || overrides === null) return bindings;
+
+  for (const command of SHORTCUT_COMMANDS) {
+    const override = (overrides as Record<string, unknown>)[command.id];
+    if (typeof override !== "string") continue;
+    const normalized = normalizeBinding(override);
+    if (normalized !== null) bindings[command.id] = normalized;
+  }
+  return bindings;
+}
+
+export async function loadShortcutBindings(): Promise<ShortcutBindings> {
+  return resolveShortcutBindings(await settingsOperations.getSetting(SHORTCUTS_SETTING, {}));
+}
+
+/**
+ * Store the bindings that differ from the defaults, so later default changes still reach the rest
+ */
+export async function saveShortcutBindings(bindings: ShortcutBindings): Promise<void> {
+  const overrides = Object.fromEntries(
+    SHORTCUT_COMMANDS.filter((command) => bindings[command.id] !== command.defaultBinding).map(
+      (command) => [command.id, bindings[command.id]],
+    ),
+  );
+  await settingsOperations.setSetting(SHORTCUTS_SETTING, overrides);
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { createMemoryStorageAdapter } from "./storage-adapter";
+import type { UnifiedCanvas } from "./types";
+
+const canvas = (id: string): UnifiedCanvas => ({
+  id,
+  name: `Canvas ${id}`,
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  updatedAt: new Date("2024-01-01T00:00:00Z"),
+  elements: [],
+});
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+describe("createMemoryStorageAdapter transactions", () => {
+  it("rolls back every write of a transaction that throws", async () => {
+    const storage = createMemoryStorageAdapter();
+    await storage.canvases.add(canvas("a"));
+
+    await expect(
+      storage.transaction(["canvases"], async () => {
+        await storage.canvases.delete("a");
+        await storage.canvases.add(canvas("b"));
+        throw new Error("failed");
+      }),
+    ).rejects.toThrow("failed");
+
+    expect((await storage.canvases.toArray()).map((c) => c.id)).toEqual(["a"]);
+  });
+
+  it("keeps a concurrent transaction's writes when another one rolls back", async () => {
+    const storage = createMemoryStorageAdapter();
+
+    const failing = storage.transaction(["canvases"], async () => {
+      await storage.canvases.add(canvas("a"));
+      await tick();
+      throw new Error("failed");
+    });
+    const succeeding = storage.transaction(["canvases"], async () => {
+      await storage.canvases.add(canvas("b"));
+    });
+
+    await expect(failing).rejects.toThrow("failed");
+    await succeeding;
+    expect((await storage.canvases.toArray()).map((c) => c.id)).toEqual(["b"]);
+  });
+
+  it("rolls back a transaction started while another was running", async () => {
+    const storage = createMemoryStorageAdapter();
+
+    const succeeding = storage.transaction(["canvases"], async () => {
+      await tick();
+      await storage.canvases.add(canvas("a"));
+    });
+    const failing = storage.transaction(["canvases"], async () => {
+      await storage.canvases.add(canvas("b"));
+      throw new Error("failed");
+    });
+
+    await succeeding;
+    await expect(failing).rejects.toThrow("failed");
+    expect((await storage.canvases.toArray()).map((c) => c.id)).toEqual(["a"]);
+  });
+
+  it("runs transactions in the order they were started and resolves with their results", async () => {
+    const storage = createMemoryStorageAdapter();
+    const order: string[] = [];
+
+    const results = await Promise.all([
+      storage.transaction(["canvases"], async () => {
+        await tick();
+        order.push("first");
+        return 1;
+      }),
+      storage.transaction(["canvases"], async () => {
+        order.push("second");
+        return 2;
+      }),
+    ]);
+
+    expect(results).toEqual([1, 2]);
+    expect(order).toEqual(["first", "second"]);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * The storage the canvas, project and settings operations run against.
+ * shared/unified-db.ts binds them to IndexedDB through Dexie; the in-memory
+ * adapter below runs the same operations without a browser (e.g. under Node).
+ */
+
+import type { Table } from "dexie";
+import type { UnifiedCanvas, UnifiedProject, TrashItem } from "./types";
+import type { AppSettings, UnifiedDexie } from "./unified-db";
+
+export type StorageKey = string | number | Date;
+
+// A record store keyed by its primary key; lookups by field must use an indexed field
+export interface StorageTable<T> {
+  get(key: string): Promise<T | undefined>;
+  bulkGet(keys: string[]): Promise<(T | undefined)[]>;
+  toArray(): Promise<T[]>;
+  // Records that have the field set, sorted by it (ascending unless reverse)
+  orderBy(field: keyof T & string, options?: { reverse?: boolean }): Promise<T[]>;
+  // Records whose field equals any of the values
+  where(field: keyof T & string, values: readonly StorageKey[]): Promise<T[]>;
+  whereIgnoreCase(field: keyof T & string, value: string): Promise<T[]>;
+  filter(predicate: (record: T) => boolean): Promise<T[]>;
+  // add and bulkAdd reject records whose key is already taken
+  add(record: T): Promise<void>;
+  bulkAdd(records: T[]): Promise<void>;
+  put(record: T): Promise<void>;
+  bulkPut(records: T[]): Promise<void>;
+  delete(key: string): Promise<void>;
+  bulkDelete(keys: string[]): Promise<void>;
+}
+
+export interface StorageTables {
+  canvases: StorageTable<UnifiedCanvas>;
+  projects: StorageTable<UnifiedProject>;
+  settings: StorageTable<AppSettings>;
+  trash: StorageTable<TrashItem>; // Deleting canvases and projects moves them here
+}
+
+export type StorageTableName = keyof StorageTables;
+
+export interface StorageAdapter extends StorageTables {
+  // Run scope atomically over the given tables: if it throws, none of its writes persist
+  transaction<R>(tables: StorageTableName[], scope: () => Promise<R>): Promise<R>;
+}
+
+const dexieTable = <T>(table: Table<T>): StorageTable<T> => ({
+  get: (key) => table.get(key),
+  bulkGet: (keys) => table.bulkGet(keys),
+  toArray: () => table.toArray(),
+  orderBy: (field, options) => {
+    const collection = table.orderBy(field);
+    return (options?.reverse ? collection.reverse() : collection).toArray();
+  },
+  where: (field, values) => table.where(field).anyOf(values).toArray(),
+  whereIgnoreCase: (field, value) => table.where(field).equalsIgnoreCase(value).toArray(),
+  filter: (predicate) => table.filter(predicate).toArray(),
+  add: async (record) => {
+    await table.add(record);
+  },
+  bulkAdd: async (records) => {
+    await table.bulkAdd(records);
+  },
+  put: async (record) => {
+    await table.put(record);
+  },
+  bulkPut: async (records) => {
+    await table.bulkPut(records);
+  },
+  delete: (key) => table.delete(key),
+  bulkDelete: (keys) => table.bulkDelete(keys),
+});
+
+/**
+ * Storage backed by the extension's IndexedDB database
+ */
+export function createDexieStorageAdapter(db: UnifiedDexie): StorageAdapter {
+  return {
+    canvases: dexieTable(db.canvases),
+    projects: dexieTable(db.projects),
+    settings: dexieTable(db.settings),
+    trash: dexieTable(db.trash),
+    transaction: (tables, scope) => db.transaction("rw", tables, scope),
+  };
+}
+
+// IndexedDB key order: numbers, then dates, then strings
+const keyRank = (key: StorageKey): number =>
+  typeof key === "number" ? 0 : key instanceof Date ? 1 : 2;
+
+const compareKeys = (a: StorageKey, b: StorageKey): number => {
+  const rankDifference = keyRank(a) - keyRank(b);
+  if (rankDifference !== 0) return rankDifference;
+  const left = a instanceof Date ? a.getTime() : a;
+  const right = b instanceof Date ? b.getTime() : b;
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+// Only valid keys are indexed, so records without the field drop out of lookups
+const isStorageKey = (value: unknown): value is StorageKey =>
+  typeof value === "string" ||
+  (typeof value === "number" && !Number.isNaN(value)) ||
+  (value instanceof Date && !Number.isNaN(value.getTime()));
+
+interface MemoryTable<T> extends StorageTable<T> {
+  snapshot(): () => void; // Returns a function that puts the table back as it was
+}
+
+function createMemoryTable<T>(
+  name: string,
+  primaryKey: keyof T & string,
+  uniqueFields: (keyof T & string)[] = [],
+): MemoryTable<T> {
+  let records = new Map<string, T>();
+
+  // Records are cloned in and out, like IndexedDB, so callers never share them with the store
+  const read = (record: T | undefined) => (record === undefined ? undefined : structuredClone(record));
+  const readAll = (list: T[]) => list.map((record) => structuredClone(record));
+  const keyOf = (record: T) => String(record[primaryKey]);
+
+  const write = (record: T, overwrite: boolean) => {
+    const key = keyOf(record);
+    if (!overwrite && records.has(key)) {
+      throw new Error(`Key ${key} already exists in ${name}`);
+    }
+    for (const field of uniqueFields) {
+      const value = record[field];
+      if (!isStorageKey(value)) continue;
+      for (const [otherKey, other] of records) {
+        const otherValue = other[field];
+        if (otherKey !== key && isStorageKey(otherValue) && compareKeys(otherValue, value) === 0) {
+          throw new Error(`Unique field ${field} of ${name} already has the value ${String(value)}`);
+        }
+      }
+    }
+    records.set(key, structuredClone(record));
+  };
+
+  // Writes in a bulk call land together or not at all
+  const writeAll = (list: T[], overwrite: boolean) => {
+    const before = new Map(records);
+    try {
+      list.forEach((record) => write(record, overwrite));
+    } catch (error) {
+      records = before;
+      throw error;
+    }
+  };
+
+  return {
+    get: async (key) => read(records.get(key)),
+    bulkGet: async (keys) => keys.map((key) => read(records.get(key))),
+    toArray: async () => readAll([...records.values()]),
+    orderBy: async (field, options) => {
+      const sorted = [...records.values()]
+        .filter((record) => isStorageKey(record[field]))
+        .sort((a, b) => compareKeys(a[field] as StorageKey, b[field] as StorageKey));
+      return readAll(options?.reverse ? sorted.reverse() : sorted);
+    },
+    where: async (field, values) =>
+      readAll(
+        [...records.values()].filter((record) => {
+          const value = record[field];
+          return isStorageKey(value) && values.some((candidate) => compareKeys(candidate, value) === 0);
+        }),
+      ),
+    whereIgnoreCase: async (field, value) =>
+      readAll(
+        [...records.values()].filter((record) => {
+          const fieldValue = record[field];
+          return typeof fieldValue === "string" && fieldValue.toLowerCase() === value.toLowerCase();
+        }),
+      ),
+    filter: async (predicate) => readAll([...records.values()]).filter(predicate),
+    add: async (record) => write(record, false),
+    bulkAdd: async (list) => writeAll(list, false),
+    put: async (record) => write(record, true),
+    bulkPut: async (list) => writeAll(list, true),
+    delete: async (key) => {
+      records.delete(key);
+    },
+    bulkDelete: async (keys) => {
+      keys.forEach((key) => records.delete(key));
+    },
+    snapshot: () => {
+      const saved = new Map(records);
+      return () => {
+        records = saved;
+      };
+    },
+  };
+}
+
+/**
+ * Storage kept in plain maps, for running the operations outside the browser.
+ * Transactions roll back on error and run one at a time, so a rollback never undoes
+ * another transaction's writes. Unlike Dexie's, they cannot be nested (the operations never do).
+ */
+export function createMemoryStorageAdapter(): StorageAdapter {
+  const tables = {
+    canvases: createMemoryTable<UnifiedCanvas>("canvases", "id"),
+    projects: createMemoryTable<UnifiedProject>("projects", "id", ["name"]),
+    settings: createMemoryTable<AppSettings>("settings", "key"),
+    trash: createMemoryTable<TrashItem>("trash", "id"),
+  };
+  // Settles when the last queued transaction does
+  let queue: Promise<unknown> = Promise.resolve();
+
+  return {
+    ...tables,
+    transaction: (tableNames, scope) => {
+      const run = async () => {
+        const rollbacks = tableNames.map((tableName) => tables[tableName].snapshot());
+        try {
+          return await scope();
+        } catch (error) {
+          rollbacks.forEach((rollback) => rollback());
+          throw error;
+        }
+      };
+      const result = queue.then(run);
+      queue = result.catch(() => undefined);
+      return result;
+    },
+  };
+}
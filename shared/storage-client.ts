@@ -0,0 +1,88 @@
+/// <reference types="chrome"/>
+
+/**
+ * Database access for the content script. The database lives in the background
+ * service worker (background/storage-service.ts); these clients mirror the
+ * operation groups of shared/unified-db.ts and forward every call over chrome.runtime.
+ */
+
+import {
+  STORAGE_MESSAGE_TYPE,
+  StorageApi,
+  StorageNamespace,
+  StorageRequest,
+  StorageResponse,
+  decodeStorageValue,
+  encodeStorageValue,
+} from "./storage-protocol";
+
+export type {
+  AppSettings,
+  ProjectExportData,
+  WorkspaceData,
+  ContentSearchMatch,
+  MergeSummary,
+} from "./unified-db";
+
+async function sendStorageRequest(
+  namespace: StorageNamespace,
+  method: string,
+  args: unknown[],
+): Promise<unknown> {
+  const request: StorageRequest = {
+    type: STORAGE_MESSAGE_TYPE,
+    namespace,
+    method,
+    args: args.map(encodeStorageValue),
+  };
+
+  const response = (await chrome.runtime.sendMessage(request)) as StorageResponse | undefined;
+  if (!response) {
+    throw new Error("Database error: Storage service did not respond");
+  }
+  if (!response.ok) {
+    throw new Error(response.error);
+  }
+  return decodeStorageValue(response.result);
+}
+
+function createOperationsClient<K extends StorageNamespace>(namespace: K): StorageApi[K] {
+  return new Proxy({} as StorageApi[K], {
+    // "then" stays undefined so the client is never mistaken for a promise
+    get: (_target, method) =>
+      typeof method === "string" && method !== "then"
+        ? (...args: unknown[]) => sendStorageRequest(namespace, method, args)
+        : undefined,
+  });
+}
+
+export const canvasOperations = createOperationsClient("canvasOperations");
+export const tagOperations = createOperationsClient("tagOperations");
+export const searchOperations = createOperationsClient("searchOperations");
+export const fileOperations = createOperationsClient("fileOperations");
+export const versionOperations = createOperationsClient("versionOperations");
+export const templateOperations = createOperationsClient("templateOperations");
+export const projectOperations = createOperationsClient("projectOperations");
+export const trashOperations = createOperationsClient("trashOperations");
+export const settingsOperations = createOperationsClient("settingsOperations");
+export const bulkOperations = createOperationsClient("bulkOperations");
+export const backupOperations = createOperationsClient("backupOperations");
+export const dbUtils = createOperationsClient("dbUtils");
+export const pageOriginMigrationOperations = createOperationsClient("pageOriginMigrationOperations");
+export const migrationOperations = createOperationsClient("migrationOperations");
+export const integrityOperations = createOperationsClient("integrityOperations");
+export const favoriteOperations = createOperationsClient("favoriteOperations");
+export const recentCanvasOperations = createOperationsClient("recentCanvasOperations");
+
+// Make sure the service worker answers before anything relies on the database
+export async function initializeDatabase(): Promise<void> {
+  try {
+    if (!(await dbUtils.isAccessible())) {
+      throw new Error("Database is not accessible");
+    }
+    console.log("Storage service connected successfully");
+  } catch (error) {
+    console.error("Failed to reach storage service:", error);
+    throw new Error("Database initialization failed");
+  }
+}
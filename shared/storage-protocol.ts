@@ -0,0 +1,123 @@
+/**
+ * Messages exchanged over chrome.runtime between the content script
+ * (shared/storage-client.ts) and the background service worker
+ * (background/storage-service.ts), which owns the database in the
+ * extension's own origin.
+ */
+
+import type {
+  canvasOperations,
+  tagOperations,
+  searchOperations,
+  fileOperations,
+  versionOperations,
+  templateOperations,
+  projectOperations,
+  trashOperations,
+  settingsOperations,
+  bulkOperations,
+  backupOperations,
+  dbUtils,
+  pageOriginMigrationOperations,
+  migrationOperations,
+  integrityOperations,
+  favoriteOperations,
+  recentCanvasOperations,
+} from "./unified-db";
+
+export const STORAGE_MESSAGE_TYPE = "EXCALI_ORG_STORAGE";
+
+// Earlier versions kept the database in excalidraw.com's origin under this name;
+// the content script copies these tables over once (content_script/services/PageOriginMigration.ts)
+export const PAGE_ORIGIN_DB_NAME = "ExcaliOrgUnifiedDB";
+export const PAGE_ORIGIN_TABLES = [
+  "canvases",
+  "projects",
+  "settings",
+  "files",
+  "canvasVersions",
+  "trash",
+  "searchIndex",
+  "templates",
+] as const;
+export type PageOriginTable = (typeof PAGE_ORIGIN_TABLES)[number];
+
+// Every operation group the service worker answers for, by the name it is exported under
+export interface StorageApi {
+  canvasOperations: typeof canvasOperations;
+  tagOperations: typeof tagOperations;
+  searchOperations: typeof searchOperations;
+  fileOperations: typeof fileOperations;
+  versionOperations: typeof versionOperations;
+  templateOperations: typeof templateOperations;
+  projectOperations: typeof projectOperations;
+  trashOperations: typeof trashOperations;
+  settingsOperations: typeof settingsOperations;
+  bulkOperations: typeof bulkOperations;
+  backupOperations: typeof backupOperations;
+  dbUtils: typeof dbUtils;
+  pageOriginMigrationOperations: typeof pageOriginMigrationOperations;
+  migrationOperations: typeof migrationOperations;
+  integrityOperations: typeof integrityOperations;
+  favoriteOperations: typeof favoriteOperations;
+  recentCanvasOperations: typeof recentCanvasOperations;
+}
+
+export type StorageNamespace = keyof StorageApi;
+
+export type StorageRequest = {
+  type: typeof STORAGE_MESSAGE_TYPE;
+  namespace: StorageNamespace;
+  method: string;
+  args: unknown[]; // Encoded with encodeStorageValue
+};
+
+export type StorageResponse =
+  | { ok: true; result: unknown } // Encoded with encodeStorageValue
+  | { ok: false; error: string };
+
+export const isStorageRequest = (data: unknown): data is StorageRequest =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as StorageRequest).type === STORAGE_MESSAGE_TYPE &&
+  typeof (data as StorageRequest).namespace === "string" &&
+  typeof (data as StorageRequest).method === "string" &&
+  Array.isArray((data as StorageRequest).args);
+
+// chrome.runtime messages are JSON; dates travel tagged so they arrive as Date again
+const DATE_TAG = "__excaliOrgDate";
+
+export function encodeStorageValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return { [DATE_TAG]: value.getTime() };
+  }
+  if (Array.isArray(value)) {
+    return value.map(encodeStorageValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    const encoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      encoded[key] = encodeStorageValue(entry);
+    }
+    return encoded;
+  }
+  return value;
+}
+
+export function decodeStorageValue(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(decodeStorageValue);
+  }
+  if (typeof value === "object" && value !== null) {
+    const tagged = (value as Record<string, unknown>)[DATE_TAG];
+    if (typeof tagged === "number") {
+      return new Date(tagged);
+    }
+    const decoded: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      decoded[key] = decodeStorageValue(entry);
+    }
+    return decoded;
+  }
+  return value;
+}
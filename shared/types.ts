@@ -1,4 +1,4 @@
-import { ExcalidrawElement, AppState } from "./excalidraw-types";
+import { ExcalidrawElement, AppState, BinaryFiles } from "./excalidraw-types";
 
 export type ExcalidrawType = {
   angle: number;
@@ -37,6 +37,8 @@ export interface UnifiedCanvas {
   updatedAt: Date;
   lastEditedAt?: Date; // Tracks when the canvas content was actually edited (not just visited)
   projectId?: string;
+  tags?: string[]; // Normalized tag names (see normalizeTag), multi-entry indexed
+  favoriteRank?: number; // Position in the panel's Favorites; undefined when not starred
 
   // Excalidraw data
   elements: readonly ExcalidrawElement[];
@@ -52,8 +54,93 @@ export interface UnifiedProject {
   updatedAt?: Date;
 
   canvasIds: string[];
+  parentId?: string; // Containing project; undefined for top-level projects
+  sortOrder?: number; // Manual position among sibling projects, set by drag-and-drop
+  defaultTemplateId?: string; // Template used for canvases created inside the project
+  favoriteRank?: number; // Position in the panel's Favorites; undefined when not starred
 }
 
+// A starred canvas or project, as listed in the panel's Favorites
+export interface FavoriteRef {
+  type: "canvas" | "project";
+  id: string;
+}
+
+// Binary file (pasted image, etc.) referenced by image elements via fileId
+export interface UnifiedFile {
+  id: string;
+  mimeType: string;
+  dataURL: string;
+  created: number;
+  lastRetrieved?: number;
+  canvasIds: string[]; // Canvases referencing this file; the file is purged once empty
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// How canvases are laid out in the panel
+export type PanelViewMode = "list" | "grid";
+
+// What the search modal looks through: everything, or only projects ("Go to Project")
+export type SearchScope = "all" | "projects";
+
+// Point-in-time copy of a canvas's content, kept for version history
+export interface CanvasVersion {
+  id: string;
+  canvasId: string;
+  elements: readonly ExcalidrawElement[];
+  appState?: AppState;
+  elementCount: number;
+  createdAt: Date;
+}
+
+// Reusable starting point for new canvases, saved from an existing canvas
+export interface CanvasTemplate {
+  id: string;
+  name: string;
+  category: string;
+  elements: readonly ExcalidrawElement[];
+  appState?: AppState;
+  files?: BinaryFiles; // Copies of the images the elements reference
+  thumbnail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Searchable text pulled from one element of a canvas
+export interface CanvasSearchEntry {
+  elementId: string;
+  kind: "text" | "link";
+  text: string;
+}
+
+// Full-text index row for a canvas; terms is multi-entry indexed (term -> canvases)
+export interface CanvasSearchDocument {
+  canvasId: string;
+  terms: string[];
+  entries: CanvasSearchEntry[];
+  sourceUpdatedAt: Date; // canvas.updatedAt when indexed, used to spot stale rows
+}
+
+// Soft-deleted canvas or project, kept until restored or purged
+export type TrashItem =
+  | {
+      id: string; // Same id as the trashed canvas
+      type: "canvas";
+      name: string;
+      deletedAt: Date;
+      canvas: UnifiedCanvas; // projectId still points at the original project
+      parentId?: string; // Set when trashed together with its project
+    }
+  | {
+      id: string; // Same id as the trashed project
+      type: "project";
+      name: string;
+      deletedAt: Date;
+      project: UnifiedProject; // canvasIds as they were at deletion time
+      parentId?: string; // Set when trashed together with its parent project
+    };
+
 export interface SearchResult {
   type: "canvas" | "project";
   item: UnifiedCanvas | UnifiedProject;
@@ -72,6 +159,26 @@ export interface ProjectContextMenuData {
   project: UnifiedProject;
 }
 
+// Where a canvas picked from the template picker should be created
+export interface TemplatePickerData {
+  projectId?: string;
+}
+
+// What the image export dialog renders: one canvas, or every canvas of a project
+export type ImageExportTarget =
+  | { type: "canvas"; canvas: UnifiedCanvas }
+  | { type: "project"; project: UnifiedProject };
+
+// An auto-save refused because another tab saved the same canvas first
+export interface CanvasConflict {
+  canvasId: string;
+  local: {
+    elements: readonly ExcalidrawElement[];
+    appState: AppState;
+    files?: BinaryFiles;
+  }; // This tab's unsaved scene
+  remote: UnifiedCanvas; // The stored copy the other tab wrote
+}
 
 export type UnifiedAction =
   // Data operations
@@ -93,13 +200,25 @@ export type UnifiedAction =
   | { type: "TOGGLE_SEARCH_MODAL" }
   | { type: "SET_SEARCH_MODAL"; payload: boolean }
   | { type: "SET_SEARCH_MODAL_OPEN"; payload: boolean }
+  | { type: "OPEN_PROJECT_SEARCH" }
   | { type: "SET_HELP_MODAL_OPEN"; payload: boolean }
+  | { type: "SET_CANVAS_SWITCHER_OPEN"; payload: boolean }
   | { type: "SET_CANVAS_DELETE_MODAL_OPEN"; payload: boolean }
   | { type: "SET_CANVAS_TO_DELETE"; payload: UnifiedCanvas | null }
   | { type: "SET_RENAME_MODAL_OPEN"; payload: boolean }
   | { type: "SET_CANVAS_TO_RENAME"; payload: UnifiedCanvas | null }
+  | { type: "SET_CANVAS_HISTORY_TARGET"; payload: UnifiedCanvas | null }
+  | { type: "SET_CANVAS_TO_TAG"; payload: UnifiedCanvas | null }
+  | { type: "SET_CANVAS_TO_TEMPLATE"; payload: UnifiedCanvas | null }
+  | { type: "SET_TEMPLATE_PICKER"; payload: TemplatePickerData | null }
+  | { type: "SET_IMAGE_EXPORT_TARGET"; payload: ImageExportTarget | null }
+  | { type: "SET_CANVAS_CONFLICT"; payload: CanvasConflict | null }
+  | { type: "SET_CANVASES_OPEN_ELSEWHERE"; payload: string[] }
   // UI operations
   | { type: "SET_SELECTED_CANVAS"; payload: string | null }
+  | { type: "TOGGLE_CANVAS_SELECTION"; payload: string }
+  | { type: "SET_CANVAS_SELECTION"; payload: string[] }
+  | { type: "CLEAR_CANVAS_SELECTION" }
   | { type: "SET_CONTEXT_MENU"; payload: ContextMenuData | null }
   | { type: "SET_PROJECT_CONTEXT_MENU"; payload: ProjectContextMenuData | null }
   | { type: "SET_THEME"; payload: "light" | "dark" }
@@ -110,6 +229,8 @@ export type UnifiedAction =
   | { type: "SET_PANEL_WIDTH"; payload: number }
   | { type: "TOGGLE_PROJECT_COLLAPSED"; payload: string }
   | { type: "SET_COLLAPSED_PROJECTS"; payload: Set<string> }
+  | { type: "SET_PANEL_VIEW_MODE"; payload: PanelViewMode }
+  | { type: "SET_ACTIVE_TAG_FILTER"; payload: string | null }
   // System operations
   | { type: "SET_LOADING"; payload: boolean }
   | { type: "SET_LOADING_CANVAS"; payload: string | null }
@@ -0,0 +1,504 @@
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { createMemoryStorageAdapter, StorageAdapter } from "./storage-adapter";
+import {
+  backupOperations,
+  createCanvasOperations,
+  createFavoriteOperations,
+  createProjectOperations,
+  createRecentCanvasOperations,
+  pageOriginMigrationOperations,
+  unifiedDb,
+} from "./unified-db";
+import { RECENT_CANVAS_CONSTANTS } from "./utils";
+import type { UnifiedCanvas, UnifiedProject } from "./types";
+import type { ExcalidrawElement } from "./excalidraw-types";
+
+const element = (id: string, version = 1): ExcalidrawElement =>
+  ({ id, type: "rectangle", version, versionNonce: 1 }) as unknown as ExcalidrawElement;
+
+const canvas = (id: string, overrides: Partial<UnifiedCanvas> = {}): UnifiedCanvas => ({
+  id,
+  name: `Canvas ${id}`,
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  updatedAt: new Date("2024-01-01T00:00:00Z"),
+  elements: [],
+  ...overrides,
+});
+
+const project = (id: string, overrides: Partial<UnifiedProject> = {}): UnifiedProject => ({
+  id,
+  name: `Project ${id}`,
+  color: "#6965db",
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  canvasIds: [],
+  ...overrides,
+});
+
+describe("storage operations on the in-memory adapter", () => {
+  let storage: StorageAdapter;
+  let canvasOperations: ReturnType<typeof createCanvasOperations>;
+  let projectOperations: ReturnType<typeof createProjectOperations>;
+
+  beforeEach(() => {
+    // The operations log every failure before rethrowing it
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "info").mockImplementation(() => {}); // Element merges
+
+    storage = createMemoryStorageAdapter();
+    canvasOperations = createCanvasOperations(storage);
+    projectOperations = createProjectOperations(storage);
+  });
+
+  describe("addCanvas", () => {
+    it("stores the canvas and fills in missing timestamps", async () => {
+      const added = { ...canvas("a"), createdAt: undefined, updatedAt: undefined } as unknown as UnifiedCanvas;
+      await canvasOperations.addCanvas(added);
+
+      const stored = await canvasOperations.getCanvas("a");
+      expect(stored?.name).toBe("Canvas a");
+      expect(stored?.createdAt).toBeInstanceOf(Date);
+      expect(stored?.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it("rejects a canvas without an id or name", async () => {
+      await expect(canvasOperations.addCanvas(canvas("a", { name: "" }))).rejects.toThrow(
+        "Database error: Could not add canvas",
+      );
+      expect(await canvasOperations.getAllCanvases()).toEqual([]);
+    });
+
+    it("rejects an id that is already taken", async () => {
+      await canvasOperations.addCanvas(canvas("a"));
+      await expect(canvasOperations.addCanvas(canvas("a", { name: "Other" }))).rejects.toThrow(
+        "Database error: Could not add canvas",
+      );
+      expect((await canvasOperations.getCanvas("a"))?.name).toBe("Canvas a");
+    });
+  });
+
+  describe("updateCanvas", () => {
+    it("saves the canvas with a new timestamp", async () => {
+      await canvasOperations.addCanvas(canvas("a"));
+      const stored = await canvasOperations.getCanvas("a");
+
+      const saved = await canvasOperations.updateCanvas({ ...stored!, name: "Renamed" }, stored!.elements);
+
+      expect(saved.updatedAt.getTime()).toBeGreaterThan(stored!.updatedAt.getTime());
+      expect(await canvasOperations.getCanvas("a")).toMatchObject({ name: "Renamed" });
+    });
+
+    it("keeps elements saved after a stale copy was read", async () => {
+      await canvasOperations.addCanvas(canvas("a", { elements: [element("x"), element("y")] }));
+      const stale = (await canvasOperations.getCanvas("a"))!;
+
+      // Another save adds z and edits x after the stale copy was read
+      await canvasOperations.updateCanvas(
+        { ...stale, elements: [element("x", 2), element("y"), element("z")] },
+        stale.elements,
+      );
+      const saved = await canvasOperations.updateCanvas({ ...stale, name: "Renamed" }, stale.elements);
+
+      const expected = [element("x", 2), element("y"), element("z")];
+      expect(saved.elements).toEqual(expected);
+      expect(await canvasOperations.getCanvas("a")).toMatchObject({ name: "Renamed", elements: expected });
+    });
+
+    it("merges a stale copy's own element edits and deletions with the newer save", async () => {
+      await canvasOperations.addCanvas(canvas("a", { elements: [element("x"), element("y")] }));
+      const stale = (await canvasOperations.getCanvas("a"))!;
+
+      await canvasOperations.updateCanvas({ ...stale, elements: [element("x"), element("y"), element("z")] }, stale.elements);
+      // The stale copy deleted y and edited x
+      const saved = await canvasOperations.updateCanvas(
+        { ...stale, elements: [element("x", 3)] },
+        stale.elements,
+      );
+
+      expect(saved.elements).toEqual([element("x", 3), element("z")]);
+    });
+
+    it("replaces the elements when nothing was saved since the base", async () => {
+      await canvasOperations.addCanvas(canvas("a", { elements: [element("x"), element("y")] }));
+      const stored = (await canvasOperations.getCanvas("a"))!;
+
+      const saved = await canvasOperations.updateCanvas({ ...stored, elements: [element("w")] }, stored.elements);
+
+      expect(saved.elements).toEqual([element("w")]);
+    });
+  });
+
+  describe("deleteCanvas", () => {
+    it("moves the canvas to the trash and out of its project", async () => {
+      await projectOperations.addProject(project("p", { canvasIds: ["a", "b"] }));
+      await canvasOperations.addCanvas(canvas("a", { projectId: "p" }));
+      await canvasOperations.addCanvas(canvas("b", { projectId: "p" }));
+
+      await canvasOperations.deleteCanvas("a");
+
+      expect(await canvasOperations.getCanvas("a")).toBeUndefined();
+      expect((await projectOperations.getProject("p"))?.canvasIds).toEqual(["b"]);
+
+      const trashed = await storage.trash.get("a");
+      expect(trashed).toMatchObject({ type: "canvas", name: "Canvas a" });
+      expect(trashed?.type === "canvas" && trashed.canvas.projectId).toBe("p");
+      expect(trashed?.parentId).toBeUndefined();
+    });
+
+    it("does nothing for a canvas that does not exist", async () => {
+      await canvasOperations.deleteCanvas("missing");
+      expect(await storage.trash.toArray()).toEqual([]);
+    });
+
+    it("trashes several canvases at once", async () => {
+      await projectOperations.addProject(project("p", { canvasIds: ["a", "b"] }));
+      await canvasOperations.addCanvas(canvas("a", { projectId: "p" }));
+      await canvasOperations.addCanvas(canvas("b", { projectId: "p" }));
+      await canvasOperations.addCanvas(canvas("c"));
+
+      await canvasOperations.bulkDeleteCanvases(["a", "c"]);
+
+      expect((await canvasOperations.getAllCanvases()).map((c) => c.id)).toEqual(["b"]);
+      expect((await projectOperations.getProject("p"))?.canvasIds).toEqual(["b"]);
+      expect((await storage.trash.toArray()).map((item) => item.id).sort()).toEqual(["a", "c"]);
+    });
+  });
+
+  describe("deleteProjectWithOptions", () => {
+    // p contains a; its child q contains b; q's child r contains c; d is unorganized
+    beforeEach(async () => {
+      await projectOperations.addProject(project("p", { canvasIds: ["a"] }));
+      await projectOperations.addProject(project("q", { parentId: "p", canvasIds: ["b"] }));
+      await projectOperations.addProject(project("r", { parentId: "q", canvasIds: ["c"] }));
+      await canvasOperations.addCanvas(canvas("a", { projectId: "p" }));
+      await canvasOperations.addCanvas(canvas("b", { projectId: "q" }));
+      await canvasOperations.addCanvas(canvas("c", { projectId: "r" }));
+      await canvasOperations.addCanvas(canvas("d"));
+    });
+
+    it("keep: trashes the project and its subprojects and unorganizes their canvases", async () => {
+      const result = await projectOperations.deleteProjectWithOptions("p", "keep");
+
+      expect(result).toEqual({ deletedCanvasCount: 0 });
+      expect(await projectOperations.getAllProjects()).toEqual([]);
+
+      const canvases = await canvasOperations.getAllCanvases();
+      expect(canvases.map((c) => c.id).sort()).toEqual(["a", "b", "c", "d"]);
+      expect(canvases.every((c) => c.projectId === undefined)).toBe(true);
+
+      const trash = await storage.trash.toArray();
+      expect(trash.map((item) => [item.id, item.type, item.parentId]).sort()).toEqual([
+        ["p", "project", undefined],
+        ["q", "project", "p"],
+        ["r", "project", "q"],
+      ]);
+    });
+
+    it("delete: trashes the canvases with the project they were in", async () => {
+      const result = await projectOperations.deleteProjectWithOptions("p", "delete");
+
+      expect(result).toEqual({ deletedCanvasCount: 3 });
+      expect(await projectOperations.getAllProjects()).toEqual([]);
+      expect((await canvasOperations.getAllCanvases()).map((c) => c.id)).toEqual(["d"]);
+
+      const trash = await storage.trash.toArray();
+      expect(trash.map((item) => [item.id, item.type, item.parentId]).sort()).toEqual([
+        ["a", "canvas", "p"],
+        ["b", "canvas", "q"],
+        ["c", "canvas", "r"],
+        ["p", "project", undefined],
+        ["q", "project", "p"],
+        ["r", "project", "q"],
+      ]);
+    });
+
+    it("only touches the deleted branch", async () => {
+      await projectOperations.deleteProjectWithOptions("q", "delete");
+
+      expect((await projectOperations.getAllProjects()).map((p) => p.id)).toEqual(["p"]);
+      expect((await canvasOperations.getAllCanvases()).map((c) => c.id).sort()).toEqual(["a", "d"]);
+      expect((await storage.trash.get("q"))?.parentId).toBeUndefined();
+    });
+
+    it("fails without changes for a project that does not exist", async () => {
+      await expect(projectOperations.deleteProjectWithOptions("missing", "delete")).rejects.toThrow(
+        "Database error: Could not delete project",
+      );
+      expect(await projectOperations.getAllProjects()).toHaveLength(3);
+      expect(await storage.trash.toArray()).toEqual([]);
+    });
+
+    it("rolls back every write when a step fails", async () => {
+      vi.spyOn(storage.projects, "bulkDelete").mockRejectedValueOnce(new Error("disk full"));
+
+      await expect(projectOperations.deleteProjectWithOptions("p", "delete")).rejects.toThrow();
+
+      expect(await projectOperations.getAllProjects()).toHaveLength(3);
+      expect(await canvasOperations.getAllCanvases()).toHaveLength(4);
+      expect(await storage.trash.toArray()).toEqual([]);
+    });
+  });
+
+  describe("exportProject", () => {
+    it("exports the project with the canvases that point at it", async () => {
+      // canvasIds is stale: it still lists b and misses c
+      await projectOperations.addProject(project("p", { canvasIds: ["a", "b"] }));
+      await canvasOperations.addCanvas(canvas("a", { projectId: "p", elements: [element("x")] }));
+      await canvasOperations.addCanvas(canvas("b"));
+      await canvasOperations.addCanvas(canvas("c", { projectId: "p" }));
+
+      const exported = await projectOperations.exportProject("p");
+
+      expect(exported.project.id).toBe("p");
+      expect(exported.format).toBe("zip");
+      expect(exported.exportedAt).toBeInstanceOf(Date);
+      expect(exported.canvases.map((c) => c.id).sort()).toEqual(["a", "c"]);
+      expect(exported.canvases.find((c) => c.id === "a")?.elements).toEqual([element("x")]);
+    });
+
+    it("fails for a project that does not exist", async () => {
+      await expect(projectOperations.exportProject("missing")).rejects.toThrow(
+        "Database error: Could not export project",
+      );
+    });
+  });
+
+  describe("favorites", () => {
+    let favoriteOperations: ReturnType<typeof createFavoriteOperations>;
+
+    const ranks = async () => ({
+      canvases: Object.fromEntries((await storage.canvases.toArray()).map((c) => [c.id, c.favoriteRank])),
+      projects: Object.fromEntries((await storage.projects.toArray()).map((p) => [p.id, p.favoriteRank])),
+    });
+
+    beforeEach(async () => {
+      favoriteOperations = createFavoriteOperations(storage);
+      await storage.canvases.bulkAdd([canvas("a"), canvas("b"), canvas("c")]);
+      await storage.projects.add(project("p"));
+    });
+
+    it("stars canvases and projects at the end of Favorites", async () => {
+      await favoriteOperations.setFavorite({ type: "canvas", id: "b" }, true);
+      await favoriteOperations.setFavorite({ type: "project", id: "p" }, true);
+      const changed = await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true);
+
+      expect(changed.canvases.map((c) => [c.id, c.favoriteRank])).toEqual([["a", 2]]);
+      expect(changed.projects).toEqual([]);
+      expect(await ranks()).toEqual({ canvases: { a: 2, b: 0, c: undefined }, projects: { p: 1 } });
+    });
+
+    it("moves a starred canvas's updatedAt so older copies keep the star", async () => {
+      const [starred] = (await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true)).canvases;
+
+      expect(starred!.updatedAt.getTime()).toBeGreaterThan(canvas("a").updatedAt.getTime());
+    });
+
+    it("unstars, and changes nothing when the star is already as asked", async () => {
+      await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true);
+
+      expect(await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true)).toEqual({ canvases: [], projects: [] });
+      const unstarred = await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, false);
+      expect(unstarred.canvases.map((c) => [c.id, c.favoriteRank])).toEqual([["a", undefined]]);
+      expect(await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, false)).toEqual({ canvases: [], projects: [] });
+      expect(await ranks()).toEqual({ canvases: { a: undefined, b: undefined, c: undefined }, projects: { p: undefined } });
+    });
+
+    it("rejects records that do not exist", async () => {
+      await expect(favoriteOperations.setFavorite({ type: "project", id: "gone" }, true)).rejects.toThrow(
+        "Could not update favorites",
+      );
+    });
+
+    it("ranks favorites in the given order", async () => {
+      await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true);
+      await favoriteOperations.setFavorite({ type: "canvas", id: "b" }, true);
+      await favoriteOperations.setFavorite({ type: "project", id: "p" }, true);
+
+      const changed = await favoriteOperations.reorderFavorites([
+        { type: "project", id: "p" },
+        { type: "canvas", id: "b" },
+        { type: "canvas", id: "a" },
+      ]);
+
+      expect(await ranks()).toEqual({ canvases: { a: 2, b: 1, c: undefined }, projects: { p: 0 } });
+      // b kept its rank, so only a and p were written
+      expect(changed.canvases.map((c) => c.id)).toEqual(["a"]);
+      expect(changed.projects.map((p) => p.id)).toEqual(["p"]);
+    });
+
+    it("keeps favorites missing from the order at the end and ignores records that are not starred", async () => {
+      await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true);
+      await favoriteOperations.setFavorite({ type: "canvas", id: "b" }, true);
+      await favoriteOperations.setFavorite({ type: "project", id: "p" }, true);
+
+      await favoriteOperations.reorderFavorites([
+        { type: "canvas", id: "c" },
+        { type: "project", id: "p" },
+      ]);
+
+      expect(await ranks()).toEqual({ canvases: { a: 1, b: 2, c: undefined }, projects: { p: 0 } });
+    });
+
+    it("stars after the gap an unstarred favorite leaves, and closes it on reorder", async () => {
+      await favoriteOperations.setFavorite({ type: "canvas", id: "a" }, true);
+      await favoriteOperations.setFavorite({ type: "canvas", id: "b" }, true);
+      await favoriteOperations.setFavorite({ type: "canvas", id: "c" }, true);
+      await favoriteOperations.setFavorite({ type: "canvas", id: "b" }, false);
+      await favoriteOperations.setFavorite({ type: "project", id: "p" }, true);
+
+      expect(await ranks()).toEqual({ canvases: { a: 0, b: undefined, c: 2 }, projects: { p: 3 } });
+
+      await favoriteOperations.reorderFavorites([]);
+
+      expect(await ranks()).toEqual({ canvases: { a: 0, b: undefined, c: 1 }, projects: { p: 2 } });
+    });
+  });
+
+  describe("recent canvases", () => {
+    let recentCanvasOperations: ReturnType<typeof createRecentCanvasOperations>;
+
+    beforeEach(() => {
+      recentCanvasOperations = createRecentCanvasOperations(storage);
+    });
+
+    it("lists visited canvases most recent first, each once", async () => {
+      expect(await recentCanvasOperations.getRecentCanvasIds()).toEqual([]);
+
+      await recentCanvasOperations.recordCanvasVisit("a");
+      await recentCanvasOperations.recordCanvasVisit("b");
+      await recentCanvasOperations.recordCanvasVisit("c");
+      const recent = await recentCanvasOperations.recordCanvasVisit("a");
+
+      expect(recent).toEqual(["a", "c", "b"]);
+      expect(await recentCanvasOperations.getRecentCanvasIds()).toEqual(["a", "c", "b"]);
+    });
+
+    it("keeps the most recent MAX_ENTRIES canvases", async () => {
+      const ids = Array.from({ length: RECENT_CANVAS_CONSTANTS.MAX_ENTRIES + 1 }, (_, index) => `canvas-${index}`);
+      for (const id of ids) {
+        await recentCanvasOperations.recordCanvasVisit(id);
+      }
+
+      const recent = await recentCanvasOperations.getRecentCanvasIds();
+      expect(recent).toHaveLength(RECENT_CANVAS_CONSTANTS.MAX_ENTRIES);
+      expect(recent[0]).toBe(ids[ids.length - 1]);
+      expect(recent).not.toContain(ids[0]);
+    });
+
+    it("ignores stored values that are not canvas ids", async () => {
+      await storage.settings.put({
+        key: RECENT_CANVAS_CONSTANTS.SETTING,
+        value: ["a", 7, null, { id: "b" }, "c"],
+        updatedAt: new Date(),
+      });
+
+      expect(await recentCanvasOperations.getRecentCanvasIds()).toEqual(["a", "c"]);
+      expect(await recentCanvasOperations.recordCanvasVisit("c")).toEqual(["c", "a"]);
+    });
+
+    it("starts a new list when the stored value is not a list", async () => {
+      await storage.settings.put({ key: RECENT_CANVAS_CONSTANTS.SETTING, value: "a", updatedAt: new Date() });
+
+      expect(await recentCanvasOperations.getRecentCanvasIds()).toEqual([]);
+      expect(await recentCanvasOperations.recordCanvasVisit("b")).toEqual(["b"]);
+    });
+  });
+});
+
+describe("backupOperations.mergeAllData", () => {
+  // The backup operations work on the IndexedDB database itself (fake-indexeddb here)
+  beforeAll(() => unifiedDb.open());
+  afterAll(() => unifiedDb.close());
+
+  beforeEach(async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    await Promise.all(unifiedDb.tables.map((table) => table.clear()));
+  });
+
+  it("keeps parents found in the backup or locally and moves the rest to the top level", async () => {
+    await unifiedDb.projects.add(project("local"));
+
+    await backupOperations.mergeAllData({
+      canvases: [],
+      projects: [
+        project("top"),
+        project("child", { parentId: "top" }),
+        project("under-local", { parentId: "local" }),
+        project("orphan", { parentId: "gone" }),
+      ],
+    });
+
+    const parents = Object.fromEntries(
+      (await unifiedDb.projects.toArray()).map((p) => [p.id, p.parentId]),
+    );
+    expect(parents).toEqual({
+      local: undefined,
+      top: undefined,
+      child: "top",
+      "under-local": "local",
+      orphan: undefined,
+    });
+  });
+
+  it("adds a changed canvas with a clashing id as a copy with a new canvas id", async () => {
+    await unifiedDb.canvases.add(canvas("a", { elements: [element("x")] }));
+
+    const summary = await backupOperations.mergeAllData({
+      canvases: [canvas("a", { elements: [element("x", 2)] })],
+      projects: [],
+    });
+
+    const copy = (await unifiedDb.canvases.toArray()).find((c) => c.id !== "a");
+    expect(copy?.id).toMatch(/^canvas_\d+_[a-z0-9]+$/);
+    expect(copy).toMatchObject({ name: "Canvas a (restored)", elements: [element("x", 2)] });
+    expect(summary.added.canvases).toBe(1);
+    expect(summary.renamed).toEqual([{ type: "canvas", from: "Canvas a", to: "Canvas a (restored)" }]);
+  });
+});
+
+describe("pageOriginMigrationOperations.importRecords", () => {
+  beforeAll(() => unifiedDb.open());
+  afterAll(() => unifiedDb.close());
+
+  beforeEach(async () => {
+    await Promise.all(unifiedDb.tables.map((table) => table.clear()));
+  });
+
+  it("brings records from an old page-origin database into the current shape", async () => {
+    // As an early version stored them: string dates, no tags or element list, a null parent
+    const oldCanvas = { id: "a", name: "Old", createdAt: "2023-05-01T10:00:00.000Z", updatedAt: 1683000000000 };
+    const oldProject = { id: "p", name: "Old project", color: "#6965db", createdAt: "2023-05-01T10:00:00.000Z", parentId: null };
+
+    await pageOriginMigrationOperations.importRecords("canvases", [oldCanvas]);
+    await pageOriginMigrationOperations.importRecords("projects", [oldProject]);
+
+    expect(await unifiedDb.canvases.get("a")).toEqual({
+      id: "a",
+      name: "Old",
+      createdAt: new Date("2023-05-01T10:00:00.000Z"),
+      updatedAt: new Date(1683000000000),
+      elements: [],
+      tags: [],
+    });
+    expect(await unifiedDb.projects.get("p")).toEqual({
+      id: "p",
+      name: "Old project",
+      color: "#6965db",
+      createdAt: new Date("2023-05-01T10:00:00.000Z"),
+      canvasIds: [],
+    });
+  });
+
+  it("keeps records already in the database", async () => {
+    await unifiedDb.canvases.add(canvas("a", { name: "Current", tags: [] }));
+
+    const imported = await pageOriginMigrationOperations.importRecords("canvases", [
+      { id: "a", name: "Old", createdAt: "2023-05-01T10:00:00.000Z" },
+      { id: "b", name: "Other", createdAt: "2023-05-01T10:00:00.000Z" },
+    ]);
+
+    expect(imported).toBe(1);
+    expect((await unifiedDb.canvases.get("a"))?.name).toBe("Current");
+  });
+});
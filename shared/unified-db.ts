@@ -1,7 +1,50 @@
 // Clean, unified database implementation using Dexie
 
-import Dexie, { Table } from "dexie";
-import { UnifiedCanvas, UnifiedProject } from "./types";
+import Dexie, { IndexableType, Table } from "dexie";
+import {
+  UnifiedCanvas,
+  UnifiedProject,
+  UnifiedFile,
+  CanvasVersion,
+  TrashItem,
+  CanvasSearchDocument,
+  CanvasTemplate,
+  FavoriteRef,
+} from "./types";
+import { BinaryFiles, ExcalidrawElement } from "./excalidraw-types";
+import { reconcileElements, logElementMerge } from "./element-reconcile";
+import { PAGE_ORIGIN_TABLES, PageOriginTable } from "./storage-protocol";
+import { createDexieStorageAdapter, StorageAdapter } from "./storage-adapter";
+import { upgradeStoredRecord } from "./record-upgrades";
+import {
+  DB_MIGRATIONS,
+  LATEST_DB_VERSION,
+  MIGRATION_BACKUP_DB_NAME,
+  MIGRATION_STATUS_SETTING,
+  MigrationBackupInfo,
+  MigrationRun,
+  MigrationStatus,
+  assertMigrationOrder,
+  getPendingMigrations,
+} from "./db-migrations";
+import {
+  IntegrityIssueKind,
+  IntegrityReport,
+  findIntegrityIssues,
+  repairIntegrityIssues,
+} from "./workspace-integrity";
+import {
+  getReferencedFileIds,
+  normalizeTag,
+  tokenizeSearchText,
+  extractSearchEntries,
+  buildSearchSnippet,
+  generateCanvasId,
+  VERSION_HISTORY_CONSTANTS,
+  CONTENT_SEARCH_CONSTANTS,
+  TEMPLATE_CONSTANTS,
+  RECENT_CANVAS_CONSTANTS,
+} from "./utils";
 
 // Settings interface for app preferences
 export interface AppSettings {
@@ -18,39 +61,255 @@ export interface ProjectExportData {
   format: 'json' | 'zip';
 }
 
+// Full workspace contents, as written to and read from backups
+export interface WorkspaceData {
+  canvases: UnifiedCanvas[];
+  projects: UnifiedProject[];
+  settings?: AppSettings[];
+  files?: UnifiedFile[];
+  trash?: TrashItem[];
+  templates?: CanvasTemplate[];
+}
+
+// A canvas whose contents matched a full-text query
+export interface ContentSearchMatch {
+  canvasId: string;
+  elementId: string;
+  kind: "text" | "link";
+  snippet: string;
+  score: number;
+}
+
+// Outcome of merging a backup into the existing workspace
+export interface MergeSummary {
+  added: { canvases: number; projects: number; files: number; templates: number };
+  skipped: { canvases: number; projects: number; settings: number };
+  renamed: { type: "canvas" | "project"; from: string; to: string }[];
+}
+
 // Database version and schema
 export class UnifiedDexie extends Dexie {
   canvases!: Table<UnifiedCanvas>;
   projects!: Table<UnifiedProject>;
   settings!: Table<AppSettings>;
+  files!: Table<UnifiedFile>;
+  canvasVersions!: Table<CanvasVersion>;
+  trash!: Table<TrashItem>;
+  searchIndex!: Table<CanvasSearchDocument>;
+  templates!: Table<CanvasTemplate>;
 
   constructor() {
-    super("ExcaliOrgUnifiedDB");
+    // Opened by initializeDatabase only, so no upgrade runs before its backup
+    super("ExcaliOrgUnifiedDB", { autoOpen: false });
+
+    assertMigrationOrder(DB_MIGRATIONS);
+    for (const migration of DB_MIGRATIONS) {
+      const version = this.version(migration.version).stores(migration.stores);
+      if (migration.upgrade) {
+        version.upgrade(migration.upgrade);
+      }
+    }
+  }
+}
 
-    this.version(1).stores({
-      // Canvases table with indexes for performance
-      canvases: "id, name, projectId, createdAt, updatedAt, lastEditedAt",
+// Create singleton database instance
+export const unifiedDb = new UnifiedDexie();
 
-      // Projects table with indexes (name is unique)
-      projects: "id, &name, createdAt, updatedAt, color, description",
+// The storage the exported canvas, project and settings operations run against
+export const unifiedStorage = createDexieStorageAdapter(unifiedDb);
+
+// Oldest first, as Dexie's sortBy("updatedAt") orders them
+const byUpdatedAt = (a: UnifiedCanvas, b: UnifiedCanvas): number =>
+  new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+
+// The same element revisions in the same order
+const isSameElementList = (
+  a: readonly ExcalidrawElement[],
+  b: readonly ExcalidrawElement[],
+): boolean =>
+  a.length === b.length &&
+  a.every(
+    (element, index) =>
+      element.id === b[index]?.id &&
+      element.version === b[index]?.version &&
+      element.versionNonce === b[index]?.versionNonce,
+  );
+
+/**
+ * Drop the given canvases from every file they reference, purging files
+ * nobody references anymore. Must run inside a transaction that includes files.
+ */
+async function releaseFileReferences(canvasIds: string[]): Promise<void> {
+  const files = await unifiedDb.files.where("canvasIds").anyOf(canvasIds).distinct().toArray();
+  const orphanedIds: string[] = [];
+  const updatedFiles: UnifiedFile[] = [];
+
+  for (const file of files) {
+    const remaining = file.canvasIds.filter(id => !canvasIds.includes(id));
+    if (remaining.length === 0) {
+      orphanedIds.push(file.id);
+    } else {
+      updatedFiles.push({ ...file, canvasIds: remaining, updatedAt: new Date() });
+    }
+  }
 
-      // Settings table for app preferences
-      settings: "key, updatedAt",
-    });
+  if (orphanedIds.length > 0) {
+    await unifiedDb.files.bulkDelete(orphanedIds);
+  }
+  if (updatedFiles.length > 0) {
+    await unifiedDb.files.bulkPut(updatedFiles);
   }
 }
 
-// Create singleton database instance
-export const unifiedDb = new UnifiedDexie();
+/**
+ * Move canvases into the trash, keeping their files and version history until purged.
+ * Must run inside a transaction that includes canvases and trash.
+ */
+async function moveCanvasesToTrash(
+  storage: StorageAdapter,
+  canvases: UnifiedCanvas[],
+  parentId?: string,
+): Promise<void> {
+  if (canvases.length === 0) return;
+
+  const deletedAt = new Date();
+  const items: TrashItem[] = canvases.map(canvas => ({
+    id: canvas.id,
+    type: "canvas",
+    name: canvas.name,
+    deletedAt,
+    canvas,
+    ...(parentId ? { parentId } : {}),
+  }));
+
+  await storage.trash.bulkPut(items);
+  await storage.canvases.bulkDelete(canvases.map(canvas => canvas.id));
+}
+
+/**
+ * Permanently remove trash items along with the files and versions of their canvases.
+ * Must run inside a transaction that includes trash, files and canvasVersions.
+ */
+async function purgeTrashItems(items: TrashItem[]): Promise<void> {
+  if (items.length === 0) return;
+
+  const canvasIds = items.filter(item => item.type === "canvas").map(item => item.id);
+  if (canvasIds.length > 0) {
+    await releaseFileReferences(canvasIds);
+    await unifiedDb.canvasVersions.where("canvasId").anyOf(canvasIds).delete();
+  }
+  await unifiedDb.trash.bulkDelete(items.map(item => item.id));
+}
+
+/**
+ * All projects nested under the given project at any depth, parents before children.
+ * Must run inside a transaction that includes projects.
+ */
+async function collectDescendantProjects(
+  storage: StorageAdapter,
+  projectId: string,
+): Promise<UnifiedProject[]> {
+  const descendants: UnifiedProject[] = [];
+  let parentIds = [projectId];
+
+  while (parentIds.length > 0) {
+    const children = (await storage.projects.where("parentId", parentIds))
+      .filter(child => child.id !== projectId && !descendants.some(d => d.id === child.id));
+    descendants.push(...children);
+    parentIds = children.map(child => child.id);
+  }
+
+  return descendants;
+}
+
+/**
+ * All trash items trashed together with the given item (canvases and subprojects, at any depth).
+ * Must run inside a transaction that includes trash.
+ */
+async function collectTrashDescendants(id: string): Promise<TrashItem[]> {
+  const descendants: TrashItem[] = [];
+  let parentIds = [id];
+
+  while (parentIds.length > 0) {
+    const children = (await unifiedDb.trash.where("parentId").anyOf(parentIds).toArray())
+      .filter(child => child.id !== id && !descendants.some(d => d.id === child.id));
+    descendants.push(...children);
+    parentIds = children.filter(child => child.type === "project").map(child => child.id);
+  }
+
+  return descendants;
+}
+
+/**
+ * Restore a trashed project under its parent (top level if the parent is gone), together
+ * with its trashed canvases and subprojects and its kept canvases that are still unorganized.
+ * Must run inside a transaction that includes canvases, projects and trash.
+ */
+async function restoreTrashedProject(
+  item: Extract<TrashItem, { type: "project" }>
+): Promise<{ project: UnifiedProject; canvases: UnifiedCanvas[] }> {
+  // Another project may have taken the name in the meantime
+  let name = item.project.name;
+  let suffix = 2;
+  while (await unifiedDb.projects.where("name").equalsIgnoreCase(name).count() > 0) {
+    name = `${item.project.name} (${suffix})`;
+    suffix++;
+  }
+
+  const parent = item.project.parentId
+    ? await unifiedDb.projects.get(item.project.parentId)
+    : undefined;
+
+  const childItems = await unifiedDb.trash.where("parentId").equals(item.id).toArray();
+  const restoredCanvases: UnifiedCanvas[] = [];
+  for (const child of childItems) {
+    if (child.type !== "canvas" || await unifiedDb.canvases.get(child.id)) continue;
+    restoredCanvases.push({ ...child.canvas, projectId: item.id });
+  }
+
+  const keptCanvases = (await unifiedDb.canvases.bulkGet(item.project.canvasIds))
+    .filter((canvas): canvas is UnifiedCanvas => !!canvas && !canvas.projectId)
+    .map(canvas => ({ ...canvas, projectId: item.id }));
+
+  const project: UnifiedProject = {
+    ...item.project,
+    name,
+    parentId: parent?.id,
+    canvasIds: [...restoredCanvases, ...keptCanvases].map(canvas => canvas.id),
+    updatedAt: new Date(),
+  };
+
+  await unifiedDb.projects.add(project);
+  if (restoredCanvases.length > 0) {
+    await unifiedDb.canvases.bulkAdd(restoredCanvases);
+  }
+  if (keptCanvases.length > 0) {
+    await unifiedDb.canvases.bulkPut(keptCanvases);
+  }
+  await unifiedDb.trash.bulkDelete([
+    item.id,
+    ...childItems.filter(child => child.type === "canvas").map(child => child.id),
+  ]);
+
+  // Subprojects go back under the project that was just restored
+  const canvases = [...restoredCanvases, ...keptCanvases];
+  for (const child of childItems) {
+    if (child.type !== "project") continue;
+    const restored = await restoreTrashedProject(child);
+    canvases.push(...restored.canvases);
+  }
 
-// Core Canvas Operations
-export const canvasOperations = {
+  return { project, canvases };
+}
+
+// Core Canvas Operations, over any storage (tests can pass createMemoryStorageAdapter())
+export const createCanvasOperations = (storage: StorageAdapter) => ({
   /**
    * Get all canvases sorted by updatedAt (most recent first)
    */
   async getAllCanvases(): Promise<UnifiedCanvas[]> {
     try {
-      return await unifiedDb.canvases.orderBy("updatedAt").reverse().toArray();
+      return await storage.canvases.orderBy("updatedAt", { reverse: true });
     } catch (error) {
       console.error("Failed to get all canvases:", error);
       throw new Error("Database error: Could not retrieve canvases");
@@ -62,7 +321,7 @@ export const canvasOperations = {
    */
   async getCanvas(id: string): Promise<UnifiedCanvas | undefined> {
     try {
-      return await unifiedDb.canvases.get(id);
+      return await storage.canvases.get(id);
     } catch (error) {
       console.error(`Failed to get canvas ${id}:`, error);
       throw new Error(`Database error: Could not retrieve canvas ${id}`);
@@ -84,7 +343,7 @@ export const canvasOperations = {
       if (!canvas.createdAt) canvas.createdAt = now;
       if (!canvas.updatedAt) canvas.updatedAt = now;
 
-      await unifiedDb.canvases.add(canvas);
+      await storage.canvases.add(canvas);
     } catch (error) {
       console.error("Failed to add canvas:", error);
       throw new Error("Database error: Could not add canvas");
@@ -92,29 +351,62 @@ export const canvasOperations = {
   },
 
   /**
-   * Update existing canvas with optimistic concurrency control
+   * Update a canvas from a copy whose elements started out as base. Element edits saved
+   * since then (e.g. by another tab) are merged in per element instead of overwritten.
+   * Resolves with the canvas as saved (new timestamp).
    */
-  async updateCanvas(canvas: UnifiedCanvas): Promise<void> {
+  async updateCanvas(
+    canvas: UnifiedCanvas,
+    base: readonly ExcalidrawElement[],
+  ): Promise<UnifiedCanvas> {
     try {
       // Update timestamp
       canvas.updatedAt = new Date();
 
-      // Atomic update with version checking for concurrent modification detection
-      await unifiedDb.transaction('rw', unifiedDb.canvases, async () => {
-        const existingCanvas = await unifiedDb.canvases.get(canvas.id);
+      await storage.transaction(["canvases"], async () => {
+        const existingCanvas = await storage.canvases.get(canvas.id);
+
+        // The merge only differs from the incoming elements when the stored ones moved on from base
+        if (existingCanvas) {
+          const storedElements = existingCanvas.elements || [];
+          const incomingElements = canvas.elements || [];
+          const merge = reconcileElements(storedElements, incomingElements, base);
+          if (!isSameElementList(merge.elements, incomingElements)) {
+            logElementMerge(canvas.id, "updateCanvas", storedElements, incomingElements, merge);
+            canvas.elements = merge.elements;
+          }
+        }
 
-        // Check if canvas was modified by another operation using updatedAt timestamps
-        if (existingCanvas && existingCanvas.updatedAt) {
-          const existingTime = new Date(existingCanvas.updatedAt).getTime();
-          const incomingTime = new Date(canvas.updatedAt).getTime();
+        await storage.canvases.put(canvas);
+      });
+      return canvas;
+    } catch (error) {
+      console.error("Failed to update canvas:", error);
+      throw new Error("Database error: Could not update canvas");
+    }
+  },
 
-          // Only warn if the existing version is significantly newer (>1 second)
-          if (existingTime > incomingTime + 1000) {
-            console.warn(`Canvas ${canvas.id} may have been modified concurrently. Existing: ${existingCanvas.updatedAt.toISOString()}, Incoming: ${canvas.updatedAt.toISOString()}`);
-          }
+  /**
+   * Update a canvas only if nobody saved it since expectedUpdatedAt (e.g. another tab).
+   * Resolves with the canvas as saved, or with the newer stored copy and saved: false.
+   */
+  async updateCanvasIfUnchanged(
+    canvas: UnifiedCanvas,
+    expectedUpdatedAt: Date | number,
+  ): Promise<{ canvas: UnifiedCanvas; saved: boolean }> {
+    try {
+      return await storage.transaction(["canvases"], async () => {
+        const existingCanvas = await storage.canvases.get(canvas.id);
+        if (
+          existingCanvas?.updatedAt &&
+          new Date(existingCanvas.updatedAt).getTime() > new Date(expectedUpdatedAt).getTime()
+        ) {
+          return { canvas: existingCanvas, saved: false };
         }
 
-        await unifiedDb.canvases.put(canvas);
+        canvas.updatedAt = new Date();
+        await storage.canvases.put(canvas);
+        return { canvas, saved: true };
       });
     } catch (error) {
       console.error("Failed to update canvas:", error);
@@ -123,7 +415,7 @@ export const canvasOperations = {
   },
 
   /**
-   * Delete canvas by ID
+   * Move canvas to the trash by ID
    */
   async deleteCanvas(id: string): Promise<void> {
     const maxRetries = 3;
@@ -131,28 +423,28 @@ export const canvasOperations = {
 
     while (attempt < maxRetries) {
       try {
-        await unifiedDb.transaction('rw', unifiedDb.canvases, unifiedDb.projects, async () => {
+        await storage.transaction(["canvases", "projects", "trash"], async () => {
           // First get the canvas to find its projectId
-          const canvas = await unifiedDb.canvases.get(id);
+          const canvas = await storage.canvases.get(id);
 
           if (!canvas) {
             console.warn(`Canvas ${id} not found for deletion`);
             return; // Canvas already deleted
           }
 
-          // Delete the canvas first (fail fast if canvas is locked)
-          await unifiedDb.canvases.delete(id);
+          // Trash the canvas first (fail fast if canvas is locked)
+          await moveCanvasesToTrash(storage, [canvas]);
 
           // If canvas was in a project, remove it from that project atomically
           if (canvas.projectId) {
-            const project = await unifiedDb.projects.get(canvas.projectId);
+            const project = await storage.projects.get(canvas.projectId);
             if (project) {
               const originalCanvasCount = project.canvasIds.length;
               project.canvasIds = project.canvasIds.filter(canvasId => canvasId !== id);
 
               // Only update if there were actual changes
               if (project.canvasIds.length !== originalCanvasCount) {
-                await unifiedDb.projects.put(project);
+                await storage.projects.put(project);
               }
             }
           }
@@ -175,10 +467,7 @@ export const canvasOperations = {
    */
   async getCanvasesForProject(projectId: string): Promise<UnifiedCanvas[]> {
     try {
-      return await unifiedDb.canvases
-        .where("projectId")
-        .equals(projectId)
-        .sortBy("updatedAt");
+      return (await storage.canvases.where("projectId", [projectId])).sort(byUpdatedAt);
     } catch (error) {
       console.error(`Failed to get canvases for project ${projectId}:`, error);
       throw new Error("Database error: Could not retrieve project canvases");
@@ -190,9 +479,8 @@ export const canvasOperations = {
    */
   async getUnorganizedCanvases(): Promise<UnifiedCanvas[]> {
     try {
-      return await unifiedDb.canvases
-        .filter(canvas => !canvas.projectId || canvas.projectId === "")
-        .sortBy("updatedAt");
+      return (await storage.canvases.filter(canvas => !canvas.projectId || canvas.projectId === ""))
+        .sort(byUpdatedAt);
     } catch (error) {
       console.error("Failed to get unorganized canvases:", error);
       throw new Error(
@@ -202,21 +490,22 @@ export const canvasOperations = {
   },
 
   /**
-   * Bulk delete canvases
+   * Bulk move canvases to the trash
    */
   async bulkDeleteCanvases(canvasIds: string[]): Promise<void> {
     try {
-      await unifiedDb.transaction('rw', unifiedDb.canvases, unifiedDb.projects, async () => {
+      await storage.transaction(["canvases", "projects", "trash"], async () => {
         // Get canvases to find their projectIds
-        const canvases = await unifiedDb.canvases.bulkGet(canvasIds);
-        const projectIds = new Set(canvases.filter(c => c?.projectId).map(c => c!.projectId));
+        const canvases = (await storage.canvases.bulkGet(canvasIds))
+          .filter((canvas): canvas is UnifiedCanvas => canvas !== undefined);
+        const projectIds = new Set(canvases.filter(c => c.projectId).map(c => c.projectId!));
 
-        // Delete the canvases
-        await unifiedDb.canvases.bulkDelete(canvasIds);
+        // Trash the canvases
+        await moveCanvasesToTrash(storage, canvases);
 
         // Update only the affected projects
         if (projectIds.size > 0) {
-          const projects = await unifiedDb.projects.bulkGet(Array.from(projectIds));
+          const projects = await storage.projects.bulkGet(Array.from(projectIds));
           const updatedProjects = projects
             .filter(project => project !== undefined)
             .map(project => {
@@ -227,7 +516,7 @@ export const canvasOperations = {
             .filter(project => project !== null) as UnifiedProject[];
 
           if (updatedProjects.length > 0) {
-            await unifiedDb.projects.bulkPut(updatedProjects);
+            await storage.projects.bulkPut(updatedProjects);
           }
         }
       });
@@ -236,348 +525,1131 @@ export const canvasOperations = {
       throw new Error("Database error: Could not delete canvases");
     }
   },
-};
+});
+
+export const canvasOperations = createCanvasOperations(unifiedStorage);
 
-// Core Project Operations
-export const projectOperations = {
+// Canvas Tag Operations
+export const tagOperations = {
   /**
-   * Get all projects sorted by createdAt
+   * Get every tag in use, sorted alphabetically
    */
-  async getAllProjects(): Promise<UnifiedProject[]> {
+  async getAllTags(): Promise<string[]> {
     try {
-      return await unifiedDb.projects.orderBy("createdAt").toArray();
+      return (await unifiedDb.canvases.orderBy("tags").uniqueKeys()) as string[];
     } catch (error) {
-      console.error("Failed to get all projects:", error);
-      throw new Error("Database error: Could not retrieve projects");
+      console.error("Failed to get tags:", error);
+      throw new Error("Database error: Could not retrieve tags");
     }
   },
 
   /**
-   * Get project by ID
+   * Get canvases carrying a tag
    */
-  async getProject(id: string): Promise<UnifiedProject | undefined> {
+  async getCanvasesByTag(tag: string): Promise<UnifiedCanvas[]> {
     try {
-      return await unifiedDb.projects.get(id);
+      return await unifiedDb.canvases.where("tags").equals(normalizeTag(tag)).toArray();
     } catch (error) {
-      console.error(`Failed to get project ${id}:`, error);
-      throw new Error(`Database error: Could not retrieve project ${id}`);
+      console.error(`Failed to get canvases for tag ${tag}:`, error);
+      throw new Error("Database error: Could not retrieve tagged canvases");
     }
   },
 
   /**
-   * Add new project
+   * Replace a canvas's tags; tags are normalized and de-duplicated
    */
-  async addProject(project: UnifiedProject): Promise<void> {
+  async setCanvasTags(canvasId: string, tags: string[]): Promise<UnifiedCanvas> {
     try {
-      // Validate project data
-      if (!project.id || !project.name || !project.color) {
-        throw new Error("Project must have id, name, and color");
-      }
+      return await unifiedDb.transaction('rw', unifiedDb.canvases, async () => {
+        const canvas = await unifiedDb.canvases.get(canvasId);
+        if (!canvas) {
+          throw new Error(`Canvas ${canvasId} not found`);
+        }
 
-      // Ensure timestamps and arrays
-      const now = new Date();
-      if (!project.createdAt) project.createdAt = now;
-      if (!project.updatedAt) project.updatedAt = now;
-      if (!project.canvasIds) project.canvasIds = [];
+        const normalized = Array.from(new Set(tags.map(normalizeTag).filter(Boolean)));
+        const updatedCanvas: UnifiedCanvas = {
+          ...canvas,
+          tags: normalized.length > 0 ? normalized : undefined,
+          updatedAt: new Date(),
+        };
+        await unifiedDb.canvases.put(updatedCanvas);
 
-      await unifiedDb.projects.add(project);
+        return updatedCanvas;
+      });
     } catch (error) {
-      console.error("Failed to add project:", error);
-      throw new Error("Database error: Could not add project");
+      console.error(`Failed to set tags for canvas ${canvasId}:`, error);
+      throw new Error("Database error: Could not save canvas tags");
     }
   },
 
   /**
-   * Update existing project
+   * Add and remove tags on several canvases at once, keeping their other tags
    */
-  async updateProject(project: UnifiedProject): Promise<void> {
+  async bulkUpdateCanvasTags(
+    canvasIds: string[],
+    changes: { add: string[]; remove: string[] },
+  ): Promise<UnifiedCanvas[]> {
     try {
-      // Update timestamp
-      project.updatedAt = new Date();
+      const added = changes.add.map(normalizeTag).filter(Boolean);
+      const removed = new Set(changes.remove.map(normalizeTag));
+
+      return await unifiedDb.transaction('rw', unifiedDb.canvases, async () => {
+        const canvases = (await unifiedDb.canvases.bulkGet(canvasIds))
+          .filter((canvas): canvas is UnifiedCanvas => canvas !== undefined);
+
+        const now = new Date();
+        const updatedCanvases = canvases.map((canvas) => {
+          const tags = Array.from(new Set([
+            ...(canvas.tags || []).filter(tag => !removed.has(tag)),
+            ...added,
+          ]));
+          return { ...canvas, tags: tags.length > 0 ? tags : undefined, updatedAt: now };
+        });
+        await unifiedDb.canvases.bulkPut(updatedCanvases);
 
-      await unifiedDb.projects.put(project);
+        return updatedCanvases;
+      });
     } catch (error) {
-      console.error("Failed to update project:", error);
-      throw new Error("Database error: Could not update project");
+      console.error("Failed to update tags for canvases:", error);
+      throw new Error("Database error: Could not save canvas tags");
     }
   },
+};
+
+const buildSearchDocument = (canvas: UnifiedCanvas): CanvasSearchDocument => {
+  const entries = extractSearchEntries(canvas.elements || []);
+  const terms = new Set<string>();
+  entries.forEach(entry => tokenizeSearchText(entry.text).forEach(term => terms.add(term)));
+
+  return {
+    canvasId: canvas.id,
+    terms: Array.from(terms),
+    entries,
+    sourceUpdatedAt: canvas.updatedAt,
+  };
+};
 
+// Full-Text Search Operations
+export const searchOperations = {
   /**
-   * Delete project by ID
+   * (Re)build the index row for one canvas
    */
-  async deleteProject(id: string): Promise<void> {
+  async indexCanvas(canvas: UnifiedCanvas): Promise<void> {
     try {
-      await unifiedDb.transaction('rw', unifiedDb.projects, unifiedDb.canvases, async () => {
-        // Get project to find associated canvases
-        const project = await unifiedDb.projects.get(id);
-
-        await unifiedDb.projects.delete(id);
-
-        // Remove project association from canvases
-        if (project && project.canvasIds.length > 0) {
-          const canvases = await unifiedDb.canvases
-            .where("id")
-            .anyOf(project.canvasIds)
-            .toArray();
-
-          const updatedCanvases = canvases.map(canvas => ({
-            ...canvas,
-            projectId: undefined
-          }));
-
-          await unifiedDb.canvases.bulkPut(updatedCanvases);
-        }
-      });
+      await unifiedDb.searchIndex.put(buildSearchDocument(canvas));
     } catch (error) {
-      console.error("Failed to delete project:", error);
-      throw new Error("Database error: Could not delete project");
+      console.error(`Failed to index canvas ${canvas.id}:`, error);
+      throw new Error("Database error: Could not update search index");
     }
   },
 
   /**
-   * Enhanced delete project with canvas handling options
+   * Index canvases changed since they were last indexed and drop rows for
+   * canvases that no longer exist. Returns the number of rows written.
    */
-  async deleteProjectWithOptions(
-    id: string,
-    canvasAction: 'keep' | 'delete' = 'keep'
-  ): Promise<{ deletedCanvasCount: number }> {
+  async reindexStale(): Promise<number> {
     try {
-      return await unifiedDb.transaction('rw', unifiedDb.projects, unifiedDb.canvases, async () => {
-        // Get project to find associated canvases
-        const project = await unifiedDb.projects.get(id);
-        if (!project) {
-          throw new Error(`Project ${id} not found`);
-        }
-
-        let deletedCanvasCount = 0;
-
-        // Handle canvas actions
-        if (project.canvasIds.length > 0) {
-          const canvases = await unifiedDb.canvases
-            .where("id")
-            .anyOf(project.canvasIds)
-            .toArray();
-
-          if (canvasAction === 'delete') {
-            // Delete all canvases in the project
-            await unifiedDb.canvases.bulkDelete(project.canvasIds);
-            deletedCanvasCount = canvases.length;
-          } else {
-            // Keep canvases but remove project association
-            const updatedCanvases = canvases.map(canvas => ({
-              ...canvas,
-              projectId: undefined
-            }));
-            await unifiedDb.canvases.bulkPut(updatedCanvases);
+      return await unifiedDb.transaction('rw', [unifiedDb.canvases, unifiedDb.searchIndex], async () => {
+        const documents = await unifiedDb.searchIndex.toArray();
+        const indexedAt = new Map(
+          documents.map(doc => [doc.canvasId, new Date(doc.sourceUpdatedAt).getTime()]),
+        );
+
+        const staleDocuments: CanvasSearchDocument[] = [];
+        const liveIds = new Set<string>();
+        await unifiedDb.canvases.each(canvas => {
+          liveIds.add(canvas.id);
+          if (indexedAt.get(canvas.id) !== new Date(canvas.updatedAt).getTime()) {
+            staleDocuments.push(buildSearchDocument(canvas));
           }
-        }
+        });
 
-        // Delete the project
-        await unifiedDb.projects.delete(id);
+        const orphanedIds = documents
+          .map(doc => doc.canvasId)
+          .filter(canvasId => !liveIds.has(canvasId));
+        if (orphanedIds.length > 0) {
+          await unifiedDb.searchIndex.bulkDelete(orphanedIds);
+        }
+        if (staleDocuments.length > 0) {
+          await unifiedDb.searchIndex.bulkPut(staleDocuments);
+        }
 
-        return { deletedCanvasCount };
+        return staleDocuments.length;
       });
     } catch (error) {
-      console.error("Failed to delete project with options:", error);
-      throw new Error("Database error: Could not delete project");
+      console.error("Failed to refresh search index:", error);
+      throw new Error("Database error: Could not refresh search index");
     }
   },
 
   /**
-   * Rename project with validation
+   * Find canvases whose text or links contain every word of the query
+   * (the last word may be a prefix). Best match per canvas, best first.
    */
-  async renameProject(projectId: string, newName: string): Promise<UnifiedProject> {
-    return this.updateProjectFields(projectId, { name: newName });
-  },
+  async searchContent(query: string): Promise<ContentSearchMatch[]> {
+    const terms = tokenizeSearchText(query);
+    if (terms.length === 0) return [];
 
-  /**
-   * Update project with validation (name, color, and/or description)
-   */
-  async updateProjectFields(projectId: string, updates: { name?: string; color?: string; description?: string }): Promise<UnifiedProject> {
     try {
-      // Get existing project
-      const project = await unifiedDb.projects.get(projectId);
-      if (!project) {
-        throw new Error(`Project ${projectId} not found`);
-      }
-
-      // Validate name if provided
-      if (updates.name !== undefined) {
-        const trimmedName = updates.name.trim();
-        if (!trimmedName) {
-          throw new Error("Project name cannot be empty");
-        }
-
-        // Check for duplicate names
-        const isValidName = await this.validateProjectName(trimmedName, projectId);
-        if (!isValidName) {
-          throw new Error("A project with this name already exists");
+      // Intersect the posting lists of all terms
+      const postings = await Promise.all(
+        terms.map((term, index) =>
+          (index === terms.length - 1
+            ? unifiedDb.searchIndex.where("terms").startsWith(term)
+            : unifiedDb.searchIndex.where("terms").equals(term)
+          ).primaryKeys(),
+        ),
+      );
+      const [firstPosting = [], ...otherPostings] = postings.map(
+        ids => new Set(ids as string[]),
+      );
+      const candidateIds = [...firstPosting].filter(id =>
+        otherPostings.every(posting => posting.has(id)),
+      );
+      if (candidateIds.length === 0) return [];
+
+      const documents = await unifiedDb.searchIndex.bulkGet(candidateIds);
+      const lowerQuery = query.toLowerCase().trim();
+      const matches: ContentSearchMatch[] = [];
+
+      for (const doc of documents) {
+        if (!doc) continue;
+
+        let best: ContentSearchMatch | null = null;
+        for (const entry of doc.entries) {
+          const lowerText = entry.text.toLowerCase();
+          const matchedTerms = terms.filter(term => lowerText.includes(term)).length;
+          if (matchedTerms === 0) continue;
+
+          // Whole-phrase hits beat scattered words; links rank just below text
+          const score =
+            (lowerText.includes(lowerQuery) ? 70 : 40 + (20 * matchedTerms) / terms.length) -
+            (entry.kind === "link" ? 5 : 0);
+          if (!best || score > best.score) {
+            best = {
+              canvasId: doc.canvasId,
+              elementId: entry.elementId,
+              kind: entry.kind,
+              snippet: buildSearchSnippet(entry.text, query),
+              score,
+            };
+          }
         }
-
-        project.name = trimmedName;
-      }
-
-      // Update color if provided
-      if (updates.color !== undefined) {
-        project.color = updates.color;
-      }
-
-      // Update description if provided (including explicit undefined to clear)
-      if ('description' in updates) {
-        project.description = updates.description?.trim() || undefined;
+        if (best) matches.push(best);
       }
 
-      // Update timestamp
-      project.updatedAt = new Date();
-
-      await unifiedDb.projects.put(project);
-
-      return project;
+      return matches
+        .sort((a, b) => b.score - a.score)
+        .slice(0, CONTENT_SEARCH_CONSTANTS.MAX_RESULTS);
     } catch (error) {
-      console.error("Failed to update project:", error);
-      throw new Error("Database error: Could not update project");
+      console.error("Failed to search canvas contents:", error);
+      throw new Error("Database error: Could not search canvas contents");
     }
   },
+};
 
+// Embedded File Operations
+export const fileOperations = {
   /**
-   * Validate project name (returns true if valid/unique)
+   * Get all files referenced by a canvas, keyed by file id
    */
-  async validateProjectName(name: string, excludeId?: string): Promise<boolean> {
+  async getFilesForCanvas(canvasId: string): Promise<BinaryFiles> {
     try {
-      const trimmedName = name.trim();
-      if (!trimmedName) {
-        return false;
+      const files = await unifiedDb.files.where("canvasIds").equals(canvasId).toArray();
+      const binaryFiles: BinaryFiles = {};
+      for (const file of files) {
+        binaryFiles[file.id] = {
+          id: file.id,
+          mimeType: file.mimeType,
+          dataURL: file.dataURL,
+          created: file.created,
+          lastRetrieved: file.lastRetrieved,
+        };
       }
-
-      // Check for existing project with same name
-      const existingProjects = await unifiedDb.projects
-        .where("name")
-        .equalsIgnoreCase(trimmedName)
-        .toArray();
-
-      // If excluding an ID, filter it out
-      const duplicates = excludeId
-        ? existingProjects.filter(p => p.id !== excludeId)
-        : existingProjects;
-
-      return duplicates.length === 0;
+      return binaryFiles;
     } catch (error) {
-      console.error("Failed to validate project name:", error);
-      return false;
+      console.error(`Failed to get files for canvas ${canvasId}:`, error);
+      throw new Error("Database error: Could not retrieve canvas files");
     }
   },
 
   /**
-   * Export project data with all associated canvases
+   * Reconcile a canvas's file references with its current elements.
+   * New files are stored once and shared; references no longer used are released.
    */
-  async exportProject(projectId: string): Promise<ProjectExportData> {
+  async syncCanvasFiles(
+    canvasId: string,
+    elements: readonly ExcalidrawElement[],
+    files: BinaryFiles,
+  ): Promise<void> {
     try {
-      // Get project
-      const project = await unifiedDb.projects.get(projectId);
-      if (!project) {
-        throw new Error(`Project ${projectId} not found`);
-      }
+      const referencedIds = getReferencedFileIds(elements);
+
+      await unifiedDb.transaction('rw', unifiedDb.files, async () => {
+        const now = new Date();
+        const existingFiles = await unifiedDb.files.bulkGet(referencedIds);
+        const filesToPut: UnifiedFile[] = [];
+
+        referencedIds.forEach((fileId, index) => {
+          const existing = existingFiles[index];
+          if (existing) {
+            if (!existing.canvasIds.includes(canvasId)) {
+              filesToPut.push({
+                ...existing,
+                canvasIds: [...existing.canvasIds, canvasId],
+                updatedAt: now,
+              });
+            }
+            return;
+          }
 
-      // Get all canvases for this project using the authoritative source (canvas.projectId)
-      // This ensures we get the live, up-to-date canvas-project relationships
-      const canvases = await unifiedDb.canvases
-        .where("projectId")
-        .equals(projectId)
-        .toArray();
+          const file = files[fileId];
+          if (!file) {
+            // Excalidraw may not have flushed the file yet; the next save picks it up
+            console.warn(`File ${fileId} for canvas ${canvasId} is not available yet`);
+            return;
+          }
 
-      return {
-        project,
-        canvases,
-        exportedAt: new Date(),
-        format: 'zip'
-      };
-    } catch (error) {
-      console.error("Failed to export project:", error);
-      throw new Error("Database error: Could not export project");
-    }
-  },
+          filesToPut.push({
+            id: fileId,
+            mimeType: file.mimeType,
+            dataURL: file.dataURL,
+            created: file.created,
+            lastRetrieved: file.lastRetrieved,
+            canvasIds: [canvasId],
+            createdAt: now,
+            updatedAt: now,
+          });
+        });
 
-  /**
-   * Add canvas to project
-   */
-  async addCanvasToProject(canvasId: string, projectId: string): Promise<void> {
-    try {
-      await unifiedDb.transaction('rw', unifiedDb.canvases, unifiedDb.projects, async () => {
-        // Update canvas
-        const canvas = await unifiedDb.canvases.get(canvasId);
-        if (!canvas) {
-          throw new Error(`Canvas ${canvasId} not found`);
+        if (filesToPut.length > 0) {
+          await unifiedDb.files.bulkPut(filesToPut);
         }
 
-        canvas.projectId = projectId;
-        await unifiedDb.canvases.put(canvas);
+        // Release files this canvas no longer uses
+        const staleFileIds = await unifiedDb.files
+          .where("canvasIds")
+          .equals(canvasId)
+          .filter(file => !referencedIds.includes(file.id))
+          .primaryKeys();
 
-        // Update project
-        const project = await unifiedDb.projects.get(projectId);
-        if (!project) {
-          throw new Error(`Project ${projectId} not found`);
-        }
+        for (const fileId of staleFileIds) {
+          const file = await unifiedDb.files.get(fileId);
+          if (!file) continue;
 
-        if (!project.canvasIds.includes(canvasId)) {
-          project.canvasIds.push(canvasId);
-          await unifiedDb.projects.put(project);
+          const remaining = file.canvasIds.filter(id => id !== canvasId);
+          if (remaining.length === 0) {
+            await unifiedDb.files.delete(fileId);
+          } else {
+            await unifiedDb.files.put({ ...file, canvasIds: remaining, updatedAt: now });
+          }
         }
       });
     } catch (error) {
-      console.error("Failed to add canvas to project:", error);
-      throw new Error("Database error: Could not add canvas to project");
+      console.error(`Failed to sync files for canvas ${canvasId}:`, error);
+      throw new Error("Database error: Could not save canvas files");
     }
   },
 
   /**
-   * Remove canvas from project
+   * Share all files of one canvas with another (used when duplicating)
    */
-  async removeCanvasFromProject(
-    canvasId: string,
-    projectId: string,
-  ): Promise<void> {
+  async shareCanvasFiles(sourceCanvasId: string, targetCanvasId: string): Promise<void> {
     try {
-      await unifiedDb.transaction('rw', unifiedDb.canvases, unifiedDb.projects, async () => {
-        // Update canvas
-        const canvas = await unifiedDb.canvases.get(canvasId);
-        if (canvas && canvas.projectId === projectId) {
-          canvas.projectId = undefined;
-          await unifiedDb.canvases.put(canvas);
-        }
+      await unifiedDb.transaction('rw', unifiedDb.files, async () => {
+        const files = await unifiedDb.files.where("canvasIds").equals(sourceCanvasId).toArray();
+        const updatedFiles = files
+          .filter(file => !file.canvasIds.includes(targetCanvasId))
+          .map(file => ({
+            ...file,
+            canvasIds: [...file.canvasIds, targetCanvasId],
+            updatedAt: new Date(),
+          }));
 
-        // Update project
-        const project = await unifiedDb.projects.get(projectId);
-        if (project) {
-          project.canvasIds = project.canvasIds.filter((id) => id !== canvasId);
-          await unifiedDb.projects.put(project);
+        if (updatedFiles.length > 0) {
+          await unifiedDb.files.bulkPut(updatedFiles);
         }
       });
     } catch (error) {
-      console.error("Failed to remove canvas from project:", error);
-      throw new Error("Database error: Could not remove canvas from project");
+      console.error(`Failed to share files from canvas ${sourceCanvasId}:`, error);
+      throw new Error("Database error: Could not share canvas files");
     }
   },
 };
 
-// Settings Management
-export const settingsOperations = {
+// Canvas Version History Operations
+export const versionOperations = {
   /**
-   * Get setting value by key
+   * Get snapshots for a canvas (most recent first)
    */
-  async getSetting<T>(key: string, defaultValue?: T): Promise<T | undefined> {
+  async getVersionsForCanvas(canvasId: string): Promise<CanvasVersion[]> {
     try {
-      const setting = await unifiedDb.settings.get(key);
-      return setting ? (setting.value as T) : defaultValue;
+      return await unifiedDb.canvasVersions
+        .where("[canvasId+createdAt]")
+        .between([canvasId, Dexie.minKey], [canvasId, Dexie.maxKey])
+        .reverse()
+        .toArray();
     } catch (error) {
-      console.error(`Failed to get setting ${key}:`, error);
-      return defaultValue;
+      console.error(`Failed to get versions for canvas ${canvasId}:`, error);
+      throw new Error("Database error: Could not retrieve canvas versions");
     }
   },
 
   /**
-   * Set setting value
+   * Snapshot a canvas's current content. Automatic snapshots are throttled per
+   * canvas; pass force to bypass the throttle (e.g. before a restore).
+   * Returns null when no snapshot was needed.
    */
-  async setSetting<T>(key: string, value: T): Promise<void> {
+  async snapshotCanvas(
+    canvas: UnifiedCanvas,
+    options: { force?: boolean } = {},
+  ): Promise<CanvasVersion | null> {
+    try {
+      const elements = canvas.elements || [];
+      const elementCount = elements.filter(element => !element.isDeleted).length;
+      if (elementCount === 0) {
+        return null; // Nothing worth restoring
+      }
+
+      return await unifiedDb.transaction('rw', unifiedDb.canvasVersions, async () => {
+        const latest = await unifiedDb.canvasVersions
+          .where("[canvasId+createdAt]")
+          .between([canvas.id, Dexie.minKey], [canvas.id, Dexie.maxKey])
+          .last();
+
+        const now = new Date();
+        if (latest) {
+          const tooSoon =
+            now.getTime() - new Date(latest.createdAt).getTime() <
+            VERSION_HISTORY_CONSTANTS.SNAPSHOT_INTERVAL_MS;
+          if ((!options.force && tooSoon) ||
+              JSON.stringify(latest.elements) === JSON.stringify(elements)) {
+            return null;
+          }
+        }
+
+        const version: CanvasVersion = {
+          id: `version_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+          canvasId: canvas.id,
+          elements,
+          appState: canvas.appState,
+          elementCount,
+          createdAt: now,
+        };
+        await unifiedDb.canvasVersions.add(version);
+
+        // Cap history per canvas by dropping the oldest snapshots
+        const versionIds = await unifiedDb.canvasVersions
+          .where("[canvasId+createdAt]")
+          .between([canvas.id, Dexie.minKey], [canvas.id, Dexie.maxKey])
+          .primaryKeys();
+        const excess = versionIds.length - VERSION_HISTORY_CONSTANTS.MAX_VERSIONS_PER_CANVAS;
+        if (excess > 0) {
+          await unifiedDb.canvasVersions.bulkDelete(versionIds.slice(0, excess));
+        }
+
+        return version;
+      });
+    } catch (error) {
+      console.error(`Failed to snapshot canvas ${canvas.id}:`, error);
+      throw new Error("Database error: Could not save canvas version");
+    }
+  },
+
+  /**
+   * Delete a single snapshot
+   */
+  async deleteVersion(id: string): Promise<void> {
+    try {
+      await unifiedDb.canvasVersions.delete(id);
+    } catch (error) {
+      console.error(`Failed to delete version ${id}:`, error);
+      throw new Error("Database error: Could not delete canvas version");
+    }
+  },
+};
+
+// Canvas Template Operations
+export const templateOperations = {
+  /**
+   * Get all templates sorted by category, then name
+   */
+  async getAllTemplates(): Promise<CanvasTemplate[]> {
+    try {
+      const templates = await unifiedDb.templates.toArray();
+      return templates.sort(
+        (a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name),
+      );
+    } catch (error) {
+      console.error("Failed to get templates:", error);
+      throw new Error("Database error: Could not retrieve templates");
+    }
+  },
+
+  /**
+   * Get a single template by ID
+   */
+  async getTemplate(id: string): Promise<CanvasTemplate | undefined> {
+    try {
+      return await unifiedDb.templates.get(id);
+    } catch (error) {
+      console.error(`Failed to get template ${id}:`, error);
+      throw new Error("Database error: Could not retrieve template");
+    }
+  },
+
+  /**
+   * Save a copy of a canvas's current content, including its images, as a template
+   */
+  async createTemplateFromCanvas(
+    canvas: UnifiedCanvas,
+    details: { name: string; category?: string },
+  ): Promise<CanvasTemplate> {
+    try {
+      const name = details.name.trim();
+      if (!name) {
+        throw new Error("Template name cannot be empty");
+      }
+
+      const elements = (canvas.elements || []).filter(element => !element.isDeleted);
+      const files = await fileOperations.getFilesForCanvas(canvas.id);
+      const now = new Date();
+      const template: CanvasTemplate = {
+        id: `template_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+        name,
+        category: details.category?.trim() || TEMPLATE_CONSTANTS.DEFAULT_CATEGORY,
+        elements,
+        appState: canvas.appState,
+        files: Object.keys(files).length > 0 ? files : undefined,
+        thumbnail: canvas.thumbnail,
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await unifiedDb.templates.add(template);
+      return template;
+    } catch (error) {
+      console.error(`Failed to save canvas ${canvas.id} as template:`, error);
+      throw new Error("Database error: Could not save template");
+    }
+  },
+
+  /**
+   * Delete a template and unset it as default on any project using it.
+   * Returns the projects that changed.
+   */
+  async deleteTemplate(id: string): Promise<UnifiedProject[]> {
+    try {
+      return await unifiedDb.transaction('rw', unifiedDb.templates, unifiedDb.projects, async () => {
+        await unifiedDb.templates.delete(id);
+
+        const projects = await unifiedDb.projects
+          .filter(project => project.defaultTemplateId === id)
+          .toArray();
+        const updatedProjects = projects.map(project => ({
+          ...project,
+          defaultTemplateId: undefined,
+        }));
+        if (updatedProjects.length > 0) {
+          await unifiedDb.projects.bulkPut(updatedProjects);
+        }
+        return updatedProjects;
+      });
+    } catch (error) {
+      console.error(`Failed to delete template ${id}:`, error);
+      throw new Error("Database error: Could not delete template");
+    }
+  },
+};
+
+// Core Project Operations, over any storage
+export const createProjectOperations = (storage: StorageAdapter) => ({
+  /**
+   * Get all projects sorted by createdAt
+   */
+  async getAllProjects(): Promise<UnifiedProject[]> {
+    try {
+      return await storage.projects.orderBy("createdAt");
+    } catch (error) {
+      console.error("Failed to get all projects:", error);
+      throw new Error("Database error: Could not retrieve projects");
+    }
+  },
+
+  /**
+   * Get project by ID
+   */
+  async getProject(id: string): Promise<UnifiedProject | undefined> {
+    try {
+      return await storage.projects.get(id);
+    } catch (error) {
+      console.error(`Failed to get project ${id}:`, error);
+      throw new Error(`Database error: Could not retrieve project ${id}`);
+    }
+  },
+
+  /**
+   * Add new project
+   */
+  async addProject(project: UnifiedProject): Promise<void> {
+    try {
+      // Validate project data
+      if (!project.id || !project.name || !project.color) {
+        throw new Error("Project must have id, name, and color");
+      }
+
+      // Ensure timestamps and arrays
+      const now = new Date();
+      if (!project.createdAt) project.createdAt = now;
+      if (!project.updatedAt) project.updatedAt = now;
+      if (!project.canvasIds) project.canvasIds = [];
+
+      await storage.projects.add(project);
+    } catch (error) {
+      console.error("Failed to add project:", error);
+      throw new Error("Database error: Could not add project");
+    }
+  },
+
+  /**
+   * Update existing project, resolving with the project as saved
+   */
+  async updateProject(project: UnifiedProject): Promise<UnifiedProject> {
+    try {
+      // Update timestamp
+      project.updatedAt = new Date();
+
+      await storage.projects.put(project);
+      return project;
+    } catch (error) {
+      console.error("Failed to update project:", error);
+      throw new Error("Database error: Could not update project");
+    }
+  },
+
+  /**
+   * Move project to the trash by ID, keeping its canvases as unorganized
+   */
+  async deleteProject(id: string): Promise<void> {
+    try {
+      await this.deleteProjectWithOptions(id, 'keep');
+    } catch (error) {
+      console.error("Failed to delete project:", error);
+      throw new Error("Database error: Could not delete project");
+    }
+  },
+
+  /**
+   * Enhanced delete project with canvas handling options.
+   * The project and its subprojects go to the trash; 'delete' trashes their canvases along with them.
+   */
+  async deleteProjectWithOptions(
+    id: string,
+    canvasAction: 'keep' | 'delete' = 'keep'
+  ): Promise<{ deletedCanvasCount: number }> {
+    try {
+      return await storage.transaction(["projects", "canvases", "trash"], async () => {
+        // Get project to find associated canvases
+        const project = await storage.projects.get(id);
+        if (!project) {
+          throw new Error(`Project ${id} not found`);
+        }
+
+        // Subprojects are deleted with their parent, using the same canvas action
+        const projects = [project, ...await collectDescendantProjects(storage, id)];
+        const deletedAt = new Date();
+        let deletedCanvasCount = 0;
+
+        for (const current of projects) {
+          // Handle canvas actions
+          if (current.canvasIds.length > 0) {
+            const canvases = await storage.canvases.where("id", current.canvasIds);
+
+            if (canvasAction === 'delete') {
+              // Trash all canvases together with their project
+              await moveCanvasesToTrash(storage, canvases, current.id);
+              deletedCanvasCount += canvases.length;
+            } else {
+              // Keep canvases but remove project association
+              const updatedCanvases = canvases.map(canvas => ({
+                ...canvas,
+                projectId: undefined
+              }));
+              await storage.canvases.bulkPut(updatedCanvases);
+            }
+          }
+
+          // Trash the project; subprojects are linked to their trashed parent
+          await storage.trash.put({
+            id: current.id,
+            type: "project",
+            name: current.name,
+            deletedAt,
+            project: current,
+            ...(current.id !== id && current.parentId ? { parentId: current.parentId } : {}),
+          });
+        }
+        await storage.projects.bulkDelete(projects.map(current => current.id));
+
+        return { deletedCanvasCount };
+      });
+    } catch (error) {
+      console.error("Failed to delete project with options:", error);
+      throw new Error("Database error: Could not delete project");
+    }
+  },
+
+  /**
+   * Move a project under another project, or to the top level when parentId is undefined
+   */
+  async moveProject(projectId: string, parentId?: string): Promise<UnifiedProject> {
+    try {
+      return await storage.transaction(["projects"], async () => {
+        const project = await storage.projects.get(projectId);
+        if (!project) {
+          throw new Error(`Project ${projectId} not found`);
+        }
+
+        if (parentId) {
+          if (!await storage.projects.get(parentId)) {
+            throw new Error(`Project ${parentId} not found`);
+          }
+
+          // A project cannot become its own ancestor
+          const descendants = await collectDescendantProjects(storage, projectId);
+          if (parentId === projectId || descendants.some(d => d.id === parentId)) {
+            throw new Error("A project cannot be moved into itself or one of its subprojects");
+          }
+        }
+
+        const updatedProject: UnifiedProject = {
+          ...project,
+          parentId: parentId || undefined,
+          updatedAt: new Date(),
+        };
+        await storage.projects.put(updatedProject);
+
+        return updatedProject;
+      });
+    } catch (error) {
+      console.error("Failed to move project:", error);
+      throw new Error("Database error: Could not move project");
+    }
+  },
+
+  /**
+   * Persist a manual order for sibling projects; sortOrder follows the given id order
+   */
+  async reorderProjects(orderedIds: string[]): Promise<UnifiedProject[]> {
+    try {
+      return await storage.transaction(["projects"], async () => {
+        const projects = (await storage.projects.bulkGet(orderedIds))
+          .filter((project): project is UnifiedProject => !!project);
+        const updatedProjects = projects.map(project => ({
+          ...project,
+          sortOrder: orderedIds.indexOf(project.id),
+        }));
+        await storage.projects.bulkPut(updatedProjects);
+
+        return updatedProjects;
+      });
+    } catch (error) {
+      console.error("Failed to reorder projects:", error);
+      throw new Error("Database error: Could not reorder projects");
+    }
+  },
+
+  /**
+   * Persist a manual canvas order within a project (the order of its canvasIds).
+   * Canvases missing from the given order keep their relative order at the end.
+   */
+  async reorderProjectCanvases(projectId: string, orderedCanvasIds: string[]): Promise<UnifiedProject> {
+    try {
+      return await storage.transaction(["projects"], async () => {
+        const project = await storage.projects.get(projectId);
+        if (!project) {
+          throw new Error(`Project ${projectId} not found`);
+        }
+
+        const updatedProject: UnifiedProject = {
+          ...project,
+          canvasIds: [
+            ...orderedCanvasIds.filter(id => project.canvasIds.includes(id)),
+            ...project.canvasIds.filter(id => !orderedCanvasIds.includes(id)),
+          ],
+        };
+        await storage.projects.put(updatedProject);
+
+        return updatedProject;
+      });
+    } catch (error) {
+      console.error("Failed to reorder project canvases:", error);
+      throw new Error("Database error: Could not reorder canvases");
+    }
+  },
+
+  /**
+   * Rename project with validation
+   */
+  async renameProject(projectId: string, newName: string): Promise<UnifiedProject> {
+    return this.updateProjectFields(projectId, { name: newName });
+  },
+
+  /**
+   * Update project with validation (name, color, description and/or default template)
+   */
+  async updateProjectFields(projectId: string, updates: { name?: string; color?: string; description?: string; defaultTemplateId?: string }): Promise<UnifiedProject> {
+    try {
+      // Get existing project
+      const project = await storage.projects.get(projectId);
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+
+      // Validate name if provided
+      if (updates.name !== undefined) {
+        const trimmedName = updates.name.trim();
+        if (!trimmedName) {
+          throw new Error("Project name cannot be empty");
+        }
+
+        // Check for duplicate names
+        const isValidName = await this.validateProjectName(trimmedName, projectId);
+        if (!isValidName) {
+          throw new Error("A project with this name already exists");
+        }
+
+        project.name = trimmedName;
+      }
+
+      // Update color if provided
+      if (updates.color !== undefined) {
+        project.color = updates.color;
+      }
+
+      // Update description if provided (including explicit undefined to clear)
+      if ('description' in updates) {
+        project.description = updates.description?.trim() || undefined;
+      }
+
+      // Update default template if provided (including explicit undefined to clear)
+      if ('defaultTemplateId' in updates) {
+        project.defaultTemplateId = updates.defaultTemplateId || undefined;
+      }
+
+      // Update timestamp
+      project.updatedAt = new Date();
+
+      await storage.projects.put(project);
+
+      return project;
+    } catch (error) {
+      console.error("Failed to update project:", error);
+      throw new Error("Database error: Could not update project");
+    }
+  },
+
+  /**
+   * Validate project name (returns true if valid/unique)
+   */
+  async validateProjectName(name: string, excludeId?: string): Promise<boolean> {
+    try {
+      const trimmedName = name.trim();
+      if (!trimmedName) {
+        return false;
+      }
+
+      // Check for existing project with same name
+      const existingProjects = await storage.projects.whereIgnoreCase("name", trimmedName);
+
+      // If excluding an ID, filter it out
+      const duplicates = excludeId
+        ? existingProjects.filter(p => p.id !== excludeId)
+        : existingProjects;
+
+      return duplicates.length === 0;
+    } catch (error) {
+      console.error("Failed to validate project name:", error);
+      return false;
+    }
+  },
+
+  /**
+   * Export project data with all associated canvases
+   */
+  async exportProject(projectId: string): Promise<ProjectExportData> {
+    try {
+      // Get project
+      const project = await storage.projects.get(projectId);
+      if (!project) {
+        throw new Error(`Project ${projectId} not found`);
+      }
+
+      // Get all canvases for this project using the authoritative source (canvas.projectId)
+      // This ensures we get the live, up-to-date canvas-project relationships
+      const canvases = await storage.canvases.where("projectId", [projectId]);
+
+      return {
+        project,
+        canvases,
+        exportedAt: new Date(),
+        format: 'zip'
+      };
+    } catch (error) {
+      console.error("Failed to export project:", error);
+      throw new Error("Database error: Could not export project");
+    }
+  },
+
+  /**
+   * Add canvas to project
+   */
+  async addCanvasToProject(canvasId: string, projectId: string): Promise<void> {
+    try {
+      await storage.transaction(["canvases", "projects"], async () => {
+        // Update canvas
+        const canvas = await storage.canvases.get(canvasId);
+        if (!canvas) {
+          throw new Error(`Canvas ${canvasId} not found`);
+        }
+
+        canvas.projectId = projectId;
+        await storage.canvases.put(canvas);
+
+        // Update project
+        const project = await storage.projects.get(projectId);
+        if (!project) {
+          throw new Error(`Project ${projectId} not found`);
+        }
+
+        if (!project.canvasIds.includes(canvasId)) {
+          project.canvasIds.push(canvasId);
+          await storage.projects.put(project);
+        }
+      });
+    } catch (error) {
+      console.error("Failed to add canvas to project:", error);
+      throw new Error("Database error: Could not add canvas to project");
+    }
+  },
+
+  /**
+   * Remove canvas from project
+   */
+  async removeCanvasFromProject(
+    canvasId: string,
+    projectId: string,
+  ): Promise<void> {
+    try {
+      await storage.transaction(["canvases", "projects"], async () => {
+        // Update canvas
+        const canvas = await storage.canvases.get(canvasId);
+        if (canvas && canvas.projectId === projectId) {
+          canvas.projectId = undefined;
+          await storage.canvases.put(canvas);
+        }
+
+        // Update project
+        const project = await storage.projects.get(projectId);
+        if (project) {
+          project.canvasIds = project.canvasIds.filter((id) => id !== canvasId);
+          await storage.projects.put(project);
+        }
+      });
+    } catch (error) {
+      console.error("Failed to remove canvas from project:", error);
+      throw new Error("Database error: Could not remove canvas from project");
+    }
+  },
+
+  /**
+   * Move several canvases into a project, or out of their projects when projectId
+   * is undefined. Returns the canvases and projects that changed.
+   */
+  async moveCanvasesToProject(
+    canvasIds: string[],
+    projectId?: string,
+  ): Promise<{ canvases: UnifiedCanvas[]; projects: UnifiedProject[] }> {
+    try {
+      return await storage.transaction(["canvases", "projects"], async () => {
+        if (projectId && !(await storage.projects.get(projectId))) {
+          throw new Error(`Project ${projectId} not found`);
+        }
+
+        const canvases = (await storage.canvases.bulkGet(canvasIds))
+          .filter((canvas): canvas is UnifiedCanvas => canvas !== undefined)
+          .filter(canvas => canvas.projectId !== projectId);
+        const movedIds = new Set(canvases.map(canvas => canvas.id));
+        if (movedIds.size === 0) {
+          return { canvases: [], projects: [] };
+        }
+
+        const affectedProjectIds = new Set(
+          canvases.map(canvas => canvas.projectId).filter((id): id is string => !!id),
+        );
+        if (projectId) {
+          affectedProjectIds.add(projectId);
+        }
+
+        const projects = (await storage.projects.bulkGet(Array.from(affectedProjectIds)))
+          .filter((project): project is UnifiedProject => project !== undefined)
+          .map(project => {
+            const canvasIds = project.canvasIds.filter(id => !movedIds.has(id));
+            return {
+              ...project,
+              canvasIds: project.id === projectId ? [...canvasIds, ...movedIds] : canvasIds,
+            };
+          });
+        const updatedCanvases = canvases.map(canvas => ({ ...canvas, projectId }));
+
+        await storage.canvases.bulkPut(updatedCanvases);
+        await storage.projects.bulkPut(projects);
+
+        return { canvases: updatedCanvases, projects };
+      });
+    } catch (error) {
+      console.error("Failed to move canvases to project:", error);
+      throw new Error("Database error: Could not move canvases");
+    }
+  },
+});
+
+export const projectOperations = createProjectOperations(unifiedStorage);
+
+// Trash Bin Operations
+export const trashOperations = {
+  /**
+   * Get all trashed items (most recently deleted first)
+   */
+  async getTrashItems(): Promise<TrashItem[]> {
+    try {
+      return await unifiedDb.trash.orderBy("deletedAt").reverse().toArray();
+    } catch (error) {
+      console.error("Failed to get trash items:", error);
+      throw new Error("Database error: Could not retrieve trash");
+    }
+  },
+
+  /**
+   * Restore a trashed item. Canvases are re-linked to their original project
+   * when it still exists; projects bring back the canvases and subprojects
+   * trashed with them and re-claim their kept canvases that are still unorganized.
+   */
+  async restoreItem(id: string): Promise<{
+    project?: UnifiedProject;
+    canvases: UnifiedCanvas[];
+  }> {
+    try {
+      return await unifiedDb.transaction('rw', [unifiedDb.canvases, unifiedDb.projects, unifiedDb.trash], async () => {
+        const item = await unifiedDb.trash.get(id);
+        if (!item) {
+          throw new Error(`Trash item ${id} not found`);
+        }
+
+        if (item.type === "canvas") {
+          if (await unifiedDb.canvases.get(item.id)) {
+            throw new Error(`Canvas ${item.id} already exists`);
+          }
+
+          const project = item.canvas.projectId
+            ? await unifiedDb.projects.get(item.canvas.projectId)
+            : undefined;
+          const canvas: UnifiedCanvas = { ...item.canvas, projectId: project?.id };
+
+          await unifiedDb.canvases.add(canvas);
+          if (project && !project.canvasIds.includes(canvas.id)) {
+            await unifiedDb.projects.put({
+              ...project,
+              canvasIds: [...project.canvasIds, canvas.id],
+              updatedAt: new Date(),
+            });
+          }
+          await unifiedDb.trash.delete(item.id);
+
+          return { canvases: [canvas] };
+        }
+
+        return await restoreTrashedProject(item);
+      });
+    } catch (error) {
+      console.error(`Failed to restore trash item ${id}:`, error);
+      throw new Error("Database error: Could not restore item from trash");
+    }
+  },
+
+  /**
+   * Permanently delete a trashed item (a project takes its trashed canvases and subprojects with it)
+   */
+  async purgeItem(id: string): Promise<void> {
+    try {
+      await unifiedDb.transaction('rw', [unifiedDb.trash, unifiedDb.files, unifiedDb.canvasVersions], async () => {
+        const item = await unifiedDb.trash.get(id);
+        if (!item) return;
+
+        const childItems = item.type === "project" ? await collectTrashDescendants(item.id) : [];
+        await purgeTrashItems([item, ...childItems]);
+      });
+    } catch (error) {
+      console.error(`Failed to purge trash item ${id}:`, error);
+      throw new Error("Database error: Could not permanently delete item");
+    }
+  },
+
+  /**
+   * Permanently delete everything in the trash
+   */
+  async emptyTrash(): Promise<void> {
+    try {
+      await unifiedDb.transaction('rw', [unifiedDb.trash, unifiedDb.files, unifiedDb.canvasVersions], async () => {
+        await purgeTrashItems(await unifiedDb.trash.toArray());
+      });
+    } catch (error) {
+      console.error("Failed to empty trash:", error);
+      throw new Error("Database error: Could not empty trash");
+    }
+  },
+
+  /**
+   * Permanently delete items trashed more than the given number of days ago.
+   * Returns the number of purged items; 0 days disables auto-purge.
+   */
+  async purgeExpired(days: number): Promise<number> {
+    if (days <= 0) return 0;
+
+    try {
+      const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+      return await unifiedDb.transaction('rw', [unifiedDb.trash, unifiedDb.files, unifiedDb.canvasVersions], async () => {
+        const expired = await unifiedDb.trash.where("deletedAt").below(cutoff).toArray();
+        await purgeTrashItems(expired);
+        return expired.length;
+      });
+    } catch (error) {
+      console.error("Failed to purge expired trash:", error);
+      throw new Error("Database error: Could not purge expired trash");
+    }
+  },
+};
+
+// Settings Management
+// App settings, over any storage
+export const createSettingsOperations = (storage: StorageAdapter) => ({
+  /**
+   * Get setting value by key
+   */
+  async getSetting<T>(key: string, defaultValue?: T): Promise<T | undefined> {
+    try {
+      const setting = await storage.settings.get(key);
+      return setting ? (setting.value as T) : defaultValue;
+    } catch (error) {
+      console.error(`Failed to get setting ${key}:`, error);
+      return defaultValue;
+    }
+  },
+
+  /**
+   * Set setting value
+   */
+  async setSetting<T>(key: string, value: T): Promise<void> {
     try {
       const setting: AppSettings = {
         key,
@@ -585,7 +1657,7 @@ export const settingsOperations = {
         updatedAt: new Date(),
       };
 
-      await unifiedDb.settings.put(setting);
+      await storage.settings.put(setting);
     } catch (error) {
       console.error(`Failed to set setting ${key}:`, error);
       throw new Error("Database error: Could not save setting");
@@ -597,7 +1669,7 @@ export const settingsOperations = {
    */
   async getAllSettings(): Promise<Record<string, unknown>> {
     try {
-      const settings = await unifiedDb.settings.toArray();
+      const settings = await storage.settings.toArray();
       const result: Record<string, unknown> = {};
 
       for (const setting of settings) {
@@ -616,13 +1688,241 @@ export const settingsOperations = {
    */
   async deleteSetting(key: string): Promise<void> {
     try {
-      await unifiedDb.settings.delete(key);
+      await storage.settings.delete(key);
     } catch (error) {
       console.error(`Failed to delete setting ${key}:`, error);
       throw new Error("Database error: Could not delete setting");
     }
   },
-};
+});
+
+export const settingsOperations = createSettingsOperations(unifiedStorage);
+
+// Workspace Integrity Operations, over any storage
+export const createIntegrityOperations = (storage: StorageAdapter) => ({
+  /**
+   * Check every canvas and project for broken membership, ids, elements and dates
+   */
+  async scanWorkspace(): Promise<IntegrityReport> {
+    try {
+      const [canvases, projects] = await Promise.all([
+        storage.canvases.toArray(),
+        storage.projects.toArray(),
+      ]);
+
+      return {
+        scannedAt: new Date(),
+        canvasCount: canvases.length,
+        projectCount: projects.length,
+        issues: findIntegrityIssues(canvases, projects),
+      };
+    } catch (error) {
+      console.error("Failed to scan workspace:", error);
+      throw new Error("Database error: Could not check the workspace");
+    }
+  },
+
+  /**
+   * Repair the issues of the given kinds in one transaction. Returns the canvases and
+   * projects that changed and a fresh report of what is left.
+   */
+  async repairWorkspace(kinds: IntegrityIssueKind[]): Promise<{
+    canvases: UnifiedCanvas[];
+    projects: UnifiedProject[];
+    report: IntegrityReport;
+  }> {
+    try {
+      return await storage.transaction(["canvases", "projects"], async () => {
+        const [canvases, projects] = await Promise.all([
+          storage.canvases.toArray(),
+          storage.projects.toArray(),
+        ]);
+
+        const repaired = repairIntegrityIssues(canvases, projects, new Set(kinds));
+        if (repaired.canvases.length > 0) {
+          await storage.canvases.bulkPut(repaired.canvases);
+        }
+        if (repaired.projects.length > 0) {
+          await storage.projects.bulkPut(repaired.projects);
+        }
+
+        const repairedCanvases = new Map(repaired.canvases.map(canvas => [canvas.id, canvas]));
+        const repairedProjects = new Map(repaired.projects.map(project => [project.id, project]));
+        const remainingCanvases = canvases.map(canvas => repairedCanvases.get(canvas.id) ?? canvas);
+        const remainingProjects = projects.map(project => repairedProjects.get(project.id) ?? project);
+
+        return {
+          ...repaired,
+          report: {
+            scannedAt: new Date(),
+            canvasCount: remainingCanvases.length,
+            projectCount: remainingProjects.length,
+            issues: findIntegrityIssues(remainingCanvases, remainingProjects),
+          },
+        };
+      });
+    } catch (error) {
+      console.error("Failed to repair workspace:", error);
+      throw new Error("Database error: Could not repair the workspace");
+    }
+  },
+});
+
+export const integrityOperations = createIntegrityOperations(unifiedStorage);
+
+// Favorite Operations, over any storage
+export const createFavoriteOperations = (storage: StorageAdapter) => ({
+  /**
+   * Star or unstar a canvas or project; a new favorite goes to the end of Favorites.
+   * Returns the records that changed.
+   */
+  async setFavorite(ref: FavoriteRef, favorite: boolean): Promise<{
+    canvases: UnifiedCanvas[];
+    projects: UnifiedProject[];
+  }> {
+    try {
+      return await storage.transaction(["canvases", "projects"], async () => {
+        const [starredCanvases, starredProjects] = await Promise.all([
+          storage.canvases.orderBy("favoriteRank"),
+          storage.projects.orderBy("favoriteRank"),
+        ]);
+        const nextRank = Math.max(
+          -1,
+          ...[...starredCanvases, ...starredProjects].map(record => record.favoriteRank ?? -1),
+        ) + 1;
+        const favoriteRank = favorite ? nextRank : undefined;
+
+        if (ref.type === "canvas") {
+          const canvas = await storage.canvases.get(ref.id);
+          if (!canvas) {
+            throw new Error(`Canvas ${ref.id} not found`);
+          }
+          if ((canvas.favoriteRank !== undefined) === favorite) {
+            return { canvases: [], projects: [] };
+          }
+          // updatedAt moves so an auto-save from an older copy keeps the star
+          const updatedCanvas = { ...canvas, favoriteRank, updatedAt: new Date() };
+          await storage.canvases.put(updatedCanvas);
+          return { canvases: [updatedCanvas], projects: [] };
+        }
+
+        const project = await storage.projects.get(ref.id);
+        if (!project) {
+          throw new Error(`Project ${ref.id} not found`);
+        }
+        if ((project.favoriteRank !== undefined) === favorite) {
+          return { canvases: [], projects: [] };
+        }
+        const updatedProject = { ...project, favoriteRank };
+        await storage.projects.put(updatedProject);
+        return { canvases: [], projects: [updatedProject] };
+      });
+    } catch (error) {
+      console.error(`Failed to update favorite ${ref.type} ${ref.id}:`, error);
+      throw new Error("Database error: Could not update favorites");
+    }
+  },
+
+  /**
+   * Persist a manual order for Favorites; favoriteRank follows the given order.
+   * Favorites missing from it keep their relative order at the end.
+   */
+  async reorderFavorites(orderedRefs: FavoriteRef[]): Promise<{
+    canvases: UnifiedCanvas[];
+    projects: UnifiedProject[];
+  }> {
+    try {
+      return await storage.transaction(["canvases", "projects"], async () => {
+        const [starredCanvases, starredProjects] = await Promise.all([
+          storage.canvases.orderBy("favoriteRank"),
+          storage.projects.orderBy("favoriteRank"),
+        ]);
+        const canvasKey = (id: string) => `canvas:${id}`;
+        const projectKey = (id: string) => `project:${id}`;
+        const starred = [
+          ...starredCanvases.map(canvas => ({ key: canvasKey(canvas.id), rank: canvas.favoriteRank ?? 0 })),
+          ...starredProjects.map(project => ({ key: projectKey(project.id), rank: project.favoriteRank ?? 0 })),
+        ].sort((a, b) => a.rank - b.rank);
+        const starredKeys = new Set(starred.map(favorite => favorite.key));
+        const orderedKeys = orderedRefs
+          .map(ref => (ref.type === "canvas" ? canvasKey(ref.id) : projectKey(ref.id)))
+          .filter(key => starredKeys.has(key));
+        const ranks = new Map<string, number>();
+        [...orderedKeys, ...starred.map(favorite => favorite.key)].forEach(key => {
+          if (!ranks.has(key)) ranks.set(key, ranks.size);
+        });
+
+        const now = new Date();
+        const updatedCanvases = starredCanvases
+          .filter(canvas => canvas.favoriteRank !== ranks.get(canvasKey(canvas.id)))
+          .map(canvas => ({ ...canvas, favoriteRank: ranks.get(canvasKey(canvas.id)), updatedAt: now }));
+        const updatedProjects = starredProjects
+          .filter(project => project.favoriteRank !== ranks.get(projectKey(project.id)))
+          .map(project => ({ ...project, favoriteRank: ranks.get(projectKey(project.id)) }));
+
+        if (updatedCanvases.length > 0) {
+          await storage.canvases.bulkPut(updatedCanvases);
+        }
+        if (updatedProjects.length > 0) {
+          await storage.projects.bulkPut(updatedProjects);
+        }
+        return { canvases: updatedCanvases, projects: updatedProjects };
+      });
+    } catch (error) {
+      console.error("Failed to reorder favorites:", error);
+      throw new Error("Database error: Could not reorder favorites");
+    }
+  },
+});
+
+export const favoriteOperations = createFavoriteOperations(unifiedStorage);
+
+// Recently Visited Canvas Operations, over any storage
+export const createRecentCanvasOperations = (storage: StorageAdapter) => ({
+  /**
+   * Ids of the canvases opened most recently, most recent first; may include deleted canvases
+   */
+  async getRecentCanvasIds(): Promise<string[]> {
+    try {
+      const setting = await storage.settings.get(RECENT_CANVAS_CONSTANTS.SETTING);
+      return Array.isArray(setting?.value)
+        ? setting.value.filter((id): id is string => typeof id === "string")
+        : [];
+    } catch (error) {
+      console.error("Failed to get recent canvases:", error);
+      throw new Error("Database error: Could not retrieve recent canvases");
+    }
+  },
+
+  /**
+   * Move a canvas to the front of the recent list; returns the updated list.
+   * Read and write share a transaction so visits from several tabs are not lost.
+   */
+  async recordCanvasVisit(canvasId: string): Promise<string[]> {
+    try {
+      return await storage.transaction(["settings"], async () => {
+        const setting = await storage.settings.get(RECENT_CANVAS_CONSTANTS.SETTING);
+        const previous = Array.isArray(setting?.value) ? setting.value : [];
+        const recentIds = [
+          canvasId,
+          ...previous.filter((id): id is string => typeof id === "string" && id !== canvasId),
+        ].slice(0, RECENT_CANVAS_CONSTANTS.MAX_ENTRIES);
+
+        await storage.settings.put({
+          key: RECENT_CANVAS_CONSTANTS.SETTING,
+          value: recentIds,
+          updatedAt: new Date(),
+        });
+        return recentIds;
+      });
+    } catch (error) {
+      console.error(`Failed to record visit of canvas ${canvasId}:`, error);
+      throw new Error("Database error: Could not update recent canvases");
+    }
+  },
+});
+
+export const recentCanvasOperations = createRecentCanvasOperations(unifiedStorage);
 
 // Bulk Operations for Performance
 export const bulkOperations = {
@@ -664,6 +1964,26 @@ export const bulkOperations = {
       throw new Error("Database error: Could not bulk add projects");
     }
   },
+
+  /**
+   * Add a project together with its canvases in one transaction
+   */
+  async importProjectWithCanvases(
+    project: UnifiedProject,
+    canvases: UnifiedCanvas[],
+  ): Promise<void> {
+    try {
+      await unifiedDb.transaction('rw', unifiedDb.projects, unifiedDb.canvases, async () => {
+        if (canvases.length > 0) {
+          await bulkOperations.bulkAddCanvases(canvases);
+        }
+        await bulkOperations.bulkAddProjects([project]);
+      });
+    } catch (error) {
+      console.error("Failed to import project:", error);
+      throw new Error("Database error: Could not import project");
+    }
+  },
 };
 
 // Backup and Restore Functionality
@@ -675,15 +1995,21 @@ export const backupOperations = {
     canvases: UnifiedCanvas[];
     projects: UnifiedProject[];
     settings: AppSettings[];
+    files: UnifiedFile[];
+    trash: TrashItem[];
+    templates: CanvasTemplate[];
   }> {
     try {
-      const [canvases, projects, settings] = await Promise.all([
+      const [canvases, projects, settings, files, trash, templates] = await Promise.all([
         unifiedDb.canvases.toArray(),
         unifiedDb.projects.toArray(),
         unifiedDb.settings.toArray(),
+        unifiedDb.files.toArray(),
+        unifiedDb.trash.toArray(),
+        unifiedDb.templates.toArray(),
       ]);
 
-      return { canvases, projects, settings };
+      return { canvases, projects, settings, files, trash, templates };
     } catch (error) {
       console.error("Failed to export data:", error);
       throw new Error("Database error: Could not export data");
@@ -693,22 +2019,21 @@ export const backupOperations = {
   /**
    * Import data from backup (clears existing data)
    */
-  async importAllData(data: {
-    canvases: UnifiedCanvas[];
-    projects: UnifiedProject[];
-    settings?: AppSettings[];
-  }): Promise<void> {
+  async importAllData(data: WorkspaceData): Promise<void> {
     try {
       await unifiedDb.transaction(
         "rw",
-        unifiedDb.canvases,
-        unifiedDb.projects,
-        unifiedDb.settings,
+        [unifiedDb.canvases, unifiedDb.projects, unifiedDb.settings, unifiedDb.files, unifiedDb.canvasVersions, unifiedDb.trash, unifiedDb.searchIndex, unifiedDb.templates],
         async () => {
           // Clear existing data
           await unifiedDb.canvases.clear();
           await unifiedDb.projects.clear();
           await unifiedDb.settings.clear();
+          await unifiedDb.files.clear();
+          await unifiedDb.canvasVersions.clear();
+          await unifiedDb.trash.clear();
+          await unifiedDb.searchIndex.clear();
+          await unifiedDb.templates.clear();
 
           // Import new data
           if (data.canvases.length > 0) {
@@ -720,6 +2045,15 @@ export const backupOperations = {
           if (data.settings && data.settings.length > 0) {
             await unifiedDb.settings.bulkAdd(data.settings);
           }
+          if (data.files && data.files.length > 0) {
+            await unifiedDb.files.bulkAdd(data.files);
+          }
+          if (data.trash && data.trash.length > 0) {
+            await unifiedDb.trash.bulkAdd(data.trash);
+          }
+          if (data.templates && data.templates.length > 0) {
+            await unifiedDb.templates.bulkAdd(data.templates);
+          }
         },
       );
     } catch (error) {
@@ -727,6 +2061,221 @@ export const backupOperations = {
       throw new Error("Database error: Could not import data");
     }
   },
+
+  /**
+   * Merge backup data into the existing workspace without deleting anything.
+   * Existing projects absorb their backed-up canvases, changed canvases with a
+   * clashing id are added as copies, and project names are made unique.
+   */
+  async mergeAllData(data: WorkspaceData): Promise<MergeSummary> {
+    try {
+      return await unifiedDb.transaction(
+        "rw",
+        [unifiedDb.canvases, unifiedDb.projects, unifiedDb.files, unifiedDb.templates],
+        async () => {
+          const summary: MergeSummary = {
+            added: { canvases: 0, projects: 0, files: 0, templates: 0 },
+            skipped: { canvases: 0, projects: 0, settings: data.settings?.length ?? 0 },
+            renamed: [],
+          };
+
+          const existingProjects = await unifiedDb.projects.toArray();
+          const takenNames = new Set(existingProjects.map(p => p.name.toLowerCase()));
+          const uniqueProjectName = (name: string) => {
+            let candidate = name;
+            let suffix = 2;
+            while (takenNames.has(candidate.toLowerCase())) {
+              candidate = `${name} (${suffix})`;
+              suffix++;
+            }
+            takenNames.add(candidate.toLowerCase());
+            return candidate;
+          };
+
+          // Projects: same id merges into the local project, otherwise add with a unique name
+          const projectIdMap = new Map<string, string>();
+          const newProjects = new Map<string, UnifiedProject>();
+          for (const project of data.projects) {
+            const existing = await unifiedDb.projects.get(project.id);
+            if (existing) {
+              projectIdMap.set(project.id, existing.id);
+              summary.skipped.projects++;
+              continue;
+            }
+
+            const name = uniqueProjectName(project.name);
+            if (name !== project.name) {
+              summary.renamed.push({ type: "project", from: project.name, to: name });
+            }
+            projectIdMap.set(project.id, project.id);
+            newProjects.set(project.id, { ...project, name, canvasIds: [] });
+          }
+
+          // Subprojects whose parent is neither in the backup nor here move to the top level
+          for (const project of newProjects.values()) {
+            if (
+              project.parentId &&
+              !projectIdMap.has(project.parentId) &&
+              !(await unifiedDb.projects.get(project.parentId))
+            ) {
+              project.parentId = undefined;
+            }
+          }
+
+          // Canvases: identical ones are skipped, changed ones with a clashing id become copies
+          const canvasIdMap = new Map<string, string>();
+          const addedToExistingProjects = new Map<string, string[]>();
+          const canvasesToAdd: UnifiedCanvas[] = [];
+          for (const canvas of data.canvases) {
+            const existing = await unifiedDb.canvases.get(canvas.id);
+            if (
+              existing &&
+              JSON.stringify(existing.elements) === JSON.stringify(canvas.elements)
+            ) {
+              canvasIdMap.set(canvas.id, existing.id);
+              summary.skipped.canvases++;
+              continue;
+            }
+
+            const id = existing ? generateCanvasId() : canvas.id;
+            const name = existing ? `${canvas.name} (restored)` : canvas.name;
+            if (existing) {
+              summary.renamed.push({ type: "canvas", from: canvas.name, to: name });
+            }
+
+            let projectId = canvas.projectId ? projectIdMap.get(canvas.projectId) : undefined;
+            if (!projectId && canvas.projectId && await unifiedDb.projects.get(canvas.projectId)) {
+              projectId = canvas.projectId;
+            }
+
+            canvasIdMap.set(canvas.id, id);
+            canvasesToAdd.push({ ...canvas, id, name, projectId });
+
+            if (projectId) {
+              const newProject = newProjects.get(projectId);
+              if (newProject) {
+                newProject.canvasIds.push(id);
+              } else {
+                addedToExistingProjects.set(projectId, [
+                  ...(addedToExistingProjects.get(projectId) || []),
+                  id,
+                ]);
+              }
+            }
+          }
+
+          if (canvasesToAdd.length > 0) {
+            await unifiedDb.canvases.bulkAdd(canvasesToAdd);
+          }
+          if (newProjects.size > 0) {
+            await unifiedDb.projects.bulkAdd(Array.from(newProjects.values()));
+          }
+          for (const [projectId, canvasIds] of addedToExistingProjects) {
+            const project = await unifiedDb.projects.get(projectId);
+            if (project) {
+              await unifiedDb.projects.put({
+                ...project,
+                canvasIds: [...project.canvasIds, ...canvasIds],
+                updatedAt: new Date(),
+              });
+            }
+          }
+          summary.added.canvases = canvasesToAdd.length;
+          summary.added.projects = newProjects.size;
+
+          // Files: re-point references at the merged canvas ids and union with local copies
+          for (const file of data.files || []) {
+            const canvasIds = file.canvasIds
+              .map(id => canvasIdMap.get(id))
+              .filter((id): id is string => !!id);
+            if (canvasIds.length === 0) continue;
+
+            const existing = await unifiedDb.files.get(file.id);
+            if (existing) {
+              const merged = Array.from(new Set([...existing.canvasIds, ...canvasIds]));
+              if (merged.length !== existing.canvasIds.length) {
+                await unifiedDb.files.put({ ...existing, canvasIds: merged, updatedAt: new Date() });
+              }
+            } else {
+              await unifiedDb.files.add({ ...file, canvasIds });
+              summary.added.files++;
+            }
+          }
+
+          // Templates: add the ones not already present
+          for (const template of data.templates || []) {
+            if (!(await unifiedDb.templates.get(template.id))) {
+              await unifiedDb.templates.add(template);
+              summary.added.templates++;
+            }
+          }
+
+          return summary;
+        },
+      );
+    } catch (error) {
+      console.error("Failed to merge data:", error);
+      throw new Error("Database error: Could not merge backup data");
+    }
+  },
+};
+
+// One-time move of the database the content script used to keep in excalidraw.com's origin
+const PAGE_ORIGIN_MIGRATED_SETTING = "pageOriginMigratedAt";
+
+export const pageOriginMigrationOperations = {
+  /**
+   * Whether the page-origin database was already copied here
+   */
+  async isMigrated(): Promise<boolean> {
+    try {
+      return !!(await unifiedDb.settings.get(PAGE_ORIGIN_MIGRATED_SETTING));
+    } catch (error) {
+      console.error("Failed to check page-origin migration:", error);
+      throw new Error("Database error: Could not check migration state");
+    }
+  },
+
+  /**
+   * Copy a batch of page-origin records into a table, skipping keys already present
+   * so an interrupted migration can run again without overwriting newer data
+   */
+  async importRecords(tableName: PageOriginTable, records: unknown[]): Promise<number> {
+    try {
+      if (!PAGE_ORIGIN_TABLES.includes(tableName)) {
+        throw new Error(`Unknown table ${tableName}`);
+      }
+
+      const table = unifiedDb.table(tableName);
+      const keyPath = table.schema.primKey.keyPath as string;
+      // Records can be from any version of the old database, so they are brought into the current shape
+      const upgraded = records.map((record) => upgradeStoredRecord(tableName, record));
+      return await unifiedDb.transaction('rw', table, async () => {
+        const keys = upgraded.map((record) => (record as Record<string, IndexableType>)[keyPath]!);
+        const existing = await table.bulkGet(keys);
+        const missing = upgraded.filter((_, index) => !existing[index]);
+        if (missing.length > 0) {
+          await table.bulkAdd(missing);
+        }
+        return missing.length;
+      });
+    } catch (error) {
+      console.error(`Failed to import page-origin ${tableName}:`, error);
+      throw new Error(`Database error: Could not import ${tableName}`);
+    }
+  },
+
+  /**
+   * Record that every table was copied
+   */
+  async completeMigration(): Promise<void> {
+    try {
+      await settingsOperations.setSetting(PAGE_ORIGIN_MIGRATED_SETTING, new Date().toISOString());
+    } catch (error) {
+      console.error("Failed to complete page-origin migration:", error);
+      throw new Error("Database error: Could not complete migration");
+    }
+  },
 };
 
 // Database Utility Functions
@@ -738,18 +2287,20 @@ export const dbUtils = {
     canvasCount: number;
     projectCount: number;
     settingsCount: number;
+    fileCount: number;
   }> {
     try {
-      const [canvasCount, projectCount, settingsCount] = await Promise.all([
+      const [canvasCount, projectCount, settingsCount, fileCount] = await Promise.all([
         unifiedDb.canvases.count(),
         unifiedDb.projects.count(),
         unifiedDb.settings.count(),
+        unifiedDb.files.count(),
       ]);
 
-      return { canvasCount, projectCount, settingsCount };
+      return { canvasCount, projectCount, settingsCount, fileCount };
     } catch (error) {
       console.error("Failed to get database stats:", error);
-      return { canvasCount: 0, projectCount: 0, settingsCount: 0 };
+      return { canvasCount: 0, projectCount: 0, settingsCount: 0, fileCount: 0 };
     }
   },
 
@@ -760,13 +2311,16 @@ export const dbUtils = {
     try {
       await unifiedDb.transaction(
         "rw",
-        unifiedDb.canvases,
-        unifiedDb.projects,
-        unifiedDb.settings,
+        [unifiedDb.canvases, unifiedDb.projects, unifiedDb.settings, unifiedDb.files, unifiedDb.canvasVersions, unifiedDb.trash, unifiedDb.searchIndex, unifiedDb.templates],
         async () => {
           await unifiedDb.canvases.clear();
           await unifiedDb.projects.clear();
           await unifiedDb.settings.clear();
+          await unifiedDb.files.clear();
+          await unifiedDb.canvasVersions.clear();
+          await unifiedDb.trash.clear();
+          await unifiedDb.searchIndex.clear();
+          await unifiedDb.templates.clear();
         },
       );
     } catch (error) {
@@ -789,13 +2343,226 @@ export const dbUtils = {
   },
 };
 
-// Initialize database
+// Backup database meta key of why the last upgrade failed, kept until the database opens.
+// Stored rather than held in memory so the restore option outlives a service worker restart.
+const MIGRATION_ERROR_KEY = "lastError";
+
+const openMigrationBackupDb = (): Dexie => {
+  const db = new Dexie(MIGRATION_BACKUP_DB_NAME);
+  db.version(1).stores({ tables: "name", meta: "key" });
+  return db;
+};
+
+/**
+ * Store why the upgrade failed, or clear it (null) once the database opened
+ */
+async function setMigrationError(message: string | null): Promise<void> {
+  // Without a backup database no upgrade has failed yet, so there is nothing to clear
+  if (message === null && !(await Dexie.exists(MIGRATION_BACKUP_DB_NAME))) return;
+
+  const backup = openMigrationBackupDb();
+  try {
+    if (message === null) {
+      await backup.table("meta").delete(MIGRATION_ERROR_KEY);
+    } else {
+      await backup.table("meta").put({ key: MIGRATION_ERROR_KEY, message, failedAt: new Date() });
+    }
+  } finally {
+    backup.close();
+  }
+}
+
+async function getMigrationError(): Promise<string | null> {
+  if (!(await Dexie.exists(MIGRATION_BACKUP_DB_NAME))) return null;
+
+  const backup = openMigrationBackupDb();
+  try {
+    const record = await backup.table("meta").get(MIGRATION_ERROR_KEY);
+    return (record as { message: string } | undefined)?.message ?? null;
+  } finally {
+    backup.close();
+  }
+}
+
+/**
+ * Version of the database on disk (0 when there is none yet), read without upgrading it
+ */
+async function getInstalledVersion(): Promise<number> {
+  if (unifiedDb.isOpen()) return unifiedDb.verno;
+  if (!(await Dexie.exists(unifiedDb.name))) return 0;
+
+  const installed = new Dexie(unifiedDb.name);
+  try {
+    await installed.open();
+    return installed.verno;
+  } finally {
+    installed.close();
+  }
+}
+
+/**
+ * Copy every table of the database as it is on disk into the backup database,
+ * replacing the previous backup. Must run before the upgrade opens the database.
+ */
+async function backupBeforeMigration(version: number): Promise<void> {
+  const installed = new Dexie(unifiedDb.name);
+  const backup = openMigrationBackupDb();
+  try {
+    await installed.open();
+    const snapshots = await Promise.all(
+      installed.tables.map(async table => ({ name: table.name, records: await table.toArray() })),
+    );
+
+    await backup.open();
+    await backup.transaction('rw', ["tables", "meta"], async () => {
+      await backup.table("tables").clear();
+      await backup.table("tables").bulkPut(snapshots);
+      await backup.table("meta").put({
+        key: "info",
+        version,
+        tableCount: snapshots.length,
+        recordCount: snapshots.reduce((count, snapshot) => count + snapshot.records.length, 0),
+        createdAt: new Date(),
+      });
+    });
+  } finally {
+    installed.close();
+    backup.close();
+  }
+}
+
+async function getMigrationBackupInfo(): Promise<MigrationBackupInfo | null> {
+  if (!(await Dexie.exists(MIGRATION_BACKUP_DB_NAME))) return null;
+
+  const backup = openMigrationBackupDb();
+  try {
+    const info = await backup.table("meta").get("info");
+    if (!info) return null;
+    const { version, tableCount, recordCount, createdAt } = info as MigrationBackupInfo;
+    return { version, tableCount, recordCount, createdAt };
+  } finally {
+    backup.close();
+  }
+}
+
+// Schema Migration Diagnostics
+export const migrationOperations = {
+  /**
+   * Database version, the last upgrade and its backup, and why an upgrade failed
+   */
+  async getStatus(): Promise<MigrationStatus> {
+    try {
+      const [currentVersion, lastRun, backup, lastError] = await Promise.all([
+        getInstalledVersion(),
+        unifiedDb.isOpen()
+          ? settingsOperations.getSetting<MigrationRun>(MIGRATION_STATUS_SETTING)
+          : undefined,
+        getMigrationBackupInfo(),
+        getMigrationError(),
+      ]);
+
+      return {
+        currentVersion,
+        latestVersion: LATEST_DB_VERSION,
+        lastRun: lastRun ?? null,
+        backup,
+        lastError,
+      };
+    } catch (error) {
+      console.error("Failed to get migration status:", error);
+      throw new Error("Database error: Could not read migration status");
+    }
+  },
+
+  /**
+   * Replace the database with the copy taken before the last upgrade, at the version it
+   * was taken. The database is left closed; the next initializeDatabase upgrades it again.
+   */
+  async restoreFromMigrationBackup(): Promise<MigrationBackupInfo> {
+    try {
+      const info = await getMigrationBackupInfo();
+      if (!info) {
+        throw new Error("There is no migration backup to restore");
+      }
+
+      const backup = openMigrationBackupDb();
+      let snapshots: { name: string; records: unknown[] }[];
+      try {
+        snapshots = await backup.table("tables").toArray();
+      } finally {
+        backup.close();
+      }
+
+      unifiedDb.close();
+      await Dexie.delete(unifiedDb.name);
+
+      // Recreated with the schema the backup was taken at; new databases run no upgrades
+      const restored = new Dexie(unifiedDb.name);
+      for (const migration of DB_MIGRATIONS.filter(({ version }) => version <= info.version)) {
+        restored.version(migration.version).stores(migration.stores);
+      }
+      try {
+        await restored.open();
+        const tableNames = new Set(restored.tables.map(table => table.name));
+        const restorable = snapshots.filter(snapshot => tableNames.has(snapshot.name));
+        await restored.transaction('rw', restorable.map(snapshot => snapshot.name), async () => {
+          for (const snapshot of restorable) {
+            await restored.table(snapshot.name).bulkPut(snapshot.records);
+          }
+        });
+      } finally {
+        restored.close();
+      }
+
+      console.log(`Unified database restored from the backup taken at version ${info.version}`);
+      return info;
+    } catch (error) {
+      console.error("Failed to restore migration backup:", error);
+      throw new Error("Database error: Could not restore the migration backup");
+    }
+  },
+};
+
+/**
+ * Open the database, first backing it up when the open will upgrade it.
+ * Dexie runs the pending migrations in one upgrade transaction, so if any of them
+ * fails the database stays at its old version; the outcome goes to the settings table.
+ */
 export async function initializeDatabase(): Promise<void> {
   try {
+    const installedVersion = await getInstalledVersion();
+    const pending = getPendingMigrations(installedVersion);
+    const backedUp = installedVersion > 0 && pending.length > 0;
+    if (backedUp) {
+      await backupBeforeMigration(installedVersion);
+    }
+
     await unifiedDb.open();
+    try {
+      await setMigrationError(null);
+    } catch (error) {
+      console.warn("Failed to clear the last migration error:", error);
+    }
+
+    if (pending.length > 0) {
+      const run: MigrationRun = {
+        fromVersion: installedVersion,
+        toVersion: unifiedDb.verno,
+        applied: pending.map(({ version, description }) => ({ version, description })),
+        backedUp,
+        completedAt: new Date(),
+      };
+      await settingsOperations.setSetting(MIGRATION_STATUS_SETTING, run);
+      console.log(`Unified database migrated from version ${installedVersion} to ${unifiedDb.verno}`);
+    }
     console.log("Unified database initialized successfully");
   } catch (error) {
     console.error("Failed to initialize database:", error);
+    try {
+      await setMigrationError(error instanceof Error ? error.message : String(error));
+    } catch (recordError) {
+      console.error("Failed to record the migration error:", recordError);
+    }
     throw new Error("Database initialization failed");
   }
 }
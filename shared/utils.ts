@@ -1,4 +1,5 @@
-import type { UnifiedProject } from './types';
+import type { UnifiedCanvas, UnifiedProject, CanvasSearchEntry } from './types';
+import type { ExcalidrawElement } from './excalidraw-types';
 
 export const checkIsValidUrl = (url: string): boolean => {
   if (url.includes("https://excalidraw.com/")) {
@@ -14,6 +15,190 @@ export const PROJECT_SORT_CONSTANTS = {
   DEFAULT_PAGINATION_LIMIT: 5,
 } as const;
 
+// Ids for new canvases and projects (created, imported, or copied when a merge clashes)
+export const generateCanvasId = (): string =>
+  `canvas_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+export const generateProjectId = (): string =>
+  `project_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+
+// Constants for canvas version history
+export const VERSION_HISTORY_CONSTANTS = {
+  SNAPSHOT_INTERVAL_MS: 5 * 60 * 1000, // At most one automatic snapshot per canvas every 5 minutes
+  MAX_VERSIONS_PER_CANVAS: 20,
+} as const;
+
+// Constants for canvas tags
+export const TAG_CONSTANTS = {
+  MAX_TAG_LENGTH: 32,
+  MAX_VISIBLE_CHIPS: 2, // Chips shown per canvas row before collapsing into "+N"
+} as const;
+
+/**
+ * Normalize a tag for storage and comparison: no leading "#", lowercase,
+ * whitespace collapsed to dashes
+ */
+export const normalizeTag = (tag: string): string =>
+  tag
+    .trim()
+    .replace(/^#+/, "")
+    .toLowerCase()
+    .replace(/\s+/g, "-")
+    .slice(0, TAG_CONSTANTS.MAX_TAG_LENGTH);
+
+/**
+ * Split a search query into free text and `tag:foo` filters
+ */
+export const parseTagQuery = (query: string): { text: string; tags: string[] } => {
+  const tags: string[] = [];
+  const text = query
+    .replace(/(^|\s)tag:(\S*)/gi, (_match, _space, tag: string) => {
+      const normalized = normalizeTag(tag);
+      if (normalized && !tags.includes(normalized)) {
+        tags.push(normalized);
+      }
+      return " ";
+    })
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return { text, tags };
+};
+
+// Constants for full-text search over canvas contents
+export const CONTENT_SEARCH_CONSTANTS = {
+  MIN_TERM_LENGTH: 2,
+  SNIPPET_RADIUS: 40, // Characters of context on each side of a match
+  MAX_RESULTS: 20,
+} as const;
+
+/**
+ * Split text into lowercase search terms (letters and digits, any script)
+ */
+export const tokenizeSearchText = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length >= CONTENT_SEARCH_CONSTANTS.MIN_TERM_LENGTH);
+
+/**
+ * Pull searchable text and link URLs out of a canvas's visible elements
+ */
+export const extractSearchEntries = (
+  elements: readonly ExcalidrawElement[],
+): CanvasSearchEntry[] => {
+  const entries: CanvasSearchEntry[] = [];
+
+  for (const element of elements) {
+    if (element.isDeleted) continue;
+
+    // originalText holds the unwrapped text of wrapped/bound text elements
+    const text =
+      typeof element.originalText === "string"
+        ? element.originalText
+        : typeof element.text === "string"
+          ? element.text
+          : "";
+    if (text.trim()) {
+      entries.push({ elementId: element.id, kind: "text", text: text.trim() });
+    }
+    if (element.link) {
+      entries.push({ elementId: element.id, kind: "link", text: element.link });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Cut a short single-line excerpt of text around the first match of the query
+ */
+export const buildSearchSnippet = (text: string, query: string): string => {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const lowerFlat = flat.toLowerCase();
+
+  let index = lowerFlat.indexOf(query.toLowerCase().trim());
+  if (index < 0) {
+    const firstTerm = tokenizeSearchText(query)[0];
+    index = firstTerm ? lowerFlat.indexOf(firstTerm) : -1;
+  }
+  if (index < 0) index = 0;
+
+  const radius = CONTENT_SEARCH_CONSTANTS.SNIPPET_RADIUS;
+  const start = Math.max(0, index - radius);
+  const end = Math.min(flat.length, index + query.length + radius);
+
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+};
+
+// Constants for canvas templates
+export const TEMPLATE_CONSTANTS = {
+  DEFAULT_CATEGORY: "General",
+  BLANK_CANVAS_NAME: "Untitled Canvas",
+} as const;
+
+// Constants for the trash bin
+export const TRASH_CONSTANTS = {
+  DEFAULT_AUTO_PURGE_DAYS: 30, // 0 keeps trashed items until purged by hand
+  AUTO_PURGE_OPTIONS: [0, 7, 14, 30, 90],
+} as const;
+
+// Constants for syncing the Excalidraw scene to the database, adjustable on the options page
+export const SYNC_CONSTANTS = {
+  DEFAULT_INTERVAL_MS: 500,
+  MIN_INTERVAL_MS: 250,
+  MAX_INTERVAL_MS: 10000,
+  DEFAULT_DEBOUNCE_MS: 200,
+  MIN_DEBOUNCE_MS: 50,
+  MAX_DEBOUNCE_MS: 5000,
+} as const;
+
+// Constants for the side panel
+export const PANEL_CONSTANTS = {
+  MIN_WIDTH: 200,
+  MAX_WIDTH: 600,
+  DEFAULT_WIDTH: 320,
+} as const;
+
+/**
+ * A stored numeric setting clamped into range, or the fallback when missing or invalid
+ */
+export const clampNumberSetting = (
+  value: unknown,
+  min: number,
+  max: number,
+  fallback: number,
+): number =>
+  typeof value === "number" && Number.isFinite(value)
+    ? Math.max(min, Math.min(max, value))
+    : fallback;
+
+// Constants for keyboard shortcut chords such as "g p"
+export const SHORTCUT_CONSTANTS = {
+  CHORD_TIMEOUT_MS: 1500, // Time allowed between the keys of a chord
+  MAX_CHORD_STROKES: 2,
+} as const;
+
+// Constants for the command palette in the search modal
+export const COMMAND_PALETTE_CONSTANTS = {
+  PREFIX: ">", // Typed first in the search box to switch to commands
+  MAX_RECENT_COMMANDS: 5,
+  RECENT_COMMANDS_SETTING: "recentPaletteCommands",
+} as const;
+
+// Constants for the Favorites section of the panel
+export const FAVORITES_CONSTANTS = {
+  COLLAPSED_SETTING: "favoritesCollapsed",
+  QUICK_JUMP_COUNT: 9, // Favorites 1-9 get an "Open Favorite" shortcut
+} as const;
+
+// Constants for the most-recently-used canvas list and its switcher
+export const RECENT_CANVAS_CONSTANTS = {
+  SETTING: "recentCanvasIds", // Most recent first
+  MAX_ENTRIES: 20,
+  SWITCHER_SIZE: 10, // Canvases listed in the switcher overlay
+} as const;
+
 // Constants for context menu submenu calculations
 export const SUBMENU_CONSTANTS = {
   ITEM_HEIGHT: 40,
@@ -58,3 +243,123 @@ export const sortProjectsByActivity = (
       return a.name.localeCompare(b.name);
     });
 };
+
+/**
+ * Orders sibling projects for display: projects placed by hand (sortOrder) come first
+ * in that order, followed by the rest sorted by activity
+ */
+export const sortProjectsForDisplay = (
+  projects: UnifiedProject[],
+  getCanvasCount: (projectId: string) => number
+): UnifiedProject[] => {
+  const placed = projects
+    .filter((project) => project.sortOrder !== undefined)
+    .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0));
+  const unplaced = sortProjectsByActivity(
+    projects.filter((project) => project.sortOrder === undefined),
+    getCanvasCount
+  );
+
+  return [...placed, ...unplaced];
+};
+
+/**
+ * Direct subprojects of a project, or the top-level projects when parentId is undefined.
+ * Projects whose parent no longer exists are treated as top-level.
+ */
+export const getChildProjects = (
+  projects: UnifiedProject[],
+  parentId?: string
+): UnifiedProject[] => {
+  if (parentId) {
+    return projects.filter((project) => project.parentId === parentId);
+  }
+
+  const projectIds = new Set(projects.map((project) => project.id));
+  return projects.filter(
+    (project) => !project.parentId || !projectIds.has(project.parentId)
+  );
+};
+
+/**
+ * Ids of all projects nested under a project at any depth, parents before children
+ */
+export const getDescendantProjectIds = (
+  projects: UnifiedProject[],
+  projectId: string
+): string[] => {
+  const descendantIds: string[] = [];
+  let parentIds = [projectId];
+
+  while (parentIds.length > 0) {
+    const children = projects.filter(
+      (project) =>
+        !!project.parentId &&
+        parentIds.includes(project.parentId) &&
+        project.id !== projectId &&
+        !descendantIds.includes(project.id)
+    );
+    parentIds = children.map((project) => project.id);
+    descendantIds.push(...parentIds);
+  }
+
+  return descendantIds;
+};
+
+export type FavoriteItem =
+  | { type: "canvas"; canvas: UnifiedCanvas }
+  | { type: "project"; project: UnifiedProject };
+
+/**
+ * Starred canvases and projects in Favorites order
+ */
+export const getFavorites = (
+  canvases: UnifiedCanvas[],
+  projects: UnifiedProject[]
+): FavoriteItem[] => {
+  const favorites: { item: FavoriteItem; rank: number }[] = [
+    ...canvases
+      .filter((canvas) => canvas.favoriteRank !== undefined)
+      .map((canvas) => ({ item: { type: "canvas" as const, canvas }, rank: canvas.favoriteRank ?? 0 })),
+    ...projects
+      .filter((project) => project.favoriteRank !== undefined)
+      .map((project) => ({ item: { type: "project" as const, project }, rank: project.favoriteRank ?? 0 })),
+  ];
+  return favorites.sort((a, b) => a.rank - b.rank).map(({ item }) => item);
+};
+
+/**
+ * Display path of a project, e.g. "Product / Onboarding / Flows"
+ */
+export const getProjectPath = (
+  projects: UnifiedProject[],
+  projectId: string
+): string => {
+  const names: string[] = [];
+  const visited = new Set<string>();
+  let current = projects.find((project) => project.id === projectId);
+
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    names.unshift(current.name);
+    const parentId = current.parentId;
+    current = parentId ? projects.find((project) => project.id === parentId) : undefined;
+  }
+
+  return names.join(" / ");
+};
+
+/**
+ * Collects the file ids referenced by live image elements
+ */
+export const getReferencedFileIds = (
+  elements: readonly ExcalidrawElement[]
+): string[] => {
+  const fileIds = new Set<string>();
+  for (const element of elements) {
+    if (element.type === "image" && !element.isDeleted && typeof element.fileId === "string") {
+      fileIds.add(element.fileId);
+    }
+  }
+  return Array.from(fileIds);
+};
@@ -0,0 +1,237 @@
+import { describe, expect, it } from "vitest";
+import {
+  INTEGRITY_ISSUE_KINDS,
+  IntegrityIssueKind,
+  findIntegrityIssues,
+  repairIntegrityIssues,
+} from "./workspace-integrity";
+import type { UnifiedCanvas, UnifiedProject } from "./types";
+import type { ExcalidrawElement } from "./excalidraw-types";
+
+const ALL_KINDS = new Set(Object.keys(INTEGRITY_ISSUE_KINDS) as IntegrityIssueKind[]);
+
+const element = (id: string, version = 1): ExcalidrawElement =>
+  ({ id, type: "rectangle", version, versionNonce: 1 }) as unknown as ExcalidrawElement;
+
+const canvas = (id: string, overrides: Partial<UnifiedCanvas> = {}): UnifiedCanvas => ({
+  id,
+  name: `Canvas ${id}`,
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  updatedAt: new Date("2024-01-01T00:00:00Z"),
+  elements: [],
+  ...overrides,
+});
+
+const project = (id: string, parentId?: string): UnifiedProject => ({
+  id,
+  name: `Project ${id}`,
+  color: "#6965db",
+  createdAt: new Date("2024-01-01T00:00:00Z"),
+  canvasIds: [],
+  parentId,
+});
+
+// Records stored in the wrong shape, as old versions and imports could leave them
+const malformed = <T>(record: T, overrides: Record<string, unknown>): T => ({ ...record, ...overrides }) as T;
+
+const issueKinds = (canvases: UnifiedCanvas[], projects: UnifiedProject[]) =>
+  findIntegrityIssues(canvases, projects).map((issue) => [issue.kind, issue.recordType, issue.recordId]);
+
+/**
+ * The workspace after a repair: the changed records in place of the originals
+ */
+const repairAll = (canvases: UnifiedCanvas[], projects: UnifiedProject[], kinds = ALL_KINDS) => {
+  const repaired = repairIntegrityIssues(canvases, projects, kinds);
+  return {
+    canvases: canvases.map((c) => repaired.canvases.find((r) => r.id === c.id) ?? c),
+    projects: projects.map((p) => repaired.projects.find((r) => r.id === p.id) ?? p),
+  };
+};
+
+const cycleIssues = (projects: UnifiedProject[]) =>
+  findIntegrityIssues([], projects).filter((issue) => issue.kind === "parent-cycle");
+
+describe("parent cycles", () => {
+  it("reports nothing for a well-formed tree", () => {
+    expect(cycleIssues([project("a"), project("b", "a"), project("c", "b")])).toEqual([]);
+  });
+
+  it("reports a two-project loop once, on the project the walk entered it at", () => {
+    const issues = cycleIssues([project("a", "b"), project("b", "a")]);
+
+    expect(issues.map((issue) => issue.recordId)).toEqual(["a"]);
+    expect(issues[0]?.message).toContain("project b");
+  });
+
+  it("reports a loop reached from a project hanging below it once", () => {
+    // d sits under the loop a → b → c → a
+    const issues = cycleIssues([project("d", "b"), project("a", "c"), project("b", "a"), project("c", "b")]);
+
+    expect(issues.map((issue) => issue.recordId)).toEqual(["b"]);
+  });
+
+  it("leaves a project nested under itself to the missing-parent check", () => {
+    const issues = findIntegrityIssues([], [project("a", "a")]);
+
+    expect(issues.map((issue) => issue.kind)).toEqual(["missing-parent"]);
+  });
+
+  it("repairs a loop by moving its entry project to the top level", () => {
+    const projects = [project("x"), project("a", "c"), project("b", "a"), project("c", "b"), project("d", "c")];
+
+    const repaired = repairIntegrityIssues([], projects, new Set(["parent-cycle"]));
+
+    expect(repaired.canvases).toEqual([]);
+    expect(repaired.projects).toEqual([{ ...project("a"), parentId: undefined }]);
+
+    const after = projects.map((p) => repaired.projects.find((r) => r.id === p.id) ?? p);
+    expect(findIntegrityIssues([], after)).toEqual([]);
+  });
+
+  it("leaves loops alone unless parent-cycle repairs are chosen", () => {
+    const repaired = repairIntegrityIssues([], [project("a", "b"), project("b", "a")], new Set(["missing-parent"]));
+
+    expect(repaired.projects).toEqual([]);
+  });
+});
+
+describe("project membership", () => {
+  it("removes canvases that no longer exist from their project", () => {
+    const projects = [{ ...project("p"), canvasIds: ["a", "gone"] }];
+    const canvases = [canvas("a", { projectId: "p" })];
+
+    expect(issueKinds(canvases, projects)).toEqual([["dangling-canvas-id", "project", "p"]]);
+    expect(repairIntegrityIssues(canvases, projects, ALL_KINDS).projects).toEqual([
+      { ...project("p"), canvasIds: ["a"] },
+    ]);
+  });
+
+  it("keeps each canvas only in the project it points at", () => {
+    const projects = [{ ...project("p"), canvasIds: ["a", "b"] }, { ...project("q"), canvasIds: ["a"] }];
+    const canvases = [canvas("a", { projectId: "q" }), canvas("b")];
+
+    expect(issueKinds(canvases, projects)).toEqual([["stray-canvas-id", "project", "p"]]);
+    expect(repairIntegrityIssues(canvases, projects, ALL_KINDS).projects).toEqual([
+      { ...project("p"), canvasIds: [] },
+    ]);
+  });
+
+  it("adds canvases to the project they point at", () => {
+    const projects = [{ ...project("p"), canvasIds: ["a"] }];
+    const canvases = [canvas("a", { projectId: "p" }), canvas("b", { projectId: "p" })];
+
+    expect(issueKinds(canvases, projects)).toEqual([["unlisted-canvas", "canvas", "b"]]);
+    expect(repairIntegrityIssues(canvases, projects, ALL_KINDS).projects).toEqual([
+      { ...project("p"), canvasIds: ["a", "b"] },
+    ]);
+  });
+
+  it("moves canvases of a project that does not exist to unorganized", () => {
+    const canvases = [canvas("a", { projectId: "gone" })];
+
+    expect(issueKinds(canvases, [])).toEqual([["missing-project", "canvas", "a"]]);
+    expect(repairIntegrityIssues(canvases, [], ALL_KINDS).canvases).toEqual([canvas("a", { projectId: undefined })]);
+  });
+
+  it("moves subprojects of a project that does not exist to the top level", () => {
+    const projects = [project("a"), project("b", "gone")];
+
+    expect(issueKinds([], projects)).toEqual([["missing-parent", "project", "b"]]);
+    expect(repairIntegrityIssues([], projects, ALL_KINDS).projects).toEqual([project("b")]);
+  });
+});
+
+describe("record contents", () => {
+  it("keeps one entry per id: the newest element revision and each listed canvas once", () => {
+    const canvases = [
+      canvas("a", { projectId: "p", elements: [element("x"), element("y"), element("x", 3), element("x", 2)] }),
+    ];
+    const projects = [{ ...project("p"), canvasIds: ["a", "a"] }];
+
+    expect(issueKinds(canvases, projects)).toEqual([
+      ["duplicate-id", "canvas", "a"],
+      ["duplicate-id", "project", "p"],
+    ]);
+
+    const repaired = repairIntegrityIssues(canvases, projects, ALL_KINDS);
+    expect(repaired.canvases.map((c) => c.elements)).toEqual([[element("x", 3), element("y")]]);
+    expect(repaired.projects.map((p) => p.canvasIds)).toEqual([["a"]]);
+  });
+
+  it("drops elements that cannot be drawn and backfills a missing element list", () => {
+    const canvases = [
+      malformed(canvas("a"), { elements: [element("x"), { type: "rectangle" }, null, { id: "y" }] }),
+      malformed(canvas("b"), { elements: undefined }),
+    ];
+
+    expect(issueKinds(canvases, [])).toEqual([
+      ["malformed-elements", "canvas", "a"],
+      ["malformed-elements", "canvas", "b"],
+    ]);
+    expect(repairIntegrityIssues(canvases, [], ALL_KINDS).canvases.map((c) => c.elements)).toEqual([
+      [element("x")],
+      [],
+    ]);
+  });
+
+  it("restores invalid dates from the record's other dates", () => {
+    const canvases = [
+      malformed(canvas("a"), {
+        createdAt: new Date("not a date"),
+        updatedAt: "2024-02-01T00:00:00.000Z",
+        lastEditedAt: "not a date",
+      }),
+    ];
+    const projects = [malformed(project("p"), { createdAt: "not a date", updatedAt: new Date("2024-03-01T00:00:00Z") })];
+
+    expect(issueKinds(canvases, projects)).toEqual([
+      ["invalid-date", "canvas", "a"],
+      ["invalid-date", "project", "p"],
+    ]);
+
+    const repaired = repairIntegrityIssues(canvases, projects, ALL_KINDS);
+    expect(repaired.canvases).toEqual([
+      canvas("a", {
+        createdAt: new Date("2024-02-01T00:00:00Z"),
+        updatedAt: new Date("2024-02-01T00:00:00Z"),
+        lastEditedAt: undefined,
+      }),
+    ]);
+    expect(repaired.projects).toEqual([
+      { ...project("p"), createdAt: new Date("2024-03-01T00:00:00Z"), updatedAt: new Date("2024-03-01T00:00:00Z") },
+    ]);
+  });
+});
+
+describe("repairIntegrityIssues", () => {
+  // Every kind of issue at once, some on the same records
+  const canvases = [
+    canvas("a", { projectId: "p", elements: [element("x"), element("x", 2)] }),
+    canvas("b", { projectId: "gone" }),
+    malformed(canvas("c", { projectId: "q" }), { elements: [null], updatedAt: "2024-02-01T00:00:00.000Z" }),
+  ];
+  const projects = [
+    { ...project("p"), canvasIds: ["a", "a", "c", "deleted"] },
+    { ...project("q", "r"), canvasIds: [] },
+    project("r", "q"),
+    project("s", "gone"),
+  ];
+
+  it("only repairs the chosen kinds and returns only the records that changed", () => {
+    const repaired = repairIntegrityIssues(canvases, projects, new Set(["missing-project"]));
+
+    expect(repaired).toEqual({ canvases: [canvas("b", { projectId: undefined })], projects: [] });
+  });
+
+  it("leaves nothing to find or repair after repairing every kind", () => {
+    expect(new Set(findIntegrityIssues(canvases, projects).map((issue) => issue.kind))).toEqual(ALL_KINDS);
+
+    const repaired = repairAll(canvases, projects);
+
+    expect(findIntegrityIssues(repaired.canvases, repaired.projects)).toEqual([]);
+    expect(repairIntegrityIssues(repaired.canvases, repaired.projects, ALL_KINDS)).toEqual({
+      canvases: [],
+      projects: [],
+    });
+  });
+});
@@ -0,0 +1,372 @@
+import type { UnifiedCanvas, UnifiedProject } from './types';
+import type { ExcalidrawElement } from './excalidraw-types';
+import { parseDate } from './record-upgrades';
+
+/**
+ * Consistency checks over the stored canvases and projects. Membership is stored
+ * twice (canvas.projectId and project.canvasIds); canvas.projectId is the
+ * authoritative side, so repairs bring project.canvasIds in line with it.
+ */
+
+export type IntegrityIssueKind =
+  | "dangling-canvas-id" // A project lists a canvas that does not exist
+  | "stray-canvas-id" // A project lists a canvas that belongs to another project or none
+  | "unlisted-canvas" // A canvas's project does not list it
+  | "missing-project" // A canvas points at a project that does not exist
+  | "missing-parent" // A subproject points at a parent that does not exist
+  | "parent-cycle" // A project's parent chain loops back to it (A under B under A)
+  | "duplicate-id" // An id listed twice in a project, or shared by two elements of a canvas
+  | "malformed-elements" // Elements that are not objects with an id and a type
+  | "invalid-date"; // Timestamps that are not valid dates
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  recordType: "canvas" | "project";
+  recordId: string;
+  recordName: string;
+  message: string;
+}
+
+export interface IntegrityReport {
+  scannedAt: Date;
+  canvasCount: number;
+  projectCount: number;
+  issues: IntegrityIssue[];
+}
+
+export const INTEGRITY_ISSUE_KINDS: Record<IntegrityIssueKind, { label: string; repair: string }> = {
+  "dangling-canvas-id": {
+    label: "Projects listing deleted canvases",
+    repair: "Remove the missing canvases from the project",
+  },
+  "stray-canvas-id": {
+    label: "Projects listing other projects' canvases",
+    repair: "Keep each canvas only in the project it points at",
+  },
+  "unlisted-canvas": {
+    label: "Canvases missing from their project",
+    repair: "Add the canvas to its project",
+  },
+  "missing-project": {
+    label: "Canvases in a project that does not exist",
+    repair: "Move the canvas to unorganized",
+  },
+  "missing-parent": {
+    label: "Subprojects of a project that does not exist",
+    repair: "Move the subproject to the top level",
+  },
+  "parent-cycle": {
+    label: "Projects nested inside their own subprojects",
+    repair: "Move the project where the loop was found to the top level",
+  },
+  "duplicate-id": {
+    label: "Duplicate ids",
+    repair: "Keep one entry per id (the newest element version)",
+  },
+  "malformed-elements": {
+    label: "Malformed drawing elements",
+    repair: "Drop the elements that cannot be drawn",
+  },
+  "invalid-date": {
+    label: "Invalid dates",
+    repair: "Restore the date from the record's other dates",
+  },
+};
+
+const isValidDate = (value: unknown): value is Date =>
+  value instanceof Date && !Number.isNaN(value.getTime());
+
+const isWellFormedElement = (element: unknown): element is ExcalidrawElement =>
+  typeof element === "object" &&
+  element !== null &&
+  typeof (element as ExcalidrawElement).id === "string" &&
+  (element as ExcalidrawElement).id !== "" &&
+  typeof (element as ExcalidrawElement).type === "string";
+
+const countDuplicates = (ids: string[]): number => ids.length - new Set(ids).size;
+
+// Excalidraw's tie-break (see element-reconcile.ts): the higher version wins, then the lower versionNonce
+const isNewerRevision = (a: ExcalidrawElement, b: ExcalidrawElement): boolean =>
+  a.version > b.version || (a.version === b.version && a.versionNonce < b.versionNonce);
+
+/**
+ * Projects whose parent chain runs into a loop, one per loop: the first project of the loop
+ * reached when walking up from each project in turn. A project nested under itself is a
+ * missing parent instead.
+ */
+function findParentCycleEntries(projectsById: Map<string, UnifiedProject>): Set<string> {
+  const entries = new Set<string>();
+  const walked = new Set<string>(); // Projects whose chain is already known to end or loop
+
+  for (const start of projectsById.values()) {
+    const path = new Set<string>();
+    let current: UnifiedProject | undefined = start;
+    while (current && !walked.has(current.id)) {
+      if (path.has(current.id)) {
+        entries.add(current.id);
+        break;
+      }
+      path.add(current.id);
+      current =
+        current.parentId && current.parentId !== current.id
+          ? projectsById.get(current.parentId)
+          : undefined;
+    }
+    path.forEach((id) => walked.add(id));
+  }
+
+  return entries;
+}
+
+const invalidDateFields = (
+  record: Record<string, unknown>,
+  required: string[],
+  optional: string[],
+): string[] => [
+  ...required.filter((field) => !isValidDate(record[field])),
+  ...optional.filter((field) => record[field] !== undefined && !isValidDate(record[field])),
+];
+
+/**
+ * Every inconsistency between and within the given canvases and projects
+ */
+export function findIntegrityIssues(
+  canvases: UnifiedCanvas[],
+  projects: UnifiedProject[],
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const canvasesById = new Map(canvases.map((canvas) => [canvas.id, canvas]));
+  const projectsById = new Map(projects.map((project) => [project.id, project]));
+  const cycleEntries = findParentCycleEntries(projectsById);
+
+  for (const canvas of canvases) {
+    const report = (kind: IntegrityIssueKind, message: string) =>
+      issues.push({ kind, recordType: "canvas", recordId: canvas.id, recordName: canvas.name, message });
+
+    if (canvas.projectId) {
+      const project = projectsById.get(canvas.projectId);
+      if (!project) {
+        report("missing-project", `Points at project ${canvas.projectId}, which does not exist`);
+      } else if (!project.canvasIds.includes(canvas.id)) {
+        report("unlisted-canvas", `Not listed by its project "${project.name}"`);
+      }
+    }
+
+    if (!Array.isArray(canvas.elements)) {
+      report("malformed-elements", "Has no element list");
+    } else {
+      const malformed = canvas.elements.filter((element) => !isWellFormedElement(element)).length;
+      if (malformed > 0) {
+        report("malformed-elements", `${malformed} element(s) without an id or type`);
+      }
+      const duplicates = countDuplicates(
+        canvas.elements.filter(isWellFormedElement).map((element) => element.id),
+      );
+      if (duplicates > 0) {
+        report("duplicate-id", `${duplicates} element(s) share an id with another element`);
+      }
+    }
+
+    const badDates = invalidDateFields(
+      canvas as unknown as Record<string, unknown>,
+      ["createdAt", "updatedAt"],
+      ["lastEditedAt"],
+    );
+    if (badDates.length > 0) {
+      report("invalid-date", `Invalid ${badDates.join(", ")}`);
+    }
+  }
+
+  for (const project of projects) {
+    const report = (kind: IntegrityIssueKind, message: string) =>
+      issues.push({ kind, recordType: "project", recordId: project.id, recordName: project.name, message });
+
+    const canvasIds = Array.isArray(project.canvasIds) ? project.canvasIds : [];
+    const dangling = canvasIds.filter((id) => !canvasesById.has(id));
+    if (dangling.length > 0) {
+      report("dangling-canvas-id", `Lists ${dangling.length} canvas(es) that no longer exist`);
+    }
+
+    const stray = canvasIds.filter((id) => {
+      const canvas = canvasesById.get(id);
+      return canvas !== undefined && canvas.projectId !== project.id;
+    });
+    if (stray.length > 0) {
+      report("stray-canvas-id", `Lists ${stray.length} canvas(es) that belong elsewhere`);
+    }
+
+    const duplicates = countDuplicates(canvasIds);
+    if (duplicates > 0) {
+      report("duplicate-id", `Lists ${duplicates} canvas(es) more than once`);
+    }
+
+    if (project.parentId && (project.parentId === project.id || !projectsById.has(project.parentId))) {
+      report("missing-parent", `Nested under project ${project.parentId}, which does not exist`);
+    }
+
+    if (cycleEntries.has(project.id)) {
+      report("parent-cycle", `Nested under project ${project.parentId}, which is nested inside it`);
+    }
+
+    const badDates = invalidDateFields(
+      project as unknown as Record<string, unknown>,
+      ["createdAt"],
+      ["updatedAt"],
+    );
+    if (badDates.length > 0) {
+      report("invalid-date", `Invalid ${badDates.join(", ")}`);
+    }
+  }
+
+  return issues;
+}
+
+function repairCanvas(
+  canvas: UnifiedCanvas,
+  projectsById: Map<string, UnifiedProject>,
+  kinds: Set<IntegrityIssueKind>,
+): UnifiedCanvas {
+  let repaired = canvas;
+
+  if (kinds.has("missing-project") && canvas.projectId && !projectsById.has(canvas.projectId)) {
+    repaired = { ...repaired, projectId: undefined };
+  }
+
+  if (kinds.has("malformed-elements")) {
+    if (!Array.isArray(repaired.elements)) {
+      repaired = { ...repaired, elements: [] };
+    } else if (!repaired.elements.every(isWellFormedElement)) {
+      repaired = { ...repaired, elements: repaired.elements.filter(isWellFormedElement) };
+    }
+  }
+
+  if (
+    kinds.has("duplicate-id") &&
+    Array.isArray(repaired.elements) &&
+    countDuplicates(repaired.elements.filter(isWellFormedElement).map((element) => element.id)) > 0
+  ) {
+    // Keep the newest revision of each element, in the position of its first occurrence
+    const newest = new Map<string, ExcalidrawElement>();
+    for (const element of repaired.elements) {
+      if (!isWellFormedElement(element)) continue;
+      const kept = newest.get(element.id);
+      if (!kept || isNewerRevision(element, kept)) {
+        newest.set(element.id, element);
+      }
+    }
+    const placed = new Set<string>();
+    repaired = {
+      ...repaired,
+      elements: repaired.elements.flatMap((element) => {
+        if (!isWellFormedElement(element)) return [element];
+        if (placed.has(element.id)) return [];
+        placed.add(element.id);
+        return [newest.get(element.id) ?? element];
+      }),
+    };
+  }
+
+  if (kinds.has("invalid-date")) {
+    const createdAt = parseDate(repaired.createdAt);
+    const updatedAt = parseDate(repaired.updatedAt);
+    const fallback = updatedAt ?? createdAt ?? new Date();
+    const lastEditedAt = parseDate(repaired.lastEditedAt);
+    if (
+      !isValidDate(repaired.createdAt) ||
+      !isValidDate(repaired.updatedAt) ||
+      (repaired.lastEditedAt !== undefined && !isValidDate(repaired.lastEditedAt))
+    ) {
+      repaired = {
+        ...repaired,
+        createdAt: createdAt ?? fallback,
+        updatedAt: updatedAt ?? fallback,
+        lastEditedAt,
+      };
+    }
+  }
+
+  return repaired;
+}
+
+function repairProject(
+  project: UnifiedProject,
+  canvasesById: Map<string, UnifiedCanvas>,
+  projectsById: Map<string, UnifiedProject>,
+  cycleEntries: Set<string>,
+  kinds: Set<IntegrityIssueKind>,
+): UnifiedProject {
+  let repaired = project;
+  let canvasIds = Array.isArray(project.canvasIds) ? project.canvasIds : [];
+
+  if (kinds.has("duplicate-id")) {
+    canvasIds = Array.from(new Set(canvasIds));
+  }
+  if (kinds.has("dangling-canvas-id")) {
+    canvasIds = canvasIds.filter((id) => canvasesById.has(id));
+  }
+  if (kinds.has("stray-canvas-id")) {
+    canvasIds = canvasIds.filter((id) => {
+      const canvas = canvasesById.get(id);
+      return canvas === undefined || canvas.projectId === project.id;
+    });
+  }
+  if (kinds.has("unlisted-canvas")) {
+    const unlisted = [...canvasesById.values()]
+      .filter((canvas) => canvas.projectId === project.id && !canvasIds.includes(canvas.id))
+      .map((canvas) => canvas.id);
+    canvasIds = [...canvasIds, ...unlisted];
+  }
+  if (
+    canvasIds.length !== project.canvasIds?.length ||
+    canvasIds.some((id, index) => project.canvasIds[index] !== id)
+  ) {
+    repaired = { ...repaired, canvasIds };
+  }
+
+  if (
+    kinds.has("missing-parent") &&
+    project.parentId &&
+    (project.parentId === project.id || !projectsById.has(project.parentId))
+  ) {
+    repaired = { ...repaired, parentId: undefined };
+  }
+
+  if (kinds.has("parent-cycle") && cycleEntries.has(project.id)) {
+    repaired = { ...repaired, parentId: undefined };
+  }
+
+  if (
+    kinds.has("invalid-date") &&
+    (!isValidDate(project.createdAt) ||
+      (project.updatedAt !== undefined && !isValidDate(project.updatedAt)))
+  ) {
+    const createdAt = parseDate(project.createdAt) ?? parseDate(project.updatedAt) ?? new Date();
+    repaired = { ...repaired, createdAt, updatedAt: parseDate(project.updatedAt) ?? createdAt };
+  }
+
+  return repaired;
+}
+
+/**
+ * Fix the issues of the given kinds. Returns only the canvases and projects that changed.
+ */
+export function repairIntegrityIssues(
+  canvases: UnifiedCanvas[],
+  projects: UnifiedProject[],
+  kinds: Set<IntegrityIssueKind>,
+): { canvases: UnifiedCanvas[]; projects: UnifiedProject[] } {
+  const projectsById = new Map(projects.map((project) => [project.id, project]));
+
+  // Canvases first: project membership is rebuilt from their repaired projectId
+  const repairedCanvases = canvases.map((canvas) => repairCanvas(canvas, projectsById, kinds));
+  const canvasesById = new Map(repairedCanvases.map((canvas) => [canvas.id, canvas]));
+  const cycleEntries = findParentCycleEntries(projectsById);
+  const repairedProjects = projects.map((project) =>
+    repairProject(project, canvasesById, projectsById, cycleEntries, kinds),
+  );
+
+  return {
+    canvases: repairedCanvases.filter((canvas, index) => canvas !== canvases[index]),
+    projects: repairedProjects.filter((project, index) => project !== projects[index]),
+  };
+}
@@ -0,0 +1,25 @@
+import { defineConfig } from "vite";
+import react from "@vitejs/plugin-react";
+
+// Popup and options page; regular extension pages, so they may share ES module chunks
+export default defineConfig({
+  plugins: [react()],
+  esbuild: {
+    charset: "ascii",
+  },
+  build: {
+    emptyOutDir: false,
+    target: "esnext",
+    rollupOptions: {
+      input: {
+        popup: "./popup/index.html",
+        options: "./options/index.html",
+      },
+      output: {
+        entryFileNames: "assets/[name].js",
+        chunkFileNames: "assets/[name]-[hash].js",
+        assetFileNames: "assets/[name]-[hash].[ext]",
+      },
+    },
+  },
+});
@@ -0,0 +1,21 @@
+import { defineConfig } from "vite";
+
+// Page-context bridge; injected with "world": "MAIN", so it must be a single self-contained script
+export default defineConfig({
+  esbuild: {
+    charset: "ascii",
+  },
+  build: {
+    emptyOutDir: false,
+    target: "esnext",
+    rollupOptions: {
+      input: {
+        "page-bridge": "./page_script/excalidraw-page-bridge.ts",
+      },
+      output: {
+        entryFileNames: "assets/[name].js",
+        format: "iife",
+      },
+    },
+  },
+});
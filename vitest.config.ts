@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // The storage, merge and migration logic runs outside the browser
+    environment: "node",
+    include: ["shared/**/*.test.ts"],
+  },
+});